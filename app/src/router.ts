@@ -59,6 +59,13 @@ const router = new Router({
         import(/* webpackChunkName: "settings" */ "./views/settings.vue"),
       meta: { login: true },
     },
+    {
+      path: "/agents",
+      name: "agents",
+      component: () =>
+        import(/* webpackChunkName: "agents" */ "./views/agents.vue"),
+      meta: { login: true },
+    },
     {
       path: "/vehicle/:id",
       name: "vehicle",
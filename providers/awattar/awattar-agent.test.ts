@@ -0,0 +1,44 @@
+/**
+ * @file aWATTar agent test against a marketdata response fixture
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import assert from "assert";
+import fs from "fs";
+import path from "path";
+import { test, assertClose } from "@shared/test-runner";
+import { awattarPrices } from "./awattar-agent";
+
+function fixture(name: string): any {
+  return JSON.parse(
+    fs.readFileSync(path.join(__dirname, "fixtures", name), "utf-8")
+  );
+}
+
+test("converts market prices to price per kWh", () => {
+  const prices = awattarPrices(fixture("marketdata.json"));
+  assert.strictEqual(prices.length, 6);
+  assert.strictEqual(prices[0].startAt, "2024-01-14T23:00:00.000Z");
+  assert.strictEqual(prices[5].startAt, "2024-01-15T04:00:00.000Z");
+  assertClose(
+    prices.map((p) => p.price),
+    [0.07802, 0.07415, 0.0716, 0.07002, 0.06948, 0.07095]
+  );
+});
+
+test("repeats hourly prices for quarter hour price lists", () => {
+  const prices = awattarPrices(fixture("marketdata.json"), 15);
+  assert.strictEqual(prices.length, 24);
+  assert.strictEqual(prices[1].startAt, "2024-01-14T23:15:00.000Z");
+  assertClose(
+    prices.slice(0, 5).map((p) => p.price),
+    [0.07802, 0.07802, 0.07802, 0.07802, 0.07415]
+  );
+});
+
+test("handles empty responses", () => {
+  assert.deepStrictEqual(awattarPrices({ object: "list", data: [] }), []);
+  assert.deepStrictEqual(awattarPrices(undefined), []);
+});
@@ -0,0 +1,90 @@
+/**
+ * @file aWATTar agent for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import { SCClient } from "@shared/sc-client";
+import { log, LogLevel } from "@shared/utils";
+import { IProviderAgent } from "@providers/provider-agent";
+import {
+  AbstractPriceAgent,
+  PriceSourceList,
+  resamplePrices,
+} from "@providers/price-agent";
+import { GQLPriceDataInput } from "@shared/sc-schema";
+import provider from ".";
+import config from "./awattar-config";
+import { awattarAPI, AwattarAPI } from "./awattar-api";
+import { v5 as uuidv5 } from "uuid";
+
+const AWATTAR_NAMESPACE = uuidv5("agent.awattar.smartcharge.dev", uuidv5.DNS);
+
+// Convert an aWATTar marketdata response into prices per kWh every interval minutes
+export function awattarPrices(
+  data: any,
+  interval: number = 60
+): GQLPriceDataInput[] {
+  const prices: GQLPriceDataInput[] = [];
+  let step = 60;
+  for (const d of (data && data.data) || []) {
+    const price = Number(d.marketprice);
+    if (!Number.isFinite(price) || !Number.isFinite(d.start_timestamp)) {
+      continue;
+    }
+    if (Number.isFinite(d.end_timestamp)) {
+      step = Math.round((d.end_timestamp - d.start_timestamp) / 60e3);
+    }
+    prices.push({
+      startAt: new Date(d.start_timestamp).toISOString(),
+      price: /mwh/i.test(d.unit || "Eur/MWh") ? price / 1e3 : price,
+    });
+  }
+  return resamplePrices(prices, step, interval);
+}
+
+export class AwattarAgent extends AbstractPriceAgent {
+  public name: string = provider.name;
+  protected namespace: string = AWATTAR_NAMESPACE;
+  private apis: Record<string, AwattarAPI> = {};
+  constructor(scClient: SCClient) {
+    super(scClient);
+  }
+
+  private api(area: string, baseURL: string): AwattarAPI {
+    if (this.apis[area] === undefined) {
+      this.apis[area] = awattarAPI(baseURL);
+    }
+    return this.apis[area];
+  }
+
+  protected async fetch(): Promise<Record<string, any>> {
+    const result: Record<string, any> = {};
+    const start = Math.floor(Date.now() / 3600e3) * 3600e3;
+    for (const entry of config.AWATTAR_AREAS.split(",")) {
+      const [area, baseURL] = entry.split("=").map((s) => s.trim());
+      if (!area || !baseURL) continue;
+      try {
+        result[area] = await this.api(area, baseURL).getMarketData(start);
+      } catch (err) {
+        log(LogLevel.Error, err);
+      }
+    }
+    return result;
+  }
+  protected normalize(raw: Record<string, any>): PriceSourceList[] {
+    return Object.entries(raw).map(([area, data]) => ({
+      area,
+      name: `EU.${area} (aWATTar)`,
+      interval: Number(config.AWATTAR_INTERVAL),
+      prices: awattarPrices(data, Number(config.AWATTAR_INTERVAL)),
+    }));
+  }
+}
+
+const agent: IProviderAgent = {
+  ...provider,
+  agent: (scClient: SCClient) => new AwattarAgent(scClient),
+};
+export default agent;
@@ -0,0 +1,27 @@
+/**
+ * @file aWATTar API helper for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import { RestClient } from "@shared/restclient";
+import provider from ".";
+import { PROJECT_AGENT } from "@shared/smartcharge-defines";
+
+export class AwattarAPI extends RestClient {
+  public async getMarketData(start: number, end?: number) {
+    return this.get(
+      `/v1/marketdata?start=${start}` + (end !== undefined ? `&end=${end}` : "")
+    );
+  }
+}
+export function awattarAPI(baseURL: string): AwattarAPI {
+  return new AwattarAPI({
+    baseURL,
+    headers: {
+      "User-Agent": `${PROJECT_AGENT} ${provider.name}/${provider.version}`,
+    },
+    timeout: 120e3,
+  });
+}
@@ -0,0 +1,14 @@
+const config = {
+  // comma separated list of area=API base url
+  AWATTAR_AREAS: "DE=https://api.awattar.de,AT=https://api.awattar.at",
+  AWATTAR_INTERVAL: 60, // price list resolution in minutes (60 or 15)
+};
+if (process && process.env) {
+  for (const key of Object.keys(config)) {
+    if (process.env[key] !== undefined) {
+      (config as any)[key] = process.env[key];
+    }
+  }
+}
+
+export default config;
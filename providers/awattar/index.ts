@@ -0,0 +1,10 @@
+import { IProvider, ProviderType } from "..";
+
+const provider: IProvider = {
+  name: "awattar",
+  display: "aWATTar",
+  version: "1.0",
+  type: ProviderType.Location,
+};
+
+export default provider;
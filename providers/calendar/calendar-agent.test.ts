@@ -0,0 +1,64 @@
+/**
+ * @file Calendar agent test against an iCalendar fixture
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import assert from "assert";
+import fs from "fs";
+import path from "path";
+import { test } from "@shared/test-runner";
+import { SCClient } from "@shared/sc-client";
+import { AgentWork } from "@providers/provider-agent";
+import { CalendarAgent } from "./calendar-agent";
+
+// Stand-in for the server side of the agent
+class FakeClient {
+  public imported: { vehicleID: string; ics: string }[] = [];
+  public async getCalendarFeeds() {
+    return [
+      { vehicleID: "vehicle-1", url: "webcal://93.184.216.34/feed.ics" },
+      { vehicleID: "vehicle-2", url: "https://127.0.0.1/feed.ics" },
+      { vehicleID: "vehicle-3", url: "http://93.184.216.34/feed.ics" },
+      { vehicleID: "vehicle-4", url: "https://93.184.216.34/missing.ics" },
+    ];
+  }
+  public async serviceImportCalendar(vehicleID: string, ics: string) {
+    this.imported.push({ vehicleID, ics });
+    return true;
+  }
+}
+
+class TestAgent extends CalendarAgent {
+  public fetched: string[] = [];
+  protected async fetchFeed(url: string): Promise<string> {
+    this.fetched.push(url);
+    return fs.readFileSync(
+      path.join(__dirname, "fixtures", path.basename(url)),
+      "utf-8"
+    );
+  }
+}
+
+test("imports public feeds and skips the rest", async () => {
+  const client = new FakeClient();
+  const agent = new TestAgent(client as unknown as SCClient);
+  const job = { interval: 0 } as AgentWork;
+  await agent.globalWork(job);
+
+  assert.deepStrictEqual(agent.fetched, [
+    "https://93.184.216.34/feed.ics",
+    "https://93.184.216.34/missing.ics",
+  ]);
+  assert.deepStrictEqual(client.imported, [
+    {
+      vehicleID: "vehicle-1",
+      ics: fs.readFileSync(
+        path.join(__dirname, "fixtures", "feed.ics"),
+        "utf-8"
+      ),
+    },
+  ]);
+  assert.ok(job.interval > 0);
+});
@@ -0,0 +1,62 @@
+/**
+ * @file Calendar feed agent for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import { SCClient } from "@shared/sc-client";
+import { log, LogLevel } from "@shared/utils";
+import { RestClient } from "@shared/restclient";
+import { calendarFeedURL, publicLookup } from "@shared/public-url";
+import { PROJECT_AGENT } from "@shared/smartcharge-defines";
+import {
+  AbstractAgent,
+  AgentWork,
+  IProviderAgent,
+} from "@providers/provider-agent";
+import provider from ".";
+import config from "./calendar-config";
+
+// Fetches the iCalendar feed of each vehicle and lets the server sync the trips
+export class CalendarAgent extends AbstractAgent {
+  public name: string = provider.name;
+  private client = new RestClient({
+    headers: {
+      "User-Agent": `${PROJECT_AGENT} ${provider.name}/${provider.version}`,
+    },
+    timeout: 60e3,
+    lookup: publicLookup, // re-checked on connect, the feed url is user input
+  });
+  constructor(scClient: SCClient) {
+    super(scClient);
+  }
+
+  public newState() {
+    return {};
+  }
+
+  public async globalWork(job: AgentWork) {
+    for (const feed of await this.scClient.getCalendarFeeds()) {
+      try {
+        const url = await calendarFeedURL(feed.url);
+        const ics = await this.fetchFeed(url);
+        log(LogLevel.Trace, `Sending importCalendar for ${feed.vehicleID}`);
+        await this.scClient.serviceImportCalendar(feed.vehicleID, ics);
+      } catch (err) {
+        log(LogLevel.Error, err);
+      }
+    }
+    job.interval = Number(config.CALENDAR_INTERVAL);
+  }
+
+  protected async fetchFeed(url: string): Promise<string> {
+    return this.client.getText(url);
+  }
+}
+
+const agent: IProviderAgent = {
+  ...provider,
+  agent: (scClient: SCClient) => new CalendarAgent(scClient),
+};
+export default agent;
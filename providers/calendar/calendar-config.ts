@@ -0,0 +1,12 @@
+const config = {
+  CALENDAR_INTERVAL: 15 * 60, // seconds between calendar feed updates
+};
+if (process && process.env) {
+  for (const key of Object.keys(config)) {
+    if (process.env[key] !== undefined) {
+      (config as any)[key] = process.env[key];
+    }
+  }
+}
+
+export default config;
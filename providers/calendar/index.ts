@@ -0,0 +1,10 @@
+import { IProvider, ProviderType } from "..";
+
+const provider: IProvider = {
+  name: "calendar",
+  display: "Calendar",
+  version: "1.0",
+  type: ProviderType.Vehicle,
+};
+
+export default provider;
@@ -0,0 +1,86 @@
+/**
+ * @file ENTSO-E agent test against day-ahead document fixtures
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import assert from "assert";
+import fs from "fs";
+import path from "path";
+import { test, assertClose } from "@shared/test-runner";
+import { SCClient } from "@shared/sc-client";
+import { GQLUpdatePriceInput } from "@shared/sc-schema";
+import config from "./entsoe-config";
+import { entsoePrices, EntsoeAgent } from "./entsoe-agent";
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, "fixtures", name), "utf-8");
+}
+
+test("parses hourly prices and fills left out positions", () => {
+  const prices = entsoePrices(fixture("day-ahead-60m.xml"));
+  assert.strictEqual(prices.length, 24);
+  assert.strictEqual(prices[0].startAt, "2024-01-14T23:00:00.000Z");
+  assert.strictEqual(prices[23].startAt, "2024-01-15T22:00:00.000Z");
+  assertClose(
+    prices.slice(0, 6).map((p) => p.price),
+    [0.07802, 0.07415, 0.0716, 0.07002, 0.07002, 0.07095]
+  );
+});
+
+test("resamples quarter hour prices", () => {
+  const xml = fixture("day-ahead-15m.xml");
+  const hourly = entsoePrices(xml, 60);
+  assert.deepStrictEqual(
+    hourly.map((p) => p.startAt),
+    ["2024-01-15T23:00:00.000Z", "2024-01-16T00:00:00.000Z"]
+  );
+  assertClose(
+    hourly.map((p) => p.price),
+    [0.115, 0.085]
+  );
+  assertClose(
+    entsoePrices(xml, 15).map((p) => p.price),
+    [0.1, 0.11, 0.12, 0.13, 0.08, 0.08, 0.09, 0.09]
+  );
+});
+
+test("ignores acknowledgement documents without data", () => {
+  assert.deepStrictEqual(entsoePrices(fixture("no-data.xml")), []);
+});
+
+test("creates the area price list and sends prices", async () => {
+  config.ENTSOE_INTERVAL = 60;
+  const created: string[] = [];
+  const updates: GQLUpdatePriceInput[] = [];
+  const client = {
+    getPriceList: async () => {
+      throw new Error("not found");
+    },
+    newPriceList: async (name: string, _p: boolean, id: string) => {
+      created.push(name);
+      return { id };
+    },
+    updatePrice: async (input: GQLUpdatePriceInput) => {
+      updates.push(input);
+      return true;
+    },
+  };
+  class TestAgent extends EntsoeAgent {
+    protected async fetch() {
+      return {
+        "DE-LU": fixture("day-ahead-60m.xml"),
+        AT: fixture("no-data.xml"),
+      };
+    }
+  }
+  const agent = new TestAgent(client as unknown as SCClient);
+  const work = { running: false, interval: 0, nextrun: 0 };
+  await agent.globalWork(work);
+
+  assert.deepStrictEqual(created, ["EU.DE-LU (ENTSO-E)"]);
+  assert.strictEqual(updates.length, 1);
+  assert.strictEqual(updates[0].prices.length, 24);
+  assert.ok(work.interval >= 60);
+});
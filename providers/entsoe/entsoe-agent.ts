@@ -0,0 +1,123 @@
+/**
+ * @file ENTSO-E transparency platform agent for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import { SCClient } from "@shared/sc-client";
+import { log, LogLevel } from "@shared/utils";
+import { IProviderAgent } from "@providers/provider-agent";
+import {
+  AbstractPriceAgent,
+  PriceSourceList,
+  resamplePrices,
+} from "@providers/price-agent";
+import { GQLPriceDataInput } from "@shared/sc-schema";
+import provider from ".";
+import config from "./entsoe-config";
+import entsoeAPI from "./entsoe-api";
+import { v5 as uuidv5 } from "uuid";
+
+const ENTSOE_NAMESPACE = uuidv5("agent.entsoe.smartcharge.dev", uuidv5.DNS);
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  const m = xml.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`));
+  return m ? m[1] : undefined;
+}
+
+// Parse a Publication_MarketDocument into prices per kWh every interval minutes
+export function entsoePrices(
+  xml: string,
+  interval: number = 60
+): GQLPriceDataInput[] {
+  let result: GQLPriceDataInput[] = [];
+  for (const period of xml.match(/<Period>[\s\S]*?<\/Period>/g) || []) {
+    const start = xmlValue(period, "start");
+    const end = xmlValue(period, "end");
+    const resolution = (xmlValue(period, "resolution") || "").match(
+      /^PT(\d+)M$/
+    );
+    if (!start || !end || !resolution) continue;
+    const startTime = new Date(start).getTime();
+    const minutes = Number(resolution[1]);
+    const step = minutes * 60e3;
+    const count = Math.round((new Date(end).getTime() - startTime) / step);
+
+    const points: Record<number, number> = {};
+    for (const point of period.match(/<Point>[\s\S]*?<\/Point>/g) || []) {
+      const position = Number(xmlValue(point, "position"));
+      const amount = parseFloat(xmlValue(point, "price.amount") || "");
+      if (Number.isInteger(position) && !isNaN(amount)) {
+        points[position] = amount / 1e3; // EUR/MWh to EUR/kWh
+      }
+    }
+    // Positions with unchanged price can be left out (curve type A03)
+    const prices: GQLPriceDataInput[] = [];
+    let price: number | undefined = undefined;
+    for (let position = 1; position <= count; ++position) {
+      if (points[position] !== undefined) {
+        price = points[position];
+      }
+      if (price !== undefined) {
+        prices.push({
+          startAt: new Date(startTime + (position - 1) * step).toISOString(),
+          price,
+        });
+      }
+    }
+    result = [...result, ...resamplePrices(prices, minutes, interval)];
+  }
+  return result;
+}
+
+export class EntsoeAgent extends AbstractPriceAgent {
+  public name: string = provider.name;
+  protected namespace: string = ENTSOE_NAMESPACE;
+  constructor(scClient: SCClient) {
+    super(scClient);
+  }
+
+  private areas(): [string, string][] {
+    return config.ENTSOE_AREAS.split(",")
+      .map((f) => f.split("=").map((s) => s.trim()) as [string, string])
+      .filter(([area, domain]) => area && domain);
+  }
+
+  protected async fetch(): Promise<Record<string, string>> {
+    const result: Record<string, string> = {};
+    if (!config.ENTSOE_TOKEN) {
+      log(LogLevel.Warning, `Agent ${this.name} has no ENTSOE_TOKEN set`);
+      return result;
+    }
+    const start = new Date(Math.floor(Date.now() / 86400e3) * 86400e3);
+    const end = new Date(start.getTime() + 2 * 86400e3);
+    for (const [area, domain] of this.areas()) {
+      try {
+        result[area] = await entsoeAPI.getDayAheadPrices(
+          config.ENTSOE_TOKEN,
+          domain,
+          start,
+          end
+        );
+      } catch (err) {
+        log(LogLevel.Error, err);
+      }
+    }
+    return result;
+  }
+  protected normalize(raw: Record<string, string>): PriceSourceList[] {
+    return Object.entries(raw).map(([area, xml]) => ({
+      area,
+      name: `EU.${area} (ENTSO-E)`,
+      interval: Number(config.ENTSOE_INTERVAL),
+      prices: entsoePrices(xml, Number(config.ENTSOE_INTERVAL)),
+    }));
+  }
+}
+
+const agent: IProviderAgent = {
+  ...provider,
+  agent: (scClient: SCClient) => new EntsoeAgent(scClient),
+};
+export default agent;
@@ -0,0 +1,41 @@
+/**
+ * @file ENTSO-E transparency platform API helper for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import { RestClient } from "@shared/restclient";
+import config from "./entsoe-config";
+import provider from ".";
+import { PROJECT_AGENT } from "@shared/smartcharge-defines";
+import { DateTime } from "luxon";
+
+function periodTime(time: Date): string {
+  return DateTime.fromJSDate(time, { zone: "UTC" }).toFormat("yyyyMMddHHmm");
+}
+
+export class EntsoeAPI extends RestClient {
+  // Day-ahead prices (document type A44) as XML
+  public async getDayAheadPrices(
+    token: string,
+    domain: string,
+    start: Date,
+    end: Date
+  ): Promise<string> {
+    return this.getText(
+      `/api?securityToken=${encodeURIComponent(token)}&documentType=A44` +
+        `&in_Domain=${encodeURIComponent(domain)}` +
+        `&out_Domain=${encodeURIComponent(domain)}` +
+        `&periodStart=${periodTime(start)}&periodEnd=${periodTime(end)}`
+    );
+  }
+}
+const entsoeAPI = new EntsoeAPI({
+  baseURL: config.ENTSOE_API_BASE_URL,
+  headers: {
+    "User-Agent": `${PROJECT_AGENT} ${provider.name}/${provider.version}`,
+  },
+  timeout: 120e3,
+});
+export default entsoeAPI;
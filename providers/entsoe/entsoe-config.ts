@@ -0,0 +1,16 @@
+const config = {
+  ENTSOE_API_BASE_URL: `https://web-api.tp.entsoe.eu`,
+  ENTSOE_TOKEN: "", // security token from the ENTSO-E transparency platform
+  // comma separated list of area=EIC bidding zone codes
+  ENTSOE_AREAS: "DE-LU=10Y1001A1001A82H,AT=10YAT-APG------L",
+  ENTSOE_INTERVAL: 60, // price list resolution in minutes (60 or 15)
+};
+if (process && process.env) {
+  for (const key of Object.keys(config)) {
+    if (process.env[key] !== undefined) {
+      (config as any)[key] = process.env[key];
+    }
+  }
+}
+
+export default config;
@@ -3,5 +3,12 @@ const config = {
   PAGE: 29,
   CURRENCY: "SEK",
 };
+if (process && process.env) {
+  for (const key of Object.keys(config)) {
+    if (process.env[key] !== undefined) {
+      (config as any)[key] = process.env[key];
+    }
+  }
+}
 
 export default config;
@@ -2,6 +2,7 @@ import provider from "./index";
 import { IContext } from "@server/gql/api";
 import { IProviderServer } from "@providers/provider-server";
 import { DEFAULT_LOCATION_RADIUS } from "@shared/smartcharge-defines";
+import { ChargePlanTrigger } from "@server/logic";
 
 const server: IProviderServer = {
   ...provider,
@@ -32,7 +33,11 @@ const server: IProviderServer = {
             ...data.provider_data
           } as NordpoolProviderData*/
         );
-        await context.logic.refreshChargePlan(undefined, context.accountUUID);
+        await context.logic.refreshChargePlan(
+          undefined,
+          context.accountUUID,
+          ChargePlanTrigger.Location
+        );
         return location;
       }
       default:
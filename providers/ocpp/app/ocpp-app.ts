@@ -0,0 +1,10 @@
+import { IProviderApp } from "@providers/provider-app";
+import provider from "../index";
+import OcppVue from "./ocpp.vue";
+
+const app: IProviderApp = {
+  ...provider,
+  logo: require("./ocpp-logo.svg"),
+  vue: OcppVue,
+};
+export default app;
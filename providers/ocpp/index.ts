@@ -0,0 +1,36 @@
+import { IProvider, ProviderType } from "..";
+
+// client side info
+export interface OcppProviderData {
+  provider: "ocpp";
+  charge_point_id: string; // OCPP charge point identity (last part of the websocket url)
+  connector_id?: number; // connector to control, defaults to 1
+  battery_capacity?: number; // usable battery capacity (kWh) used to estimate level when SoC is not reported
+  maximum_current?: number; // maximum charge current (A) of the connector
+  latitude?: number; // charge point position
+  longitude?: number; // charge point position
+}
+
+// agent side info
+export interface OcppServiceData {
+  charge_point_id: string;
+  authorization_hash?: string; // sha256 of the basic auth password (AuthorizationKey)
+  id_tags?: string[]; // idTags accepted for local authorization
+  updated?: number;
+}
+
+export enum OcppProviderQueries {
+  Vehicles = "vehicles",
+}
+export enum OcppProviderMutates {
+  NewVehicle = "newVehicle",
+}
+
+const provider: IProvider = {
+  name: "ocpp",
+  display: "OCPP Charge Point",
+  version: "1.6J",
+  type: ProviderType.Vehicle,
+};
+
+export default provider;
@@ -0,0 +1,166 @@
+/**
+ * @file OCPP agent test against a scripted fake charge point
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import assert from "assert";
+import { createHash } from "crypto";
+import { test } from "@shared/test-runner";
+import { delay } from "@shared/utils";
+import { SCClient } from "@shared/sc-client";
+import {
+  GQLChargeType,
+  GQLUpdateVehicleDataInput,
+  GQLVehicle,
+} from "@shared/sc-schema";
+import config from "./ocpp-config";
+import { OcppAgent, OcppAgentJob } from "./ocpp-agent";
+import { OcppServiceData, OcppProviderData } from ".";
+import { FakeChargePoint } from "./utils/fake-charge-point";
+
+const PORT = 19220;
+const URL = `ws://localhost:${PORT}`;
+const SERVICE_ID = "service-1";
+const VEHICLE_ID = "vehicle-1";
+const CHARGE_POINT_ID = "cp-1";
+const KEY = "0123456789abcdef0123";
+
+// Stand-in for the server side of the agent
+class FakeClient {
+  public vehicle = {
+    id: VEHICLE_ID,
+    name: "Test vehicle",
+    batteryLevel: 40,
+    maximumLevel: 80,
+    odometer: 1000,
+    geoLocation: { latitude: 59.3, longitude: 18.0 },
+    locationID: "location-1",
+    schedule: [],
+    chargePlan: null,
+    currentLimit: null,
+    providerData: {
+      provider: "ocpp",
+      charge_point_id: CHARGE_POINT_ID,
+      maximum_current: 10,
+    } as OcppProviderData,
+  } as unknown as GQLVehicle;
+  public updates: GQLUpdateVehicleDataInput[] = [];
+
+  public async providerQuery(_name: string, _input: any) {
+    return [{ charge_point_id: CHARGE_POINT_ID, vehicle_uuid: VEHICLE_ID }];
+  }
+  public async getVehicle(_id: string) {
+    return this.vehicle;
+  }
+  public async updateVehicle(_input: any) {
+    return true;
+  }
+  public async updateVehicleData(input: GQLUpdateVehicleDataInput) {
+    this.updates.push(input);
+    return true;
+  }
+}
+
+class TestAgent extends OcppAgent {
+  public async work() {
+    await this.serviceWork(this.services[SERVICE_ID] as OcppAgentJob);
+  }
+}
+
+function fakeChargePoint(id: string = CHARGE_POINT_ID) {
+  return new FakeChargePoint(id, {
+    soc: 40,
+    capacity: 60,
+    current: 16,
+    voltage: 230,
+    phases: 3,
+    interval: 10,
+    speedup: 1,
+    reportSoc: true,
+  });
+}
+
+async function withAgent(
+  fn: (agent: TestAgent, client: FakeClient) => Promise<void>
+) {
+  config.OCPP_PORT = PORT;
+  const client = new FakeClient();
+  const agent = new TestAgent(client as unknown as SCClient);
+  agent.add({
+    ownerID: "owner-1",
+    providerName: "ocpp",
+    serviceID: SERVICE_ID,
+    serviceData: {
+      charge_point_id: CHARGE_POINT_ID,
+      authorization_hash: createHash("sha256").update(KEY).digest("hex"),
+      id_tags: ["card-1"],
+    } as OcppServiceData,
+  });
+  try {
+    await agent.work(); // map the charge point and start listening
+    await fn(agent, client);
+  } finally {
+    await agent.stop();
+  }
+}
+
+test("rejects charge points without valid credentials", () =>
+  withAgent(async () => {
+    await assert.rejects(fakeChargePoint().connect(URL), /401/);
+    await assert.rejects(fakeChargePoint().connect(URL, "wrong key"), /401/);
+    await assert.rejects(fakeChargePoint("cp-2").connect(URL, KEY), /401/);
+  }));
+
+test("authorizes only known id tags", () =>
+  withAgent(async () => {
+    const cp = fakeChargePoint();
+    await cp.connect(URL, KEY);
+    try {
+      await cp.boot();
+      const authorize = async (idTag: string) =>
+        (await cp.call("Authorize", { idTag })).idTagInfo.status;
+      assert.strictEqual(await authorize("card-1"), "Accepted");
+      assert.strictEqual(await authorize(config.OCPP_ID_TAG), "Accepted");
+      assert.strictEqual(await authorize("card-2"), "Invalid");
+
+      await cp.plug();
+      assert.strictEqual(await cp.startTransaction("card-2"), "Invalid");
+      assert.strictEqual(cp.transactionId, undefined);
+    } finally {
+      cp.close();
+    }
+  }));
+
+test("starts and limits charging by plan", () =>
+  withAgent(async (agent, client) => {
+    const cp = fakeChargePoint();
+    await cp.connect(URL, KEY);
+    try {
+      await cp.boot();
+      await cp.plug();
+      client.vehicle.chargePlan = [
+        {
+          chargeType: GQLChargeType.Manual,
+          chargeStart: null,
+          chargeStop: null,
+          level: 80,
+          chargeCurrent: null,
+          comment: "test",
+        },
+      ];
+
+      await agent.work(); // RemoteStartTransaction
+      await delay(100);
+      assert.notStrictEqual(cp.transactionId, undefined);
+
+      await agent.work(); // SetChargingProfile
+      assert.strictEqual(cp.limit, 10);
+      const last = client.updates[client.updates.length - 1];
+      assert.strictEqual(last.maximumCurrent, 10);
+      assert.strictEqual(last.connectedCharger, "AC");
+    } finally {
+      cp.close();
+    }
+  }));
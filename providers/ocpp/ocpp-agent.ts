@@ -0,0 +1,708 @@
+/**
+ * @file OCPP 1.6J charge point agent for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import WebSocket from "ws";
+import { IncomingMessage } from "http";
+import { createHash, timingSafeEqual } from "crypto";
+import {
+  log,
+  LogLevel,
+  numericStartTime,
+  numericStopTime,
+} from "@shared/utils";
+import { SCClient } from "@shared/sc-client";
+import config from "./ocpp-config";
+import {
+  OcppConnection,
+  OcppError,
+  OcppChargePointStatus,
+  OcppChargingProfile,
+  OcppMeterValue,
+  OCPP_PROTOCOL,
+  sampledValue,
+} from "./ocpp-api";
+import {
+  AgentJob,
+  AbstractAgent,
+  IProviderAgent,
+  AgentAction,
+} from "@providers/provider-agent";
+import provider, {
+  OcppServiceData,
+  OcppProviderData,
+  OcppProviderQueries,
+} from ".";
+import {
+  GQLVehicle,
+  GQLUpdateVehicleDataInput,
+  GQLChargeConnection,
+  GQLChargePlan,
+  GQLChargeType,
+  GQLAction,
+  GQLScheduleType,
+} from "@shared/sc-schema";
+import { scheduleMap } from "@shared/sc-utils";
+
+enum ChargeControl {
+  Starting,
+  Started,
+  Stopping,
+  Stopped,
+}
+
+interface OcppSubject {
+  serviceID: string;
+  chargePointID: string;
+  connectorID: number;
+  vehicleUUID: string;
+  data?: GQLVehicle;
+  status: string;
+  connectorStatus?: OcppChargePointStatus; // last StatusNotification for our connector
+  transactionID?: number; // ongoing transaction
+  meterStart?: number; // energy meter at transaction start (Wh)
+  meterNow?: number; // last energy meter value (Wh)
+  levelStart?: number; // battery level at transaction start
+  soc?: number; // state of charge if reported by charge point
+  power?: number; // last active power import (W)
+  currentLimit?: number; // last charging profile limit sent (A)
+  chargeLevel?: number; // level we are charging to
+  chargeControl?: ChargeControl; // keep track of last charge command
+}
+
+interface OcppAgentState {
+  [chargePointID: string]: OcppSubject;
+}
+export interface OcppAgentJob extends AgentJob {
+  serviceData: OcppServiceData;
+  mapped: number;
+  state: OcppAgentState;
+}
+
+// Charge point identity is the last part of the url
+function chargePointIdentity(req: IncomingMessage): string {
+  return decodeURIComponent(
+    (req.url || "").split("?")[0].split("/").pop() || ""
+  );
+}
+
+const CONNECTED_STATUS: string[] = [
+  OcppChargePointStatus.Preparing,
+  OcppChargePointStatus.Charging,
+  OcppChargePointStatus.SuspendedEV,
+  OcppChargePointStatus.SuspendedEVSE,
+  OcppChargePointStatus.Finishing,
+];
+
+export class OcppAgent extends AbstractAgent {
+  public name: string = provider.name;
+  private server?: WebSocket.Server;
+  private connections: { [chargePointID: string]: OcppConnection } = {};
+  constructor(scClient: SCClient) {
+    super(scClient);
+  }
+
+  public newState(): OcppAgentState {
+    return {};
+  }
+
+  private findSubject(chargePointID: string): OcppSubject | undefined {
+    for (const job of Object.values(this.services)) {
+      const subject = (job as OcppAgentJob).state[chargePointID];
+      if (subject !== undefined) {
+        return subject;
+      }
+    }
+    return undefined;
+  }
+
+  private findJob(chargePointID: string): OcppAgentJob | undefined {
+    const subject = this.findSubject(chargePointID);
+    return subject && (this.services[subject.serviceID] as OcppAgentJob);
+  }
+
+  // Wake up the service job to report changes directly
+  private triggerWork(subject: OcppSubject) {
+    const job = this.services[subject.serviceID];
+    if (job) {
+      this.adjustInterval(job, 0);
+    }
+  }
+
+  private listen() {
+    if (this.server) return;
+    const port = Number(config.OCPP_PORT);
+    this.server = new WebSocket.Server({
+      port,
+      handleProtocols: (protocols: Set<string>) =>
+        protocols.has(OCPP_PROTOCOL) ? OCPP_PROTOCOL : false,
+      verifyClient: (info, callback) =>
+        this.verifyClient(info.req)
+          ? callback(true)
+          : callback(false, 401, "Unauthorized", {
+              "WWW-Authenticate": `Basic realm="${this.name}"`,
+            }),
+    });
+    this.server.on("connection", (socket: WebSocket, req: IncomingMessage) =>
+      this.connect(socket, req)
+    );
+    this.server.on("error", (err) => log(LogLevel.Error, err));
+    log(
+      LogLevel.Info,
+      `Agent ${this.name} central system listening on ${port}`
+    );
+  }
+
+  // OCPP security profile 1, the charge point identity and its AuthorizationKey
+  // are sent as basic auth credentials when opening the websocket
+  private verifyClient(req: IncomingMessage): boolean {
+    const chargePointID = chargePointIdentity(req);
+    const job = this.findJob(chargePointID);
+    if (job === undefined || !job.serviceData.authorization_hash) {
+      log(
+        LogLevel.Warning,
+        `${
+          job
+            ? "Charge point without authorization key"
+            : "Unknown charge point"
+        } ${chargePointID} from ${req.socket.remoteAddress} rejected`,
+        { provider: this.name, service_uuid: job && job.serviceID }
+      );
+      return false;
+    }
+    const [scheme, encoded] = (req.headers.authorization || "").split(" ");
+    const credentials =
+      scheme === "Basic" && encoded
+        ? Buffer.from(encoded, "base64").toString()
+        : "";
+    const split = credentials.indexOf(":");
+    const hash = createHash("sha256")
+      .update(credentials.slice(split + 1))
+      .digest();
+    const expected = Buffer.from(job.serviceData.authorization_hash, "hex");
+    if (
+      split < 0 ||
+      credentials.slice(0, split) !== chargePointID ||
+      hash.length !== expected.length ||
+      !timingSafeEqual(hash, expected)
+    ) {
+      log(
+        LogLevel.Warning,
+        `Invalid credentials for charge point ${chargePointID} from ${req.socket.remoteAddress} rejected`,
+        { provider: this.name, service_uuid: job.serviceID }
+      );
+      return false;
+    }
+    return true;
+  }
+
+  // idTags accepted in Authorize and StartTransaction
+  private authorizeTag(job: OcppAgentJob, idTag: string): string {
+    return idTag === config.OCPP_ID_TAG ||
+      (job.serviceData.id_tags || []).includes(idTag)
+      ? "Accepted"
+      : "Invalid";
+  }
+
+  private connect(socket: WebSocket, req: IncomingMessage) {
+    const chargePointID = chargePointIdentity(req);
+    if (this.findSubject(chargePointID) === undefined) {
+      log(
+        LogLevel.Warning,
+        `Unknown charge point ${chargePointID} from ${req.socket.remoteAddress} rejected`
+      );
+      socket.close(1008, "Unknown charge point");
+      return;
+    }
+    const previous = this.connections[chargePointID];
+    if (previous !== undefined) {
+      previous.close();
+    }
+    log(
+      LogLevel.Info,
+      `Charge point ${chargePointID} connected from ${req.socket.remoteAddress}`
+    );
+    const connection = new OcppConnection(
+      chargePointID,
+      socket,
+      (action, payload) => this.handleCall(chargePointID, action, payload),
+      Number(config.OCPP_CALL_TIMEOUT)
+    );
+    this.connections[chargePointID] = connection;
+    socket.on("close", () => {
+      if (this.connections[chargePointID] === connection) {
+        log(LogLevel.Info, `Charge point ${chargePointID} disconnected`);
+        delete this.connections[chargePointID];
+        const subject = this.findSubject(chargePointID);
+        if (subject) {
+          this.triggerWork(subject);
+        }
+      }
+    });
+  }
+
+  // Calls initiated by the charge point
+  private async handleCall(
+    chargePointID: string,
+    action: string,
+    payload: any
+  ): Promise<any> {
+    const subject = this.findSubject(chargePointID);
+    const job = this.findJob(chargePointID);
+    if (subject === undefined || job === undefined) {
+      throw new OcppError("SecurityError", "Unknown charge point");
+    }
+    const now = new Date();
+    switch (action) {
+      case "BootNotification":
+        log(
+          LogLevel.Info,
+          `Charge point ${chargePointID} booted (${payload.chargePointVendor} ${payload.chargePointModel})`
+        );
+        return {
+          status: "Accepted",
+          currentTime: now.toISOString(),
+          interval: Number(config.OCPP_HEARTBEAT_INTERVAL),
+        };
+      case "Heartbeat":
+        return { currentTime: now.toISOString() };
+      case "Authorize":
+        return { idTagInfo: { status: this.authorizeTag(job, payload.idTag) } };
+      case "StatusNotification":
+        if (payload.connectorId === subject.connectorID) {
+          if (subject.connectorStatus !== payload.status) {
+            subject.connectorStatus = payload.status;
+            this.triggerWork(subject);
+          }
+        }
+        return {};
+      case "StartTransaction": {
+        if (payload.connectorId !== subject.connectorID) {
+          return { transactionId: 0, idTagInfo: { status: "Invalid" } };
+        }
+        const status = this.authorizeTag(job, payload.idTag);
+        if (status !== "Accepted") {
+          log(
+            LogLevel.Warning,
+            `${chargePointID} transaction with unknown idTag ${payload.idTag} rejected`,
+            { provider: this.name, service_uuid: job.serviceID }
+          );
+          return { transactionId: 0, idTagInfo: { status } };
+        }
+        subject.transactionID = Math.floor(now.getTime() / 1e3) % 0x7fffffff;
+        subject.meterStart = payload.meterStart;
+        subject.meterNow = payload.meterStart;
+        subject.levelStart =
+          subject.soc !== undefined
+            ? subject.soc
+            : subject.data && subject.data.batteryLevel;
+        subject.currentLimit = undefined;
+        if (subject.chargeControl !== ChargeControl.Starting) {
+          subject.chargeControl = undefined; // transaction started by user
+        }
+        this.triggerWork(subject);
+        return {
+          transactionId: subject.transactionID,
+          idTagInfo: { status: "Accepted" },
+        };
+      }
+      case "StopTransaction":
+        if (payload.transactionId === subject.transactionID) {
+          if (payload.meterStop !== undefined) {
+            subject.meterNow = payload.meterStop;
+          }
+          subject.transactionID = undefined;
+          subject.currentLimit = undefined;
+          subject.power = 0;
+          this.triggerWork(subject);
+        }
+        return { idTagInfo: { status: "Accepted" } };
+      case "MeterValues":
+        if (payload.connectorId === subject.connectorID) {
+          this.meterValues(subject, payload.meterValue || []);
+        }
+        return {};
+      case "DataTransfer":
+        return { status: "UnknownVendorId" };
+      case "DiagnosticsStatusNotification":
+      case "FirmwareStatusNotification":
+        return {};
+      default:
+        throw new OcppError(
+          "NotImplemented",
+          `${action} is not implemented by smartcharge`
+        );
+    }
+  }
+
+  private meterValues(subject: OcppSubject, meterValue: OcppMeterValue[]) {
+    for (const m of meterValue) {
+      let power = 0;
+      let phasePower = 0;
+      let hasPower = false;
+      for (const s of m.sampledValue || []) {
+        const value = sampledValue(s);
+        if (!Number.isFinite(value)) continue;
+        switch (s.measurand || "Energy.Active.Import.Register") {
+          case "Energy.Active.Import.Register":
+            if (!s.phase) subject.meterNow = value;
+            break;
+          case "Power.Active.Import":
+            hasPower = true;
+            if (s.phase) {
+              phasePower += value;
+            } else {
+              power = value;
+            }
+            break;
+          case "SoC":
+            subject.soc = Math.trunc(value);
+            break;
+        }
+      }
+      if (hasPower) {
+        subject.power = power || phasePower;
+      }
+    }
+  }
+
+  public async setStatus(subject: OcppSubject, status: string) {
+    if (subject.status !== status) {
+      this.scClient.updateVehicle({ id: subject.vehicleUUID, status: status });
+      subject.status = status;
+    }
+  }
+
+  private async setChargingProfile(
+    subject: OcppSubject,
+    connection: OcppConnection,
+    limit: number
+  ): Promise<boolean> {
+    const profile: OcppChargingProfile = {
+      chargingProfileId: 1,
+      transactionId: subject.transactionID,
+      stackLevel: 0,
+      chargingProfilePurpose: "TxProfile",
+      chargingProfileKind: "Relative",
+      chargingSchedule: {
+        chargingRateUnit: "A",
+        chargingSchedulePeriod: [{ startPeriod: 0, limit }],
+      },
+    };
+    const result = await connection.call("SetChargingProfile", {
+      connectorId: subject.connectorID,
+      csChargingProfiles: profile,
+    });
+    if (result.status === "Accepted") {
+      subject.currentLimit = limit;
+      return true;
+    }
+    log(
+      LogLevel.Warning,
+      `${subject.chargePointID} SetChargingProfile ${limit}A returned ${result.status}`
+    );
+    return false;
+  }
+
+  private async remoteStop(subject: OcppSubject, connection: OcppConnection) {
+    const result = await connection.call("RemoteStopTransaction", {
+      transactionId: subject.transactionID,
+    });
+    if (result.status === "Accepted") {
+      subject.chargeControl = ChargeControl.Stopping;
+    }
+  }
+
+  private async poll(job: OcppAgentJob, subject: OcppSubject): Promise<void> {
+    const now = Date.now();
+
+    subject.data = await this.scClient.getVehicle(subject.vehicleUUID);
+    if (subject.data.providerData.disabled) return;
+    const providerData = subject.data.providerData as OcppProviderData;
+
+    const connection = this.connections[subject.chargePointID];
+    if (connection === undefined || !connection.open) {
+      await this.setStatus(subject, "Offline");
+      this.adjustInterval(job, Number(config.OCPP_POLL_INTERVAL));
+      return;
+    }
+
+    const capacity =
+      Number(providerData.battery_capacity) ||
+      Number(config.DEFAULT_BATTERY_CAPACITY);
+    const maxCurrent =
+      Number(providerData.maximum_current) ||
+      Number(config.DEFAULT_MAXIMUM_CURRENT);
+    const isConnected =
+      subject.connectorStatus !== undefined &&
+      CONNECTED_STATUS.includes(subject.connectorStatus);
+    const isCharging =
+      subject.connectorStatus === OcppChargePointStatus.Charging &&
+      subject.transactionID !== undefined;
+
+    const energyAdded =
+      subject.transactionID !== undefined &&
+      subject.meterStart !== undefined &&
+      subject.meterNow !== undefined
+        ? (subject.meterNow - subject.meterStart) / 1e3 // Wh to kWh
+        : null;
+
+    // Use reported SoC if available, otherwise estimate from added energy
+    let level = subject.data.batteryLevel;
+    if (subject.soc !== undefined) {
+      level = subject.soc;
+    } else if (energyAdded !== null && subject.levelStart !== undefined) {
+      level = Math.min(
+        100,
+        Math.trunc(subject.levelStart + (energyAdded / capacity) * 100)
+      );
+    }
+
+    const chargingTo = isCharging
+      ? subject.chargeLevel || subject.data.maximumLevel
+      : null;
+    const powerUse = isCharging ? (subject.power || 0) / 1e3 : null; // W to kW
+
+    const geoLocation =
+      providerData.latitude !== undefined &&
+      providerData.longitude !== undefined
+        ? { latitude: providerData.latitude, longitude: providerData.longitude }
+        : subject.data.geoLocation;
+    if (!geoLocation) {
+      log(
+        LogLevel.Warning,
+        `${subject.chargePointID} has no position, unable to update ${subject.vehicleUUID}`
+      );
+      return;
+    }
+
+    // Update info
+    const input: GQLUpdateVehicleDataInput = {
+      id: subject.vehicleUUID,
+      geoLocation: {
+        latitude: geoLocation.latitude,
+        longitude: geoLocation.longitude,
+      },
+      batteryLevel: level,
+      odometer: subject.data.odometer, // charge point does not know anything about driving
+      outsideTemperature: null,
+      insideTemperature: null,
+      climateControl: false,
+      isDriving: false,
+      connectedCharger: isConnected ? GQLChargeConnection.AC : null,
+      chargingTo: chargingTo,
+      estimatedTimeLeft:
+        chargingTo !== null && powerUse
+          ? Math.round(
+              ((Math.max(0, chargingTo - level) / 100) * capacity * 60) /
+                powerUse
+            )
+          : null,
+      powerUse: powerUse,
+      energyAdded: energyAdded,
+      maximumCurrent: maxCurrent,
+    };
+
+    // Set status
+    if (subject.connectorStatus === OcppChargePointStatus.Faulted) {
+      await this.setStatus(subject, "Charge point faulted");
+    } else if (isCharging) {
+      await this.setStatus(subject, "Charging");
+    } else if (isConnected) {
+      await this.setStatus(subject, "Connected");
+    } else {
+      await this.setStatus(subject, "Disconnected");
+    }
+    this.adjustInterval(
+      job,
+      isCharging ? 30 : Number(config.OCPP_POLL_INTERVAL)
+    );
+    await this.scClient.updateVehicleData(input);
+
+    subject.data = await this.scClient.getVehicle(subject.vehicleUUID);
+
+    // Reduce the array to a map with only the first upcoming event of each type
+    const schedule = scheduleMap(subject.data.schedule);
+    const disabled = schedule[GQLScheduleType.Disable];
+    if (disabled && now < numericStopTime(disabled.time)) {
+      // Command disabled
+      return;
+    }
+
+    if (!isConnected) {
+      subject.chargeControl = undefined;
+      subject.chargeLevel = undefined;
+      return;
+    }
+
+    // Command logic
+    if (isCharging && subject.chargeControl === ChargeControl.Starting) {
+      subject.chargeControl = ChargeControl.Started;
+    } else if (
+      subject.transactionID === undefined &&
+      subject.chargeControl === ChargeControl.Stopping
+    ) {
+      subject.chargeControl = ChargeControl.Stopped;
+    }
+
+    // do we have a charge plan
+    let shouldCharge: GQLChargePlan | undefined = undefined;
+    let disableCharge: boolean = false;
+    let upcoming: boolean = false;
+    if (subject.data.chargePlan) {
+      for (const p of subject.data.chargePlan) {
+        if (p.chargeType === GQLChargeType.Disable) {
+          disableCharge = true;
+        } else if (
+          (p.chargeType === GQLChargeType.Manual && p.chargeStart === null) ||
+          (now >= numericStartTime(p.chargeStart) &&
+            now < numericStopTime(p.chargeStop))
+        ) {
+          shouldCharge = p;
+          break;
+        } else if (numericStartTime(p.chargeStart) > now) {
+          upcoming = true;
+        }
+      }
+    }
+
+    // location load balancing pauses charging while the main fuse is busy
+    if (shouldCharge !== undefined && subject.data.currentLimit === 0) {
+      shouldCharge = undefined;
+      upcoming = true;
+    }
+
+    if (shouldCharge !== undefined && level < shouldCharge.level) {
+      subject.chargeLevel = shouldCharge.level;
+      if (subject.transactionID === undefined) {
+        if (
+          subject.chargeControl !== ChargeControl.Starting &&
+          subject.connectorStatus !== OcppChargePointStatus.Finishing
+        ) {
+          log(
+            LogLevel.Info,
+            `${subject.chargePointID} start charging ${subject.data.name}`
+          );
+          const result = await connection.call("RemoteStartTransaction", {
+            connectorId: subject.connectorID,
+            idTag: config.OCPP_ID_TAG,
+          });
+          if (result.status === "Accepted") {
+            subject.chargeControl = ChargeControl.Starting;
+          } else {
+            log(
+              LogLevel.Warning,
+              `${subject.chargePointID} RemoteStartTransaction returned ${result.status}`
+            );
+          }
+        }
+      } else {
+        const current = Math.min(
+          maxCurrent,
+          shouldCharge.chargeCurrent || maxCurrent,
+          subject.data.currentLimit || maxCurrent
+        );
+        if (subject.currentLimit !== current) {
+          log(
+            LogLevel.Info,
+            `${subject.chargePointID} ${
+              subject.currentLimit ? "adjust" : "resume"
+            } charging ${subject.data.name} at ${current}A`
+          );
+          await this.setChargingProfile(subject, connection, current);
+          subject.chargeControl = ChargeControl.Starting;
+        }
+      }
+    } else if (
+      subject.transactionID !== undefined &&
+      subject.chargeControl !== ChargeControl.Stopping &&
+      (subject.data.locationID !== null || disableCharge) // known location or force disable
+    ) {
+      if (upcoming && !disableCharge) {
+        // Pause charging but keep the transaction for the next planned slot
+        if (subject.currentLimit !== 0) {
+          log(
+            LogLevel.Info,
+            `${subject.chargePointID} pause charging ${subject.data.name}`
+          );
+          if (!(await this.setChargingProfile(subject, connection, 0))) {
+            await this.remoteStop(subject, connection);
+          }
+        }
+      } else {
+        log(
+          LogLevel.Info,
+          `${subject.chargePointID} stop charging ${subject.data.name}`
+        );
+        await this.remoteStop(subject, connection);
+      }
+    }
+  }
+
+  public async serviceWork(job: OcppAgentJob) {
+    if (
+      !job.mapped ||
+      (job.serviceData.updated && job.mapped < job.serviceData.updated)
+    ) {
+      const state: OcppAgentState = {};
+      const list = await this.scClient.providerQuery("ocpp", {
+        query: OcppProviderQueries.Vehicles,
+        service_uuid: job.serviceID,
+      });
+      for (const v of list) {
+        const chargePointID = v.charge_point_id;
+        state[chargePointID] = job.state[chargePointID] || {
+          serviceID: job.serviceID,
+          chargePointID,
+          connectorID: v.connector_id || 1,
+          vehicleUUID: v.vehicle_uuid,
+          status: "",
+        };
+        log(
+          LogLevel.Debug,
+          `Service ${job.serviceID} mapping charge point ${chargePointID} -> UUID ${v.vehicle_uuid}`
+        );
+      }
+      job.state = state;
+      job.mapped = Date.now();
+    }
+    this.listen();
+
+    for (const s of Object.values(job.state)) {
+      await this.poll(job, s);
+    }
+  }
+
+  public async [AgentAction.Refresh](
+    job: OcppAgentJob,
+    action: GQLAction
+  ): Promise<any> {
+    for (const subject of Object.values(job.state)) {
+      if (subject.vehicleUUID === action.data.id) {
+        this.adjustInterval(job, 0);
+        return true;
+      }
+    }
+  }
+
+  public async stop() {
+    await super.stop();
+    for (const c of Object.values(this.connections)) {
+      c.close();
+    }
+    this.connections = {};
+    if (this.server) {
+      this.server.close();
+      this.server = undefined;
+    }
+  }
+}
+
+const agent: IProviderAgent = {
+  ...provider,
+  agent: (scClient: SCClient) => new OcppAgent(scClient),
+};
+export default agent;
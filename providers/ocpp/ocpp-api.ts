@@ -0,0 +1,218 @@
+/**
+ * @file OCPP 1.6J protocol helper for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import WebSocket from "ws";
+import { log, LogLevel } from "@shared/utils";
+
+export const OCPP_PROTOCOL = "ocpp1.6";
+
+export enum OcppMessageType {
+  Call = 2,
+  CallResult = 3,
+  CallError = 4,
+}
+
+export type OcppErrorCode =
+  | "NotImplemented"
+  | "NotSupported"
+  | "InternalError"
+  | "ProtocolError"
+  | "SecurityError"
+  | "FormationViolation"
+  | "PropertyConstraintViolation"
+  | "OccurenceConstraintViolation"
+  | "TypeConstraintViolation"
+  | "GenericError";
+
+export class OcppError extends Error {
+  constructor(public code: OcppErrorCode, message: string) {
+    super(message);
+  }
+}
+
+export enum OcppChargePointStatus {
+  Available = "Available",
+  Preparing = "Preparing",
+  Charging = "Charging",
+  SuspendedEVSE = "SuspendedEVSE",
+  SuspendedEV = "SuspendedEV",
+  Finishing = "Finishing",
+  Reserved = "Reserved",
+  Unavailable = "Unavailable",
+  Faulted = "Faulted",
+}
+
+export interface OcppSampledValue {
+  value: string;
+  context?: string;
+  format?: string;
+  measurand?: string; // defaults to Energy.Active.Import.Register
+  phase?: string;
+  location?: string;
+  unit?: string;
+}
+export interface OcppMeterValue {
+  timestamp: string;
+  sampledValue: OcppSampledValue[];
+}
+export interface OcppChargingProfile {
+  chargingProfileId: number;
+  transactionId?: number;
+  stackLevel: number;
+  chargingProfilePurpose:
+    | "ChargePointMaxProfile"
+    | "TxDefaultProfile"
+    | "TxProfile";
+  chargingProfileKind: "Absolute" | "Recurring" | "Relative";
+  chargingSchedule: {
+    chargingRateUnit: "A" | "W";
+    chargingSchedulePeriod: {
+      startPeriod: number;
+      limit: number;
+      numberPhases?: number;
+    }[];
+  };
+}
+
+export interface OcppCallHandler {
+  (action: string, payload: any): Promise<any>;
+}
+
+// Convert a sampled value to base unit (Wh, W, A, V or %)
+export function sampledValue(s: OcppSampledValue): number {
+  const value = Number.parseFloat(s.value);
+  switch (s.unit) {
+    case "kWh":
+    case "kW":
+      return value * 1e3;
+    default:
+      return value;
+  }
+}
+
+/**
+ * JSON-RPC like message framing used by OCPP-J, shared by the central system
+ * in the agent and the fake charge point utility
+ */
+export class OcppConnection {
+  private sequence: number = 0;
+  private pending: {
+    [uniqueId: string]: {
+      action: string;
+      resolve: (payload: any) => void;
+      reject: (err: Error) => void;
+      timer: NodeJS.Timeout;
+    };
+  } = {};
+
+  constructor(
+    public id: string,
+    private socket: WebSocket,
+    private handler: OcppCallHandler,
+    private timeout: number = 30e3
+  ) {
+    socket.on("message", (data) => this.receive(data.toString()));
+    socket.on("close", () => {
+      for (const [uniqueId, p] of Object.entries(this.pending)) {
+        clearTimeout(p.timer);
+        p.reject(new Error(`${this.id} connection closed during ${p.action}`));
+        delete this.pending[uniqueId];
+      }
+    });
+  }
+
+  public get open(): boolean {
+    return this.socket.readyState === WebSocket.OPEN;
+  }
+
+  private send(message: any[]) {
+    const s = JSON.stringify(message);
+    log(LogLevel.Trace, `${this.id} <= ${s}`);
+    this.socket.send(s);
+  }
+
+  public call(action: string, payload: any): Promise<any> {
+    const uniqueId = `${Date.now().toString(36)}${(++this.sequence).toString(
+      36
+    )}`;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        delete this.pending[uniqueId];
+        reject(new Error(`${this.id} timeout waiting for ${action} response`));
+      }, this.timeout);
+      this.pending[uniqueId] = { action, resolve, reject, timer };
+      try {
+        this.send([OcppMessageType.Call, uniqueId, action, payload]);
+      } catch (err: any) {
+        clearTimeout(timer);
+        delete this.pending[uniqueId];
+        reject(err);
+      }
+    });
+  }
+
+  private async receive(data: string) {
+    log(LogLevel.Trace, `${this.id} => ${data}`);
+    let message: any;
+    try {
+      message = JSON.parse(data);
+    } catch (err) {
+      log(LogLevel.Warning, `${this.id} sent invalid JSON ${data}`);
+      return;
+    }
+    if (!Array.isArray(message) || typeof message[1] !== "string") {
+      log(LogLevel.Warning, `${this.id} sent invalid message ${data}`);
+      return;
+    }
+    const [type, uniqueId] = message;
+    switch (type) {
+      case OcppMessageType.Call: {
+        const [, , action, payload] = message;
+        try {
+          const result = await this.handler(action, payload || {});
+          this.send([OcppMessageType.CallResult, uniqueId, result]);
+        } catch (err: any) {
+          if (!(err instanceof OcppError)) {
+            log(LogLevel.Error, err);
+          }
+          this.send([
+            OcppMessageType.CallError,
+            uniqueId,
+            err instanceof OcppError ? err.code : "InternalError",
+            err.message || "",
+            {},
+          ]);
+        }
+        break;
+      }
+      case OcppMessageType.CallResult:
+      case OcppMessageType.CallError: {
+        const p = this.pending[uniqueId];
+        if (p === undefined) {
+          log(LogLevel.Warning, `${this.id} unexpected response ${data}`);
+          return;
+        }
+        clearTimeout(p.timer);
+        delete this.pending[uniqueId];
+        if (type === OcppMessageType.CallResult) {
+          p.resolve(message[2]);
+        } else {
+          p.reject(
+            new OcppError(message[2], `${p.action}: ${message[3] || ""}`)
+          );
+        }
+        break;
+      }
+      default:
+        log(LogLevel.Warning, `${this.id} unknown message type ${data}`);
+    }
+  }
+
+  public close() {
+    this.socket.close();
+  }
+}
@@ -0,0 +1,20 @@
+const config = {
+  OCPP_PORT: 9220, // central system websocket port, charge points connect to ws://host:port/<charge point id>
+  OCPP_HEARTBEAT_INTERVAL: 300, // heartbeat interval (seconds) sent in BootNotification response
+  OCPP_CALL_TIMEOUT: 30e3, // time to wait for a charge point to answer a call
+  OCPP_ID_TAG: "smartcharge", // idTag used for RemoteStartTransaction
+  OCPP_POLL_INTERVAL: 60,
+
+  DEFAULT_MAXIMUM_LEVEL: 90,
+  DEFAULT_MAXIMUM_CURRENT: 16, // current limit (A) for charge points without a configured maximum
+  DEFAULT_BATTERY_CAPACITY: 60, // kWh
+};
+if (process && process.env) {
+  for (const key of Object.keys(config)) {
+    if (process.env[key] !== undefined) {
+      (config as any)[key] = process.env[key];
+    }
+  }
+}
+
+export default config;
@@ -0,0 +1,139 @@
+import { IContext, accountFilter } from "@server/gql/api";
+import provider, {
+  OcppProviderMutates,
+  OcppProviderQueries,
+  OcppProviderData,
+  OcppServiceData,
+} from "./index";
+import { ApolloError } from "apollo-server-express";
+import { createHash } from "crypto";
+import { log, LogLevel } from "@shared/utils";
+import { IProviderServer } from "@providers/provider-server";
+import config from "./ocpp-config";
+import { DBServiceProvider } from "@server/db-schema";
+
+export interface OcppNewVehicleInput {
+  name: string;
+  charge_point_id: string;
+  authorization_key: string; // basic auth password configured in the charge point
+  id_tags?: string[];
+  connector_id?: number;
+  battery_capacity?: number;
+  maximum_current?: number;
+  maximum_level?: number;
+  latitude?: number;
+  longitude?: number;
+}
+
+const server: IProviderServer = {
+  ...provider,
+  query: async (data: any, context: IContext) => {
+    switch (data.query) {
+      case OcppProviderQueries.Vehicles: {
+        const vehicles = await context.db.getVehicles(
+          accountFilter(context.accountUUID)
+        );
+        return vehicles
+          .filter(
+            (v) =>
+              v.provider_data &&
+              v.provider_data.provider === provider.name &&
+              (data.service_uuid === undefined ||
+                v.service_uuid === data.service_uuid)
+          )
+          .map((v) => {
+            const provider_data = v.provider_data as OcppProviderData;
+            return {
+              vehicle_uuid: v.vehicle_uuid,
+              service_uuid: v.service_uuid,
+              name: v.name,
+              charge_point_id: provider_data.charge_point_id,
+              connector_id: provider_data.connector_id,
+            };
+          });
+      }
+      default:
+        throw new Error(`Invalid query ${data.query} sent to ocpp-server`);
+    }
+  },
+  mutation: async (data: any, context: IContext) => {
+    switch (data.mutation) {
+      case OcppProviderMutates.NewVehicle: {
+        const input = data.input as OcppNewVehicleInput;
+        log(
+          LogLevel.Trace,
+          `OcppProviderMutates.NewVehicle(${JSON.stringify(input)})`
+        );
+        if (
+          typeof input.charge_point_id !== "string" ||
+          input.charge_point_id.length < 1
+        ) {
+          throw new ApolloError("Invalid charge point id");
+        }
+        if (
+          typeof input.authorization_key !== "string" ||
+          input.authorization_key.length < 16 ||
+          input.authorization_key.length > 40
+        ) {
+          throw new ApolloError(
+            "Authorization key must be between 16 and 40 characters"
+          );
+        }
+        const existing: DBServiceProvider | null =
+          await context.db.pg.oneOrNone(
+            `SELECT * FROM service_provider WHERE provider_name = $1 AND service_data @> $2 LIMIT 1;`,
+            [provider.name, { charge_point_id: input.charge_point_id }]
+          );
+        if (existing) {
+          throw new ApolloError(
+            `Charge point ${input.charge_point_id} is already in use`
+          );
+        }
+
+        const service: DBServiceProvider = await context.db.pg.one(
+          `INSERT INTO service_provider(account_uuid, provider_name, service_data)
+            VALUES ($1,$2,$3) RETURNING *;`,
+          [
+            context.accountUUID,
+            provider.name,
+            {
+              charge_point_id: input.charge_point_id,
+              authorization_hash: createHash("sha256")
+                .update(input.authorization_key)
+                .digest("hex"),
+              id_tags: (input.id_tags || []).filter(
+                (f) => typeof f === "string" && f.length > 0
+              ),
+              updated: Date.now(),
+            } as OcppServiceData,
+          ]
+        );
+        const vehicle = await context.db.newVehicle(
+          context.accountUUID,
+          input.name,
+          input.maximum_level || config.DEFAULT_MAXIMUM_LEVEL,
+          service.service_uuid,
+          {
+            provider: "ocpp",
+            charge_point_id: input.charge_point_id,
+            connector_id: input.connector_id,
+            battery_capacity: input.battery_capacity,
+            maximum_current: input.maximum_current,
+            latitude: input.latitude,
+            longitude: input.longitude,
+          } as OcppProviderData
+        );
+        log(
+          LogLevel.Trace,
+          `context.db.newVehicle returned ${JSON.stringify(vehicle)})`
+        );
+        return vehicle;
+      }
+      default:
+        throw new Error(
+          `Invalid mutation ${data.mutation} sent to ocpp-server`
+        );
+    }
+  },
+};
+export default server;
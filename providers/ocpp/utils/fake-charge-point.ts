@@ -0,0 +1,242 @@
+/**
+ * @file Fake OCPP 1.6J charge point used by ocpp-fake-cp and the ocpp agent test
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import WebSocket from "ws";
+import { log, LogLevel } from "@shared/utils";
+import {
+  OcppConnection,
+  OcppError,
+  OcppChargePointStatus,
+  OCPP_PROTOCOL,
+} from "../ocpp-api";
+
+export interface FakeOptions {
+  soc: number; // initial state of charge (%)
+  capacity: number; // battery capacity (kWh)
+  current: number; // maximum current (A)
+  voltage: number;
+  phases: number;
+  interval: number; // seconds between meter values
+  speedup: number; // simulated seconds per real second
+  reportSoc: boolean;
+}
+
+export class FakeChargePoint {
+  private connection?: OcppConnection;
+  public status: OcppChargePointStatus = OcppChargePointStatus.Unavailable;
+  public transactionId?: number;
+  public limit: number; // current limit from charging profile (A)
+  public meter: number = 0; // energy meter (Wh)
+  public soc: number;
+  public plugged: boolean = false;
+  public heartbeatInterval: number = 0; // seconds, from BootNotification
+
+  constructor(public id: string, private options: FakeOptions) {
+    this.limit = options.current;
+    this.soc = options.soc;
+  }
+
+  public get connected(): boolean {
+    return this.connection !== undefined && this.connection.open;
+  }
+
+  // Calls to the central system, resolves with the CallResult payload
+  public call(action: string, payload: any): Promise<any> {
+    if (!this.connection) {
+      throw new Error(`${this.id} is not connected`);
+    }
+    return this.connection.call(action, payload);
+  }
+
+  // Open the websocket using basic auth if an authorization key is given
+  public async connect(url: string, authorizationKey?: string) {
+    const socket = new WebSocket(
+      `${url.replace(/\/$/, "")}/${encodeURIComponent(this.id)}`,
+      OCPP_PROTOCOL,
+      authorizationKey !== undefined
+        ? {
+            headers: {
+              Authorization: `Basic ${Buffer.from(
+                `${this.id}:${authorizationKey}`
+              ).toString("base64")}`,
+            },
+          }
+        : {}
+    );
+    await new Promise((resolve, reject) => {
+      socket.once("open", resolve);
+      socket.once("error", reject);
+    });
+    this.connection = new OcppConnection(this.id, socket, (action, payload) =>
+      this.handleCall(action, payload)
+    );
+  }
+
+  public async boot() {
+    const boot = await this.call("BootNotification", {
+      chargePointVendor: "smartcharge.dev",
+      chargePointModel: "fake-cp",
+    });
+    log(LogLevel.Info, `${this.id} boot ${boot.status}`);
+    this.heartbeatInterval = boot.interval;
+    await this.setStatus(OcppChargePointStatus.Available);
+  }
+
+  public async plug() {
+    log(LogLevel.Info, `${this.id} vehicle plugged in`);
+    this.plugged = true;
+    await this.setStatus(OcppChargePointStatus.Preparing);
+  }
+
+  public async unplug() {
+    log(LogLevel.Info, `${this.id} vehicle unplugged`);
+    this.plugged = false;
+    await this.stopTransaction();
+    await this.setStatus(OcppChargePointStatus.Available);
+  }
+
+  public close() {
+    if (this.connection) {
+      this.connection.close();
+      this.connection = undefined;
+    }
+  }
+
+  private async setStatus(status: OcppChargePointStatus) {
+    if (this.status !== status) {
+      log(LogLevel.Info, `${this.id} status ${this.status} -> ${status}`);
+      this.status = status;
+      await this.call("StatusNotification", {
+        connectorId: 1,
+        errorCode: "NoError",
+        status,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  private chargeStatus(): OcppChargePointStatus {
+    return this.soc >= 100
+      ? OcppChargePointStatus.SuspendedEV
+      : this.limit > 0
+      ? OcppChargePointStatus.Charging
+      : OcppChargePointStatus.SuspendedEVSE;
+  }
+
+  // Start a transaction, returns the idTagInfo status from the central system
+  public async startTransaction(idTag: string): Promise<string> {
+    const result = await this.call("StartTransaction", {
+      connectorId: 1,
+      idTag,
+      meterStart: Math.round(this.meter),
+      timestamp: new Date().toISOString(),
+    });
+    if (result.idTagInfo.status !== "Accepted") {
+      log(LogLevel.Info, `${this.id} transaction ${result.idTagInfo.status}`);
+      return result.idTagInfo.status;
+    }
+    this.transactionId = result.transactionId;
+    this.limit = this.options.current;
+    log(LogLevel.Info, `${this.id} transaction ${this.transactionId} started`);
+    await this.setStatus(this.chargeStatus());
+    return result.idTagInfo.status;
+  }
+
+  public async stopTransaction() {
+    if (this.transactionId === undefined) return;
+    await this.call("StopTransaction", {
+      transactionId: this.transactionId,
+      meterStop: Math.round(this.meter),
+      timestamp: new Date().toISOString(),
+    });
+    log(LogLevel.Info, `${this.id} transaction ${this.transactionId} stopped`);
+    this.transactionId = undefined;
+    await this.setStatus(
+      this.plugged
+        ? OcppChargePointStatus.Finishing
+        : OcppChargePointStatus.Available
+    );
+  }
+
+  // Calls initiated by the central system
+  private async handleCall(action: string, payload: any): Promise<any> {
+    switch (action) {
+      case "RemoteStartTransaction":
+        if (!this.plugged || this.transactionId !== undefined) {
+          return { status: "Rejected" };
+        }
+        setImmediate(() => this.startTransaction(payload.idTag));
+        return { status: "Accepted" };
+      case "RemoteStopTransaction":
+        if (payload.transactionId !== this.transactionId) {
+          return { status: "Rejected" };
+        }
+        setImmediate(() => this.stopTransaction());
+        return { status: "Accepted" };
+      case "SetChargingProfile": {
+        const periods =
+          payload.csChargingProfiles.chargingSchedule.chargingSchedulePeriod;
+        this.limit = Math.min(this.options.current, periods[0].limit);
+        log(LogLevel.Info, `${this.id} current limit set to ${this.limit}A`);
+        if (this.transactionId !== undefined) {
+          setImmediate(() => this.setStatus(this.chargeStatus()));
+        }
+        return { status: "Accepted" };
+      }
+      default:
+        throw new OcppError("NotImplemented", `${action} is not implemented`);
+    }
+  }
+
+  // Charge for one meter interval and report meter values
+  public async meterValues() {
+    const power =
+      this.status === OcppChargePointStatus.Charging
+        ? this.limit * this.options.voltage * this.options.phases
+        : 0;
+    const energy =
+      (power * this.options.interval * this.options.speedup) / 3600;
+    this.meter += energy;
+    this.soc = Math.min(
+      100,
+      this.soc + (energy / 1e3 / this.options.capacity) * 100
+    );
+    if (this.transactionId !== undefined) {
+      await this.setStatus(this.chargeStatus());
+    }
+    const sampledValue = [
+      {
+        value: Math.round(this.meter).toString(),
+        measurand: "Energy.Active.Import.Register",
+        unit: "Wh",
+      },
+      {
+        value: Math.round(power).toString(),
+        measurand: "Power.Active.Import",
+        unit: "W",
+      },
+    ];
+    if (this.options.reportSoc) {
+      sampledValue.push({
+        value: Math.trunc(this.soc).toString(),
+        measurand: "SoC",
+        unit: "Percent",
+      });
+    }
+    await this.call("MeterValues", {
+      connectorId: 1,
+      transactionId: this.transactionId,
+      meterValue: [{ timestamp: new Date().toISOString(), sampledValue }],
+    });
+    log(
+      LogLevel.Debug,
+      `${this.id} ${this.status} soc ${this.soc.toFixed(1)}% meter ${Math.round(
+        this.meter
+      )}Wh limit ${this.limit}A`
+    );
+  }
+}
@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+
+/**
+ * @file Scripted fake OCPP 1.6J charge point for testing the ocpp agent
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import { Command } from "commander";
+import { log, LogLevel, delay } from "@shared/utils";
+import { FakeChargePoint } from "./fake-charge-point";
+
+async function run(
+  cp: FakeChargePoint,
+  url: string,
+  key: string | undefined,
+  interval: number, // seconds between meter values
+  plug: number, // seconds before plugging in
+  unplug: number // seconds before unplugging, 0 = never
+) {
+  const started = Date.now();
+  await cp.connect(url, key);
+  await cp.boot();
+
+  let nextHeartbeat = Date.now() + cp.heartbeatInterval * 1e3;
+  while (cp.connected) {
+    const now = Date.now();
+    const elapsed = (now - started) / 1e3;
+    if (!cp.plugged && elapsed >= plug) {
+      await cp.plug();
+    }
+    if (cp.plugged && unplug > 0 && elapsed >= unplug) {
+      await cp.unplug();
+      break;
+    }
+    if (now >= nextHeartbeat) {
+      await cp.call("Heartbeat", {});
+      nextHeartbeat = now + cp.heartbeatInterval * 1e3;
+    }
+    await cp.meterValues();
+    await delay(interval * 1e3);
+  }
+  cp.close();
+}
+
+const program = new Command();
+program
+  .arguments("<central_system_url> <charge_point_id>")
+  .option("--key <key>", "authorization key for basic authentication")
+  .option("--soc <percent>", "initial state of charge", "40")
+  .option("--capacity <kWh>", "battery capacity", "60")
+  .option("--current <amp>", "maximum charge current", "16")
+  .option("--voltage <volt>", "grid voltage", "230")
+  .option("--phases <phases>", "number of phases", "3")
+  .option("--interval <seconds>", "seconds between meter values", "10")
+  .option("--speedup <factor>", "simulated seconds per real second", "1")
+  .option("--plug <seconds>", "seconds before plugging in the vehicle", "5")
+  .option("--unplug <seconds>", "seconds before unplugging, 0 = never", "0")
+  .option("--no-report-soc", "do not report SoC in meter values")
+  .action(async (url: string, id: string) => {
+    const opts = program.opts();
+    const cp = new FakeChargePoint(id, {
+      soc: Number(opts.soc),
+      capacity: Number(opts.capacity),
+      current: Number(opts.current),
+      voltage: Number(opts.voltage),
+      phases: Number(opts.phases),
+      interval: Number(opts.interval),
+      speedup: Number(opts.speedup),
+      reportSoc: opts.reportSoc,
+    });
+    try {
+      await run(
+        cp,
+        url,
+        opts.key,
+        Number(opts.interval),
+        Number(opts.plug),
+        Number(opts.unplug)
+      );
+    } catch (err) {
+      log(LogLevel.Error, err);
+      process.exit(1);
+    }
+  })
+  .parse(process.argv);
@@ -0,0 +1,18 @@
+import { IProvider, ProviderType } from "..";
+
+export interface PowerMeterSource {
+  locationID: string; // location the meter is installed at
+  url: string; // url returning the current grid power as json or plain text
+  path?: string; // dot separated path to the power value in json data
+  scale?: number; // multiply with this to get watts (1000 for kW values)
+  invert?: boolean; // meter reports export as positive power
+}
+
+const provider: IProvider = {
+  name: "powermeter",
+  display: "Power Meter",
+  version: "1.0",
+  type: ProviderType.Location,
+};
+
+export default provider;
@@ -0,0 +1,91 @@
+/**
+ * @file Power meter agent for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import { SCClient } from "@shared/sc-client";
+import { log, LogLevel } from "@shared/utils";
+import { RestClient } from "@shared/restclient";
+import { PROJECT_AGENT } from "@shared/smartcharge-defines";
+import {
+  AbstractAgent,
+  AgentWork,
+  IProviderAgent,
+} from "@providers/provider-agent";
+import provider, { PowerMeterSource } from ".";
+import config from "./powermeter-config";
+
+// Convert a meter response into grid power (W), positive import and negative export
+export function meterGridPower(source: PowerMeterSource, body: string): number {
+  let value: any;
+  if (source.path) {
+    value = JSON.parse(body);
+    for (const key of source.path.split(".").filter((f) => f)) {
+      value = value && value[key];
+    }
+  } else {
+    value = body.trim();
+  }
+  const power = parseFloat(String(value)) * (source.scale || 1);
+  if (isNaN(power)) {
+    throw new Error(`Invalid meter value ${JSON.stringify(value)}`);
+  }
+  return source.invert ? -power : power;
+}
+
+export class PowerMeterAgent extends AbstractAgent {
+  public name: string = provider.name;
+  private client = new RestClient({
+    headers: {
+      "User-Agent": `${PROJECT_AGENT} ${provider.name}/${provider.version}`,
+    },
+    timeout: 10e3,
+  });
+  constructor(scClient: SCClient) {
+    super(scClient);
+  }
+
+  public newState() {
+    return {};
+  }
+
+  private sources(): PowerMeterSource[] {
+    try {
+      return JSON.parse(config.POWER_METERS);
+    } catch (err) {
+      log(LogLevel.Error, `Invalid POWER_METERS: ${err}`);
+      return [];
+    }
+  }
+
+  public async globalWork(job: AgentWork) {
+    for (const source of this.sources()) {
+      try {
+        const gridPower = meterGridPower(
+          source,
+          await this.client.getText(source.url)
+        );
+        log(
+          LogLevel.Trace,
+          `Sending updateMeterData for ${source.locationID} => ${gridPower} W`
+        );
+        await this.scClient.updateMeterData({
+          locationID: source.locationID,
+          gridPower,
+          measuredAt: new Date().toISOString(),
+        });
+      } catch (err) {
+        log(LogLevel.Error, err);
+      }
+    }
+    job.interval = Number(config.POWER_METER_INTERVAL);
+  }
+}
+
+const agent: IProviderAgent = {
+  ...provider,
+  agent: (scClient: SCClient) => new PowerMeterAgent(scClient),
+};
+export default agent;
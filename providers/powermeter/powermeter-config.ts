@@ -0,0 +1,14 @@
+const config = {
+  // JSON array of PowerMeterSource definitions
+  POWER_METERS: "[]",
+  POWER_METER_INTERVAL: 30, // seconds between meter readings
+};
+if (process && process.env) {
+  for (const key of Object.keys(config)) {
+    if (process.env[key] !== undefined) {
+      (config as any)[key] = process.env[key];
+    }
+  }
+}
+
+export default config;
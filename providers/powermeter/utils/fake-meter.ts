@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+
+/**
+ * @file Simulated house power meter with solar production for testing the powermeter agent
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import { Command } from "commander";
+import http from "http";
+import { log, LogLevel } from "@shared/utils";
+
+interface FakeOptions {
+  port: number;
+  peak: number; // peak solar production (W)
+  load: number; // base house load (W)
+  sunrise: number; // hour of sunrise
+  sunset: number; // hour of sunset
+  speedup: number; // simulated seconds per real second
+  ev: number; // vehicle charge power added to the load (W)
+}
+
+class FakeMeter {
+  private started: number = Date.now();
+  constructor(private options: FakeOptions) {}
+
+  private simulatedTime(): Date {
+    const elapsed = (Date.now() - this.started) * this.options.speedup;
+    return new Date(this.started + elapsed);
+  }
+
+  public reading() {
+    const time = this.simulatedTime();
+    const hour = time.getHours() + time.getMinutes() / 60;
+    const { sunrise, sunset, peak, load, ev } = this.options;
+
+    // Half a sine wave between sunrise and sunset, with some passing clouds
+    const production =
+      hour > sunrise && hour < sunset
+        ? peak *
+          Math.sin((Math.PI * (hour - sunrise)) / (sunset - sunrise)) *
+          (0.8 + Math.random() * 0.2)
+        : 0;
+    const consumption = load * (0.9 + Math.random() * 0.2) + ev;
+    return {
+      time: time.toISOString(),
+      production: Math.round(production),
+      consumption: Math.round(consumption),
+      power: Math.round(consumption - production),
+    };
+  }
+
+  public listen() {
+    const server = http.createServer((req, res) => {
+      const url = new URL(req.url || "/", "http://localhost");
+      if (url.pathname === "/ev" && url.searchParams.has("power")) {
+        // Let the vehicle simulation report its charge power
+        this.options.ev = Number(url.searchParams.get("power")) || 0;
+      }
+      const reading = this.reading();
+      log(
+        LogLevel.Debug,
+        `${req.method} ${req.url} => ${JSON.stringify(reading)}`
+      );
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(reading));
+    });
+    server.listen(this.options.port, () => {
+      log(LogLevel.Info, `Fake meter listening on port ${this.options.port}`);
+    });
+  }
+}
+
+const program = new Command();
+program
+  .option("--port <port>", "http port", "9230")
+  .option("--peak <watt>", "peak solar production", "6000")
+  .option("--load <watt>", "base house load", "500")
+  .option("--sunrise <hour>", "hour of sunrise", "6")
+  .option("--sunset <hour>", "hour of sunset", "20")
+  .option("--speedup <factor>", "simulated seconds per real second", "1")
+  .option("--ev <watt>", "vehicle charge power added to the load", "0")
+  .action(() => {
+    const opts = program.opts();
+    new FakeMeter({
+      port: Number(opts.port),
+      peak: Number(opts.peak),
+      load: Number(opts.load),
+      sunrise: Number(opts.sunrise),
+      sunset: Number(opts.sunset),
+      speedup: Number(opts.speedup),
+      ev: Number(opts.ev),
+    }).listen();
+  })
+  .parse(process.argv);
@@ -0,0 +1,153 @@
+/**
+ * @file Price source agent definitions for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+import { SCClient } from "@shared/sc-client";
+import { log, LogLevel } from "@shared/utils";
+import { AbstractAgent, AgentWork } from "./provider-agent";
+import { GQLPriceDataInput } from "@shared/sc-schema";
+import { v5 as uuidv5 } from "uuid";
+
+export interface PriceSourceList {
+  area: string; // source specific area identifier, used for the price list id
+  name: string; // price list name
+  interval: number; // minutes between price points
+  prices: GQLPriceDataInput[]; // normalized to currency per kWh, or gCO2/kWh for carbon lists
+  carbon?: boolean; // carbon intensity series for the area price list
+  priceListID?: string; // attach to an existing price list instead of the area list
+}
+
+/**
+ * Resample prices with a resolution of step minutes into prices every
+ * interval minutes, finer prices are averaged and coarser prices repeated
+ */
+export function resamplePrices(
+  prices: GQLPriceDataInput[],
+  step: number,
+  interval: number
+): GQLPriceDataInput[] {
+  const size = interval * 60e3;
+  const buckets: Record<number, number[]> = {};
+  for (const p of prices) {
+    const start = new Date(p.startAt).getTime();
+    for (let t = start; t < start + step * 60e3; t += size) {
+      const bucket = Math.floor(t / size) * size;
+      (buckets[bucket] = buckets[bucket] || []).push(p.price);
+    }
+  }
+  return Object.entries(buckets)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([bucket, list]) => ({
+      startAt: new Date(Number(bucket)).toISOString(),
+      price: list.reduce((a, b) => a + b, 0) / list.length,
+    }));
+}
+
+/**
+ * Price source agents fetch raw data from a price source, normalize it into
+ * price lists and send them to the server. The price list is created on the
+ * server the first time an area is seen.
+ */
+export abstract class AbstractPriceAgent extends AbstractAgent {
+  private listIDmap: Record<string, string> = {};
+  protected abstract namespace: string; // uuid namespace for price list ids
+  constructor(scClient: SCClient) {
+    super(scClient);
+  }
+
+  public newState() {
+    return {};
+  }
+
+  protected abstract fetch(): Promise<any>;
+  protected abstract normalize(raw: any): PriceSourceList[];
+
+  // seconds until next update, defaults to two minutes past next hour
+  protected nextUpdate(now: number): number {
+    const nextUpdate = (Math.floor(now / 3600e3) + 1) * 3600e3 + 120e3;
+    return Math.max(60, (nextUpdate - now) / 1e3);
+  }
+
+  protected async priceListID(list: PriceSourceList): Promise<string> {
+    if (list.priceListID !== undefined) {
+      return list.priceListID;
+    }
+    if (this.listIDmap[list.area] === undefined) {
+      const id = uuidv5(`${list.area}.pricelist`, this.namespace);
+      // Check that list exits on server
+      const current = await this.scClient
+        .getPriceList(id)
+        .catch(() => undefined);
+      if (current === undefined) {
+        const newList = await this.scClient.newPriceList(
+          list.name,
+          true,
+          id,
+          list.interval
+        );
+        if (newList.id !== id) {
+          throw "Unable to create price list on server";
+        }
+      } else if (current.interval !== list.interval) {
+        await this.scClient.updatePriceList({ id, interval: list.interval });
+      }
+      this.listIDmap[list.area] = id;
+    }
+    return this.listIDmap[list.area];
+  }
+
+  private async sendList(list: PriceSourceList) {
+    if (list.prices.length < 1) return;
+    if (list.carbon) {
+      const update = {
+        priceListID: await this.priceListID(list),
+        intensities: list.prices.map((p) => ({
+          startAt: p.startAt,
+          intensity: p.price,
+        })),
+      };
+      log(
+        LogLevel.Trace,
+        `Sending updateCarbonIntensity for ${list.name} => ${JSON.stringify(
+          update
+        )}`
+      );
+      await this.scClient.updateCarbonIntensity(update);
+      return;
+    }
+    const update = {
+      priceListID: await this.priceListID(list),
+      prices: list.prices,
+    };
+    log(
+      LogLevel.Trace,
+      `Sending updatePrice for ${list.name} => ${JSON.stringify(update)}`
+    );
+    await this.scClient.updatePrice(update);
+  }
+
+  public async globalWork(job: AgentWork) {
+    const now = Date.now();
+    const lists = this.normalize(await this.fetch());
+
+    let failed: any = undefined;
+    for (const list of lists) {
+      try {
+        await this.sendList(list);
+      } catch (err) {
+        // e.g. an interval change rejected by the server, other lists are still sent
+        log(LogLevel.Error, `Unable to update ${list.name}: ${err}`, {
+          provider: this.name,
+        });
+        failed = failed || err;
+      }
+    }
+
+    job.interval = this.nextUpdate(now);
+    if (failed !== undefined) {
+      throw failed;
+    }
+  }
+}
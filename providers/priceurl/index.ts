@@ -0,0 +1,26 @@
+import { IProvider, ProviderType } from "..";
+
+export interface PriceUrlSource {
+  area: string; // unique source identifier
+  name: string; // price list name
+  url: string; // url template, see expandUrlTemplate
+  format: "json" | "csv";
+  path?: string; // dot separated path to the price array in json data
+  time: string; // field or column with price start time
+  price: string; // field or column with price
+  divisor?: number; // divide price with this to get currency per kWh (1000 for MWh prices)
+  timezone?: string; // time zone for time stamps without offset
+  step?: number; // minutes between price points in the source (default 60)
+  interval?: number; // price list resolution in minutes (default step)
+  kind?: "price" | "carbon"; // carbon sources give gCO2/kWh in the price field
+  priceListID?: string; // price list to attach carbon intensity to (default the area list)
+}
+
+const provider: IProvider = {
+  name: "priceurl",
+  display: "Price URL",
+  version: "1.0",
+  type: ProviderType.Location,
+};
+
+export default provider;
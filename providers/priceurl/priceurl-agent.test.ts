@@ -0,0 +1,80 @@
+/**
+ * @file Price URL agent test against json and csv fixtures
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import assert from "assert";
+import fs from "fs";
+import path from "path";
+import { test, assertClose } from "@shared/test-runner";
+import { priceUrlPrices, expandUrlTemplate } from "./priceurl-agent";
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, "fixtures", name), "utf-8");
+}
+
+test("parses csv with local time and decimal comma", () => {
+  const prices = priceUrlPrices(
+    {
+      area: "SE3",
+      name: "SE3",
+      url: "",
+      format: "csv",
+      time: "Start",
+      price: "Price SEK/MWh",
+      divisor: 1000,
+      timezone: "Europe/Stockholm",
+    },
+    fixture("prices.csv")
+  );
+  assert.deepStrictEqual(
+    prices.map((p) => p.startAt),
+    [
+      "2024-01-14T23:00:00.000Z",
+      "2024-01-15T00:00:00.000Z",
+      "2024-01-15T01:00:00.000Z",
+    ]
+  );
+  assertClose(
+    prices.map((p) => p.price),
+    [0.81245, 0.7901, 0.775]
+  );
+});
+
+test("parses json at path and averages quarter hours", () => {
+  const prices = priceUrlPrices(
+    {
+      area: "SE3",
+      name: "SE3",
+      url: "",
+      format: "json",
+      path: "result.prices",
+      time: "from",
+      price: "value",
+      step: 15,
+      interval: 60,
+    },
+    fixture("prices.json")
+  );
+  assert.deepStrictEqual(
+    prices.map((p) => p.startAt),
+    ["2024-01-14T23:00:00.000Z", "2024-01-15T00:00:00.000Z"]
+  );
+  assertClose(
+    prices.map((p) => p.price),
+    [0.86, 0.72]
+  );
+});
+
+test("expands url templates in the source time zone", () => {
+  assert.strictEqual(
+    expandUrlTemplate(
+      "https://example.com/{today}/{tomorrow}?start={start}",
+      new Date("2024-01-14T23:30:00Z"),
+      "Europe/Stockholm"
+    ),
+    "https://example.com/2024-01-15/2024-01-16?start=2024-01-14T23%3A00%3A00.000Z"
+  );
+});
@@ -0,0 +1,167 @@
+/**
+ * @file Generic price URL agent for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import { SCClient } from "@shared/sc-client";
+import { log, LogLevel } from "@shared/utils";
+import { RestClient } from "@shared/restclient";
+import { PROJECT_AGENT } from "@shared/smartcharge-defines";
+import { IProviderAgent } from "@providers/provider-agent";
+import {
+  AbstractPriceAgent,
+  PriceSourceList,
+  resamplePrices,
+} from "@providers/price-agent";
+import { GQLPriceDataInput } from "@shared/sc-schema";
+import provider, { PriceUrlSource } from ".";
+import config from "./priceurl-config";
+import { DateTime } from "luxon";
+import { v5 as uuidv5 } from "uuid";
+
+const PRICEURL_NAMESPACE = uuidv5("agent.priceurl.smartcharge.dev", uuidv5.DNS);
+
+/**
+ * Replace {today}, {tomorrow}, {start} and {end} in an url template,
+ * {today} and {tomorrow} are dates (yyyy-MM-dd), {start} and {end} are
+ * ISO time stamps for the start of today and the end of tomorrow
+ */
+export function expandUrlTemplate(
+  url: string,
+  now: Date,
+  timezone?: string
+): string {
+  const today = DateTime.fromJSDate(now, { zone: timezone }).startOf("day");
+  const tomorrow = today.plus({ days: 1 });
+  return url
+    .replace(/{today}/g, today.toISODate())
+    .replace(/{tomorrow}/g, tomorrow.toISODate())
+    .replace(/{start}/g, encodeURIComponent(today.toUTC().toISO()))
+    .replace(
+      /{end}/g,
+      encodeURIComponent(tomorrow.endOf("day").toUTC().toISO())
+    );
+}
+
+function parseTime(value: any, timezone?: string): DateTime {
+  if (typeof value === "number") {
+    // epoch seconds or milliseconds
+    return DateTime.fromMillis(value < 1e12 ? value * 1e3 : value);
+  }
+  const s = String(value).trim();
+  const iso = DateTime.fromISO(s, { zone: timezone });
+  return iso.isValid ? iso : DateTime.fromSQL(s, { zone: timezone });
+}
+
+function parsePrice(value: any): number {
+  return typeof value === "number"
+    ? value
+    : parseFloat(String(value).replace(/\s/g, "").replace(/,/g, "."));
+}
+
+function parseCSV(text: string): Record<string, string>[] {
+  const lines = text.split(/\r?\n/).filter((f) => f.trim().length > 0);
+  if (lines.length < 1) return [];
+  const delimiter = lines[0].includes(";") ? ";" : ",";
+  const split = (line: string) =>
+    line.split(delimiter).map((f) => f.trim().replace(/^"(.*)"$/, "$1"));
+  const header = split(lines[0]);
+  return lines.slice(1).map((line) =>
+    split(line).reduce((row, value, i) => {
+      row[header[i]] = value;
+      return row;
+    }, {} as Record<string, string>)
+  );
+}
+
+// Convert a fetched json or csv document into prices per kWh
+export function priceUrlPrices(
+  source: PriceUrlSource,
+  body: string
+): GQLPriceDataInput[] {
+  let rows: any[];
+  if (source.format === "csv") {
+    rows = parseCSV(body);
+  } else {
+    let data = JSON.parse(body);
+    for (const key of (source.path || "").split(".").filter((f) => f)) {
+      data = data && data[key];
+    }
+    rows = Array.isArray(data) ? data : [];
+  }
+
+  const divisor = source.divisor || 1;
+  const prices: GQLPriceDataInput[] = [];
+  for (const row of rows) {
+    const time = parseTime(row[source.time], source.timezone);
+    const price = parsePrice(row[source.price]) / divisor;
+    if (time.isValid && !isNaN(price)) {
+      prices.push({ startAt: time.toUTC().toISO(), price });
+    }
+  }
+  const step = source.step || 60;
+  return resamplePrices(prices, step, source.interval || step);
+}
+
+export class PriceUrlAgent extends AbstractPriceAgent {
+  public name: string = provider.name;
+  protected namespace: string = PRICEURL_NAMESPACE;
+  private client = new RestClient({
+    headers: {
+      "User-Agent": `${PROJECT_AGENT} ${provider.name}/${provider.version}`,
+    },
+    timeout: 120e3,
+  });
+  constructor(scClient: SCClient) {
+    super(scClient);
+  }
+
+  private sources(): PriceUrlSource[] {
+    try {
+      return JSON.parse(config.PRICE_URL_SOURCES);
+    } catch (err) {
+      log(LogLevel.Error, `Invalid PRICE_URL_SOURCES: ${err}`);
+      return [];
+    }
+  }
+
+  protected async fetch(): Promise<[PriceUrlSource, string][]> {
+    const now = new Date();
+    const result: [PriceUrlSource, string][] = [];
+    for (const source of this.sources()) {
+      try {
+        const url = expandUrlTemplate(source.url, now, source.timezone);
+        result.push([source, await this.client.getText(url)]);
+      } catch (err) {
+        log(LogLevel.Error, err);
+      }
+    }
+    return result;
+  }
+  protected normalize(raw: [PriceUrlSource, string][]): PriceSourceList[] {
+    const lists: PriceSourceList[] = [];
+    for (const [source, body] of raw) {
+      try {
+        lists.push({
+          area: source.area,
+          name: source.name,
+          interval: source.interval || source.step || 60,
+          prices: priceUrlPrices(source, body),
+          carbon: source.kind === "carbon",
+          priceListID: source.priceListID,
+        });
+      } catch (err) {
+        log(LogLevel.Error, `Unable to parse ${source.name}: ${err}`);
+      }
+    }
+    return lists;
+  }
+}
+
+const agent: IProviderAgent = {
+  ...provider,
+  agent: (scClient: SCClient) => new PriceUrlAgent(scClient),
+};
+export default agent;
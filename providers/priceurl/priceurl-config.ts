@@ -0,0 +1,13 @@
+const config = {
+  // JSON array of PriceUrlSource definitions
+  PRICE_URL_SOURCES: "[]",
+};
+if (process && process.env) {
+  for (const key of Object.keys(config)) {
+    if (process.env[key] !== undefined) {
+      (config as any)[key] = process.env[key];
+    }
+  }
+}
+
+export default config;
@@ -7,7 +7,18 @@
 import { IProvider } from ".";
 import { SCClient } from "@shared/sc-client";
 import { log, LogLevel, delay } from "@shared/utils";
-import { GQLAction, GQLServiceProvider } from "@shared/sc-schema";
+import { metrics } from "@shared/metrics";
+import {
+  GQLAction,
+  GQLServiceProvider,
+  GQLAgentStatusInput,
+  GQLAgentSubjectStatusInput,
+} from "@shared/sc-schema";
+
+const agentPolls = metrics.counter(
+  "smartcharge_agent_polls_total",
+  "Agent work runs by provider and result"
+);
 
 export interface IProviderAgentInstantiator {
   (scClient: SCClient): AbstractAgent;
@@ -25,6 +36,8 @@ export interface AgentWork {
   running: boolean; // is the agent currently running a job
   interval: number; // number of seconds between polls
   nextrun: number; // when to run next itteration
+  polled?: number; // last successful run
+  pollError?: string; // error of the last failed run
 }
 export interface AgentJob extends AgentWork {
   serviceID: string; // unique service identifier
@@ -44,6 +57,7 @@ export abstract class AbstractAgent {
   public serviceWork?(job: AgentJob): Promise<void>;
   protected globalWorker?: AgentWork;
   public globalWork?(work: AgentWork): Promise<void>;
+  public globalLease: boolean = false; // global work is leased to this agency
 
   constructor(protected scClient: SCClient) {}
   public adjustInterval(job: AgentWork, target: number) {
@@ -73,7 +87,8 @@ export abstract class AbstractAgent {
         try {
           log(
             LogLevel.Trace,
-            `Agent ${this.name} calling ${action.action} for ${job.serviceID}`
+            `Agent ${this.name} calling ${action.action} for ${job.serviceID}`,
+            { provider: this.name, service_uuid: job.serviceID }
           );
           try {
             if (typeof (this as any)[action.action] === "function") {
@@ -89,13 +104,25 @@ export abstract class AbstractAgent {
           } catch (error) {
             action.data.error = error;
             action.data.result = false;
-            log(LogLevel.Error, error);
+            log(LogLevel.Error, error, {
+              provider: this.name,
+              service_uuid: job.serviceID,
+            });
           }
+          const report = (a: GQLAction) =>
+            this.scClient.updateAction(a).catch((err) =>
+              log(LogLevel.Warning, err, {
+                provider: this.name,
+                service_uuid: job.serviceID,
+                action_id: a.actionID,
+              })
+            );
           if (action.data.result !== undefined) {
-            this.scClient.updateAction(action);
+            report(action);
             action.data.nextrun = now + 120e3; // should not happen because the subscription will remove the action
           } else {
             action.data.nextrun = now + 5e3; // retry in 5s
+            report(action); // report the attempt
           }
         } finally {
           job.running = false;
@@ -103,6 +130,25 @@ export abstract class AbstractAgent {
       }
     }
   }
+  // Queue actions that were performed while no agent was subscribed
+  private async replayActions(serviceID?: string) {
+    try {
+      for (const action of await this.scClient.getPendingActions(
+        this.name,
+        serviceID
+      )) {
+        const subject = this.services[action.serviceID];
+        if (
+          subject &&
+          !subject.actionQueue.some((f) => f.actionID === action.actionID)
+        ) {
+          subject.actionQueue.push(action);
+        }
+      }
+    } catch (err) {
+      log(LogLevel.Error, err);
+    }
+  }
   private async handleWork(work: AgentWork) {
     const now = Date.now();
     if (!work.running && now >= work.nextrun) {
@@ -116,13 +162,22 @@ export abstract class AbstractAgent {
             LogLevel.Trace,
             `Agent ${this.name} calling update for ${
               (work as AgentJob).serviceID
-            }`
+            }`,
+            { provider: this.name, service_uuid: (work as AgentJob).serviceID }
           );
           await this.serviceWork!(work as AgentJob);
         }
         work.nextrun = now + work.interval * 1e3;
-      } catch (error) {
-        log(LogLevel.Error, error);
+        work.polled = now;
+        work.pollError = undefined;
+        agentPolls.inc({ provider: this.name, result: "success" });
+      } catch (error: any) {
+        log(LogLevel.Error, error, {
+          provider: this.name,
+          service_uuid: (work as AgentJob).serviceID,
+        });
+        work.pollError = error instanceof Error ? error.message : String(error);
+        agentPolls.inc({ provider: this.name, result: "error" });
         work.nextrun = now + Math.min(60, work.interval) * 1e3;
       }
       work.running = false;
@@ -157,6 +212,7 @@ export abstract class AbstractAgent {
             }
           }
         );
+        await this.replayActions();
       }
 
       if (typeof this.globalWork === "function") {
@@ -178,7 +234,11 @@ export abstract class AbstractAgent {
               this.services[id] = job;
             }
           }
-          if (this.globalWorker && !this.globalWorker.running) {
+          if (
+            this.globalWorker &&
+            this.globalLease &&
+            !this.globalWorker.running
+          ) {
             await this.handleWork(this.globalWorker);
           }
         })();
@@ -188,6 +248,20 @@ export abstract class AbstractAgent {
     })();
     return this.workerPromise;
   }
+  // Provider specific status of the subjects polled by a job
+  protected subjectStatus?(job: AgentJob): GQLAgentSubjectStatusInput[];
+  public health(): GQLAgentStatusInput[] {
+    return Object.values(this.services).map((job) => ({
+      serviceID: job.serviceID,
+      polled: job.polled ? new Date(job.polled).toISOString() : null,
+      pollError: job.pollError || null,
+      interval: job.interval,
+      queue: job.actionQueue.length,
+      tokenValid: !(job.serviceData && job.serviceData.invalid_token),
+      subjects: this.subjectStatus ? this.subjectStatus(job) : [],
+    }));
+  }
+
   public add(subject: GQLServiceProvider) {
     this.services[subject.serviceID] = {
       serviceID: subject.serviceID,
@@ -198,6 +272,9 @@ export abstract class AbstractAgent {
       nextrun: 0,
       actionQueue: [],
     };
+    if (typeof this.serviceWork === "function" && this.workerPromise) {
+      this.replayActions(subject.serviceID);
+    }
   }
   public remove(subject: GQLServiceProvider) {
     delete this.services[subject.serviceID];
@@ -7,6 +7,23 @@
 import { IProviderAgent } from "./provider-agent";
 import Tesla from "./tesla/tesla-agent";
 import Nordpool from "./nordpool/nordpool-agent";
+import Ocpp from "./ocpp/ocpp-agent";
+import Entsoe from "./entsoe/entsoe-agent";
+import Awattar from "./awattar/awattar-agent";
+import PriceUrl from "./priceurl/priceurl-agent";
+import PowerMeter from "./powermeter/powermeter-agent";
+import Calendar from "./calendar/calendar-agent";
+import Simulator from "./simulator/simulator-agent";
 
-const providers: IProviderAgent[] = [Tesla, Nordpool];
+const providers: IProviderAgent[] = [
+  Tesla,
+  Nordpool,
+  Ocpp,
+  Entsoe,
+  Awattar,
+  PriceUrl,
+  PowerMeter,
+  Calendar,
+  Simulator,
+];
 export default providers;
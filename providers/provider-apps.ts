@@ -7,6 +7,8 @@
 import { IProviderApp } from "./provider-app";
 import Tesla from "./tesla/app/tesla-app";
 import Nordpool from "./nordpool/app/nordpool-app";
+import Ocpp from "./ocpp/app/ocpp-app";
+import Simulator from "./simulator/app/simulator-app";
 
-const providers: IProviderApp[] = [Tesla, Nordpool];
+const providers: IProviderApp[] = [Tesla, Nordpool, Ocpp, Simulator];
 export default providers;
@@ -7,6 +7,8 @@
 import { IProviderServer } from "./provider-server";
 import Tesla from "./tesla/tesla-server";
 import Nordpool from "./nordpool/nordpool-server";
+import Ocpp from "./ocpp/ocpp-server";
+import Simulator from "./simulator/simulator-server";
 
-const providers: IProviderServer[] = [Tesla, Nordpool];
+const providers: IProviderServer[] = [Tesla, Nordpool, Ocpp, Simulator];
 export default providers;
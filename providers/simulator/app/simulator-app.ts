@@ -0,0 +1,10 @@
+import { IProviderApp } from "@providers/provider-app";
+import provider from "../index";
+import SimulatorVue from "./simulator.vue";
+
+const app: IProviderApp = {
+  ...provider,
+  logo: require("./simulator-logo.svg"),
+  vue: SimulatorVue,
+};
+export default app;
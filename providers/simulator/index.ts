@@ -0,0 +1,43 @@
+import { IProvider, ProviderType } from "..";
+
+// A scripted trip, times are in simulated local time
+export interface SimulatorTrip {
+  departure: string; // HH:mm
+  duration: number; // driving time (minutes)
+  distance: number; // km
+  latitude: number; // destination
+  longitude: number; // destination
+  plug: boolean; // plug in at the destination
+}
+
+// client side info
+export interface SimulatorProviderData {
+  provider: "simulator";
+  battery_capacity?: number; // usable battery capacity (kWh)
+  charge_power?: number; // maximum on board charger power (kW)
+  consumption?: number; // energy use (Wh/km) at 20 degrees celsius
+  latitude: number; // home position, where the scenario starts
+  longitude: number; // home position, where the scenario starts
+  scenario?: SimulatorTrip[]; // daily trips, defaults to a commute
+}
+
+// agent side info
+export interface SimulatorServiceData {
+  updated?: number;
+}
+
+export enum SimulatorProviderQueries {
+  Vehicles = "vehicles",
+}
+export enum SimulatorProviderMutates {
+  NewVehicle = "newVehicle",
+}
+
+const provider: IProvider = {
+  name: "simulator",
+  display: "Vehicle Simulator",
+  version: "1.0",
+  type: ProviderType.Vehicle,
+};
+
+export default provider;
@@ -0,0 +1,322 @@
+/**
+ * @file Vehicle simulator agent for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ * @description Drives virtual vehicles through a scripted daily scenario and
+ * follows the charge plan. The server plans against its own clock, so with a
+ * SIMULATOR_SPEEDUP other than 1 the agent runs self-contained, charging to
+ * the maximum level whenever plugged in and reporting nothing to the server
+ */
+
+import {
+  log,
+  LogLevel,
+  numericStartTime,
+  numericStopTime,
+} from "@shared/utils";
+import { SCClient } from "@shared/sc-client";
+import config from "./simulator-config";
+import {
+  AgentJob,
+  AbstractAgent,
+  IProviderAgent,
+  AgentAction,
+} from "@providers/provider-agent";
+import provider, {
+  SimulatorServiceData,
+  SimulatorProviderData,
+  SimulatorProviderQueries,
+} from ".";
+import { SimulatedVehicle, commuteScenario } from "./simulator-model";
+import {
+  GQLVehicle,
+  GQLUpdateVehicleDataInput,
+  GQLChargeConnection,
+  GQLChargePlan,
+  GQLChargeType,
+  GQLAction,
+  GQLScheduleType,
+} from "@shared/sc-schema";
+import { scheduleMap } from "@shared/sc-utils";
+
+function selfContained(): boolean {
+  return Number(config.SIMULATOR_SPEEDUP) !== 1;
+}
+
+interface SimulatorSubject {
+  serviceID: string;
+  vehicleUUID: string;
+  data?: GQLVehicle;
+  model?: SimulatedVehicle;
+  updated: number; // real time the model was last advanced
+  status: string;
+}
+
+interface SimulatorAgentState {
+  [vehicleUUID: string]: SimulatorSubject;
+}
+interface SimulatorAgentJob extends AgentJob {
+  serviceData: SimulatorServiceData;
+  mapped: number;
+  state: SimulatorAgentState;
+}
+
+export class SimulatorAgent extends AbstractAgent {
+  public name: string = provider.name;
+  constructor(scClient: SCClient) {
+    super(scClient);
+  }
+
+  public newState(): SimulatorAgentState {
+    return {};
+  }
+
+  public async setStatus(subject: SimulatorSubject, status: string) {
+    if (subject.status !== status) {
+      this.scClient.updateVehicle({ id: subject.vehicleUUID, status: status });
+      subject.status = status;
+    }
+  }
+
+  private createModel(
+    data: GQLVehicle,
+    providerData: SimulatorProviderData
+  ): SimulatedVehicle {
+    const scenario =
+      providerData.scenario ||
+      commuteScenario(
+        providerData.latitude,
+        providerData.longitude,
+        Number(config.DEFAULT_COMMUTE_DISTANCE)
+      );
+    const options = {
+      capacity:
+        Number(providerData.battery_capacity) ||
+        Number(config.DEFAULT_BATTERY_CAPACITY),
+      chargePower:
+        Number(providerData.charge_power) ||
+        Number(config.DEFAULT_CHARGE_POWER),
+      consumption:
+        Number(providerData.consumption) || Number(config.DEFAULT_CONSUMPTION),
+      scenario,
+    };
+
+    // A vehicle that never reported starts at home, plugged in and half full
+    if (data.odometer <= 0) {
+      return new SimulatedVehicle(
+        options,
+        Date.now(),
+        50,
+        10000e3,
+        providerData.latitude,
+        providerData.longitude,
+        true
+      );
+    }
+    const geoLocation = data.geoLocation || {
+      latitude: providerData.latitude,
+      longitude: providerData.longitude,
+    };
+    return new SimulatedVehicle(
+      options,
+      Date.now(),
+      data.batteryLevel,
+      data.odometer,
+      geoLocation.latitude,
+      geoLocation.longitude,
+      data.isConnected
+    );
+  }
+
+  private async poll(
+    job: SimulatorAgentJob,
+    subject: SimulatorSubject
+  ): Promise<void> {
+    const realNow = Date.now();
+
+    subject.data = await this.scClient.getVehicle(subject.vehicleUUID);
+    if (subject.data.providerData.disabled) return;
+    const providerData = subject.data.providerData as SimulatorProviderData;
+
+    if (subject.model === undefined) {
+      subject.model = this.createModel(subject.data, providerData);
+      log(
+        LogLevel.Info,
+        selfContained()
+          ? `Simulating ${subject.data.name} self-contained at ${Number(
+              config.SIMULATOR_SPEEDUP
+            )}x speed, nothing is reported to the server`
+          : `Simulating ${subject.data.name}`
+      );
+    } else {
+      subject.model.advance(
+        (realNow - subject.updated) * Number(config.SIMULATOR_SPEEDUP)
+      );
+    }
+    subject.updated = realNow;
+    const model = subject.model;
+    const now = model.time;
+
+    if (selfContained()) {
+      model.chargeLimit = subject.data.maximumLevel;
+      model.chargeCurrent = model.plugged
+        ? Number(config.DEFAULT_MAXIMUM_CURRENT)
+        : 0;
+      log(
+        LogLevel.Info,
+        `${subject.data.name} ${new Date(now).toISOString()} ${
+          model.driving ? "driving" : model.plugged ? "plugged in" : "parked"
+        } at ${model.level.toFixed(1)}%, odometer ${Math.round(
+          model.odometer / 1e3
+        )} km`
+      );
+      this.adjustInterval(job, Number(config.SIMULATOR_INTERVAL));
+      return;
+    }
+
+    const powerUse = model.chargePower();
+    const input: GQLUpdateVehicleDataInput = {
+      id: subject.vehicleUUID,
+      geoLocation: {
+        latitude: model.latitude,
+        longitude: model.longitude,
+      },
+      batteryLevel: Math.trunc(model.level),
+      odometer: Math.round(model.odometer),
+      outsideTemperature: model.temperature(),
+      insideTemperature: model.temperature(),
+      climateControl: false,
+      isDriving: model.driving,
+      connectedCharger: model.plugged ? GQLChargeConnection.AC : null,
+      chargingTo: powerUse > 0 ? Math.min(100, model.chargeLimit) : null,
+      estimatedTimeLeft: model.timeLeft(),
+      powerUse: model.plugged ? powerUse : null,
+      energyAdded: model.plugged ? model.energyAdded : null,
+      maximumCurrent: Number(config.DEFAULT_MAXIMUM_CURRENT),
+    };
+
+    // Set status
+    if (model.driving) {
+      await this.setStatus(subject, "Driving");
+    } else if (powerUse > 0) {
+      await this.setStatus(subject, "Charging");
+    } else if (model.plugged) {
+      await this.setStatus(subject, "Connected");
+    } else {
+      await this.setStatus(subject, "Parked");
+    }
+    this.adjustInterval(job, Number(config.SIMULATOR_INTERVAL));
+    await this.scClient.updateVehicleData(input);
+
+    subject.data = await this.scClient.getVehicle(subject.vehicleUUID);
+
+    // Reduce the array to a map with only the first upcoming event of each type
+    const schedule = scheduleMap(subject.data.schedule);
+    const disabled = schedule[GQLScheduleType.Disable];
+    if (disabled && now < numericStopTime(disabled.time)) {
+      // Command disabled
+      return;
+    }
+
+    if (!model.plugged) {
+      model.chargeCurrent = 0;
+      return;
+    }
+
+    // Like a real vehicle, charge to maximum level at unknown locations
+    const maxCurrent = Number(config.DEFAULT_MAXIMUM_CURRENT);
+    if (subject.data.locationID === null) {
+      model.chargeLimit = subject.data.maximumLevel;
+      model.chargeCurrent = maxCurrent;
+      return;
+    }
+
+    // do we have a charge plan, compared against the simulated clock
+    let shouldCharge: GQLChargePlan | undefined = undefined;
+    if (subject.data.chargePlan) {
+      for (const p of subject.data.chargePlan) {
+        if (p.chargeType === GQLChargeType.Disable) {
+          break; // charging disabled
+        } else if (
+          (p.chargeType === GQLChargeType.Manual && p.chargeStart === null) ||
+          (now >= numericStartTime(p.chargeStart) &&
+            now < numericStopTime(p.chargeStop))
+        ) {
+          shouldCharge = p;
+          break;
+        }
+      }
+    }
+
+    // location load balancing pauses charging while the main fuse is busy
+    if (shouldCharge !== undefined && subject.data.currentLimit !== 0) {
+      const current = Math.min(
+        maxCurrent,
+        shouldCharge.chargeCurrent || maxCurrent,
+        subject.data.currentLimit || maxCurrent
+      );
+      if (
+        model.chargeCurrent !== current ||
+        model.chargeLimit !== shouldCharge.level
+      ) {
+        log(
+          LogLevel.Info,
+          `${subject.data.name} charging to ${shouldCharge.level}% at ${current}A`
+        );
+      }
+      model.chargeLimit = shouldCharge.level;
+      model.chargeCurrent = current;
+    } else if (model.chargeCurrent > 0) {
+      log(LogLevel.Info, `${subject.data.name} stop charging`);
+      model.chargeCurrent = 0;
+    }
+  }
+
+  public async serviceWork(job: SimulatorAgentJob) {
+    if (
+      !job.mapped ||
+      (job.serviceData.updated && job.mapped < job.serviceData.updated)
+    ) {
+      const state: SimulatorAgentState = {};
+      const list = await this.scClient.providerQuery(provider.name, {
+        query: SimulatorProviderQueries.Vehicles,
+        service_uuid: job.serviceID,
+      });
+      for (const v of list) {
+        state[v.vehicle_uuid] = job.state[v.vehicle_uuid] || {
+          serviceID: job.serviceID,
+          vehicleUUID: v.vehicle_uuid,
+          updated: Date.now(),
+          status: "",
+        };
+        log(
+          LogLevel.Debug,
+          `Service ${job.serviceID} simulating vehicle ${v.vehicle_uuid}`
+        );
+      }
+      job.state = state;
+      job.mapped = Date.now();
+    }
+
+    for (const s of Object.values(job.state)) {
+      await this.poll(job, s);
+    }
+  }
+
+  public async [AgentAction.Refresh](
+    job: SimulatorAgentJob,
+    action: GQLAction
+  ): Promise<any> {
+    if (job.state[action.data.id] !== undefined) {
+      this.adjustInterval(job, 0);
+      return true;
+    }
+  }
+}
+
+const agent: IProviderAgent = {
+  ...provider,
+  agent: (scClient: SCClient) => new SimulatorAgent(scClient),
+};
+export default agent;
@@ -0,0 +1,20 @@
+const config = {
+  SIMULATOR_SPEEDUP: 1, // simulated seconds per real second
+  SIMULATOR_INTERVAL: 15, // seconds between vehicle updates
+
+  DEFAULT_MAXIMUM_LEVEL: 90,
+  DEFAULT_BATTERY_CAPACITY: 60, // kWh
+  DEFAULT_CHARGE_POWER: 11, // kW
+  DEFAULT_CONSUMPTION: 170, // Wh/km at 20 degrees celsius
+  DEFAULT_MAXIMUM_CURRENT: 16, // A
+  DEFAULT_COMMUTE_DISTANCE: 25, // km, one way
+};
+if (process && process.env) {
+  for (const key of Object.keys(config)) {
+    if (process.env[key] !== undefined) {
+      (config as any)[key] = process.env[key];
+    }
+  }
+}
+
+export default config;
@@ -0,0 +1,199 @@
+/**
+ * @file Virtual electric vehicle model for the simulator provider
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import { DateTime } from "luxon";
+import { MAINS_VOLTAGE, MAINS_PHASES } from "@shared/smartcharge-defines";
+import { SimulatorTrip } from ".";
+
+export interface SimulatedVehicleOptions {
+  capacity: number; // usable battery capacity (kWh)
+  chargePower: number; // maximum on board charger power (kW)
+  consumption: number; // energy use (Wh/km) at 20 degrees celsius
+  scenario: SimulatorTrip[];
+}
+
+interface OngoingTrip {
+  trip: SimulatorTrip;
+  start: number; // departure (simulated ms)
+  latitude: number; // starting point
+  longitude: number; // starting point
+  driven: number; // km driven so far
+}
+
+/**
+ * A daily commute from home to a destination 1.3 times closer than the
+ * driven distance and back again, only plugging in at home
+ */
+export function commuteScenario(
+  latitude: number,
+  longitude: number,
+  distance: number
+): SimulatorTrip[] {
+  const work = {
+    latitude: latitude + distance / 1.3 / 111.2, // km per degree latitude
+    longitude,
+  };
+  const duration = Math.round(distance * 1.4); // about 43 km/h
+  return [
+    { departure: "07:30", duration, distance, ...work, plug: false },
+    {
+      departure: "16:45",
+      duration,
+      distance,
+      latitude,
+      longitude,
+      plug: true,
+    },
+  ];
+}
+
+export class SimulatedVehicle {
+  public chargeCurrent: number = 0; // current (A) the vehicle is allowed to charge at
+  public chargeLimit: number = 100; // level % where charging stops
+  public energyAdded: number = 0; // energy (kWh) added since plugged in
+  private trip?: OngoingTrip;
+
+  constructor(
+    private options: SimulatedVehicleOptions,
+    public time: number, // simulated clock (ms)
+    public level: number, // battery level %
+    public odometer: number, // meters
+    public latitude: number,
+    public longitude: number,
+    public plugged: boolean
+  ) {}
+
+  public get driving(): boolean {
+    return this.trip !== undefined;
+  }
+
+  // Daily temperature swing between 4 and 16 degrees, warmest at 15:00
+  public temperature(): number {
+    const local = DateTime.fromMillis(this.time);
+    const hour = local.hour + local.minute / 60;
+    return 10 + 6 * Math.sin(((hour - 9) / 24) * 2 * Math.PI);
+  }
+
+  // Charge curve with full power up to 80%, then tapering off
+  public maxChargePower(): number {
+    return this.level < 80
+      ? this.options.chargePower
+      : this.options.chargePower * Math.max(0.1, (100 - this.level) / 20);
+  }
+
+  // Current charge power (kW)
+  public chargePower(): number {
+    if (
+      !this.plugged ||
+      this.driving ||
+      this.chargeCurrent <= 0 ||
+      this.level >= Math.min(100, this.chargeLimit)
+    ) {
+      return 0;
+    }
+    return Math.min(
+      (this.chargeCurrent * MAINS_VOLTAGE * MAINS_PHASES) / 1e3,
+      this.maxChargePower()
+    );
+  }
+
+  // Minutes left to reach the charge limit at current power
+  public timeLeft(): number | null {
+    const power = this.chargePower();
+    if (power <= 0) return null;
+    const energy =
+      ((Math.min(100, this.chargeLimit) - this.level) / 100) *
+      this.options.capacity;
+    return Math.round((energy / power) * 60);
+  }
+
+  private departure(trip: SimulatorTrip, time: number): number {
+    const [hour, minute] = trip.departure.split(":").map((f) => Number(f));
+    return DateTime.fromMillis(time)
+      .startOf("day")
+      .set({ hour, minute })
+      .toMillis();
+  }
+
+  private depart(trip: SimulatorTrip, start: number) {
+    this.trip = {
+      trip,
+      start,
+      latitude: this.latitude,
+      longitude: this.longitude,
+      driven: 0,
+    };
+    this.plugged = false;
+    this.energyAdded = 0;
+  }
+
+  private drive(trip: OngoingTrip) {
+    const progress = Math.min(
+      1,
+      (this.time - trip.start) / (trip.trip.duration * 60e3)
+    );
+    const driven = trip.trip.distance * progress;
+    const km = driven - trip.driven;
+    trip.driven = driven;
+
+    // Cold weather increases consumption
+    const consumption =
+      this.options.consumption *
+      (1 + Math.max(0, 20 - this.temperature()) * 0.015);
+    this.level = Math.max(
+      0,
+      this.level - ((km * consumption) / 1e3 / this.options.capacity) * 100
+    );
+    this.odometer += km * 1e3;
+    this.latitude =
+      trip.latitude + (trip.trip.latitude - trip.latitude) * progress;
+    this.longitude =
+      trip.longitude + (trip.trip.longitude - trip.longitude) * progress;
+
+    if (progress >= 1) {
+      this.trip = undefined;
+      this.plugged = trip.trip.plug;
+    }
+  }
+
+  private charge(ms: number) {
+    const energy = (this.chargePower() * ms) / 3600e3; // kWh
+    this.level = Math.min(
+      100,
+      this.level + (energy / this.options.capacity) * 100
+    );
+    this.energyAdded += energy;
+  }
+
+  /**
+   * Advance the simulated clock, one minute at a time so that scripted
+   * departures are not missed
+   */
+  public advance(ms: number) {
+    const end = this.time + ms;
+    while (this.time < end) {
+      const step = Math.min(60e3, end - this.time);
+      const from = this.time;
+      this.time += step;
+
+      if (this.trip === undefined) {
+        const trip = this.options.scenario.find((t) => {
+          const departure = this.departure(t, this.time);
+          return departure > from && departure <= this.time;
+        });
+        if (trip !== undefined) {
+          this.depart(trip, this.departure(trip, this.time));
+        }
+      }
+      if (this.trip !== undefined) {
+        this.drive(this.trip);
+      } else {
+        this.charge(step);
+      }
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { IContext, accountFilter } from "@server/gql/api";
+import provider, {
+  SimulatorProviderMutates,
+  SimulatorProviderQueries,
+  SimulatorProviderData,
+  SimulatorServiceData,
+  SimulatorTrip,
+} from "./index";
+import { ApolloError } from "apollo-server-express";
+import { log, LogLevel } from "@shared/utils";
+import { IProviderServer } from "@providers/provider-server";
+import config from "./simulator-config";
+import { DBServiceProvider } from "@server/db-schema";
+
+export interface SimulatorNewVehicleInput {
+  name: string;
+  latitude: number;
+  longitude: number;
+  battery_capacity?: number;
+  charge_power?: number;
+  consumption?: number;
+  maximum_level?: number;
+  scenario?: SimulatorTrip[];
+}
+
+const server: IProviderServer = {
+  ...provider,
+  query: async (data: any, context: IContext) => {
+    switch (data.query) {
+      case SimulatorProviderQueries.Vehicles: {
+        const vehicles = await context.db.getVehicles(
+          accountFilter(context.accountUUID)
+        );
+        return vehicles
+          .filter(
+            (v) =>
+              v.provider_data &&
+              v.provider_data.provider === provider.name &&
+              (data.service_uuid === undefined ||
+                v.service_uuid === data.service_uuid)
+          )
+          .map((v) => ({
+            vehicle_uuid: v.vehicle_uuid,
+            service_uuid: v.service_uuid,
+            name: v.name,
+          }));
+      }
+      default:
+        throw new Error(`Invalid query ${data.query} sent to simulator-server`);
+    }
+  },
+  mutation: async (data: any, context: IContext) => {
+    switch (data.mutation) {
+      case SimulatorProviderMutates.NewVehicle: {
+        const input = data.input as SimulatorNewVehicleInput;
+        log(
+          LogLevel.Trace,
+          `SimulatorProviderMutates.NewVehicle(${JSON.stringify(input)})`
+        );
+        if (
+          typeof input.latitude !== "number" ||
+          typeof input.longitude !== "number"
+        ) {
+          throw new ApolloError("Invalid home position");
+        }
+        if (input.scenario !== undefined && !Array.isArray(input.scenario)) {
+          throw new ApolloError("Invalid scenario");
+        }
+
+        // All simulated vehicles of an account share one service
+        const existing: DBServiceProvider | null =
+          await context.db.pg.oneOrNone(
+            `SELECT * FROM service_provider WHERE account_uuid = $1 AND provider_name = $2 LIMIT 1;`,
+            [context.accountUUID, provider.name]
+          );
+        const service: DBServiceProvider = existing
+          ? await context.db.pg.one(
+              `UPDATE service_provider SET service_data = jsonb_merge(service_data, $2) WHERE service_uuid = $1 RETURNING *;`,
+              [existing.service_uuid, { updated: Date.now() }]
+            )
+          : await context.db.pg.one(
+              `INSERT INTO service_provider(account_uuid, provider_name, service_data)
+                VALUES ($1,$2,$3) RETURNING *;`,
+              [
+                context.accountUUID,
+                provider.name,
+                { updated: Date.now() } as SimulatorServiceData,
+              ]
+            );
+        const vehicle = await context.db.newVehicle(
+          context.accountUUID,
+          input.name,
+          input.maximum_level || config.DEFAULT_MAXIMUM_LEVEL,
+          service.service_uuid,
+          {
+            provider: "simulator",
+            battery_capacity: input.battery_capacity,
+            charge_power: input.charge_power,
+            consumption: input.consumption,
+            latitude: input.latitude,
+            longitude: input.longitude,
+            scenario: input.scenario,
+          } as SimulatorProviderData
+        );
+        log(
+          LogLevel.Trace,
+          `context.db.newVehicle returned ${JSON.stringify(vehicle)})`
+        );
+        return vehicle;
+      }
+      default:
+        throw new Error(
+          `Invalid mutation ${data.mutation} sent to simulator-server`
+        );
+    }
+  },
+};
+export default server;
@@ -12,6 +12,7 @@ import * as fs from "fs";
 import {
   log,
   logFormat,
+  LogFields,
   LogLevel,
   numericStopTime,
   numericStartTime,
@@ -39,8 +40,10 @@ import {
   GQLChargeType,
   GQLAction,
   GQLScheduleType,
+  GQLAgentSubjectStatusInput,
 } from "@shared/sc-schema";
 import { scheduleMap } from "@shared/sc-utils";
+import { MINIMUM_CHARGE_CURRENT } from "@shared/smartcharge-defines";
 
 type PollState = "polling" | "tired" | "offline" | "asleep";
 enum ChargeControl {
@@ -53,6 +56,7 @@ enum ChargeControl {
 interface TeslaSubject {
   teslaID: string;
   vehicleUUID: string;
+  serviceUUID: string;
   data?: GQLVehicle;
   online: boolean;
   pollerror: number | undefined;
@@ -65,6 +69,12 @@ interface TeslaSubject {
   chargeLimit?: number; // remember it because we can't poll it if asleep
   chargeEnabled?: boolean; // remember it because we can't poll it if asleep
   chargeControl?: ChargeControl; // keep track of last charge command to enable user charge control overrides
+  chargeAmps?: number; // requested charge current
+  chargeAmpsMax?: number; // maximum charge current
+  chargeVoltage?: number; // charger voltage
+  chargePhases?: number; // charger phases
+  chargePower?: number; // current charge power (W)
+  ampsRestore?: number; // charge current set by the owner before the charge plan took control
   portOpen?: boolean; // is charge port open
   parked?: number; // are we parked
   triedOpen?: number; // timestamp when we tried to open the port
@@ -95,6 +105,13 @@ export class TeslaAgent extends AbstractAgent {
   public newState(): TeslaAgentState {
     return {};
   }
+  private logFields(subject: TeslaSubject): LogFields {
+    return {
+      vehicle_uuid: subject.vehicleUUID,
+      service_uuid: subject.serviceUUID,
+      provider: this.name,
+    };
+  }
   private changePollstate(subject: TeslaSubject, state: PollState) {
     if (subject.pollstate === state) return;
     subject.pollstate = state;
@@ -121,6 +138,7 @@ export class TeslaAgent extends AbstractAgent {
     let option_codes = [];
 
     let unknown_image = null;
+    const logFields = this.logFields(subject);
 
     type carOption = string[] | string | null;
     function optionMap(
@@ -139,13 +157,15 @@ export class TeslaAgent extends AbstractAgent {
       if (d === "undefined") {
         log(
           LogLevel.Info,
-          `${subject.teslaID} vehicle_config contains no ${field}`
+          `${subject.teslaID} vehicle_config contains no ${field}`,
+          logFields
         );
         return undefined;
       } else if (a[d] === undefined) {
         log(
           LogLevel.Warning,
-          `${subject.teslaID} unknown vehicle_config.${field} = ${d}`
+          `${subject.teslaID} unknown vehicle_config.${field} = ${d}`,
+          logFields
         );
         unknown_image = true;
         return undefined;
@@ -345,7 +365,8 @@ export class TeslaAgent extends AbstractAgent {
         LogLevel.Info,
         `${subject.teslaID} waking up ${
           (subject.data && subject.data.name) || subject.vehicleUUID
-        }`
+        }`,
+        this.logFields(subject)
       );
       const data = await teslaAPI.wakeUp(
         subject.teslaID,
@@ -366,6 +387,81 @@ export class TeslaAgent extends AbstractAgent {
     return false;
   }
 
+  private async setChargeAmps(
+    job: TeslaAgentJob,
+    subject: TeslaSubject,
+    amps: number | undefined
+  ) {
+    if (amps !== undefined && subject.chargeAmpsMax !== undefined) {
+      amps = Math.min(amps, subject.chargeAmpsMax);
+    }
+    if (
+      amps !== undefined &&
+      subject.chargeAmps !== undefined && // Only controll if polled at least once
+      subject.chargeAmps !== amps &&
+      (await this.vehicleInteraction(job, subject, false, false))
+    ) {
+      log(
+        LogLevel.Info,
+        `${subject.teslaID} setting charge current for ${
+          subject.data!.name
+        } to ${amps}A`,
+        this.logFields(subject)
+      );
+      await teslaAPI.setChargingAmps(
+        subject.teslaID,
+        amps,
+        job.serviceData.token
+      );
+      subject.chargeAmps = amps;
+    }
+  }
+
+  // Charge current controlled by the charge plan, remembers the owner's setting
+  private async planChargeAmps(
+    job: TeslaAgentJob,
+    subject: TeslaSubject,
+    amps: number
+  ) {
+    if (subject.ampsRestore === undefined) {
+      subject.ampsRestore = subject.chargeAmps;
+    }
+    await this.setChargeAmps(job, subject, amps);
+  }
+
+  /**
+   * Adjust charge current to follow the solar surplus at the location
+   * @returns false if the surplus is too small to charge on
+   */
+  private async trackSolar(
+    job: TeslaAgentJob,
+    subject: TeslaSubject,
+    limit?: number | null
+  ): Promise<boolean> {
+    if (!subject.data || !subject.data.locationID) return false;
+    if (subject.chargeAmpsMax === undefined) return true; // not polled yet
+
+    const gridPower = await this.scClient.getGridPower(subject.data.locationID);
+    if (gridPower === null) return false;
+
+    const voltage =
+      subject.chargeVoltage && subject.chargeVoltage > 100
+        ? subject.chargeVoltage
+        : 230; // not charging yet, assume nominal voltage
+    const phases = subject.chargePhases || 1;
+    const available = (subject.chargePower || 0) - gridPower;
+    const amps = Math.min(
+      subject.chargeAmpsMax,
+      limit || subject.chargeAmpsMax,
+      Math.floor(available / (voltage * phases))
+    );
+    if (amps < MINIMUM_CHARGE_CURRENT) {
+      return false; // charging at the minimum current would draw from the grid
+    }
+    await this.planChargeAmps(job, subject, amps);
+    return true;
+  }
+
   private async poll(job: TeslaAgentJob, subject: TeslaSubject): Promise<void> {
     try {
       const now = Date.now();
@@ -391,7 +487,8 @@ export class TeslaAgent extends AbstractAgent {
         ).response;
         log(
           LogLevel.Trace,
-          `${subject.teslaID} full poll : ${JSON.stringify(data)}`
+          `${subject.teslaID} full poll : ${JSON.stringify(data)}`,
+          this.logFields(subject)
         );
         if (config.AGENT_SAVE_TO_TRACEFILE) {
           const s = logFormat(LogLevel.Trace, data);
@@ -412,13 +509,15 @@ export class TeslaAgent extends AbstractAgent {
           if (subject.chargeControl === ChargeControl.Stopped) {
             log(
               LogLevel.Trace,
-              `${subject.teslaID} trickle-charge fix stop of ${subject.data.name} overridden by user interaction`
+              `${subject.teslaID} trickle-charge fix stop of ${subject.data.name} overridden by user interaction`,
+              this.logFields(subject)
             );
           } else {
             // known location or force disable
             log(
               LogLevel.Info,
-              `${subject.teslaID} trickle-charge fix stop charging ${subject.data.name}`
+              `${subject.teslaID} trickle-charge fix stop charging ${subject.data.name}`,
+              this.logFields(subject)
             );
             teslaAPI.chargeStop(subject.teslaID, job.serviceData.token);
             subject.chargeControl = ChargeControl.Stopping;
@@ -466,6 +565,12 @@ export class TeslaAgent extends AbstractAgent {
               1e3 // * voltage = watt / 1000 = kW
             : data.charge_state.charger_power; // fallback to API reported power
 
+        subject.chargeAmps = data.charge_state.charge_current_request;
+        subject.chargeAmpsMax = data.charge_state.charge_current_request_max;
+        subject.chargeVoltage = data.charge_state.charger_voltage;
+        subject.chargePhases = phases || subject.chargePhases;
+        subject.chargePower = chargingTo !== null ? powerUse * 1e3 : 0;
+
         // Update info
         const input: GQLUpdateVehicleDataInput = {
           id: subject.vehicleUUID,
@@ -493,6 +598,7 @@ export class TeslaAgent extends AbstractAgent {
           ), // 1 hour = 60 minutes
           powerUse: chargingTo !== null ? powerUse : null,
           energyAdded: data.charge_state.charge_energy_added, // added kWh
+          maximumCurrent: data.charge_state.charge_current_request_max,
         };
 
         const isGettingTired =
@@ -623,7 +729,8 @@ export class TeslaAgent extends AbstractAgent {
         }
         log(
           LogLevel.Trace,
-          `${subject.teslaID} list poll : ${JSON.stringify(data)}`
+          `${subject.teslaID} list poll : ${JSON.stringify(data)}`,
+          this.logFields(subject)
         );
 
         this.adjustInterval(job, config.TESLA_POLL_INTERVAL);
@@ -637,7 +744,8 @@ export class TeslaAgent extends AbstractAgent {
               // We were offline or sleeping
               log(
                 LogLevel.Info,
-                `${subject.teslaID} ${data.display_name} is ${data.state} (${subject.pollstate} -> polling)`
+                `${subject.teslaID} ${data.display_name} is ${data.state} (${subject.pollstate} -> polling)`,
+                this.logFields(subject)
               );
               if (subject.pollerror) {
                 this.changePollstate(subject, "polling"); // Active polling
@@ -652,7 +760,8 @@ export class TeslaAgent extends AbstractAgent {
             if (subject.pollstate !== "offline") {
               log(
                 LogLevel.Info,
-                `${subject.teslaID} ${data.display_name} is ${data.state} (${subject.pollstate} -> offline)`
+                `${subject.teslaID} ${data.display_name} is ${data.state} (${subject.pollstate} -> offline)`,
+                this.logFields(subject)
               );
 
               this.changePollstate(subject, "offline");
@@ -664,7 +773,8 @@ export class TeslaAgent extends AbstractAgent {
             if (subject.pollstate !== "asleep") {
               log(
                 LogLevel.Info,
-                `${subject.teslaID} ${data.display_name} is ${data.state} (${subject.pollstate} -> asleep)`
+                `${subject.teslaID} ${data.display_name} is ${data.state} (${subject.pollstate} -> asleep)`,
+                this.logFields(subject)
               );
 
               this.changePollstate(subject, "asleep");
@@ -710,7 +820,11 @@ export class TeslaAgent extends AbstractAgent {
         subject.chargeControl = undefined;
       }
 
-      log(LogLevel.Trace, `${subject.teslaID} ${JSON.stringify(subject)}`);
+      log(
+        LogLevel.Trace,
+        `${subject.teslaID} ${JSON.stringify(subject)}`,
+        this.logFields(subject)
+      );
 
       // Reduce the array to a map with only the first upcoming event of each type
       const schedule = scheduleMap(subject.data.schedule);
@@ -754,6 +868,49 @@ export class TeslaAgent extends AbstractAgent {
           }
         }
 
+        // location load balancing stops charging while the main fuse is busy
+        const currentLimit = subject.data.currentLimit;
+        if (shouldCharge !== undefined && currentLimit === 0) {
+          log(
+            LogLevel.Trace,
+            `${subject.teslaID} charging of ${subject.data.name} held back by load balancing`,
+            this.logFields(subject)
+          );
+          shouldCharge = undefined;
+        }
+
+        // control charge current, and restore it when the plan no longer does
+        if (
+          shouldCharge !== undefined &&
+          shouldCharge.chargeType === GQLChargeType.Solar
+        ) {
+          if (!(await this.trackSolar(job, subject, currentLimit))) {
+            log(
+              LogLevel.Trace,
+              `${subject.teslaID} solar surplus too small to charge ${subject.data.name}`,
+              this.logFields(subject)
+            );
+            shouldCharge = undefined;
+          }
+        } else if (
+          shouldCharge !== undefined &&
+          (shouldCharge.chargeCurrent || currentLimit)
+        ) {
+          await this.planChargeAmps(
+            job,
+            subject,
+            Math.min(
+              shouldCharge.chargeCurrent || Infinity,
+              currentLimit || Infinity
+            )
+          );
+        } else if (subject.ampsRestore !== undefined) {
+          await this.setChargeAmps(job, subject, subject.ampsRestore);
+          if (subject.chargeAmps === subject.ampsRestore) {
+            subject.ampsRestore = undefined;
+          }
+        }
+
         // are we following the plan
         if (
           shouldCharge === undefined &&
@@ -765,7 +922,8 @@ export class TeslaAgent extends AbstractAgent {
           if (subject.chargeControl === ChargeControl.Stopped) {
             log(
               LogLevel.Trace,
-              `${subject.teslaID} charge stop of ${subject.data.name} overridden by user interaction`
+              `${subject.teslaID} charge stop of ${subject.data.name} overridden by user interaction`,
+              this.logFields(subject)
             );
           } else if (
             (subject.data.locationID !== null || disableCharge) &&
@@ -774,7 +932,8 @@ export class TeslaAgent extends AbstractAgent {
             // known location or force disable
             log(
               LogLevel.Info,
-              `${subject.teslaID} stop charging ${subject.data.name}`
+              `${subject.teslaID} stop charging ${subject.data.name}`,
+              this.logFields(subject)
             );
             teslaAPI.chargeStop(subject.teslaID, job.serviceData.token);
             subject.chargeControl = ChargeControl.Stopping;
@@ -785,7 +944,8 @@ export class TeslaAgent extends AbstractAgent {
             if (subject.chargeControl === ChargeControl.Started) {
               log(
                 LogLevel.Trace,
-                `${subject.teslaID} charge start of ${subject.data.name} overridden by user interaction`
+                `${subject.teslaID} charge start of ${subject.data.name} overridden by user interaction`,
+                this.logFields(subject)
               );
             } else if (
               subject.data.batteryLevel < shouldCharge.level &&
@@ -793,7 +953,8 @@ export class TeslaAgent extends AbstractAgent {
             ) {
               log(
                 LogLevel.Info,
-                `${subject.teslaID} start charging ${subject.data.name}`
+                `${subject.teslaID} start charging ${subject.data.name}`,
+                this.logFields(subject)
               );
               await teslaAPI.chargeStart(
                 subject.teslaID,
@@ -844,7 +1005,8 @@ export class TeslaAgent extends AbstractAgent {
             if (await this.vehicleInteraction(job, subject, true, false)) {
               log(
                 LogLevel.Info,
-                `${subject.teslaID} setting charge limit for ${subject.data.name} to ${chargeto}%`
+                `${subject.teslaID} setting charge limit for ${subject.data.name} to ${chargeto}%`,
+                this.logFields(subject)
               );
               await teslaAPI.setChargeLimit(
                 subject.teslaID,
@@ -865,6 +1027,7 @@ export class TeslaAgent extends AbstractAgent {
             (f) =>
               f.chargeType !== GQLChargeType.Disable &&
               f.chargeType !== GQLChargeType.Fill &&
+              f.chargeType !== GQLChargeType.Solar &&
               f.chargeType !== GQLChargeType.Manual &&
               f.chargeType !== GQLChargeType.Prefered
           ) >= 0
@@ -915,7 +1078,8 @@ export class TeslaAgent extends AbstractAgent {
           } else {
             log(
               LogLevel.Info,
-              `${subject.teslaID} starting climate control on ${subject.data.name}`
+              `${subject.teslaID} starting climate control on ${subject.data.name}`,
+              this.logFields(subject)
             );
             await this[AgentAction.ClimateControl](job, {
               data: { id: subject.vehicleUUID, enable: true },
@@ -930,7 +1094,8 @@ export class TeslaAgent extends AbstractAgent {
           // we're after hvac window, we did turn it on, it's still on, and we were not told to leave it alone
           log(
             LogLevel.Info,
-            `${subject.teslaID} stopping climate control on ${subject.data.name}`
+            `${subject.teslaID} stopping climate control on ${subject.data.name}`,
+            this.logFields(subject)
           );
           await this[AgentAction.ClimateControl](job, {
             data: { id: subject.vehicleUUID, enable: false },
@@ -961,7 +1126,8 @@ export class TeslaAgent extends AbstractAgent {
             subject.teslaID
           } tesla-agent polling error 401 for ${JSON.stringify(
             job.serviceData
-          )}`
+          )}`,
+          this.logFields(subject)
         );
         try {
           const newToken = await this.scClient.providerMutate("tesla", {
@@ -975,7 +1141,8 @@ export class TeslaAgent extends AbstractAgent {
             LogLevel.Error,
             `${subject.teslaID} unable to refresh teslaAPI token for ${
               subject.teslaID
-            }: ${JSON.stringify(err)}`
+            }: ${JSON.stringify(err)}`,
+            this.logFields(subject)
           );
           job.serviceData.invalid_token = true; // client side update to match server
         }
@@ -991,18 +1158,34 @@ export class TeslaAgent extends AbstractAgent {
       if (err.response && err.response.data) {
         log(
           LogLevel.Error,
-          `${subject.teslaID} ${JSON.stringify(err.response.data)}`
+          `${subject.teslaID} ${JSON.stringify(err.response.data)}`,
+          this.logFields(subject)
         );
         if (err.response.data.error) {
           await this.setStatus(subject, err.response.data.error);
         }
       } else {
-        log(LogLevel.Error, `${subject.teslaID} ${JSON.stringify(err)}`);
+        log(
+          LogLevel.Error,
+          `${subject.teslaID} ${JSON.stringify(err)}`,
+          this.logFields(subject)
+        );
       }
       throw new Error(err);
     }
   }
 
+  protected subjectStatus(job: TeslaAgentJob): GQLAgentSubjectStatusInput[] {
+    return Object.values(job.state).map((subject) => ({
+      id: subject.vehicleUUID,
+      pollState: subject.pollstate || null,
+      pollError:
+        subject.pollerror !== undefined
+          ? `Tesla API error ${subject.pollerror}`
+          : null,
+    }));
+  }
+
   public async serviceWork(job: TeslaAgentJob) {
     if (job.serviceData.invalid_token) return; // provider requires a valid token
 
@@ -1019,6 +1202,7 @@ export class TeslaAgent extends AbstractAgent {
         if (v.vehicle_uuid && !job.state[v.vehicle_uuid]) {
           job.state[v.vehicle_uuid] = {
             vehicleUUID: v.vehicle_uuid,
+            serviceUUID: job.serviceID,
             teslaID: v.id_s,
             online: false,
             pollerror: undefined,
@@ -1028,12 +1212,14 @@ export class TeslaAgent extends AbstractAgent {
           };
           log(
             LogLevel.Debug,
-            `Service ${job.serviceID} mapping VIN ${v.vin} -> ID ${v.id_s} -> UUID ${v.vehicle_uuid}`
+            `Service ${job.serviceID} mapping VIN ${v.vin} -> ID ${v.id_s} -> UUID ${v.vehicle_uuid}`,
+            { service_uuid: job.serviceID, provider: this.name }
           );
         } else {
           log(
             LogLevel.Debug,
-            `Service ${job.serviceID} ignoring VIN ${v.vin} -> ID ${v.id_s} -> UUID ${v.vehicle_uuid}`
+            `Service ${job.serviceID} ignoring VIN ${v.vin} -> ID ${v.id_s} -> UUID ${v.vehicle_uuid}`,
+            { service_uuid: job.serviceID, provider: this.name }
           );
         }
       }
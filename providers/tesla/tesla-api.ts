@@ -93,6 +93,18 @@ export class TeslaAPI {
     );
     return result;
   }
+  public async setChargingAmps(id: string, amps: number, token: TeslaToken) {
+    const result = await this.ownerAPI.post(
+      `/api/1/vehicles/${id}/command/set_charging_amps`,
+      { charging_amps: amps },
+      token.access_token
+    );
+    log(
+      LogLevel.Trace,
+      `setChargingAmps(${id}, ${amps}) => ${JSON.stringify(result)}`
+    );
+    return result;
+  }
   public async chargeStart(id: string, token: TeslaToken) {
     const result = await this.ownerAPI.post(
       `/api/1/vehicles/${id}/command/charge_start`,
@@ -0,0 +1,49 @@
+/**
+ * @file Agency job lease sharing test
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import "reflect-metadata";
+import assert from "assert";
+import { test } from "@shared/test-runner";
+import { DBAgencyLease } from "./db-schema";
+import { leaseShare } from "./db-interface";
+
+function leases(...jobs: string[]): DBAgencyLease[] {
+  return jobs.map((job) => ({
+    job,
+    provider_name: "tesla",
+    agency_uuid: "agency-1",
+    expires: new Date(0),
+  }));
+}
+const jobs = (list: DBAgencyLease[]) => list.map((f) => f.job);
+
+test("takes every job when alone", () => {
+  const share = leaseShare([], 5, 1);
+  assert.deepStrictEqual(jobs(share.keep), []);
+  assert.deepStrictEqual(jobs(share.release), []);
+  assert.strictEqual(share.take, 5);
+});
+
+test("keeps its leases and takes up to its share", () => {
+  const share = leaseShare(leases("c", "a"), 5, 2);
+  assert.deepStrictEqual(jobs(share.keep), ["a", "c"]);
+  assert.deepStrictEqual(jobs(share.release), []);
+  assert.strictEqual(share.take, 1);
+});
+
+test("releases the jobs above its share when another agency joins", () => {
+  const share = leaseShare(leases("e", "b", "d", "a", "c"), 5, 2);
+  assert.deepStrictEqual(jobs(share.keep), ["a", "b", "c"]);
+  assert.deepStrictEqual(jobs(share.release), ["d", "e"]);
+  assert.strictEqual(share.take, 0);
+});
+
+test("rounds the share up so every job gets an agency", () => {
+  assert.strictEqual(leaseShare([], 7, 3).take, 3);
+  assert.strictEqual(leaseShare(leases("a", "b", "c"), 7, 3).take, 0);
+  assert.deepStrictEqual(jobs(leaseShare(leases("a"), 0, 0).release), ["a"]);
+});
@@ -9,32 +9,63 @@
  */
 import "./env";
 import { strict as assert } from "assert";
+import os from "os";
+import http from "http";
 
 import { Command } from "commander";
-import { log, LogLevel, delay } from "@shared/utils";
+import {
+  log,
+  LogLevel,
+  LogFormat,
+  delay,
+  setLogLevel,
+  setLogFormat,
+  parseLogLevel,
+} from "@shared/utils";
+import config from "@shared/smartcharge-config";
 import { SCClient } from "@shared/sc-client";
 import providers from "@providers/provider-agents";
 import { AbstractAgent } from "@providers/provider-agent";
 import WebSocket from "ws";
-import { GQLServiceProvider } from "@shared/sc-schema";
+import { GQLServiceProvider, GQLAgentStatusInput } from "@shared/sc-schema";
+import { AGENCY_HEARTBEAT } from "@shared/smartcharge-defines";
+import { metrics, METRICS_CONTENT_TYPE } from "@shared/metrics";
 
 const APP_NAME = `smartcharge-agency`;
 const APP_VERSION = `1.0`;
 
 export class Agency {
   public ID: string | undefined;
+  public name: string = `${os.hostname()}:${process.pid}`;
   public agents: { [agent: string]: AbstractAgent } = {}; // map of agent names to agent classes
   public agentJobs: { [service_uuid: string]: GQLServiceProvider } = {}; // map of job uuid to agent jobs
   private promiseList: Promise<any>[] = [];
   private stopped: boolean = false;
   constructor(private client: SCClient) {}
   public async init() {
-    // FUTURE: subscribe to a set of agents to split load between agencies
-    // each agency should have its own id
-    this.ID = "internal";
+    // Each agency registers and leases its share of the jobs from the server
+    this.ID = await this.client.registerAgency(
+      this.name,
+      Object.keys(this.agents)
+    );
   }
-  public async list(accept: string[]) {
-    const serviceList = await this.client.getServiceProviders(accept);
+  public async list() {
+    assert(this.ID !== undefined);
+    let lease = await this.client.agencyHeartbeat(this.ID);
+    if (lease === null) {
+      // Our jobs could already be running in other agencies
+      log(LogLevel.Warning, `Agency ${this.ID} expired, registering again`, {
+        agency_uuid: this.ID,
+      });
+      await this.init();
+      lease = await this.client.agencyHeartbeat(this.ID!);
+      assert(lease !== null);
+    }
+    for (const [name, agent] of Object.entries(this.agents)) {
+      agent.globalLease = lease.globals.includes(name);
+    }
+
+    const serviceList = lease.services;
     const serviceMap: { [service_uuid: string]: GQLServiceProvider } = {};
 
     // Add new entries
@@ -43,7 +74,8 @@ export class Agency {
       if (this.agentJobs[j.serviceID] === undefined) {
         log(
           LogLevel.Info,
-          `Detected new agent job ${j.serviceID} adding to ${j.providerName}`
+          `Detected new agent job ${j.serviceID} adding to ${j.providerName}`,
+          { service_uuid: j.serviceID, provider: j.providerName }
         );
         this.agents[j.providerName].add(j);
         this.agentJobs[j.serviceID] = j;
@@ -58,12 +90,25 @@ export class Agency {
       if (serviceMap[i] === undefined) {
         log(
           LogLevel.Info,
-          `Removing agent job ${j.serviceID} from ${j.providerName}`
+          `Removing agent job ${j.serviceID} from ${j.providerName}`,
+          { service_uuid: j.serviceID, provider: j.providerName }
         );
         this.agents[j.providerName].remove(j);
         delete this.agentJobs[i];
       }
     }
+
+    // Report the health of our jobs
+    try {
+      await this.client.updateAgentStatus(
+        this.name,
+        ([] as GQLAgentStatusInput[]).concat(
+          ...Object.values(this.agents).map((agent) => agent.health())
+        )
+      );
+    } catch (err) {
+      log(LogLevel.Warning, err);
+    }
   }
   public async worker() {
     const agentNames = Object.keys(this.agents);
@@ -71,20 +116,24 @@ export class Agency {
       this.promiseList.push(this.agents[name].worker());
     }
     const workerPromise = (async () => {
-      log(LogLevel.Info, `Agency ${this.ID} worker started`);
+      log(LogLevel.Info, `Agency ${this.ID} worker started`, {
+        agency_uuid: this.ID,
+      });
       this.stopped = false;
 
       let lastList = 0;
       while (!this.stopped) {
         const now = Date.now();
-        if (now > lastList + 60e3) {
-          // refresh list every minute
-          await this.list(agentNames);
+        if (now > lastList + AGENCY_HEARTBEAT) {
+          // renew leases and refresh the list every heartbeat
+          await this.list();
           lastList = now;
         }
         await delay(1000);
       }
-      log(LogLevel.Info, `Agency ${this.ID} worker stopped`);
+      log(LogLevel.Info, `Agency ${this.ID} worker stopped`, {
+        agency_uuid: this.ID,
+      });
     })();
     this.promiseList.push(workerPromise);
     return Promise.all(this.promiseList);
@@ -94,18 +143,22 @@ export class Agency {
   }
   public async stop() {
     this.stopped = true;
-    // FUTURE: unsubscribe to release agents to other agencies
-    /* await this.restclient.unsubscribe(
-      `/agency?agency_uuid=${this.ID}`,
-      undefined,
-      this.accessToken
-    );*/
     for (const name of Object.keys(this.agents)) {
       assert(this.agents[name] !== undefined);
       assert(this.agents[name].stop !== undefined);
+      this.agents[name].globalLease = false;
       this.agents[name].stop();
     }
     await Promise.all(this.promiseList);
+
+    // Release our leases to other agencies
+    if (this.ID !== undefined) {
+      const agencyID = this.ID;
+      this.ID = undefined;
+      await this.client
+        .releaseAgency(agencyID)
+        .catch((err) => log(LogLevel.Warning, err));
+    }
   }
 }
 
@@ -114,11 +167,39 @@ program
   .version(`${APP_NAME} ${APP_VERSION}`, "-v, --version")
   .arguments("<access_token> <server_url>")
   .option("-d, --daemon", "keep running while logging errors")
+  .option("-m, --metrics <port>", "serve Prometheus metrics on port")
   .action(async (access_token, server_url) => {
+    setLogLevel(parseLogLevel(config.LOG_LEVEL));
+    setLogFormat(
+      config.LOG_FORMAT === LogFormat.JSON ? LogFormat.JSON : LogFormat.Text
+    );
+
     const ws_url = server_url.replace(/^http/, "ws");
     const client = new SCClient(server_url, ws_url, WebSocket);
     const agency = new Agency(client);
 
+    if (program.opts().metrics) {
+      const port = Number(program.opts().metrics);
+      http
+        .createServer(async (req, res) => {
+          if (req.url !== "/metrics") {
+            res.writeHead(404).end();
+            return;
+          }
+          try {
+            const text = await metrics.render();
+            res.writeHead(200, { "Content-Type": METRICS_CONTENT_TYPE });
+            res.end(text);
+          } catch (err) {
+            log(LogLevel.Error, err);
+            res.writeHead(500).end();
+          }
+        })
+        .listen(port, () =>
+          log(LogLevel.Info, `Metrics served on port ${port}`)
+        );
+    }
+
     for (const provider of providers) {
       if (provider.agent) {
         agency.registerAgent(provider.agent(client));
@@ -142,7 +223,9 @@ program
         const token = process.env[access_token] || access_token;
         await client.loginWithAPIToken(token);
         await agency.init();
-        log(LogLevel.Info, `Agency ID ${agency.ID} started`);
+        log(LogLevel.Info, `Agency ID ${agency.ID} started`, {
+          agency_uuid: agency.ID,
+        });
         await agency.worker();
       } catch (err) {
         log(LogLevel.Error, err);
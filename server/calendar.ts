@@ -0,0 +1,159 @@
+/**
+ * @file iCalendar (ICS) trip import for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import { DateTime } from "luxon";
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  location: string;
+  geo: { latitude: number; longitude: number } | null;
+  categories: string[];
+  start: number | null; // epoch ms, null for all-day events
+  cancelled: boolean;
+}
+
+export interface CalendarTrip {
+  uid: string; // event uid, used to keep the schedule in sync
+  ts: number; // departure (epoch ms)
+  level: number | null; // explicit charge level from tag
+  latitude: number | null; // destination if the event has a GEO property
+  longitude: number | null;
+}
+
+// Un-escape TEXT values (RFC 5545 3.3.11)
+function icsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_m, c) =>
+    c === "n" || c === "N" ? "\n" : c
+  );
+}
+
+// Parse DATE-TIME values, UTC (Z suffix), with TZID or floating (UTC)
+function icsTime(value: string, params: Record<string, string>): number | null {
+  if (params.VALUE === "DATE" || /^\d{8}$/.test(value)) {
+    return null; // all-day event
+  }
+  const utc = value.endsWith("Z");
+  const zone = utc
+    ? "UTC"
+    : params.TZID && DateTime.local().setZone(params.TZID).isValid
+    ? params.TZID
+    : "UTC";
+  const format = "yyyyMMdd'T'HHmmss";
+  const time = DateTime.fromFormat(value.replace(/Z$/, ""), format, { zone });
+  return time.isValid ? time.toMillis() : null;
+}
+
+/**
+ * Parse the VEVENT components of an iCalendar document, recurring events
+ * are not expanded (use weekly schedules for those)
+ */
+export function parseICS(text: string): CalendarEvent[] {
+  // Unfold continuation lines
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+  const events: CalendarEvent[] = [];
+  let event: CalendarEvent | undefined;
+  for (const line of lines) {
+    const m = line.match(/^([A-Za-z0-9-]+)((?:;[^:]*)?):(.*)$/);
+    if (!m) continue;
+    const name = m[1].toUpperCase();
+    const params: Record<string, string> = {};
+    for (const p of m[2].split(";").filter((f) => f)) {
+      const [key, value] = p.split("=");
+      params[key.toUpperCase()] = (value || "").replace(/^"(.*)"$/, "$1");
+    }
+    const value = m[3];
+
+    if (name === "BEGIN" && value.toUpperCase() === "VEVENT") {
+      event = {
+        uid: "",
+        summary: "",
+        description: "",
+        location: "",
+        geo: null,
+        categories: [],
+        start: null,
+        cancelled: false,
+      };
+    } else if (name === "END" && value.toUpperCase() === "VEVENT") {
+      if (event && event.uid) {
+        events.push(event);
+      }
+      event = undefined;
+    } else if (event) {
+      switch (name) {
+        case "UID":
+          event.uid = value;
+          break;
+        case "SUMMARY":
+          event.summary = icsText(value);
+          break;
+        case "DESCRIPTION":
+          event.description = icsText(value);
+          break;
+        case "LOCATION":
+          event.location = icsText(value);
+          break;
+        case "GEO": {
+          const [latitude, longitude] = value.split(/[;,]/).map(parseFloat);
+          if (!isNaN(latitude) && !isNaN(longitude)) {
+            event.geo = { latitude, longitude };
+          }
+          break;
+        }
+        case "CATEGORIES":
+          event.categories.push(
+            ...icsText(value)
+              .split(",")
+              .map((f) => f.trim().toLowerCase())
+          );
+          break;
+        case "DTSTART":
+          event.start = icsTime(value, params);
+          break;
+        case "STATUS":
+          event.cancelled = value.toUpperCase() === "CANCELLED";
+          break;
+      }
+    }
+  }
+  return events;
+}
+
+/**
+ * Pick the events that are trips, either tagged with #charge (or the category
+ * charge) or with a location. An explicit level can be given as #charge=80
+ */
+export function calendarTrips(
+  events: CalendarEvent[],
+  now: number,
+  horizon: number
+): CalendarTrip[] {
+  const trips: CalendarTrip[] = [];
+  for (const e of events) {
+    if (e.cancelled || e.start === null) continue;
+    if (e.start <= now || e.start > now + horizon) continue;
+
+    const tag = `${e.summary}\n${e.description}`.match(
+      /#charge(?:\s*[=:]?\s*(\d{1,3})\s*%?)?/i
+    );
+    const tagged = tag !== null || e.categories.includes("charge");
+    if (!tagged && !e.location && !e.geo) continue;
+
+    const level = tag && tag[1] ? Math.min(100, parseInt(tag[1])) : null;
+    trips.push({
+      uid: e.uid,
+      ts: e.start,
+      level: level || null,
+      latitude: e.geo && e.geo.latitude,
+      longitude: e.geo && e.geo.longitude,
+    });
+  }
+  return trips;
+}
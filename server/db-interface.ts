@@ -12,27 +12,60 @@ import {
   DBVehicle,
   DBLocation,
   DB_SETUP_TSQL,
+  DB_MIGRATIONS,
+  DBMigration,
   DBVehicleDebug,
   DBAccount,
   DB_VERSION,
   DBPriceData,
+  DBMeterData,
   DBServiceProvider,
+  DBAgency,
+  DBAgencyLease,
+  DBAction,
+  DBAgentStatus,
+  DBAgentSubjectStatus,
   DBChargeCurve,
   DBPriceList,
   DBSchedule,
+  DBWeeklySchedule,
+  DBCharge,
+  DBChargePlanHistory,
+  DBCarbonData,
 } from "./db-schema";
 import { log, LogLevel, geoDistance, generateToken } from "@shared/utils";
 import config from "@shared/smartcharge-config";
 import { v5 as uuidv5 } from "uuid";
-import { SmartChargeGoal } from "@shared/sc-types";
+import { SmartChargeGoal, ScheduleType, ActionStatus } from "@shared/sc-types";
 import { DEFAULT_DIRECTLEVEL } from "@shared/smartcharge-defines";
+import { metrics } from "@shared/metrics";
 import {
   VehicleLocationSettings,
   VehicleDebugInput,
   Schedule,
 } from "./gql/vehicle-type";
 
-export const DB_OPTIONS: pgp.IInitOptions = {};
+const queryDuration = metrics.histogram(
+  "smartcharge_db_query_duration_seconds",
+  "Database query duration by command"
+);
+const queryErrors = metrics.counter(
+  "smartcharge_db_query_errors_total",
+  "Failed database queries"
+);
+export const DB_OPTIONS: pgp.IInitOptions = {
+  receive(_data, result, _e) {
+    if (result && result.duration !== undefined) {
+      queryDuration.observe(
+        { command: result.command || "unknown" },
+        result.duration / 1e3
+      );
+    }
+  },
+  error(_err, _e) {
+    queryErrors.inc();
+  },
+};
 
 const SMARTCHARGE_NAMESPACE = uuidv5("account.smartcharge.dev", uuidv5.DNS);
 export function makeAccountUUID(subject: string, domain: string): string {
@@ -61,10 +94,41 @@ function queryHelper(fields: any[]): [any[], string[]] {
   return [values, where];
 }
 
+export interface LeaseShare {
+  keep: DBAgencyLease[]; // leases to renew
+  release: DBAgencyLease[]; // leases to hand over to other agencies
+  take: number; // number of free jobs to take
+}
+/**
+ * Split the jobs fairly between the active agencies, an agency keeps its
+ * leases up to its share (by job name) and takes free jobs below it
+ */
+export function leaseShare(
+  leases: DBAgencyLease[],
+  jobs: number,
+  agencies: number
+): LeaseShare {
+  const share = Math.ceil(jobs / Math.max(1, agencies));
+  const sorted = [...leases].sort((a, b) => (a.job < b.job ? -1 : 1));
+  return {
+    keep: sorted.slice(0, share),
+    release: sorted.slice(share),
+    take: Math.max(0, share - leases.length),
+  };
+}
+
 export interface ChargeCurve {
   [level: number]: number;
 }
 
+export interface ConsumptionModel {
+  trips: number; // number of trips in the model
+  level_per_km: number | null; // average battery % used per km
+  slope: number | null; // change in battery % per km for every degree celsius
+  intercept: number | null; // battery % per km at 0 degrees celsius
+  wh_per_level: number | null; // energy (Wh) for each battery %
+}
+
 export class DBInterface {
   public pg: pgp.IDatabase<unknown>;
   constructor() {
@@ -80,26 +144,37 @@ export class DBInterface {
           : false,
     });
   }
-  public async init(): Promise<void> {
-    let version = "";
+  public async init(
+    options: { migrateOnly?: boolean; dryRun?: boolean } = {}
+  ): Promise<void> {
+    let version: string | undefined;
     log(LogLevel.Info, `Checking database`);
     try {
       version = await this.getDatabaseVersion();
-      if (version !== DB_VERSION) {
-        throw "Database is out of date. No automatic upgrade script found.";
-      }
     } catch (err: any) {
-      if (err && err.code === "42P01") {
-        // PostgreSQL error code for parserOpenTable
-        log(LogLevel.Info, `No tables found, running database setup script`);
-        await this.setupDatabase();
-        version = await this.getDatabaseVersion();
-      } else {
+      // PostgreSQL error code for parserOpenTable, only a missing setting
+      // table means an empty database
+      if (!err || err.code !== "42P01") {
         throw err;
       }
     }
+    if (version === undefined) {
+      if (options.dryRun) {
+        log(LogLevel.Info, `No tables found, database setup script needed`);
+        return;
+      }
+      log(LogLevel.Info, `No tables found, running database setup script`);
+      await this.setupDatabase();
+      version = await this.getDatabaseVersion();
+    } else if (version !== DB_VERSION) {
+      version = await this.migrateDatabase(version, options.dryRun);
+    }
     log(LogLevel.Debug, `Database version ${version} detected`);
 
+    if (options.migrateOnly || options.dryRun) {
+      return;
+    }
+
     // Start maintainance task
     this.maintainanceWorker();
   }
@@ -143,6 +218,16 @@ export class DBInterface {
           );
         }
 
+        // Cleanup old charge plan history
+        await this.pg.none(
+          `DELETE FROM charge_plan_history WHERE ts < NOW() - interval '90 days';`
+        );
+
+        // Cleanup old actions
+        await this.pg.none(
+          `DELETE FROM action WHERE created < NOW() - interval '30 days';`
+        );
+
         nextCleanup = now + 3600e3; // 1 hour
       }
     }, 60e3);
@@ -152,6 +237,56 @@ export class DBInterface {
       await this.pg.one(`SELECT value FROM setting WHERE key = 'version';`)
     ).value;
   }
+  /**
+   * Upgrade the database from version to DB_VERSION by following the chain
+   * of migrations, all steps are run in a single transaction
+   * @returns the database version after migration
+   */
+  public async migrateDatabase(
+    version: string,
+    dryRun: boolean = false
+  ): Promise<string> {
+    const steps: DBMigration[] = [];
+    for (let v = version; v !== DB_VERSION; ) {
+      const step = DB_MIGRATIONS.find((f) => f.from === v);
+      if (!step || steps.includes(step)) {
+        throw `Database version ${version} is out of date. No automatic upgrade script found.`;
+      }
+      steps.push(step);
+      v = step.version;
+    }
+
+    if (dryRun) {
+      for (const step of steps) {
+        log(
+          LogLevel.Info,
+          `Pending migration ${step.from} => ${step.version} (${step.description})`
+        );
+        for (const q of step.up) {
+          log(LogLevel.Info, q);
+        }
+      }
+      return version;
+    }
+
+    await this.pg.tx(async (t) => {
+      for (const step of steps) {
+        log(
+          LogLevel.Info,
+          `Migrating database ${step.from} => ${step.version} (${step.description})`
+        );
+        for (const q of step.up) {
+          log(LogLevel.Trace, q);
+          await t.result(q);
+        }
+        await t.none(
+          `UPDATE setting SET value = $1::jsonb WHERE key = 'version';`,
+          [JSON.stringify(step.version)]
+        );
+      }
+    });
+    return this.getDatabaseVersion();
+  }
   public async setupDatabase(): Promise<void> {
     for (const q of DB_SETUP_TSQL) {
       log(LogLevel.Trace, q);
@@ -296,6 +431,11 @@ export class DBInterface {
       [input.price_list_uuid, `price_list_uuid = $6`],
       [input.service_uuid, `service_uuid = $7`],
       [input.provider_data, `provider_data = jsonb_merge(provider_data, $8)`],
+      [input.tariff, `tariff = $9`],
+      [input.maximum_current, `maximum_current = $10`],
+      [input.carbon_weight, `carbon_weight = $11`],
+      [input.fallback_price_lists, `fallback_price_lists = $12::uuid[]`],
+      [input.price_forecast, `price_forecast = $13`],
     ]);
     assert(set.length > 0);
 
@@ -307,6 +447,15 @@ export class DBInterface {
     );
   }
 
+  public async hasPriceData(price_list_uuid: string): Promise<boolean> {
+    return (
+      await this.pg.one(
+        `SELECT EXISTS(SELECT 1 FROM price_data WHERE price_list_uuid = $1) AS exists;`,
+        [price_list_uuid]
+      )
+    ).exists;
+  }
+
   public async updatePriceData(
     price_list_uuid: string,
     ts: Date,
@@ -320,6 +469,44 @@ export class DBInterface {
     return result;
   }
 
+  public async updateCarbonData(
+    price_list_uuid: string,
+    ts: Date,
+    intensity: number
+  ): Promise<DBCarbonData> {
+    const result = await this.pg.one(
+      `INSERT INTO carbon_data(price_list_uuid, ts, intensity) VALUES($1, $2, $3) ` +
+        `ON CONFLICT (price_list_uuid,ts) DO UPDATE SET intensity=EXCLUDED.intensity RETURNING *;`,
+      [price_list_uuid, ts, Math.round(intensity)]
+    );
+    return result;
+  }
+
+  public async updateMeterData(
+    location_uuid: string,
+    ts: Date,
+    grid_power: number
+  ): Promise<DBMeterData> {
+    // Meter data is only used for live decisions, keep one day of history
+    const result = await this.pg.one(
+      `DELETE FROM meter_data WHERE location_uuid = $1 AND ts < NOW() - interval '1 day';
+      INSERT INTO meter_data(location_uuid, ts, grid_power) VALUES($1, $2, $3) ` +
+        `ON CONFLICT (location_uuid,ts) DO UPDATE SET grid_power=EXCLUDED.grid_power RETURNING *;`,
+      [location_uuid, ts, Math.round(grid_power)]
+    );
+    return result;
+  }
+  public async getGridPower(
+    location_uuid: string,
+    window: number
+  ): Promise<number | null> {
+    const result = await this.pg.one(
+      `SELECT AVG(grid_power)::float as grid_power FROM meter_data WHERE location_uuid = $1 AND ts >= $2;`,
+      [location_uuid, new Date(Date.now() - window)]
+    );
+    return result.grid_power;
+  }
+
   public static DefaultVehicleLocationSettings(
     location_uuid?: string
   ): VehicleLocationSettings {
@@ -328,6 +515,7 @@ export class DBInterface {
       locationID: location_uuid || "",
       directLevel: DEFAULT_DIRECTLEVEL,
       goal: SmartChargeGoal.Balanced,
+      minimumCurrent: null,
     };
   }
 
@@ -417,6 +605,7 @@ export class DBInterface {
       [input.status, `status = $5`],
       [input.service_uuid, `service_uuid = $6`],
       [input.provider_data, `provider_data = jsonb_merge(provider_data, $7)`],
+      [input.calendar_url, `calendar_url = $8`],
     ]);
     assert(set.length > 0);
 
@@ -496,20 +685,273 @@ export class DBInterface {
     );
   }
 
+  public async registerAgency(
+    name: string,
+    accept: string[]
+  ): Promise<DBAgency> {
+    return this.pg.one(
+      `INSERT INTO agency(name, accept) VALUES($1, $2) RETURNING *;`,
+      [name, accept]
+    );
+  }
+  public async removeAgency(agency_uuid: string): Promise<void> {
+    await this.pg.none(`DELETE FROM agency WHERE agency_uuid = $1;`, [
+      agency_uuid,
+    ]);
+  }
+
+  /**
+   * Renew the leases of an agency and rebalance, every active agency leases
+   * its fair share of the accepted jobs. Returns the leases held by the
+   * agency, or null if the agency has expired and needs to register again
+   */
+  public async leaseAgencyJobs(
+    agency_uuid: string,
+    timeout: number // ms
+  ): Promise<DBAgencyLease[] | null> {
+    return this.pg.tx(async (t) => {
+      // Agencies that stopped sending heartbeats release all their leases
+      await t.none(
+        `DELETE FROM agency WHERE heartbeat < NOW() - $1 * interval '1 millisecond';`,
+        [timeout]
+      );
+      const agency: DBAgency | null = await t.oneOrNone(
+        `UPDATE agency SET heartbeat = NOW() WHERE agency_uuid = $1 RETURNING *;`,
+        [agency_uuid]
+      );
+      if (agency === null) {
+        return null;
+      }
+
+      // Leases on removed services
+      await t.none(
+        `DELETE FROM agency_lease WHERE job NOT LIKE 'global:%' AND
+          NOT EXISTS (SELECT * FROM service_provider WHERE service_uuid::text = job);`
+      );
+      let leases: DBAgencyLease[] = await t.manyOrNone(
+        `UPDATE agency_lease SET expires = NOW() + $2 * interval '1 millisecond'
+          WHERE agency_uuid = $1 RETURNING *;`,
+        [agency_uuid, timeout]
+      );
+
+      const { jobs, agencies } = await t.one(
+        `SELECT (SELECT COUNT(*) FROM service_provider WHERE provider_name = ANY($1)) + cardinality($1::text[]) as jobs,
+          (SELECT COUNT(*) FROM agency) as agencies;`,
+        [agency.accept]
+      );
+      const { keep, release, take } = leaseShare(
+        leases,
+        Number(jobs),
+        Number(agencies)
+      );
+      if (release.length > 0) {
+        // Another agency joined, hand over jobs above our share
+        await t.none(
+          `DELETE FROM agency_lease WHERE agency_uuid = $1 AND job IN ($2:csv);`,
+          [agency_uuid, release.map((f) => f.job)]
+        );
+      }
+      leases = keep;
+      if (take > 0) {
+        // Take free jobs and jobs left behind by agencies that expired
+        leases.push(
+          ...(await t.manyOrNone(
+            `WITH jobs AS (
+              SELECT service_uuid::text as job, provider_name FROM service_provider WHERE provider_name = ANY($2)
+              UNION ALL SELECT 'global:' || name, name FROM unnest($2::text[]) as name
+            )
+            INSERT INTO agency_lease(job, provider_name, agency_uuid, expires)
+              SELECT job, provider_name, $1, NOW() + $3 * interval '1 millisecond' FROM jobs
+              WHERE NOT EXISTS (SELECT * FROM agency_lease l WHERE l.job = jobs.job AND l.expires > NOW())
+              ORDER BY job LIMIT $4
+            ON CONFLICT (job) DO UPDATE SET provider_name = EXCLUDED.provider_name, agency_uuid = EXCLUDED.agency_uuid, expires = EXCLUDED.expires
+              WHERE agency_lease.expires <= NOW()
+            RETURNING *;`,
+            [agency_uuid, agency.accept, timeout, take]
+          ))
+        );
+      }
+      return leases;
+    });
+  }
+
+  public async updateAgentStatus(
+    service_uuid: string,
+    agency_name: string,
+    polled: Date | null,
+    poll_error: string | null,
+    interval: number,
+    queue: number,
+    token_valid: boolean,
+    subjects: DBAgentSubjectStatus[]
+  ): Promise<DBAgentStatus | null> {
+    return this.pg.oneOrNone(
+      `INSERT INTO agent_status(service_uuid, provider_name, agency_name, reported, polled, poll_error, "interval", queue, token_valid, subjects)
+        SELECT service_uuid, provider_name, $2, NOW(), $3, $4, $5, $6, $7, $8:json FROM service_provider WHERE service_uuid = $1
+      ON CONFLICT (service_uuid) DO UPDATE SET agency_name = EXCLUDED.agency_name, reported = EXCLUDED.reported,
+        polled = EXCLUDED.polled, poll_error = EXCLUDED.poll_error, "interval" = EXCLUDED.interval,
+        queue = EXCLUDED.queue, token_valid = EXCLUDED.token_valid, subjects = EXCLUDED.subjects
+      RETURNING *;`,
+      [
+        service_uuid,
+        agency_name,
+        polled,
+        poll_error,
+        interval,
+        queue,
+        token_valid,
+        subjects,
+      ]
+    );
+  }
+  public async getAgentStatus(
+    account_uuid: string | null | undefined,
+    service_uuid: string | undefined
+  ): Promise<DBAgentStatus[]> {
+    const [values, where] = queryHelper([
+      [account_uuid, `p.account_uuid = $1`],
+      [service_uuid, `s.service_uuid = $2`],
+    ]);
+    return this.pg.manyOrNone(
+      `SELECT s.* FROM agent_status s JOIN service_provider p ON (p.service_uuid = s.service_uuid)
+        ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+        ORDER BY s.provider_name, s.service_uuid;`,
+      values
+    );
+  }
+  // Vehicles together with the status of the agent job polling them
+  public async getVehicleAgentStatus(): Promise<
+    (DBAgentStatus & {
+      vehicle_uuid: string;
+      account_uuid: string;
+      health_warning: string | null;
+    })[]
+  > {
+    return this.pg.manyOrNone(
+      `SELECT s.*, v.vehicle_uuid, v.account_uuid, v.health_warning
+        FROM vehicle v JOIN agent_status s ON (s.service_uuid = v.service_uuid);`
+    );
+  }
+  public async setVehicleHealthWarning(
+    vehicle_uuid: string,
+    health_warning: string | null
+  ): Promise<void> {
+    await this.pg.none(
+      `UPDATE vehicle SET health_warning = $2 WHERE vehicle_uuid = $1;`,
+      [vehicle_uuid, health_warning]
+    );
+  }
+
+  public async newAction(
+    service_uuid: string,
+    provider_name: string,
+    action: string,
+    data: any,
+    timeout: number // ms
+  ): Promise<DBAction> {
+    return this.pg.one(
+      `INSERT INTO action(service_uuid, provider_name, action, data, expires)
+        VALUES($1, $2, $3, $4:json, NOW() + $5 * interval '1 millisecond') RETURNING *;`,
+      [service_uuid, provider_name, action, data, timeout]
+    );
+  }
+  public async getAction(action_id: number): Promise<DBAction | null> {
+    return this.pg.oneOrNone(`SELECT * FROM action WHERE action_id = $1;`, [
+      action_id,
+    ]);
+  }
+  public async updateAction(
+    action_id: number,
+    status: ActionStatus,
+    retries: number,
+    data: any
+  ): Promise<DBAction> {
+    return this.pg.one(
+      `UPDATE action SET status = $2, retries = $3, data = $4:json, updated = NOW()
+        WHERE action_id = $1 RETURNING *;`,
+      [action_id, status, retries, data]
+    );
+  }
+  // Actions not yet done, for agents to replay when (re)subscribing
+  public async getPendingActions(
+    provider_name: string,
+    service_uuid: string | undefined
+  ): Promise<DBAction[]> {
+    const [values, where] = queryHelper([
+      [provider_name, `provider_name = $1`],
+      [service_uuid, `service_uuid = $2`],
+    ]);
+    return this.pg.manyOrNone(
+      `SELECT * FROM action WHERE ${where.join(" AND ")}
+        AND status IN ('${ActionStatus.Queued}', '${ActionStatus.Dispatched}')
+        AND expires > NOW() ORDER BY action_id;`,
+      values
+    );
+  }
+  // Action history of a service, optionally for a single subject (data.id)
+  public async getActionHistory(
+    service_uuid: string,
+    subject_id: string | undefined,
+    limit: number
+  ): Promise<DBAction[]> {
+    const [values, where] = queryHelper([
+      [service_uuid, `service_uuid = $1`],
+      [subject_id, `data->>'id' = $2`],
+    ]);
+    return this.pg.manyOrNone(
+      `SELECT * FROM action WHERE ${where.join(" AND ")}
+        ORDER BY action_id DESC LIMIT ${Number(limit)};`,
+      values
+    );
+  }
+  /**
+   * Expire actions that were not done in time
+   * @returns the expired actions
+   */
+  public async expireActions(): Promise<DBAction[]> {
+    return this.pg.manyOrNone(
+      `UPDATE action SET status = '${ActionStatus.Expired}', updated = NOW(),
+          data = data || jsonb_build_object('result', false, 'error', 'Action expired')
+        WHERE status IN ('${ActionStatus.Queued}', '${ActionStatus.Dispatched}') AND expires <= NOW()
+        RETURNING *;`
+    );
+  }
+
   public async getChartPriceData(
     location_uuid: string,
     interval: number
   ): Promise<DBPriceData[]> {
     return this.pg.manyOrNone(
       `WITH data AS (
-        SELECT p.* FROM price_data p JOIN location l ON (l.price_list_uuid = p.price_list_uuid)
-        WHERE location_uuid = $1
+        SELECT * FROM location_price_data($1)
       )
       SELECT * FROM data WHERE ts > (SELECT max(ts) FROM data) - interval $2 ORDER BY ts;`,
       [location_uuid, `${interval} hours`]
     );
   }
 
+  // Linear model of battery usage per km against outside temperature
+  public async getConsumptionModel(
+    vehicle_uuid: string
+  ): Promise<ConsumptionModel> {
+    return this.pg.one(
+      `WITH trips AS (
+        SELECT start_level - end_level as used, distance,
+          (start_level - end_level) / (distance / 1e3) as level_per_km,
+          start_outside_deci_temperature / 10.0 as temperature
+        FROM trip WHERE vehicle_uuid = $1 AND distance >= 5e3 AND start_level > end_level
+        ORDER BY trip_id DESC LIMIT 200
+      )
+      SELECT COUNT(*)::int as trips,
+        (SUM(used) / NULLIF(SUM(distance) / 1e3, 0))::float as level_per_km,
+        regr_slope(level_per_km, temperature)::float as slope,
+        regr_intercept(level_per_km, temperature)::float as intercept,
+        (SELECT AVG(energy_added) / 60 FROM charge_curve WHERE vehicle_uuid = $1 AND energy_added > 0)::float as wh_per_level
+      FROM trips;`,
+      [vehicle_uuid]
+    );
+  }
+
   public async getChargeCurve(
     vehicle_uuid: string,
     location_uuid: string | null
@@ -606,11 +1048,52 @@ export class DBInterface {
     ).level;
   }
 
+  // Only store the charge plan if it differs from the last one stored
+  public async addChargePlanHistory(
+    vehicle_uuid: string,
+    trigger: string,
+    charge_plan: any | null,
+    charge_plan_trace: any | null
+  ): Promise<DBChargePlanHistory | null> {
+    return this.pg.oneOrNone(
+      `INSERT INTO charge_plan_history(vehicle_uuid, trigger, charge_plan, charge_plan_trace)
+        SELECT $1, $2, $3:json, $4:json
+        WHERE $3:json::jsonb IS DISTINCT FROM (
+          SELECT charge_plan FROM charge_plan_history WHERE vehicle_uuid = $1 ORDER BY ts DESC, history_id DESC LIMIT 1
+        ) RETURNING *;`,
+      [vehicle_uuid, trigger, charge_plan, charge_plan_trace]
+    );
+  }
+  // History entries in the period, including the one in effect at the start
+  public async getChargePlanHistory(
+    vehicle_uuid: string,
+    from: Date,
+    to: Date
+  ): Promise<DBChargePlanHistory[]> {
+    return this.pg.manyOrNone(
+      `SELECT * FROM charge_plan_history WHERE vehicle_uuid = $1 AND ts >= COALESCE(
+          (SELECT max(ts) FROM charge_plan_history WHERE vehicle_uuid = $1 AND ts <= $2), $2
+        ) AND ts < $3 ORDER BY ts, history_id;`,
+      [vehicle_uuid, from, to]
+    );
+  }
+  public async getCharges(
+    vehicle_uuid: string,
+    from: Date,
+    to: Date
+  ): Promise<DBCharge[]> {
+    return this.pg.manyOrNone(
+      `SELECT * FROM charge WHERE vehicle_uuid = $1 AND end_ts >= $2 AND start_ts < $3 ORDER BY start_ts;`,
+      [vehicle_uuid, from, to]
+    );
+  }
+
   public async removeVehicle(vehicle_uuid: string): Promise<void> {
     await this.pg.none(
       `DELETE FROM state_map WHERE vehicle_uuid = $1;
       DELETE FROM location_stats WHERE vehicle_uuid = $1;
       DELETE FROM charge_curve WHERE vehicle_uuid = $1;
+      DELETE FROM charge_plan_history WHERE vehicle_uuid = $1;
       DELETE FROM charge_current USING charge WHERE charge_current.charge_id = charge.charge_id AND charge.vehicle_uuid = $1;
       DELETE FROM charge WHERE vehicle_uuid = $1;
       DELETE FROM connected WHERE vehicle_uuid = $1;
@@ -673,6 +1156,8 @@ export class DBInterface {
       [input.public_list, `public_list = $3`],
       [input.service_uuid, `service_uuid = $4`],
       [input.provider_data, `provider_data = jsonb_merge(provider_data, $5)`],
+      [input.price_interval, `price_interval = $6`],
+      [input.price_schedule, `price_schedule = $7:json`],
     ]);
     assert(set.length > 0);
 
@@ -726,13 +1211,15 @@ export class DBInterface {
     account_uuid: string,
     name: string,
     public_list: boolean,
-    price_list_uuid?: string
+    price_list_uuid?: string,
+    price_interval?: number
   ): Promise<DBPriceList> {
     const fields: any = {
       price_list_uuid,
       account_uuid,
       name,
       public_list,
+      price_interval,
     };
     for (const key of Object.keys(fields)) {
       if (fields[key] === undefined || fields[key] === null) {
@@ -785,4 +1272,78 @@ export class DBInterface {
       [vehicle_uuid]
     );
   }
+
+  public async syncCalendarSchedule(
+    vehicle_uuid: string,
+    trips: { uid: string; ts: Date; level: number }[]
+  ): Promise<void> {
+    await this.pg.tx(async (t) => {
+      // Events that moved out of the calendar are removed
+      await t.none(
+        `DELETE FROM schedule WHERE vehicle_uuid = $1 AND calendar_uid IS NOT NULL AND NOT (calendar_uid = ANY($2));`,
+        [vehicle_uuid, trips.map((f) => f.uid)]
+      );
+      for (const trip of trips) {
+        await t.none(
+          `WITH upsert AS (UPDATE schedule SET schedule_ts=$4, level=$5 WHERE vehicle_uuid=$1 AND calendar_uid=$3 RETURNING *)
+          INSERT INTO schedule(vehicle_uuid, schedule_type, calendar_uid, schedule_ts, level) SELECT $1, $2, $3, $4, $5 WHERE NOT EXISTS (SELECT * FROM upsert);`,
+          [vehicle_uuid, ScheduleType.Trip, trip.uid, trip.ts, trip.level]
+        );
+      }
+    });
+  }
+  public async getCalendarFeeds(): Promise<
+    { vehicle_uuid: string; calendar_url: string }[]
+  > {
+    return this.pg.manyOrNone(
+      `SELECT vehicle_uuid, calendar_url FROM vehicle WHERE calendar_url IS NOT NULL;`
+    );
+  }
+
+  public async updateWeeklySchedule(
+    weekly_schedule_id: number | undefined,
+    vehicle_uuid: string,
+    weekdays: number[],
+    departure: string,
+    timezone: string,
+    level: number,
+    exceptions: string[]
+  ): Promise<DBWeeklySchedule> {
+    const fields: any = {
+      vehicle_uuid,
+      weekdays,
+      departure,
+      timezone,
+      level,
+      exceptions,
+    };
+    if (weekly_schedule_id !== undefined) {
+      return await this.pg.one(
+        `UPDATE weekly_schedule SET ($1:name) = ($1:csv) WHERE weekly_schedule_id = $2 AND vehicle_uuid = $3 RETURNING *;`,
+        [fields, weekly_schedule_id, vehicle_uuid]
+      );
+    } else {
+      return await this.pg.one(
+        `INSERT INTO weekly_schedule($[this:name]) VALUES($[this:csv]) RETURNING *;`,
+        fields
+      );
+    }
+  }
+  public async removeWeeklySchedule(
+    weekly_schedule_id: number,
+    vehicle_uuid: string
+  ): Promise<void> {
+    await this.pg.none(
+      `DELETE FROM weekly_schedule WHERE weekly_schedule_id = $1 AND vehicle_uuid = $2`,
+      [weekly_schedule_id, vehicle_uuid]
+    );
+  }
+  public async getWeeklySchedule(
+    vehicle_uuid: string
+  ): Promise<DBWeeklySchedule[]> {
+    return this.pg.manyOrNone(
+      `SELECT * FROM weekly_schedule WHERE vehicle_uuid = $1 ORDER BY departure, weekly_schedule_id;`,
+      [vehicle_uuid]
+    );
+  }
 }
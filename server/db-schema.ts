@@ -5,7 +5,7 @@
  * @license MIT (MIT)
  */
 
-export const DB_VERSION = `1.0-beta`;
+export const DB_VERSION = `1.10-beta`;
 
 export type PlainObject = Record<string, any>;
 
@@ -31,9 +31,14 @@ export abstract class DBLocation {
   location_micro_longitude!: number; // 6 decimal precision converted to integer
   radius!: number; // radius tollerance (in meters)
   price_list_uuid!: string | null; // price list code (or null)
+  fallback_price_lists!: string[]; // price lists filling gaps in the primary list, in priority order
   // TODO: remove service and provider on locations?
   service_uuid!: string | null; // provider uuid
   provider_data!: PlainObject; // provider custom data
+  tariff!: PlainObject | null; // grid fees, taxes and VAT added to the spot price (or null)
+  maximum_current!: number | null; // main fuse rating (A) shared by all vehicles (or null)
+  carbon_weight!: number; // charge planning weight between cost (0) and carbon intensity (100)
+  price_forecast!: boolean; // plan with forecasted prices beyond the published prices
 }
 const DBLocation_TSQL = `CREATE TABLE scserver.location
     (
@@ -44,8 +49,13 @@ const DBLocation_TSQL = `CREATE TABLE scserver.location
         location_micro_longitude integer NOT NULL,
         radius integer NOT NULL,
         price_list_uuid uuid,
+        fallback_price_lists uuid[] NOT NULL DEFAULT '{}'::uuid[],
         service_uuid uuid,
         provider_data jsonb NOT NULL DEFAULT '{}'::jsonb,
+        tariff jsonb,
+        maximum_current smallint,
+        carbon_weight smallint NOT NULL DEFAULT 0,
+        price_forecast boolean NOT NULL DEFAULT false,
         CONSTRAINT location_pkey PRIMARY KEY(location_uuid),
         CONSTRAINT location_fkeyA FOREIGN KEY(account_uuid)
                 REFERENCES account(account_uuid) MATCH SIMPLE
@@ -64,6 +74,8 @@ export abstract class DBPriceList {
   public_list!: boolean; // show up for everyone
   service_uuid!: string | null; // provider uuid
   provider_data!: PlainObject; // provider custom data
+  price_interval!: number; // minutes between price points (60 or 15)
+  price_schedule!: PlainObject | null; // manual PriceSchedule generating the price data (or null)
 }
 const DBPriceList_TSQL = `CREATE TABLE scserver.price_list
     (
@@ -73,6 +85,8 @@ const DBPriceList_TSQL = `CREATE TABLE scserver.price_list
         public_list boolean NOT NULL,
         service_uuid uuid,
         provider_data jsonb NOT NULL DEFAULT '{}'::jsonb,
+        price_interval integer NOT NULL DEFAULT 60,
+        price_schedule jsonb,
         CONSTRAINT price_list_pkey PRIMARY KEY(price_list_uuid),
         CONSTRAINT price_list_fkey FOREIGN KEY(account_uuid)
                 REFERENCES account(account_uuid) MATCH SIMPLE
@@ -98,6 +112,42 @@ const DBPriceData_TSQL = `CREATE TABLE scserver.price_data
                 ON DELETE CASCADE
     );`;
 
+export abstract class DBCarbonData {
+  price_list_uuid!: string; // price list identifier
+  ts!: Date; // carbon intensity starts at
+  intensity!: number; // grams CO2 per kWh
+}
+
+const DBCarbonData_TSQL = `CREATE TABLE scserver.carbon_data
+    (
+        price_list_uuid uuid NOT NULL,
+        ts timestamp(0) with time zone NOT NULL,
+        intensity integer NOT NULL,
+        CONSTRAINT carbon_data_pkey PRIMARY KEY(price_list_uuid, ts),
+        CONSTRAINT carbon_data_fkey FOREIGN KEY(price_list_uuid)
+                REFERENCES price_list(price_list_uuid) MATCH SIMPLE
+                ON UPDATE RESTRICT
+                ON DELETE CASCADE
+    );`;
+
+export abstract class DBMeterData {
+  location_uuid!: string; // location identifier
+  ts!: Date; // time of meter reading
+  grid_power!: number; // power at grid connection (W), positive import and negative export
+}
+
+const DBMeterData_TSQL = `CREATE TABLE scserver.meter_data
+    (
+        location_uuid uuid NOT NULL,
+        ts timestamp(0) with time zone NOT NULL,
+        grid_power integer NOT NULL,
+        CONSTRAINT meter_data_pkey PRIMARY KEY(location_uuid, ts),
+        CONSTRAINT location_fkey FOREIGN KEY(location_uuid)
+                REFERENCES location(location_uuid) MATCH SIMPLE
+                ON UPDATE RESTRICT
+                ON DELETE CASCADE
+    );`;
+
 export abstract class DBVehicle {
   vehicle_uuid!: string; // vehicle uuid
   account_uuid!: string; // account identifier
@@ -118,12 +168,17 @@ export abstract class DBVehicle {
   connected_id!: number | null; // current charge session id
   charging_to!: number | null; // currently charging to level %
   estimate!: number | null; // estimated time left (in minutes)
+  maximum_current!: number | null; // maximum charge current (A) if the charger supports current control
+  current_limit!: number | null; // charge current (A) allotted by location load balancing, 0 to pause (or null)
   charge_id!: number | null; // current charge session id
   driving!: boolean; // currently driving
   trip_id!: number | null; // current trip session id
   status!: string; // informative status string
   smart_status!: string; // smart charging information
+  calendar_url!: string | null; // iCalendar feed with trips (or null)
   charge_plan!: any | null; // current charge plan (or null)
+  charge_plan_trace!: any | null; // planner decisions behind the charge plan (or null)
+  health_warning!: string | null; // agent health warning (or null)
   updated!: Date; // timestamp of last record update
 }
 const DBVehicle_TSQL = `CREATE TABLE scserver.vehicle
@@ -147,12 +202,17 @@ const DBVehicle_TSQL = `CREATE TABLE scserver.vehicle
         connected_id integer,
         charging_to integer,
         estimate integer,
+        maximum_current smallint,
+        current_limit smallint,
         charge_id integer,
         driving boolean NOT NULL DEFAULT false,
         trip_id integer,
         status text NOT NULL DEFAULT ''::text,
         smart_status text NOT NULL DEFAULT ''::text,
+        calendar_url text,
         charge_plan jsonb,
+        charge_plan_trace jsonb,
+        health_warning text,
         updated timestamp(0) with time zone NOT NULL DEFAULT NOW(),
         CONSTRAINT vehicle_pkey PRIMARY KEY (vehicle_uuid),
         CONSTRAINT vehicle_fkey FOREIGN KEY (account_uuid)
@@ -186,6 +246,7 @@ export abstract class DBSchedule {
   schedule_type!: string; // schedule type (enum ScheduleType)
   schedule_ts!: Date | null; // timestamp associated with schedule
   level!: number | null; // battery charge level % associated with schedule
+  calendar_uid!: string | null; // event uid if imported from a calendar
 }
 
 const DBSchedule_TSQL = `CREATE TABLE scserver.schedule
@@ -195,6 +256,7 @@ const DBSchedule_TSQL = `CREATE TABLE scserver.schedule
         schedule_type character varying(32) NOT NULL,
         schedule_ts timestamp(0) with time zone,
         level smallint,
+        calendar_uid text,
         CONSTRAINT schedule_pkey PRIMARY KEY(schedule_id),
         CONSTRAINT schedule_fkey FOREIGN KEY(vehicle_uuid)
             REFERENCES vehicle(vehicle_uuid) MATCH SIMPLE
@@ -202,6 +264,32 @@ const DBSchedule_TSQL = `CREATE TABLE scserver.schedule
             ON DELETE CASCADE
     );`;
 
+export abstract class DBWeeklySchedule {
+  weekly_schedule_id!: number; // weekly schedule id
+  vehicle_uuid!: string; // vehicle identifier
+  weekdays!: number[]; // ISO weekdays (1=Monday, 7=Sunday) with a departure
+  departure!: string; // local departure time (HH:MM:SS)
+  timezone!: string; // time zone of the departure time
+  level!: number; // battery charge level % needed at departure
+  exceptions!: string[]; // dates (yyyy-MM-dd) without departure, e.g. holidays
+}
+
+const DBWeeklySchedule_TSQL = `CREATE TABLE scserver.weekly_schedule
+    (
+        weekly_schedule_id integer NOT NULL GENERATED ALWAYS AS IDENTITY,
+        vehicle_uuid uuid NOT NULL,
+        weekdays smallint[] NOT NULL,
+        departure time NOT NULL,
+        timezone text NOT NULL DEFAULT 'UTC'::text,
+        level smallint NOT NULL,
+        exceptions text[] NOT NULL DEFAULT '{}'::text[],
+        CONSTRAINT weekly_schedule_pkey PRIMARY KEY(weekly_schedule_id),
+        CONSTRAINT weekly_schedule_fkey FOREIGN KEY(vehicle_uuid)
+            REFERENCES vehicle(vehicle_uuid) MATCH SIMPLE
+            ON UPDATE RESTRICT
+            ON DELETE CASCADE
+    );`;
+
 export abstract class DBServiceProvider {
   account_uuid!: string; // account uuid
   provider_name!: string; // provider name
@@ -221,6 +309,110 @@ const DBServiceProvider_TSQL = `CREATE TABLE scserver.service_provider
             ON DELETE CASCADE
     );`;
 
+export abstract class DBAgency {
+  agency_uuid!: string; // agency identifier
+  name!: string; // informative name (host and process)
+  accept!: string[]; // provider agents the agency runs
+  started!: Date; // time of registration
+  heartbeat!: Date; // last heartbeat
+}
+const DBAgency_TSQL = `CREATE TABLE scserver.agency
+    (
+        agency_uuid uuid DEFAULT sequential_uuid(),
+        name text NOT NULL,
+        accept text[] NOT NULL,
+        started timestamp(0) with time zone NOT NULL DEFAULT NOW(),
+        heartbeat timestamp(0) with time zone NOT NULL DEFAULT NOW(),
+        CONSTRAINT agency_pkey PRIMARY KEY (agency_uuid)
+    );`;
+
+export abstract class DBAgencyLease {
+  job!: string; // service uuid, or global:<provider> for global agent work
+  provider_name!: string; // provider agent running the job
+  agency_uuid!: string; // agency holding the lease
+  expires!: Date; // lease is free to take after this
+}
+const DBAgencyLease_TSQL = `CREATE TABLE scserver.agency_lease
+    (
+        job text NOT NULL,
+        provider_name character varying(64) NOT NULL,
+        agency_uuid uuid NOT NULL,
+        expires timestamp(0) with time zone NOT NULL,
+        CONSTRAINT agency_lease_pkey PRIMARY KEY (job),
+        CONSTRAINT agency_lease_fkey FOREIGN KEY (agency_uuid)
+            REFERENCES agency (agency_uuid) MATCH SIMPLE
+            ON UPDATE RESTRICT
+            ON DELETE CASCADE
+    );`;
+
+export interface DBAgentSubjectStatus {
+  id: string; // subject (vehicle) identifier
+  pollState: string | null; // provider specific poll state
+  pollError: string | null; // last provider error (or null)
+}
+export abstract class DBAgentStatus {
+  service_uuid!: string; // service the agent job runs
+  provider_name!: string; // provider name
+  agency_name!: string; // agency running the job
+  reported!: Date; // time of the last health report
+  polled!: Date | null; // last successful poll (or null)
+  poll_error!: string | null; // error of the last failed poll (or null)
+  interval!: number; // seconds between polls
+  queue!: number; // number of queued actions
+  token_valid!: boolean; // is the provider authorization valid
+  subjects!: DBAgentSubjectStatus[]; // per subject status
+}
+const DBAgentStatus_TSQL = `CREATE TABLE scserver.agent_status
+    (
+        service_uuid uuid NOT NULL,
+        provider_name character varying(64) NOT NULL,
+        agency_name text NOT NULL,
+        reported timestamp(0) with time zone NOT NULL DEFAULT NOW(),
+        polled timestamp(0) with time zone,
+        poll_error text,
+        "interval" integer NOT NULL,
+        queue integer NOT NULL DEFAULT 0,
+        token_valid boolean NOT NULL DEFAULT true,
+        subjects jsonb NOT NULL DEFAULT '[]'::jsonb,
+        CONSTRAINT agent_status_pkey PRIMARY KEY (service_uuid),
+        CONSTRAINT agent_status_fkey FOREIGN KEY (service_uuid)
+            REFERENCES service_provider (service_uuid) MATCH SIMPLE
+            ON UPDATE RESTRICT
+            ON DELETE CASCADE
+    );`;
+
+export abstract class DBAction {
+  action_id!: number; // action id
+  service_uuid!: string; // service running the action
+  provider_name!: string; // provider agent handling the action
+  action!: string; // agent action name
+  data!: any; // action data, result and error are set when done
+  status!: string; // ActionStatus
+  retries!: number; // attempts made by the agent without a result
+  created!: Date; // time the action was queued
+  updated!: Date; // time of the last status change
+  expires!: Date; // action expires if not done before this
+}
+const DBAction_TSQL = `CREATE TABLE scserver.action
+    (
+        action_id integer NOT NULL GENERATED ALWAYS AS IDENTITY,
+        service_uuid uuid NOT NULL,
+        provider_name character varying(64) NOT NULL,
+        action character varying(32) NOT NULL,
+        data jsonb NOT NULL DEFAULT '{}'::jsonb,
+        status character varying(16) NOT NULL DEFAULT 'queued',
+        retries smallint NOT NULL DEFAULT 0,
+        created timestamp(0) with time zone NOT NULL DEFAULT NOW(),
+        updated timestamp(0) with time zone NOT NULL DEFAULT NOW(),
+        expires timestamp(0) with time zone NOT NULL,
+        CONSTRAINT action_pkey PRIMARY KEY (action_id),
+        CONSTRAINT action_fkey FOREIGN KEY (service_uuid)
+            REFERENCES service_provider (service_uuid) MATCH SIMPLE
+            ON UPDATE RESTRICT
+            ON DELETE CASCADE
+    );
+    CREATE INDEX action_idx ON scserver.action (service_uuid, status);`;
+
 export abstract class DBSleep {
   sleep_id!: number; // sleep id
   vehicle_uuid!: string; // vehicle identifier
@@ -242,7 +434,7 @@ const DBSleep_TSQL = `CREATE TABLE scserver.sleep
             ON DELETE CASCADE
     );`;
 
-/** DBTrip not used anymore, should we stop collecting it?  **/
+/** DBTrip is used for the trip consumption model (see getConsumptionModel) **/
 export abstract class DBTrip {
   trip_id!: number; // trip id
   vehicle_uuid!: string; // vehicle identifier
@@ -289,6 +481,7 @@ export abstract class DBConnected {
   energy_used!: number; // approximated energy used in Wm (Watt-minutes)
   cost!: number; // approximated energy cost (in integer currency unit)
   saved!: number; // approximated energy cost saved (in integer currency unit)
+  carbon!: number; // approximated grams CO2 emitted charging
   connected!: boolean; // is it still connected
 }
 const DBChargeSession_TSQL = `CREATE TABLE scserver.connected
@@ -305,6 +498,7 @@ const DBChargeSession_TSQL = `CREATE TABLE scserver.connected
         energy_used integer NOT NULL DEFAULT 0,
         cost integer NOT NULL DEFAULT 0,
         saved integer NOT NULL DEFAULT 0,
+        carbon integer NOT NULL DEFAULT 0,
         connected boolean NOT NULL,
         CONSTRAINT connected_pkey PRIMARY KEY (connected_id),
         CONSTRAINT connected_fkey FOREIGN KEY (vehicle_uuid)
@@ -401,6 +595,30 @@ const DBChargeCurve_TSQL = `CREATE TABLE scserver.charge_curve
             ON DELETE CASCADE
     );`;
 
+export abstract class DBChargePlanHistory {
+  history_id!: number; // history id
+  vehicle_uuid!: string; // vehicle identifier
+  ts!: Date; // time the charge plan was made
+  trigger!: string; // what caused the charge plan refresh
+  charge_plan!: any | null; // charge plan (or null)
+  charge_plan_trace!: any | null; // planner decisions behind the charge plan (or null)
+}
+const DBChargePlanHistory_TSQL = `CREATE TABLE scserver.charge_plan_history
+    (
+        history_id integer NOT NULL GENERATED ALWAYS AS IDENTITY,
+        vehicle_uuid uuid NOT NULL,
+        ts timestamp(0) with time zone NOT NULL DEFAULT NOW(),
+        trigger character varying(32) NOT NULL,
+        charge_plan jsonb,
+        charge_plan_trace jsonb,
+        CONSTRAINT charge_plan_history_pkey PRIMARY KEY (history_id),
+        CONSTRAINT charge_plan_history_fkey FOREIGN KEY (vehicle_uuid)
+            REFERENCES vehicle (vehicle_uuid) MATCH SIMPLE
+            ON UPDATE RESTRICT
+            ON DELETE CASCADE
+    );
+    CREATE INDEX charge_plan_history_idx ON scserver.charge_plan_history (vehicle_uuid, ts);`;
+
 export abstract class DBLocationStats {
   stats_id!: number; // stats id
   vehicle_uuid!: string; // vehicle uuid
@@ -447,6 +665,7 @@ export abstract class DBStatsMap {
   charge_energy!: number; // energy used charging in Wm (Watt-minutes) during the period
   charge_cost!: number; // total cost of energy charged
   charge_cost_saved!: number; // estimated cost savings
+  charge_carbon!: number; // grams CO2 emitted charging during the period
 }
 const DBStatsMap_TSQL = `CREATE TABLE scserver.state_map
     (
@@ -461,6 +680,7 @@ const DBStatsMap_TSQL = `CREATE TABLE scserver.state_map
         charge_energy integer NOT NULL,
         charge_cost integer NOT NULL,
         charge_cost_saved integer NOT NULL,
+        charge_carbon integer NOT NULL DEFAULT 0,
         CONSTRAINT state_map_pkey PRIMARY KEY(vehicle_uuid,period,stats_ts),
         CONSTRAINT state_map_fkey FOREIGN KEY (vehicle_uuid)
             REFERENCES vehicle (vehicle_uuid) MATCH SIMPLE
@@ -480,6 +700,55 @@ const DBSetting_TSQL = `CREATE TABLE scserver.setting
     );
     INSERT INTO setting(key,value) VALUES('version', '"${DB_VERSION}"');`;
 
+/*
+    Effective price function, applies a location tariff on a spot price
+    price is in currency * 1e5 per kWh, tariff is the jsonb Tariff definition
+*/
+const DBTariffPrice_TSQL = `CREATE OR REPLACE FUNCTION scserver.tariff_price(price integer, ts timestamp with time zone, tariff jsonb) RETURNS integer LANGUAGE plpgsql STABLE AS $$
+        DECLARE
+            v_local timestamp;
+            v_hour int;
+            v_adder float;
+            v_charge jsonb;
+        BEGIN
+            IF price IS NULL OR tariff IS NULL THEN
+                RETURN price;
+            END IF;
+            v_local := ts AT TIME ZONE COALESCE(tariff->>'timezone', 'UTC');
+            v_hour := extract(hour FROM v_local);
+            v_adder := COALESCE((tariff->>'fixedFee')::float, 0) + COALESCE((tariff->>'energyTax')::float, 0);
+            FOR v_charge IN SELECT * FROM jsonb_array_elements(COALESCE(tariff->'network', '[]'::jsonb)) LOOP
+                IF (jsonb_typeof(v_charge->'months') IS DISTINCT FROM 'array' OR v_charge->'months' @> to_jsonb(extract(month FROM v_local)::int))
+                    AND (jsonb_typeof(v_charge->'weekdays') IS DISTINCT FROM 'array' OR v_charge->'weekdays' @> to_jsonb(extract(isodow FROM v_local)::int))
+                    AND (CASE
+                        WHEN (v_charge->>'startHour') IS NULL OR (v_charge->>'endHour') IS NULL THEN true
+                        WHEN (v_charge->>'startHour')::int <= (v_charge->>'endHour')::int THEN
+                            v_hour >= (v_charge->>'startHour')::int AND v_hour < (v_charge->>'endHour')::int
+                        ELSE -- window wraps midnight
+                            v_hour >= (v_charge->>'startHour')::int OR v_hour < (v_charge->>'endHour')::int
+                    END)
+                THEN
+                    v_adder := v_adder + COALESCE((v_charge->>'price')::float, 0);
+                END IF;
+            END LOOP;
+            RETURN round((price + v_adder * 1e5) * (1 + COALESCE((tariff->>'vat')::float, 0) / 100));
+        END $$;`;
+
+/*
+    Merged price data for a location, the primary price list wins and each
+    fallback list only fills intervals not covered by a list before it
+*/
+const DBLocationPriceData_TSQL = `CREATE OR REPLACE FUNCTION scserver.location_price_data(location_id uuid) RETURNS SETOF scserver.price_data LANGUAGE sql STABLE AS $$
+        SELECT p.* FROM scserver.location l
+            CROSS JOIN LATERAL unnest(array_prepend(l.price_list_uuid, l.fallback_price_lists)) WITH ORDINALITY AS s(price_list_uuid, priority)
+            JOIN scserver.price_data p ON (p.price_list_uuid = s.price_list_uuid)
+        WHERE l.location_uuid = location_id AND NOT EXISTS (
+            SELECT 1 FROM unnest((array_prepend(l.price_list_uuid, l.fallback_price_lists))[1:s.priority::int - 1]) AS h(price_list_uuid)
+                JOIN scserver.price_list pl ON (pl.price_list_uuid = h.price_list_uuid)
+                JOIN scserver.price_data b ON (b.price_list_uuid = h.price_list_uuid AND b.ts <= p.ts AND b.ts > p.ts - make_interval(mins => pl.price_interval))
+        );
+    $$;`;
+
 export const DB_SETUP_TSQL = [
   `CREATE SCHEMA IF NOT EXISTS scserver;`,
   `ALTER ROLE current_user SET search_path = "$user",scserver,public;`,
@@ -528,19 +797,29 @@ export const DB_SETUP_TSQL = [
        FULL JOIN jsonb_each(delta) e2(keyDelta, valDelta) ON keyOrig = keyDelta
    $$;`,
 
+  DBTariffPrice_TSQL,
+
   DBAccount_TSQL,
 
   DBPriceList_TSQL,
   DBPriceData_TSQL,
+  DBCarbonData_TSQL,
 
   DBLocation_TSQL,
+  DBLocationPriceData_TSQL,
+  DBMeterData_TSQL,
 
   DBVehicle_TSQL,
   DBVehicleDebug_TSQL,
 
   DBSchedule_TSQL,
+  DBWeeklySchedule_TSQL,
 
   DBServiceProvider_TSQL,
+  DBAgency_TSQL,
+  DBAgencyLease_TSQL,
+  DBAction_TSQL,
+  DBAgentStatus_TSQL,
 
   DBTrip_TSQL,
 
@@ -550,6 +829,7 @@ export const DB_SETUP_TSQL = [
   DBCharge_TSQL,
   DBChargeCurrent_TSQL,
   DBChargeCurve_TSQL,
+  DBChargePlanHistory_TSQL,
 
   DBLocationStats_TSQL,
 
@@ -557,3 +837,158 @@ export const DB_SETUP_TSQL = [
 
   DBSetting_TSQL,
 ];
+
+export interface DBMigration {
+  from: string; // database version the migration applies to
+  version: string; // database version after the migration
+  description: string; // informative description
+  up: string[]; // SQL statements, run in order inside a transaction
+}
+
+/**
+ * Ordered upgrade steps, a new step must be added here whenever the schema
+ * above is changed and DB_VERSION bumped to its version
+ */
+export const DB_MIGRATIONS: DBMigration[] = [
+  {
+    from: `1.0-beta`,
+    version: `1.0.1-beta`,
+    description: `location tariffs`,
+    up: [
+      DBTariffPrice_TSQL,
+      `ALTER TABLE scserver.location
+        ADD COLUMN IF NOT EXISTS tariff jsonb;`,
+    ],
+  },
+  {
+    from: `1.0.1-beta`,
+    version: `1.0.2-beta`,
+    description: `price list resolution`,
+    up: [
+      `ALTER TABLE scserver.price_list
+        ADD COLUMN IF NOT EXISTS price_interval integer NOT NULL DEFAULT 60;`,
+    ],
+  },
+  {
+    from: `1.0.2-beta`,
+    version: `1.0.3-beta`,
+    description: `location meter data`,
+    up: [DBMeterData_TSQL],
+  },
+  {
+    from: `1.0.3-beta`,
+    version: `1.0.4-beta`,
+    description: `vehicle charge current`,
+    up: [
+      `ALTER TABLE scserver.vehicle
+        ADD COLUMN IF NOT EXISTS maximum_current smallint;`,
+    ],
+  },
+  {
+    from: `1.0.4-beta`,
+    version: `1.0.5-beta`,
+    description: `location load balancing`,
+    up: [
+      `ALTER TABLE scserver.location
+        ADD COLUMN IF NOT EXISTS maximum_current smallint;`,
+      `ALTER TABLE scserver.vehicle
+        ADD COLUMN IF NOT EXISTS current_limit smallint;`,
+    ],
+  },
+  {
+    from: `1.0.5-beta`,
+    version: `1.0.6-beta`,
+    description: `weekly schedules`,
+    up: [DBWeeklySchedule_TSQL],
+  },
+  {
+    from: `1.0.6-beta`,
+    version: `1.1-beta`,
+    description: `calendar trips`,
+    up: [
+      `ALTER TABLE scserver.vehicle
+        ADD COLUMN IF NOT EXISTS calendar_url text;`,
+      `ALTER TABLE scserver.schedule
+        ADD COLUMN IF NOT EXISTS calendar_uid text;`,
+    ],
+  },
+  {
+    from: `1.1-beta`,
+    version: `1.2-beta`,
+    description: `charge plan explanation`,
+    up: [
+      `ALTER TABLE scserver.vehicle
+        ADD COLUMN IF NOT EXISTS charge_plan_trace jsonb;`,
+    ],
+  },
+  {
+    from: `1.2-beta`,
+    version: `1.3-beta`,
+    description: `charge plan history`,
+    up: [DBChargePlanHistory_TSQL],
+  },
+  {
+    from: `1.3-beta`,
+    version: `1.4-beta`,
+    description: `price forecast opt-in`,
+    up: [
+      `ALTER TABLE scserver.location
+        ADD COLUMN IF NOT EXISTS price_forecast boolean NOT NULL DEFAULT false;`,
+    ],
+  },
+  {
+    from: `1.4-beta`,
+    version: `1.5-beta`,
+    description: `carbon intensity`,
+    up: [
+      DBCarbonData_TSQL,
+      `ALTER TABLE scserver.location
+        ADD COLUMN IF NOT EXISTS carbon_weight smallint NOT NULL DEFAULT 0;`,
+      `ALTER TABLE scserver.connected
+        ADD COLUMN IF NOT EXISTS carbon integer NOT NULL DEFAULT 0;`,
+      `ALTER TABLE scserver.state_map
+        ADD COLUMN IF NOT EXISTS charge_carbon integer NOT NULL DEFAULT 0;`,
+    ],
+  },
+  {
+    from: `1.5-beta`,
+    version: `1.6-beta`,
+    description: `fallback price lists`,
+    up: [
+      `ALTER TABLE scserver.location
+        ADD COLUMN IF NOT EXISTS fallback_price_lists uuid[] NOT NULL DEFAULT '{}'::uuid[];`,
+      DBLocationPriceData_TSQL,
+    ],
+  },
+  {
+    from: `1.6-beta`,
+    version: `1.7-beta`,
+    description: `manual price schedules`,
+    up: [
+      `ALTER TABLE scserver.price_list
+        ADD COLUMN IF NOT EXISTS price_schedule jsonb;`,
+    ],
+  },
+  {
+    from: `1.7-beta`,
+    version: `1.8-beta`,
+    description: `agency job leasing`,
+    up: [DBAgency_TSQL, DBAgencyLease_TSQL],
+  },
+  {
+    from: `1.8-beta`,
+    version: `1.9-beta`,
+    description: `persistent action queue`,
+    up: [DBAction_TSQL],
+  },
+  {
+    from: `1.9-beta`,
+    version: `1.10-beta`,
+    description: `agent health`,
+    up: [
+      DBAgentStatus_TSQL,
+      `ALTER TABLE scserver.vehicle
+        ADD COLUMN IF NOT EXISTS health_warning text;`,
+    ],
+  },
+];
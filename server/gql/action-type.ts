@@ -0,0 +1,71 @@
+/**
+ * @file GraphQL API Action types for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import "reflect-metadata";
+import {
+  ObjectType,
+  ID,
+  FieldResolver,
+  Root,
+  Resolver,
+  Int,
+  registerEnumType,
+} from "type-graphql";
+import { GraphQLJSONObject } from "graphql-type-json";
+import { DBAction } from "@server/db-schema";
+import { ActionStatus } from "@shared/sc-types";
+
+registerEnumType(ActionStatus, { name: "ActionStatus" });
+
+@ObjectType("Action")
+export class Action extends DBAction {}
+
+@Resolver((_of) => Action)
+export class ActionTypeResolver {
+  @FieldResolver((_returns) => Int)
+  actionID(@Root() action: Action): number {
+    return action.action_id;
+  }
+  @FieldResolver((_returns) => ID)
+  serviceID(@Root() action: Action): string {
+    return action.service_uuid;
+  }
+  @FieldResolver((_returns) => String)
+  providerName(@Root() action: Action): string {
+    return action.provider_name;
+  }
+  @FieldResolver((_returns) => String)
+  action(@Root() action: Action): string {
+    return action.action;
+  }
+  @FieldResolver((_returns) => GraphQLJSONObject)
+  data(@Root() action: Action): any {
+    return action.data;
+  }
+  @FieldResolver((_returns) => ActionStatus)
+  status(@Root() action: Action): ActionStatus {
+    return action.status as ActionStatus;
+  }
+  @FieldResolver((_returns) => Int, {
+    description: `Attempts made by the agent without a result`,
+  })
+  retries(@Root() action: Action): number {
+    return action.retries;
+  }
+  @FieldResolver((_returns) => Date)
+  created(@Root() action: Action): Date {
+    return action.created;
+  }
+  @FieldResolver((_returns) => Date)
+  updated(@Root() action: Action): Date {
+    return action.updated;
+  }
+  @FieldResolver((_returns) => Date)
+  expires(@Root() action: Action): Date {
+    return action.expires;
+  }
+}
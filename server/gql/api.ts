@@ -25,21 +25,32 @@ import { GraphQLSchema } from "graphql";
 import { LocationResolver } from "./location-resolver";
 import { LocationTypeResolver } from "./location-type";
 import { Logic } from "@server/logic";
+import { Logger } from "@shared/utils";
 import { PriceResolver } from "./price-resolver";
 import { ProviderResolver } from "./provider-resolver";
+import { ActionTypeResolver } from "./action-type";
 import { ServiceResolver } from "./service-resolver";
 import { StatsResolver } from "./stats-resolver";
 import { VehicleResolver } from "./vehicle-resolver";
-import { VehicleTypeResolver, ScheduleTypeResolver } from "./vehicle-type";
+import {
+  VehicleTypeResolver,
+  ScheduleTypeResolver,
+  WeeklyScheduleTypeResolver,
+} from "./vehicle-type";
 import { PingResolver } from "./subscription";
 import { PriceListTypeResolver } from "./price-type";
-import { ServiceProviderTypeResolver } from "./service-type";
+import {
+  ServiceProviderTypeResolver,
+  AgentStatusTypeResolver,
+} from "./service-type";
 
 export interface IContext {
   db: DBInterface;
-  logic: Logic;
+  logic: Logic; // logs with the request id
   accountUUID: string;
   account?: DBAccount;
+  requestID: string; // request id, or connection id for subscriptions
+  log: Logger; // log with the request id
 }
 
 export function accountFilter(
@@ -80,6 +91,7 @@ export default function schema(emitFile?: string): Promise<GraphQLSchema> {
       AccountTypeResolver,
       AccountResolver,
 
+      ActionTypeResolver,
       ProviderResolver,
 
       PriceListTypeResolver,
@@ -89,10 +101,12 @@ export default function schema(emitFile?: string): Promise<GraphQLSchema> {
       LocationResolver,
 
       ScheduleTypeResolver,
+      WeeklyScheduleTypeResolver,
       VehicleTypeResolver,
       VehicleResolver,
 
       ServiceProviderTypeResolver,
+      AgentStatusTypeResolver,
       ServiceResolver,
 
       StatsResolver,
@@ -7,10 +7,34 @@
 
 import { Resolver, Query, Ctx, Arg, Mutation, ID } from "type-graphql";
 import { IContext, accountFilter } from "@server/gql/api";
-import { UpdateLocationInput, Location } from "./location-type";
-import { makePublicID, LogLevel, log } from "@shared/utils";
+import { UpdateLocationInput, Location, Tariff } from "./location-type";
+import { makePublicID, LogLevel } from "@shared/utils";
 import { ApolloError } from "apollo-server-express";
-import { plainToClass } from "class-transformer";
+import { plainToClass, classToPlain } from "class-transformer";
+import { MINIMUM_CHARGE_CURRENT } from "@shared/smartcharge-defines";
+import { ChargePlanTrigger } from "@server/logic";
+
+function validateTariff(tariff: Tariff) {
+  for (const c of tariff.network || []) {
+    if (
+      (c.startHour !== undefined && c.startHour !== null) !==
+      (c.endHour !== undefined && c.endHour !== null)
+    ) {
+      throw new ApolloError("Tariff charge needs both startHour and endHour");
+    }
+    if (
+      (c.startHour !== undefined && (c.startHour < 0 || c.startHour > 23)) ||
+      (c.endHour !== undefined && (c.endHour < 1 || c.endHour > 24)) ||
+      (c.months || []).some((m) => m < 1 || m > 12) ||
+      (c.weekdays || []).some((d) => d < 1 || d > 7)
+    ) {
+      throw new ApolloError("Invalid tariff charge");
+    }
+  }
+  if (tariff.vat !== undefined && tariff.vat !== null && tariff.vat < 0) {
+    throw new ApolloError("Invalid tariff VAT");
+  }
+}
 
 @Resolver()
 export class LocationResolver {
@@ -39,7 +63,41 @@ export class LocationResolver {
   ): Promise<Location> {
     // verify Location ownage
     await context.db.getLocation(accountFilter(context.accountUUID), input.id);
-    return plainToClass(
+    if (input.tariff) {
+      validateTariff(input.tariff);
+    }
+    if (
+      input.maximumCurrent !== undefined &&
+      input.maximumCurrent !== null &&
+      input.maximumCurrent < MINIMUM_CHARGE_CURRENT
+    ) {
+      throw new ApolloError("Invalid maximum current");
+    }
+    if (
+      input.carbonWeight !== undefined &&
+      input.carbonWeight !== null &&
+      (input.carbonWeight < 0 || input.carbonWeight > 100)
+    ) {
+      throw new ApolloError("Invalid carbon weight");
+    }
+    if (input.priceListIDs) {
+      if (input.priceListID !== undefined) {
+        throw new ApolloError("Use either priceListID or priceListIDs");
+      }
+      if (new Set(input.priceListIDs).size !== input.priceListIDs.length) {
+        throw new ApolloError("Duplicate price list");
+      }
+      // Merging prices per interval needs the same interval in all lists
+      const lists = await Promise.all(
+        input.priceListIDs.map((id) =>
+          context.db.getPriceList(accountFilter(context.accountUUID), id)
+        )
+      );
+      if (lists.some((l) => l.price_interval !== lists[0].price_interval)) {
+        throw new ApolloError("Price lists must have the same interval");
+      }
+    }
+    const location = plainToClass(
       Location,
       await context.db.updateLocation(input.id, {
         name: input.name,
@@ -52,11 +110,42 @@ export class LocationResolver {
             ? undefined
             : input.geoLocation.longitude * 1e6,
         radius: input.geoFenceRadius,
-        price_list_uuid: input.priceListID,
+        price_list_uuid: input.priceListIDs
+          ? input.priceListIDs[0] || null
+          : input.priceListID,
+        fallback_price_lists: input.priceListIDs
+          ? input.priceListIDs.slice(1)
+          : input.priceListID === null
+          ? []
+          : undefined,
         service_uuid: input.serviceID,
         provider_data: input.providerData,
+        tariff: input.tariff && classToPlain(input.tariff),
+        maximum_current: input.maximumCurrent,
+        carbon_weight:
+          input.carbonWeight === null ? undefined : input.carbonWeight,
+        price_forecast:
+          input.priceForecast === null ? undefined : input.priceForecast,
       })
     );
+    if (
+      input.tariff !== undefined ||
+      input.carbonWeight !== undefined ||
+      input.priceForecast !== undefined ||
+      input.priceListID !== undefined ||
+      input.priceListIDs
+    ) {
+      // Effective prices or ranking changed
+      await context.logic.refreshChargePlan(
+        undefined,
+        location.account_uuid,
+        ChargePlanTrigger.Price
+      );
+    }
+    if (input.maximumCurrent !== undefined) {
+      await context.logic.balanceLocation(location.location_uuid);
+    }
+    return location;
   }
 
   @Mutation((_returns) => Boolean)
@@ -66,7 +155,7 @@ export class LocationResolver {
     @Ctx() context: IContext
   ): Promise<Boolean> {
     // verify location ownage
-    log(LogLevel.Debug, `removeLocation: ${JSON.stringify(id)}`);
+    context.log(LogLevel.Debug, `removeLocation: ${JSON.stringify(id)}`);
     const location = await context.db.getLocation(
       accountFilter(context.accountUUID),
       id
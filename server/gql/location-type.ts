@@ -16,6 +16,7 @@ import {
   Resolver,
   Ctx,
   Float,
+  GraphQLISODateTime,
 } from "type-graphql";
 import { GraphQLJSONObject } from "graphql-type-json";
 
@@ -25,6 +26,7 @@ import { PriceList } from "./price-type";
 import { IContext } from "./api";
 import { plainToClass } from "class-transformer";
 import { PriceResolver } from "./price-resolver";
+import { METER_DATA_WINDOW } from "@shared/smartcharge-defines";
 
 @ObjectType()
 @InputType("GeoLocationInput")
@@ -35,6 +37,63 @@ export class GeoLocation {
   longitude!: number;
 }
 
+@ObjectType()
+@InputType("TariffChargeInput")
+export class TariffCharge {
+  @Field((_type) => Float, { description: `Charge in currency per kWh` })
+  price!: number;
+  @Field((_type) => [Int], {
+    nullable: true,
+    description: `Months (1-12) when charge applies, all if omitted`,
+  })
+  months?: number[];
+  @Field((_type) => [Int], {
+    nullable: true,
+    description: `ISO weekdays (1=Monday, 7=Sunday) when charge applies, all if omitted`,
+  })
+  weekdays?: number[];
+  @Field((_type) => Int, {
+    nullable: true,
+    description: `Start hour (0-23) of time-of-use window`,
+  })
+  startHour?: number;
+  @Field((_type) => Int, {
+    nullable: true,
+    description: `End hour (1-24, exclusive) of time-of-use window, wraps midnight if before startHour`,
+  })
+  endHour?: number;
+}
+
+@ObjectType()
+@InputType("TariffInput")
+export class Tariff {
+  @Field((_type) => String, {
+    nullable: true,
+    description: `Time zone for time-of-use charges (default UTC)`,
+  })
+  timezone?: string;
+  @Field((_type) => Float, {
+    nullable: true,
+    description: `Fixed fees in currency per kWh`,
+  })
+  fixedFee?: number;
+  @Field((_type) => Float, {
+    nullable: true,
+    description: `Energy tax in currency per kWh`,
+  })
+  energyTax?: number;
+  @Field((_type) => [TariffCharge], {
+    nullable: true,
+    description: `Network charges, every matching charge is added`,
+  })
+  network?: TariffCharge[];
+  @Field((_type) => Float, {
+    nullable: true,
+    description: `VAT in percent, applied on top of everything`,
+  })
+  vat?: number;
+}
+
 @ObjectType()
 export class Location extends DBLocation {}
 
@@ -91,6 +150,57 @@ export class LocationTypeResolver {
     }
     return new PriceResolver().priceList(location.price_list_uuid, context);
   }
+  @FieldResolver((_returns) => [ID], {
+    description: `Price lists in priority order, fallback lists fill gaps in the primary list`,
+  })
+  priceListIDs(@Root() location: Location): string[] {
+    return location.price_list_uuid === null
+      ? []
+      : [location.price_list_uuid, ...location.fallback_price_lists];
+  }
+  @FieldResolver((_returns) => [PriceList])
+  async priceLists(
+    @Root() location: Location,
+    @Ctx() context: IContext
+  ): Promise<PriceList[]> {
+    const resolver = new PriceResolver();
+    return Promise.all(
+      this.priceListIDs(location).map((id) => resolver.priceList(id, context))
+    );
+  }
+  @FieldResolver((_returns) => Tariff, { nullable: true })
+  tariff(@Root() location: Location): Tariff | null {
+    return location.tariff && plainToClass(Tariff, location.tariff);
+  }
+  @FieldResolver((_returns) => Int, {
+    nullable: true,
+    description: `Main fuse rating (A) shared by all vehicles charging at the location`,
+  })
+  maximumCurrent(@Root() location: Location): number | null {
+    return location.maximum_current;
+  }
+  @FieldResolver((_returns) => Int, {
+    description: `Charge planning weight between cost (0) and carbon intensity (100)`,
+  })
+  carbonWeight(@Root() location: Location): number {
+    return location.carbon_weight;
+  }
+  @FieldResolver((_returns) => Boolean, {
+    description: `Plan with forecasted prices beyond the published prices`,
+  })
+  priceForecast(@Root() location: Location): boolean {
+    return location.price_forecast;
+  }
+  @FieldResolver((_returns) => Float, {
+    nullable: true,
+    description: `Average power at grid connection (W), positive import and negative export`,
+  })
+  async gridPower(
+    @Root() location: Location,
+    @Ctx() context: IContext
+  ): Promise<number | null> {
+    return context.db.getGridPower(location.location_uuid, METER_DATA_WINDOW);
+  }
 }
 
 @InputType()
@@ -105,8 +215,45 @@ export abstract class UpdateLocationInput {
   geoFenceRadius?: number;
   @Field((_type) => ID, { nullable: true })
   priceListID?: string;
+  @Field((_type) => [ID], {
+    nullable: true,
+    description: `Price lists in priority order, replaces priceListID`,
+  })
+  priceListIDs?: string[];
   @Field((_type) => ID, { nullable: true })
   serviceID?: string;
   @Field((_type) => GraphQLJSONObject, { nullable: true })
   providerData?: any;
+  @Field((_type) => Tariff, { nullable: true })
+  tariff?: Tariff;
+  @Field((_type) => Int, {
+    nullable: true,
+    description: `Main fuse rating (A) shared by all vehicles charging at the location`,
+  })
+  maximumCurrent?: number;
+  @Field((_type) => Int, {
+    nullable: true,
+    description: `Charge planning weight between cost (0) and carbon intensity (100)`,
+  })
+  carbonWeight?: number;
+  @Field((_type) => Boolean, {
+    nullable: true,
+    description: `Plan with forecasted prices beyond the published prices`,
+  })
+  priceForecast?: boolean;
+}
+
+@InputType()
+export abstract class UpdateMeterDataInput {
+  @Field((_type) => ID)
+  locationID!: string;
+  @Field((_type) => Float, {
+    description: `Power at grid connection (W), positive import and negative export`,
+  })
+  gridPower!: number;
+  @Field((_type) => GraphQLISODateTime, {
+    nullable: true,
+    description: `Time of meter reading (default now)`,
+  })
+  measuredAt?: Date;
 }
@@ -5,11 +5,36 @@
  * @license MIT (MIT)
  */
 
-import { Resolver, Query, Ctx, Arg, Mutation, ID } from "type-graphql";
+import { Resolver, Query, Ctx, Arg, Mutation, ID, Int } from "type-graphql";
 import { IContext, accountFilter } from "@server/gql/api";
-import { PriceList, UpdatePriceListInput } from "./price-type";
-import { plainToClass } from "class-transformer";
+import { PriceList, UpdatePriceListInput, PriceSchedule } from "./price-type";
+import { plainToClass, classToPlain } from "class-transformer";
 import { ApolloError } from "apollo-server-core";
+import { validateSchedule } from "@shared/price-schedule";
+import { DBPriceList } from "@server/db-schema";
+
+function validateInterval(interval: number | undefined) {
+  // Price points must line up with every hour
+  if (interval !== undefined && !(interval > 0 && 60 % interval === 0)) {
+    throw new ApolloError(`Invalid price interval ${interval}`);
+  }
+}
+
+/**
+ * Price list that the caller is allowed to update, the owner or the internal
+ * service. Public lists of other accounts can be listed but not edited.
+ */
+async function ownPriceList(
+  context: IContext,
+  id: string
+): Promise<DBPriceList> {
+  const accountID = accountFilter(context.accountUUID);
+  const list = await context.db.getPriceList(accountID, id);
+  if (accountID !== undefined && list.account_uuid !== accountID) {
+    throw new ApolloError("Update access denied");
+  }
+  return list;
+}
 
 @Resolver()
 export class PriceResolver {
@@ -41,11 +66,19 @@ export class PriceResolver {
     })
     isPublic: boolean,
     @Arg("id", (_type) => ID, { nullable: true }) id: string,
+    @Arg("interval", (_type) => Int, { nullable: true }) interval: number,
     @Ctx() context: IContext
   ): Promise<PriceList> {
+    validateInterval(interval || undefined);
     return plainToClass(
       PriceList,
-      await context.db.newPriceList(context.accountUUID, name, isPublic, id)
+      await context.db.newPriceList(
+        context.accountUUID,
+        name,
+        isPublic,
+        id,
+        interval || undefined
+      )
     );
   }
 
@@ -54,19 +87,52 @@ export class PriceResolver {
     @Arg("input") input: UpdatePriceListInput,
     @Ctx() context: IContext
   ): Promise<PriceList> {
-    // verify PriceList ownage
-    const accountID = accountFilter(context.accountUUID);
-    const list = await context.db.getPriceList(accountID, input.id);
-    if (accountID === undefined || list.account_uuid === accountID) {
-      // Because we can list public lists, but no edit them
-      throw new ApolloError("Update access denied");
+    const list = await ownPriceList(context, input.id);
+    validateInterval(input.interval || undefined);
+    if (
+      input.interval &&
+      input.interval !== list.price_interval &&
+      (await context.db.hasPriceData(input.id))
+    ) {
+      // Stored price points would be read at the new interval
+      throw new ApolloError(
+        `Unable to change price interval of ${list.name}, it already has price data`
+      );
     }
-    return plainToClass(
-      PriceList,
-      await context.db.updatePriceList(input.id, {
-        name: input.name,
-        public_list: input.isPublic,
-      })
-    );
+    const updated = await context.db.updatePriceList(input.id, {
+      name: input.name,
+      public_list: input.isPublic,
+      price_interval: input.interval || undefined,
+    });
+    if (updated.price_interval !== list.price_interval) {
+      await context.logic.generateScheduledPrices(updated);
+    }
+    return plainToClass(PriceList, updated);
+  }
+
+  @Mutation((_returns) => PriceList)
+  async updatePriceSchedule(
+    @Arg("id", (_type) => ID) id: string,
+    @Arg("schedule", (_type) => PriceSchedule, { nullable: true })
+    schedule: PriceSchedule | null,
+    @Ctx() context: IContext
+  ): Promise<PriceList> {
+    const list = await ownPriceList(context, id);
+    if (list.public_list) {
+      throw new ApolloError(
+        "Price schedules are only allowed on private lists"
+      );
+    }
+    if (schedule) {
+      const error = validateSchedule(schedule);
+      if (error !== null) {
+        throw new ApolloError(error);
+      }
+    }
+    const updated = await context.db.updatePriceList(id, {
+      price_schedule: schedule && classToPlain(schedule),
+    });
+    await context.logic.generateScheduledPrices(updated);
+    return plainToClass(PriceList, updated);
   }
 }
@@ -15,9 +15,58 @@ import {
   Root,
   Resolver,
   Float,
+  Int,
   GraphQLISODateTime,
 } from "type-graphql";
 import { DBPriceList } from "@server/db-schema";
+import { plainToClass } from "class-transformer";
+
+@ObjectType()
+@InputType("PriceSchedulePeriodInput")
+export class PriceSchedulePeriod {
+  @Field((_type) => Float, { description: `Price in currency per kWh` })
+  price!: number;
+  @Field((_type) => [Int], {
+    nullable: true,
+    description: `Months (1-12) when period applies, all if omitted`,
+  })
+  months?: number[];
+  @Field((_type) => [Int], {
+    nullable: true,
+    description: `ISO weekdays (1=Monday, 7=Sunday) when period applies, all if omitted`,
+  })
+  weekdays?: number[];
+  @Field((_type) => Int, {
+    nullable: true,
+    description: `Start hour (0-23) of time-of-use window`,
+  })
+  startHour?: number;
+  @Field((_type) => Int, {
+    nullable: true,
+    description: `End hour (1-24, exclusive) of time-of-use window, wraps midnight if before startHour`,
+  })
+  endHour?: number;
+}
+
+@ObjectType()
+@InputType("PriceScheduleInput")
+export class PriceSchedule {
+  @Field((_type) => String, {
+    nullable: true,
+    description: `Time zone for periods (default UTC)`,
+  })
+  timezone?: string;
+  @Field((_type) => Float, {
+    nullable: true,
+    description: `Fixed price in currency per kWh when no period matches`,
+  })
+  price?: number;
+  @Field((_type) => [PriceSchedulePeriod], {
+    nullable: true,
+    description: `Time-of-use and seasonal periods, the first matching period wins`,
+  })
+  periods?: PriceSchedulePeriod[];
+}
 
 @ObjectType("PriceList")
 export class PriceList extends DBPriceList {}
@@ -40,16 +89,37 @@ export class PriceListTypeResolver {
   isPublic(@Root() pricelist: PriceList): boolean {
     return pricelist.public_list;
   }
+  @FieldResolver((_returns) => Int, {
+    description: `Minutes between price points`,
+  })
+  interval(@Root() pricelist: PriceList): number {
+    return pricelist.price_interval;
+  }
+  @FieldResolver((_returns) => PriceSchedule, {
+    nullable: true,
+    description: `Manual price schedule generating the prices`,
+  })
+  schedule(@Root() pricelist: PriceList): PriceSchedule | null {
+    return (
+      pricelist.price_schedule &&
+      plainToClass(PriceSchedule, pricelist.price_schedule)
+    );
+  }
 }
 
 @InputType()
 export class UpdatePriceListInput {
   @Field((_type) => ID)
   id!: string;
-  @Field((_type) => String)
-  name!: string;
-  @Field((_type) => Boolean)
-  isPublic!: boolean;
+  @Field((_type) => String, { nullable: true })
+  name?: string;
+  @Field((_type) => Boolean, { nullable: true })
+  isPublic?: boolean;
+  @Field((_type) => Int, {
+    nullable: true,
+    description: `Minutes between price points`,
+  })
+  interval?: number;
 }
 
 @ObjectType("PriceData")
@@ -72,3 +142,24 @@ export abstract class UpdatePriceInput {
   @Field((_type) => [PriceData])
   prices!: PriceData[];
 }
+
+@ObjectType("CarbonIntensityData")
+@InputType("CarbonIntensityDataInput")
+export class CarbonIntensityData {
+  @Field((_type) => GraphQLISODateTime, {
+    description: `Interval start time`,
+  })
+  startAt!: Date;
+  @Field((_type) => Float, {
+    description: `Grid carbon intensity in gCO2/kWh`,
+  })
+  intensity!: number;
+}
+
+@InputType()
+export abstract class UpdateCarbonIntensityInput {
+  @Field((_type) => ID)
+  priceListID!: string;
+  @Field((_type) => [CarbonIntensityData])
+  intensities!: CarbonIntensityData[];
+}
@@ -0,0 +1,102 @@
+/**
+ * @file Agent action state test
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import "reflect-metadata";
+import assert from "assert";
+import { test } from "@shared/test-runner";
+import { ActionStatus } from "@shared/sc-types";
+import { ACTION_TIMEOUT } from "@shared/smartcharge-defines";
+import { DBAction } from "@server/db-schema";
+import { actionProgress } from "./provider-resolver";
+
+const NOW = Date.parse("2024-01-15T12:00:00Z");
+
+function action(status: ActionStatus, retries = 0): DBAction {
+  return {
+    action_id: 1,
+    service_uuid: "service-1",
+    provider_name: "tesla",
+    action: "wakeUp",
+    data: { id: "vehicle-1" },
+    status,
+    retries,
+    created: new Date(NOW),
+    updated: new Date(NOW),
+    expires: new Date(NOW + ACTION_TIMEOUT),
+  };
+}
+
+test("dispatches and counts attempts without a result", () => {
+  const queued = actionProgress(
+    action(ActionStatus.Queued),
+    { id: "vehicle-1" },
+    NOW
+  );
+  assert.deepStrictEqual(queued, {
+    status: ActionStatus.Dispatched,
+    retries: 1,
+    data: { id: "vehicle-1" },
+  });
+  const retried = actionProgress(
+    action(ActionStatus.Dispatched, 59),
+    { id: "vehicle-1" },
+    NOW + ACTION_TIMEOUT - 1
+  );
+  assert.strictEqual(retried!.status, ActionStatus.Dispatched);
+  assert.strictEqual(retried!.retries, 60);
+});
+
+test("succeeds or fails on the reported result", () => {
+  assert.deepStrictEqual(
+    actionProgress(
+      action(ActionStatus.Dispatched, 3),
+      { id: "vehicle-1", result: true },
+      NOW
+    ),
+    {
+      status: ActionStatus.Succeeded,
+      retries: 3,
+      data: { id: "vehicle-1", result: true },
+    }
+  );
+  assert.strictEqual(
+    actionProgress(
+      action(ActionStatus.Queued),
+      { id: "vehicle-1", result: false, error: "Asleep" },
+      NOW
+    )!.status,
+    ActionStatus.Failed
+  );
+});
+
+test("expires when the timeout passes without a result", () => {
+  assert.deepStrictEqual(
+    actionProgress(
+      action(ActionStatus.Dispatched, 10),
+      { id: "vehicle-1" },
+      NOW + ACTION_TIMEOUT
+    ),
+    {
+      status: ActionStatus.Expired,
+      retries: 10,
+      data: { id: "vehicle-1", result: false, error: "Action expired" },
+    }
+  );
+});
+
+test("ignores updates to actions that are done", () => {
+  for (const status of [
+    ActionStatus.Succeeded,
+    ActionStatus.Failed,
+    ActionStatus.Expired,
+  ]) {
+    assert.strictEqual(
+      actionProgress(action(status), { id: "vehicle-1", result: true }, NOW),
+      null
+    );
+  }
+});
@@ -16,40 +16,69 @@ import {
   Root,
   Int,
   Query,
-  ObjectType,
-  Field,
 } from "type-graphql";
-import { IContext } from "@server/gql/api";
+import { IContext, accountFilter } from "@server/gql/api";
 import { GraphQLJSONObject } from "graphql-type-json";
 import { INTERNAL_SERVICE_UUID } from "@server/db-interface";
 import { ApolloError } from "apollo-server-core";
 import { withFilter } from "graphql-subscriptions";
 import providers from "@providers/provider-servers";
 import { IProviderServer } from "@providers/provider-server";
-import { DBServiceProvider } from "@server/db-schema";
+import { DBServiceProvider, DBAction } from "@server/db-schema";
+import { Action } from "./action-type";
+import { AgentStatus } from "./service-type";
+import { ActionStatus } from "@shared/sc-types";
+import { ACTION_TIMEOUT } from "@shared/smartcharge-defines";
+import { plainToClass } from "class-transformer";
 
-const actionMemDatabase: { [id: string]: Action } = {};
-let actionMemDatabaseSN = 0;
+export interface ActionState {
+  status: ActionStatus;
+  retries: number;
+  data: any;
+}
+/**
+ * Next state of an action after a progress report from its agent, or null
+ * if the action is already done. Actions without a result keep retrying
+ * until they expire
+ */
+export function actionProgress(
+  current: DBAction,
+  update: any,
+  now: number
+): ActionState | null {
+  if (
+    current.status !== ActionStatus.Queued &&
+    current.status !== ActionStatus.Dispatched
+  ) {
+    return null;
+  }
+  if (update.result !== undefined) {
+    return {
+      status:
+        update.result === false ? ActionStatus.Failed : ActionStatus.Succeeded,
+      retries: current.retries,
+      data: update,
+    };
+  }
+  if (now >= current.expires.getTime()) {
+    return {
+      status: ActionStatus.Expired,
+      retries: current.retries,
+      data: { ...update, result: false, error: "Action expired" },
+    };
+  }
+  return {
+    status: ActionStatus.Dispatched,
+    retries: current.retries + 1,
+    data: update,
+  };
+}
 
 const providerMap = providers.reduce((a, p) => {
   a[p.name.toLowerCase()] = p;
   return a;
 }, {} as { [name: string]: IProviderServer });
 
-@ObjectType()
-export abstract class Action {
-  @Field((_type) => Int)
-  actionID!: number;
-  @Field((_type) => ID)
-  serviceID!: string;
-  @Field()
-  providerName!: string;
-  @Field()
-  action!: string;
-  @Field((_type) => GraphQLJSONObject)
-  data!: any;
-}
-
 @Resolver()
 export class ProviderResolver {
   // TODO: replace provider query and mutate with provider actions?
@@ -92,7 +121,7 @@ export class ProviderResolver {
     };
   }
 
-  @Mutation((_returns) => GraphQLJSONObject)
+  @Mutation((_returns) => Action)
   async performAction(
     @Arg("actionID", (_type) => Int, { nullable: true }) actionID: number,
     @Arg("serviceID", (_type) => ID) serviceID: string,
@@ -114,31 +143,88 @@ export class ProviderResolver {
       throw new ApolloError("Invalid service id specified");
     }
 
-    const id =
-      actionMemDatabase[actionID] !== undefined
-        ? actionID
-        : actionMemDatabaseSN++;
-    const actionObj: Action = {
-      actionID: id,
-      serviceID: service.service_uuid,
-      providerName: service.provider_name,
-      action: action,
-      data: data || {},
-    };
-
-    if (actionObj.data.result !== undefined) {
-      delete actionMemDatabase[actionObj.actionID]; //cleanup
+    let dbAction: DBAction;
+    if (actionID === null || actionID === undefined) {
+      dbAction = await context.db.newAction(
+        service.service_uuid,
+        service.provider_name,
+        action,
+        data || {},
+        ACTION_TIMEOUT
+      );
     } else {
-      actionMemDatabase[actionObj.actionID] = actionObj;
+      // Progress reported by the agent
+      if (context.accountUUID !== INTERNAL_SERVICE_UUID) {
+        throw new ApolloError("Permission denied");
+      }
+      const current = await context.db.getAction(actionID);
+      if (!current || current.service_uuid !== service.service_uuid) {
+        throw new ApolloError("Invalid action id specified");
+      }
+      const state = actionProgress(current, data || {}, Date.now());
+      if (state === null) {
+        return plainToClass(Action, current); // already done, ignore late updates
+      }
+      dbAction = await context.db.updateAction(
+        current.action_id,
+        state.status,
+        state.retries,
+        state.data
+      );
+      if (state.status === current.status) {
+        return plainToClass(Action, dbAction); // only a retry, nothing to notify
+      }
+    }
+
+    await apolloPubSub.publish(SubscriptionTopic.ActionUpdate, dbAction);
+    return plainToClass(Action, dbAction);
+  }
+
+  @Query((_returns) => [Action], {
+    description: `Actions performed on a vehicle, newest first`,
+  })
+  async actions(
+    @Arg("vehicleID", (_type) => ID) vehicleID: string,
+    @Arg("limit", (_type) => Int, { nullable: true }) limit: number | null,
+    @Ctx() context: IContext
+  ): Promise<Action[]> {
+    const vehicle = await context.db.getVehicle(
+      accountFilter(context.accountUUID),
+      vehicleID
+    );
+    if (!vehicle.service_uuid) {
+      return [];
     }
+    return plainToClass(
+      Action,
+      await context.db.getActionHistory(
+        vehicle.service_uuid,
+        vehicle.vehicle_uuid,
+        limit || 20
+      )
+    );
+  }
 
-    await apolloPubSub.publish(SubscriptionTopic.ActionUpdate, actionObj);
-    return actionObj;
+  @Query((_returns) => [AgentStatus], {
+    description: `Health of the agent jobs polling your services`,
+  })
+  async agentStatus(
+    @Arg("serviceID", (_type) => ID, { nullable: true })
+    serviceID: string | null,
+    @Ctx() context: IContext
+  ): Promise<AgentStatus[]> {
+    return plainToClass(
+      AgentStatus,
+      await context.db.getAgentStatus(
+        accountFilter(context.accountUUID),
+        serviceID || undefined
+      )
+    );
   }
 
   @Subscription((_returns) => Action, {
     subscribe: withFilter(
-      (_payload?: Action, args?: any, context?: IContext) => {
+      (_payload?: DBAction, args?: any, context?: IContext) => {
         if (!args || !context) {
           throw new ApolloError("Internal error");
         }
@@ -153,26 +239,26 @@ export class ProviderResolver {
         }
         return apolloPubSub.asyncIterator(SubscriptionTopic.ActionUpdate);
       },
-      (payload?: Action, args?: any, _context?: IContext) => {
+      (payload?: DBAction, args?: any, _context?: IContext) => {
         return Boolean(
           args &&
             payload &&
             (args.providerName === undefined ||
-              args.providerName === payload.providerName) &&
+              args.providerName === payload.provider_name) &&
             (args.serviceID === undefined ||
-              args.serviceID === payload.serviceID)
+              args.serviceID === payload.service_uuid)
         );
       }
     ),
   })
   async actionSubscription(
-    @Root() payload: Action,
+    @Root() payload: DBAction,
     @Arg("providerName", (_type) => String, { nullable: true })
     _providerName: string | null,
     @Arg("serviceID", (_type) => ID, { nullable: true })
     _serviceID: string | null,
     @Ctx() _context: IContext
   ): Promise<Action> {
-    return payload;
+    return plainToClass(Action, payload);
   }
 }
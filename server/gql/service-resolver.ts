@@ -17,15 +17,27 @@ import {
   Float,
   PubSub,
   PubSubEngine,
+  registerEnumType,
 } from "type-graphql";
 import { IContext } from "@server/gql/api";
 import { INTERNAL_SERVICE_UUID, DBInterface } from "@server/db-interface";
+import { ChargePlanTrigger } from "@server/logic";
 import { AuthenticationError, ApolloError } from "apollo-server-core";
 
-import { VehicleDebugInput, UpdateVehicleDataInput } from "./vehicle-type";
-import { ServiceProvider } from "./service-type";
+import {
+  VehicleDebugInput,
+  UpdateVehicleDataInput,
+  CalendarFeed,
+} from "./vehicle-type";
+import { ServiceProvider, AgencyLease, AgentStatusInput } from "./service-type";
+import { Action } from "./action-type";
 import { plainToClass } from "class-transformer";
-import { UpdatePriceInput } from "./price-type";
+import { UpdatePriceInput, UpdateCarbonIntensityInput } from "./price-type";
+import { UpdateMeterDataInput } from "./location-type";
+import { AGENCY_LEASE_TIMEOUT } from "@shared/smartcharge-defines";
+import { LogLevel, setLogLevel, LOGLEVEL } from "@shared/utils";
+
+registerEnumType(LogLevel, { name: "LogLevel" });
 
 function authorizeService(context: IContext) {
   if (context.accountUUID !== INTERNAL_SERVICE_UUID) {
@@ -47,6 +59,120 @@ export class ServiceResolver {
     );
   }
 
+  @Query((_returns) => [Action], {
+    description: `Actions not yet done, replayed by agents when subscribing`,
+  })
+  async _pendingActions(
+    @Arg("providerName") providerName: string,
+    @Arg("serviceID", (_type) => ID, { nullable: true })
+    serviceID: string | null,
+    @Ctx() context: IContext
+  ): Promise<Action[]> {
+    authorizeService(context);
+    return plainToClass(
+      Action,
+      await context.db.getPendingActions(providerName, serviceID || undefined)
+    );
+  }
+
+  @Mutation((_returns) => LogLevel, {
+    description: `Change the server log level at runtime, returns the previous level`,
+  })
+  async _setLogLevel(
+    @Arg("level", (_type) => LogLevel) level: LogLevel,
+    @Ctx() context: IContext
+  ): Promise<LogLevel> {
+    authorizeService(context);
+    const previous = LOGLEVEL;
+    setLogLevel(level);
+    context.log(
+      LogLevel.Info,
+      `Log level changed from ${LogLevel[previous]} to ${LogLevel[level]}`
+    );
+    return previous;
+  }
+
+  @Mutation((_returns) => ID)
+  async _registerAgency(
+    @Arg("name") name: string,
+    @Arg("accept", (_type) => [String]) accept: string[],
+    @Ctx() context: IContext
+  ): Promise<string> {
+    authorizeService(context);
+    const agency = await context.db.registerAgency(name, accept);
+    context.log(
+      LogLevel.Info,
+      `Agency ${agency.agency_uuid} (${name}) registered`
+    );
+    return agency.agency_uuid;
+  }
+
+  @Mutation((_returns) => AgencyLease, {
+    nullable: true,
+    description: `Renew and rebalance the job leases of an agency, null if the agency expired`,
+  })
+  async _agencyHeartbeat(
+    @Arg("agencyID", (_type) => ID) agency_uuid: string,
+    @Ctx() context: IContext
+  ): Promise<AgencyLease | null> {
+    authorizeService(context);
+    const leases = await context.db.leaseAgencyJobs(
+      agency_uuid,
+      AGENCY_LEASE_TIMEOUT
+    );
+    if (leases === null) {
+      return null;
+    }
+    const jobs = new Set(leases.map((f) => f.job));
+    const providers = [...new Set(leases.map((f) => f.provider_name))];
+    const services =
+      providers.length > 0
+        ? await context.db.getServiceProviders(undefined, undefined, providers)
+        : [];
+    return {
+      services: plainToClass(
+        ServiceProvider,
+        services.filter((f) => jobs.has(f.service_uuid))
+      ),
+      globals: leases
+        .filter((f) => f.job.startsWith("global:"))
+        .map((f) => f.provider_name),
+    };
+  }
+
+  @Mutation((_returns) => Boolean)
+  async _releaseAgency(
+    @Arg("agencyID", (_type) => ID) agency_uuid: string,
+    @Ctx() context: IContext
+  ): Promise<Boolean> {
+    authorizeService(context);
+    await context.db.removeAgency(agency_uuid);
+    context.log(LogLevel.Info, `Agency ${agency_uuid} released`);
+    return true;
+  }
+
+  @Mutation((_returns) => Boolean)
+  async _updateAgentStatus(
+    @Arg("agency") agency: string,
+    @Arg("input", (_type) => [AgentStatusInput]) input: AgentStatusInput[],
+    @Ctx() context: IContext
+  ): Promise<Boolean> {
+    authorizeService(context);
+    for (const job of input) {
+      await context.db.updateAgentStatus(
+        job.serviceID,
+        agency,
+        job.polled,
+        job.pollError,
+        job.interval,
+        job.queue,
+        job.tokenValid,
+        job.subjects
+      );
+    }
+    return true;
+  }
+
   @Mutation((_returns) => Boolean)
   async _updateVehicleData(
     @Arg("input") input: UpdateVehicleDataInput,
@@ -121,7 +247,11 @@ export class ServiceResolver {
         energy,
         energy
       );
-      await context.logic.refreshChargePlan(vehicle.vehicle_uuid);
+      await context.logic.refreshChargePlan(
+        vehicle.vehicle_uuid,
+        undefined,
+        ChargePlanTrigger.ChargeCurve
+      );
       return result.level;
     }
   }
@@ -142,4 +272,64 @@ export class ServiceResolver {
     await context.logic.priceListRefreshed(input.priceListID);
     return true;
   }
+
+  @Mutation((_returns) => Boolean)
+  async _updateCarbonIntensity(
+    @Arg("input") input: UpdateCarbonIntensityInput,
+    @Ctx() context: IContext
+  ): Promise<Boolean> {
+    authorizeService(context);
+    for (const point of input.intensities) {
+      await context.db.updateCarbonData(
+        input.priceListID,
+        point.startAt,
+        point.intensity
+      );
+    }
+    await context.logic.priceListRefreshed(input.priceListID);
+    return true;
+  }
+
+  @Mutation((_returns) => Boolean)
+  async _updateMeterData(
+    @Arg("input") input: UpdateMeterDataInput,
+    @Ctx() context: IContext
+  ): Promise<Boolean> {
+    authorizeService(context);
+    await context.db.updateMeterData(
+      input.locationID,
+      input.measuredAt || new Date(),
+      input.gridPower
+    );
+    await context.logic.meterDataRefreshed(input.locationID);
+    return true;
+  }
+
+  @Query((_returns) => [CalendarFeed])
+  async _calendarFeeds(@Ctx() context: IContext): Promise<CalendarFeed[]> {
+    authorizeService(context);
+    return (await context.db.getCalendarFeeds()).map((f) =>
+      plainToClass(CalendarFeed, {
+        vehicleID: f.vehicle_uuid,
+        url: f.calendar_url,
+      })
+    );
+  }
+
+  @Mutation((_returns) => Boolean)
+  async _importCalendar(
+    @Arg("vehicleID", (_type) => ID) vehicleID: string,
+    @Arg("ics") ics: string,
+    @Ctx() context: IContext,
+    @PubSub() pubSub: PubSubEngine
+  ): Promise<Boolean> {
+    authorizeService(context);
+    const vehicle = await context.db.getVehicle(undefined, vehicleID);
+    await context.logic.importCalendar(vehicle.vehicle_uuid, ics);
+    await pubSub.publish(SubscriptionTopic.VehicleUpdate, {
+      vehicle_uuid: vehicle.vehicle_uuid,
+      account_uuid: vehicle.account_uuid,
+    });
+    return true;
+  }
 }
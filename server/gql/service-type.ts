@@ -5,10 +5,20 @@
  * @license MIT (MIT)
  */
 
-import { ObjectType, ID, Root, Resolver, FieldResolver } from "type-graphql";
+import {
+  ObjectType,
+  InputType,
+  ID,
+  Int,
+  Root,
+  Resolver,
+  FieldResolver,
+  Field,
+} from "type-graphql";
 import { GraphQLJSONObject } from "graphql-type-json";
 import "reflect-metadata";
-import { DBServiceProvider } from "@server/db-schema";
+import { DBServiceProvider, DBAgentStatus } from "@server/db-schema";
+import { agentHealthWarning } from "@server/logic";
 
 @ObjectType("ServiceProvider")
 export class ServiceProvider extends DBServiceProvider {}
@@ -32,3 +42,114 @@ export class ServiceProviderTypeResolver {
     return serviceprovider.service_data;
   }
 }
+
+@ObjectType()
+export class AgencyLease {
+  @Field((_type) => [ServiceProvider], {
+    description: `Service jobs leased by the agency`,
+  })
+  services!: ServiceProvider[];
+  @Field((_type) => [String], {
+    description: `Provider agents with global work leased by the agency`,
+  })
+  globals!: string[];
+}
+
+@ObjectType()
+@InputType("AgentSubjectStatusInput")
+export class AgentSubjectStatus {
+  @Field((_type) => ID, { description: `Vehicle id` })
+  id!: string;
+  @Field((_type) => String, {
+    nullable: true,
+    description: `Provider specific poll state`,
+  })
+  pollState!: string | null;
+  @Field((_type) => String, {
+    nullable: true,
+    description: `Last provider error`,
+  })
+  pollError!: string | null;
+}
+
+@InputType()
+export class AgentStatusInput {
+  @Field((_type) => ID)
+  serviceID!: string;
+  @Field((_type) => Date, {
+    nullable: true,
+    description: `Last successful poll`,
+  })
+  polled!: Date | null;
+  @Field((_type) => String, {
+    nullable: true,
+    description: `Error of the last failed poll`,
+  })
+  pollError!: string | null;
+  @Field((_type) => Int, { description: `Seconds between polls` })
+  interval!: number;
+  @Field((_type) => Int, { description: `Number of queued actions` })
+  queue!: number;
+  @Field({ description: `Is the provider authorization valid` })
+  tokenValid!: boolean;
+  @Field((_type) => [AgentSubjectStatus])
+  subjects!: AgentSubjectStatus[];
+}
+
+@ObjectType("AgentStatus")
+export class AgentStatus extends DBAgentStatus {}
+
+@Resolver((_of) => AgentStatus)
+export class AgentStatusTypeResolver {
+  @FieldResolver((_returns) => ID)
+  serviceID(@Root() status: AgentStatus): string {
+    return status.service_uuid;
+  }
+  @FieldResolver((_returns) => String)
+  providerName(@Root() status: AgentStatus): string {
+    return status.provider_name;
+  }
+  @FieldResolver((_returns) => String, {
+    description: `Agency running the job`,
+  })
+  agency(@Root() status: AgentStatus): string {
+    return status.agency_name;
+  }
+  @FieldResolver((_returns) => Date, {
+    description: `Time of the last health report`,
+  })
+  reported(@Root() status: AgentStatus): Date {
+    return status.reported;
+  }
+  @FieldResolver((_returns) => Date, { nullable: true })
+  polled(@Root() status: AgentStatus): Date | null {
+    return status.polled;
+  }
+  @FieldResolver((_returns) => String, { nullable: true })
+  pollError(@Root() status: AgentStatus): string | null {
+    return status.poll_error;
+  }
+  @FieldResolver((_returns) => Int)
+  interval(@Root() status: AgentStatus): number {
+    return status.interval;
+  }
+  @FieldResolver((_returns) => Int)
+  queue(@Root() status: AgentStatus): number {
+    return status.queue;
+  }
+  @FieldResolver((_returns) => Boolean)
+  tokenValid(@Root() status: AgentStatus): boolean {
+    return status.token_valid;
+  }
+  @FieldResolver((_returns) => [AgentSubjectStatus])
+  subjects(@Root() status: AgentStatus): AgentSubjectStatus[] {
+    return status.subjects;
+  }
+  @FieldResolver((_returns) => String, {
+    nullable: true,
+    description: `Health warning if the job is stale`,
+  })
+  warning(@Root() status: AgentStatus): string | null {
+    return agentHealthWarning(status, "", Date.now());
+  }
+}
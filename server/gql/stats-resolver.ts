@@ -20,7 +20,6 @@ import { ChargePlan } from "./vehicle-type";
 import { Arg, Resolver, Query, Ctx } from "type-graphql";
 import { IContext, accountFilter } from "./api";
 import { plainToClass } from "class-transformer";
-import { PriceData } from "./price-type";
 import { DBInterface } from "@server/db-interface";
 import {
   PlainObject,
@@ -69,6 +68,32 @@ export class StateMap {
   chargeCost!: number;
   @Field((_type) => Float)
   chargeCostSaved!: number;
+  @Field((_type) => Float, {
+    description: `Carbon emissions of charged energy (gCO2)`,
+  })
+  chargeCarbon!: number;
+}
+
+@ObjectType()
+export class ChartPriceData {
+  @Field((_type) => GraphQLISODateTime)
+  startAt!: Date;
+  @Field((_type) => Float, {
+    description: `Effective price including location tariff`,
+  })
+  price!: number;
+  @Field((_type) => Float, {
+    description: `Spot price from the price list`,
+  })
+  spotPrice!: number;
+  @Field((_type) => ID, {
+    description: `Price list the price came from`,
+  })
+  priceListID!: string;
+  @Field((_type) => String, {
+    description: `Name of the price list the price came from`,
+  })
+  source!: string;
 }
 
 @ObjectType()
@@ -87,8 +112,13 @@ export class ChartData {
   locationID!: string | null;
   @Field((_type) => Float, { nullable: true })
   thresholdPrice!: number | null;
-  @Field((_type) => [PriceData], { nullable: true })
-  prices!: PriceData[] | null;
+  @Field((_type) => [ChartPriceData], { nullable: true })
+  prices!: ChartPriceData[] | null;
+  @Field((_type) => Int, {
+    nullable: true,
+    description: `Minutes between price points`,
+  })
+  priceInterval!: number | null;
   @Field((_type) => [ChargePlan], { nullable: true })
   chargePlan!: ChargePlan[] | null;
   @Field((_type) => [StateMap])
@@ -184,6 +214,7 @@ export class StatsResolver {
       thresholdPrice: null,
       chargeCurve: chargecurve,
       prices: null,
+      priceInterval: null,
       chargePlan:
         (vehicle.charge_plan &&
           (vehicle.charge_plan as ChargePlan[]).map((f) =>
@@ -207,6 +238,7 @@ export class StatsResolver {
           chargedEnergy: f.charge_energy / 60e3,
           chargeCost: f.charge_cost / 1e5,
           chargeCostSaved: f.charge_cost_saved / 1e5,
+          chargeCarbon: f.charge_carbon,
         } as StateMap)
       ),
       eventList: eventList.sort((a, b) => a.end.getTime() - b.end.getTime()),
@@ -214,17 +246,27 @@ export class StatsResolver {
 
     if (location_uuid) {
       const priceData = (await context.db.pg.manyOrNone(
-        `SELECT p.* FROM price_data p JOIN location l ON (l.price_list_uuid = p.price_list_uuid)
-     WHERE location_uuid = $1 AND ts >= $2
+        `SELECT p.*, tariff_price(p.price, p.ts, l.tariff) as effective, pl.price_interval, pl.name FROM location_price_data($1) p JOIN location l ON (l.location_uuid = $1)
+     JOIN price_list pl ON (pl.price_list_uuid = p.price_list_uuid)
+     WHERE ts >= $2
      ORDER BY ts;`,
         [location_uuid, from]
-      )) as DBPriceData[];
+      )) as (DBPriceData & {
+        effective: number;
+        price_interval: number;
+        name: string;
+      })[];
+      chartData.priceInterval =
+        priceData.length > 0 ? priceData[0].price_interval : null;
       chartData.prices = priceData.map(
         (f) =>
-          plainToClass(PriceData, {
+          plainToClass(ChartPriceData, {
             startAt: f.ts,
-            price: f.price / 1e5,
-          } as PriceData) || null
+            price: f.effective / 1e5,
+            spotPrice: f.price / 1e5,
+            priceListID: f.price_list_uuid,
+            source: f.name,
+          } as ChartPriceData) || null
       );
 
       const stats = await context.logic.currentStats(vehicle, location_uuid);
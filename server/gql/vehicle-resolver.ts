@@ -19,6 +19,7 @@ import {
   Root,
   Int,
   ID,
+  Float,
   GraphQLISODateTime,
 } from "type-graphql";
 import { IContext, accountFilter } from "./api";
@@ -28,12 +29,45 @@ import {
   UpdateVehicleInput,
   VehicleLocationSettings,
   Schedule,
+  WeeklySchedule,
+  UpdateWeeklyScheduleInput,
+  ChargePlanExplanation,
+  ChargePlanHistory,
 } from "./vehicle-type";
-import { log, LogLevel, makePublicID } from "@shared/utils";
+import { LogLevel, makePublicID } from "@shared/utils";
+import { calendarFeedURL } from "@shared/public-url";
+import { DateTime } from "luxon";
 import { ApolloError } from "apollo-server-core";
 import { plainToClass } from "class-transformer";
 import { DBSchedule } from "@server/db-schema";
 import { ScheduleType } from "@shared/sc-types";
+import { PlannerTrace } from "@server/planner";
+import { ChargePlanTrigger } from "@server/logic";
+
+function validateWeeklySchedule(input: UpdateWeeklyScheduleInput) {
+  if (
+    input.weekdays.length < 1 ||
+    input.weekdays.some((d) => !Number.isInteger(d) || d < 1 || d > 7)
+  ) {
+    throw new ApolloError("Invalid weekdays");
+  }
+  if (!/^([01]?\d|2[0-3]):[0-5]\d$/.test(input.departure)) {
+    throw new ApolloError("Invalid departure time");
+  }
+  if (input.timezone && !DateTime.local().setZone(input.timezone).isValid) {
+    throw new ApolloError("Invalid time zone");
+  }
+  if (input.level < 1 || input.level > 100) {
+    throw new ApolloError("Invalid level");
+  }
+  if (
+    (input.exceptions || []).some(
+      (d) => !/^\d{4}-\d{2}-\d{2}$/.test(d) || !DateTime.fromISO(d).isValid
+    )
+  ) {
+    throw new ApolloError("Invalid exception date");
+  }
+}
 
 interface VehicleSubscriptionPayload {
   account_uuid: string;
@@ -59,6 +93,82 @@ export class VehicleResolver {
       await context.db.getVehicle(accountFilter(context.accountUUID), id)
     );
   }
+  @Query((_returns) => ChargePlanExplanation, {
+    nullable: true,
+    description: `decisions behind the current charge plan`,
+  })
+  async chargePlanExplanation(
+    @Arg("vehicleID", (_type) => ID) vehicleID: string,
+    @Ctx() context: IContext
+  ): Promise<ChargePlanExplanation | null> {
+    const vehicle = await context.db.getVehicle(
+      accountFilter(context.accountUUID),
+      vehicleID
+    );
+    const trace = vehicle.charge_plan_trace as PlannerTrace | null;
+    if (!trace) {
+      return null;
+    }
+    const date = (ts: number | null) => (ts !== null ? new Date(ts) : null);
+    const price = (p: number | null) => (p !== null ? p / 1e5 : null);
+    return plainToClass(ChargePlanExplanation, {
+      updated: new Date(trace.now),
+      level: trace.level,
+      maximumLevel: trace.maximumLevel,
+      directLevel: trace.directLevel,
+      goal: trace.goal,
+      connected: trace.connected,
+      prices: trace.prices,
+      priceAvailable: date(trace.priceAvailable),
+      forecastAvailable: date(trace.forecastAvailable || null),
+      learning: trace.learning,
+      predictedLevel: trace.guess && trace.guess.level,
+      predictedDisconnect: trace.guess && date(trace.guess.ts),
+      tripLevel: trace.trip ? trace.trip.level : null,
+      tripDeparture: trace.trip ? date(trace.trip.ts) : null,
+      departureLevel: trace.departure && trace.departure.level,
+      departureTime: trace.departure && date(trace.departure.ts),
+      thresholdPrice: price(trace.thresholdPrice),
+      solarSurplus: trace.solarSurplus,
+      decisions: trace.decisions.map((d) => ({
+        ...d,
+        before: date(d.before),
+        maxPrice: price(d.maxPrice),
+      })),
+    });
+  }
+  @Query((_returns) => [ChargePlanHistory], {
+    description: `charge plans made in a period compared with actual charging`,
+  })
+  async chargePlanHistory(
+    @Arg("vehicleID", (_type) => ID) vehicleID: string,
+    @Arg("from", (_type) => GraphQLISODateTime) from: Date,
+    @Arg("to", (_type) => GraphQLISODateTime, { nullable: true })
+    to: Date | null,
+    @Ctx() context: IContext
+  ): Promise<ChargePlanHistory[]> {
+    const vehicle = await context.db.getVehicle(
+      accountFilter(context.accountUUID),
+      vehicleID
+    );
+    const outcome = await context.logic.chargePlanOutcome(
+      vehicle.vehicle_uuid,
+      from,
+      to || new Date()
+    );
+    return outcome.map((o) =>
+      plainToClass(ChargePlanHistory, {
+        start: o.history.ts,
+        end: o.end,
+        trigger: o.history.trigger,
+        chargePlan: o.history.charge_plan,
+        plannedMinutes: o.plannedMinutes,
+        chargedMinutes: o.chargedMinutes,
+        plannedLevel: o.plannedLevel,
+        reachedLevel: o.reachedLevel,
+      })
+    );
+  }
   @Query((_returns) => Int, { nullable: true })
   async vehicleLimit(@Ctx() context: IContext): Promise<number> {
     const limit = await context.db.pg.oneOrNone(
@@ -112,7 +222,7 @@ export class VehicleResolver {
     @Ctx() context: IContext
   ): Promise<Boolean> {
     // verify vehicle ownage
-    log(LogLevel.Debug, `removeVehicle: ${JSON.stringify(id)}`);
+    context.log(LogLevel.Debug, `removeVehicle: ${JSON.stringify(id)}`);
     const vehicle = await context.db.getVehicle(
       accountFilter(context.accountUUID),
       id
@@ -134,8 +244,15 @@ export class VehicleResolver {
     @PubSub() pubSub: PubSubEngine
   ): Promise<Vehicle> {
     // verify vehicle ownage
-    log(LogLevel.Debug, `updateVehicle: ${JSON.stringify(input)}`);
+    context.log(LogLevel.Debug, `updateVehicle: ${JSON.stringify(input)}`);
     await context.db.getVehicle(accountFilter(context.accountUUID), input.id);
+    if (input.calendarURL) {
+      try {
+        await calendarFeedURL(input.calendarURL);
+      } catch (err: any) {
+        throw new ApolloError(err.message);
+      }
+    }
 
     // remap settings array to settings map
     const locationSettingsMap =
@@ -145,6 +262,7 @@ export class VehicleResolver {
           map[obj.locationID] = {
             directLevel: obj.directLevel,
             goal: obj.goal,
+            minimumCurrent: obj.minimumCurrent,
           };
           return map;
         },
@@ -158,13 +276,18 @@ export class VehicleResolver {
       status: input.status,
       service_uuid: input.serviceID,
       provider_data: input.providerData,
+      calendar_url: input.calendarURL,
     });
 
     if (
       input.maximumLevel !== undefined ||
       input.locationSettings !== undefined
     ) {
-      await context.logic.refreshChargePlan(input.id);
+      await context.logic.refreshChargePlan(
+        input.id,
+        undefined,
+        ChargePlanTrigger.Settings
+      );
     }
     await pubSub.publish(SubscriptionTopic.VehicleUpdate, {
       vehicle_uuid: result.vehicle_uuid,
@@ -181,14 +304,18 @@ export class VehicleResolver {
     @PubSub() pubSub: PubSubEngine
   ): Promise<boolean> {
     // verify vehicle ownage
-    log(LogLevel.Debug, `removeSchedule: ${JSON.stringify(id)}`);
+    context.log(LogLevel.Debug, `removeSchedule: ${JSON.stringify(id)}`);
     const vehicle = await context.db.getVehicle(
       accountFilter(context.accountUUID),
       vehicleID
     );
 
     await context.db.removeSchedule(id, vehicle.vehicle_uuid);
-    await context.logic.refreshChargePlan(vehicle.vehicle_uuid);
+    await context.logic.refreshChargePlan(
+      vehicle.vehicle_uuid,
+      undefined,
+      ChargePlanTrigger.Schedule
+    );
     await pubSub.publish(SubscriptionTopic.VehicleUpdate, {
       vehicle_uuid: vehicle.vehicle_uuid,
       account_uuid: vehicle.account_uuid,
@@ -206,11 +333,16 @@ export class VehicleResolver {
     level: number | null,
     @Arg("time", (_type) => GraphQLISODateTime, { nullable: true })
     time: Date | null,
+    @Arg("distance", (_type) => Float, {
+      nullable: true,
+      description: `trip distance (km), converted into a level`,
+    })
+    distance: number | null,
     @Ctx() context: IContext,
     @PubSub() pubSub: PubSubEngine
   ): Promise<DBSchedule[]> {
     // verify vehicle ownage
-    log(
+    context.log(
       LogLevel.Debug,
       `updateSchedule: ${JSON.stringify(id)} ${JSON.stringify(vehicleID)}`
     );
@@ -219,6 +351,13 @@ export class VehicleResolver {
       vehicleID
     );
 
+    if (distance) {
+      if (distance < 0) {
+        throw new ApolloError("Invalid distance");
+      }
+      level = await context.logic.tripLevel(vehicle, distance);
+    }
+
     await context.db.updateSchedule(
       id,
       vehicle.vehicle_uuid,
@@ -226,7 +365,101 @@ export class VehicleResolver {
       level,
       time
     );
-    await context.logic.refreshChargePlan(vehicle.vehicle_uuid);
+    await context.logic.refreshChargePlan(
+      vehicle.vehicle_uuid,
+      undefined,
+      ChargePlanTrigger.Schedule
+    );
+    await pubSub.publish(SubscriptionTopic.VehicleUpdate, {
+      vehicle_uuid: vehicle.vehicle_uuid,
+      account_uuid: vehicle.account_uuid,
+    });
+    return context.db.getSchedule(vehicle.vehicle_uuid);
+  }
+
+  @Mutation((_returns) => Boolean)
+  async removeWeeklySchedule(
+    @Arg("id", (_type) => Int) id: number,
+    @Arg("vehicleID", (_type) => ID) vehicleID: string,
+    @Ctx() context: IContext,
+    @PubSub() pubSub: PubSubEngine
+  ): Promise<boolean> {
+    // verify vehicle ownage
+    context.log(LogLevel.Debug, `removeWeeklySchedule: ${JSON.stringify(id)}`);
+    const vehicle = await context.db.getVehicle(
+      accountFilter(context.accountUUID),
+      vehicleID
+    );
+
+    await context.db.removeWeeklySchedule(id, vehicle.vehicle_uuid);
+    await context.logic.refreshChargePlan(
+      vehicle.vehicle_uuid,
+      undefined,
+      ChargePlanTrigger.Schedule
+    );
+    await pubSub.publish(SubscriptionTopic.VehicleUpdate, {
+      vehicle_uuid: vehicle.vehicle_uuid,
+      account_uuid: vehicle.account_uuid,
+    });
+    return true;
+  }
+
+  @Mutation((_returns) => [WeeklySchedule])
+  async updateWeeklySchedule(
+    @Arg("input") input: UpdateWeeklyScheduleInput,
+    @Ctx() context: IContext,
+    @PubSub() pubSub: PubSubEngine
+  ): Promise<WeeklySchedule[]> {
+    // verify vehicle ownage
+    context.log(
+      LogLevel.Debug,
+      `updateWeeklySchedule: ${JSON.stringify(input)}`
+    );
+    const vehicle = await context.db.getVehicle(
+      accountFilter(context.accountUUID),
+      input.vehicleID
+    );
+    validateWeeklySchedule(input);
+
+    await context.db.updateWeeklySchedule(
+      input.id || undefined,
+      vehicle.vehicle_uuid,
+      [...new Set(input.weekdays)].sort((a, b) => a - b),
+      input.departure,
+      input.timezone || "UTC",
+      input.level,
+      input.exceptions || []
+    );
+    await context.logic.refreshChargePlan(
+      vehicle.vehicle_uuid,
+      undefined,
+      ChargePlanTrigger.Schedule
+    );
+    await pubSub.publish(SubscriptionTopic.VehicleUpdate, {
+      vehicle_uuid: vehicle.vehicle_uuid,
+      account_uuid: vehicle.account_uuid,
+    });
+    return plainToClass(
+      WeeklySchedule,
+      await context.db.getWeeklySchedule(vehicle.vehicle_uuid)
+    );
+  }
+
+  @Mutation((_returns) => [Schedule])
+  async importCalendar(
+    @Arg("vehicleID", (_type) => ID) vehicleID: string,
+    @Arg("ics", { description: `iCalendar document` }) ics: string,
+    @Ctx() context: IContext,
+    @PubSub() pubSub: PubSubEngine
+  ): Promise<DBSchedule[]> {
+    // verify vehicle ownage
+    context.log(LogLevel.Debug, `importCalendar: ${JSON.stringify(vehicleID)}`);
+    const vehicle = await context.db.getVehicle(
+      accountFilter(context.accountUUID),
+      vehicleID
+    );
+
+    await context.logic.importCalendar(vehicle.vehicle_uuid, ics);
     await pubSub.publish(SubscriptionTopic.VehicleUpdate, {
       vehicle_uuid: vehicle.vehicle_uuid,
       account_uuid: vehicle.account_uuid,
@@ -28,11 +28,13 @@ import {
   ChargeConnection,
   ScheduleType,
 } from "@shared/sc-types";
-import { DBVehicle, DBSchedule } from "@server/db-schema";
+import { DBVehicle, DBSchedule, DBWeeklySchedule } from "@server/db-schema";
+import { nextWeeklyDeparture } from "@shared/utils";
 import { plainToClass, Type } from "class-transformer";
 import { IContext } from "./api";
 import { LocationResolver } from "./location-resolver";
 import { DBInterface } from "@server/db-interface";
+import { Logic } from "@server/logic";
 
 /*******************************
  *    VehicleLocationSetting   *
@@ -49,6 +51,11 @@ export class VehicleLocationSettings {
   directLevel!: number;
   @Field((_type) => String)
   goal!: SmartChargeGoal | string;
+  @Field((_type) => Int, {
+    nullable: true,
+    description: `Lowest charge current (A) when spreading a charge over cheap hours, or null to always charge at maximum current`,
+  })
+  minimumCurrent?: number | null;
 }
 // Not used because we cannot union between enum and String in type-graphql
 registerEnumType(SmartChargeGoal, {
@@ -80,8 +87,155 @@ export class ChargePlan {
   chargeStop!: Date | null;
   @Field((_type) => Int)
   level!: number;
+  @Field((_type) => Int, {
+    nullable: true,
+    description: `charge current (A) or null for maximum`,
+  })
+  chargeCurrent?: number | null;
+  @Field((_type) => String)
+  comment!: string;
+}
+
+@ObjectType()
+export class ChargePlanDecision {
+  @Field((_type) => ChargeType)
+  chargeType!: ChargeType;
   @Field((_type) => String)
   comment!: string;
+  @Field((_type) => Int, { description: `requested battery level (%)` })
+  level!: number;
+  @Type(() => Date)
+  @Field((_type) => GraphQLISODateTime, {
+    nullable: true,
+    description: `requested deadline or null for none`,
+  })
+  before!: Date | null;
+  @Field((_type) => Float, {
+    nullable: true,
+    description: `highest price accepted (per kWh)`,
+  })
+  maxPrice!: number | null;
+  @Field((_type) => Boolean, { description: `added to the charge plan` })
+  accepted!: boolean;
+  @Field((_type) => String)
+  reason!: string;
+}
+
+@ObjectType()
+export class ChargePlanExplanation {
+  @Type(() => Date)
+  @Field((_type) => GraphQLISODateTime, {
+    description: `time the charge plan was refreshed`,
+  })
+  updated!: Date;
+  @Field((_type) => Int, { description: `battery level (%)` })
+  level!: number;
+  @Field((_type) => Int, { description: `maximum normal charge level (%)` })
+  maximumLevel!: number;
+  @Field((_type) => Int, { description: `level to reach directly (%)` })
+  directLevel!: number;
+  @Field((_type) => String)
+  goal!: string;
+  @Field((_type) => Boolean)
+  connected!: boolean;
+  @Field((_type) => Int, { description: `upcoming price intervals` })
+  prices!: number;
+  @Type(() => Date)
+  @Field((_type) => GraphQLISODateTime, {
+    nullable: true,
+    description: `prices are known until`,
+  })
+  priceAvailable!: Date | null;
+  @Type(() => Date)
+  @Field((_type) => GraphQLISODateTime, {
+    nullable: true,
+    description: `prices are forecasted until`,
+  })
+  forecastAvailable!: Date | null;
+  @Field((_type) => Boolean, {
+    description: `not enough history for smart charging`,
+  })
+  learning!: boolean;
+  @Field((_type) => Int, {
+    nullable: true,
+    description: `predicted level needed before disconnect (%)`,
+  })
+  predictedLevel!: number | null;
+  @Type(() => Date)
+  @Field((_type) => GraphQLISODateTime, {
+    nullable: true,
+    description: `predicted disconnect time`,
+  })
+  predictedDisconnect!: Date | null;
+  @Field((_type) => Int, {
+    nullable: true,
+    description: `level needed for the next trip (%)`,
+  })
+  tripLevel!: number | null;
+  @Type(() => Date)
+  @Field((_type) => GraphQLISODateTime, {
+    nullable: true,
+    description: `next trip departure`,
+  })
+  tripDeparture!: Date | null;
+  @Field((_type) => Int, {
+    nullable: true,
+    description: `level needed for the next weekly departure (%)`,
+  })
+  departureLevel!: number | null;
+  @Type(() => Date)
+  @Field((_type) => GraphQLISODateTime, {
+    nullable: true,
+    description: `next weekly departure`,
+  })
+  departureTime!: Date | null;
+  @Field((_type) => Float, {
+    nullable: true,
+    description: `low price fill threshold (per kWh)`,
+  })
+  thresholdPrice!: number | null;
+  @Field((_type) => Float, {
+    nullable: true,
+    description: `exported solar power (W) or null without power meter`,
+  })
+  solarSurplus!: number | null;
+  @Field((_type) => [ChargePlanDecision])
+  decisions!: ChargePlanDecision[];
+}
+
+@ObjectType()
+export class ChargePlanHistory {
+  @Type(() => Date)
+  @Field((_type) => GraphQLISODateTime, {
+    description: `time the charge plan was made`,
+  })
+  start!: Date;
+  @Type(() => Date)
+  @Field((_type) => GraphQLISODateTime, {
+    description: `time the charge plan was replaced (or end of period)`,
+  })
+  end!: Date;
+  @Field((_type) => String, {
+    description: `what caused the charge plan refresh`,
+  })
+  trigger!: string;
+  @Type(() => ChargePlan)
+  @Field((_type) => [ChargePlan], { nullable: true })
+  chargePlan!: ChargePlan[] | null;
+  @Field((_type) => Int, { description: `minutes of charging planned` })
+  plannedMinutes!: number;
+  @Field((_type) => Int, { description: `minutes of actual charging` })
+  chargedMinutes!: number;
+  @Field((_type) => Int, {
+    nullable: true,
+    description: `highest level planned (%)`,
+  })
+  plannedLevel!: number | null;
+  @Field((_type) => Int, {
+    nullable: true,
+    description: `highest level reached while charging (%)`,
+  })
+  reachedLevel!: number | null;
 }
 
 /*******************************
@@ -115,6 +269,128 @@ export class ScheduleTypeResolver {
   time(@Root() schedule: Schedule): Date | null {
     return schedule.schedule_ts;
   }
+  @FieldResolver((_returns) => String, {
+    nullable: true,
+    description: `event uid if imported from a calendar`,
+  })
+  calendarUID(@Root() schedule: Schedule): string | null {
+    return schedule.calendar_uid;
+  }
+}
+
+@ObjectType()
+export class Consumption {
+  @Field((_type) => Int, { description: `trips in the consumption model` })
+  trips!: number;
+  @Field((_type) => Float, {
+    description: `battery level used per km at current outside temperature (%)`,
+  })
+  levelPerKm!: number;
+  @Field((_type) => Float, {
+    nullable: true,
+    description: `energy used per km at current outside temperature (Wh)`,
+  })
+  whPerKm!: number | null;
+}
+
+@ObjectType()
+export class CalendarFeed {
+  @Field((_type) => ID)
+  vehicleID!: string;
+  @Field((_type) => String)
+  url!: string;
+}
+
+/*******************************
+ *       Weekly schedule       *
+ *******************************/
+
+@ObjectType()
+export class WeeklySchedule extends DBWeeklySchedule {}
+
+@Resolver((_of) => WeeklySchedule)
+export class WeeklyScheduleTypeResolver {
+  @FieldResolver((_returns) => Int)
+  id(@Root() schedule: WeeklySchedule): number {
+    return schedule.weekly_schedule_id;
+  }
+  @FieldResolver((_returns) => ID)
+  vehicleID(@Root() schedule: WeeklySchedule): string {
+    return schedule.vehicle_uuid;
+  }
+  @FieldResolver((_returns) => [Int], {
+    description: `ISO weekdays (1=Monday, 7=Sunday) with a departure`,
+  })
+  weekdays(@Root() schedule: WeeklySchedule): number[] {
+    return schedule.weekdays;
+  }
+  @FieldResolver((_returns) => String, {
+    description: `local departure time (HH:mm)`,
+  })
+  departure(@Root() schedule: WeeklySchedule): string {
+    return schedule.departure.substr(0, 5);
+  }
+  @FieldResolver((_returns) => String)
+  timezone(@Root() schedule: WeeklySchedule): string {
+    return schedule.timezone;
+  }
+  @FieldResolver((_returns) => Int, {
+    description: `battery level needed at departure (%)`,
+  })
+  level(@Root() schedule: WeeklySchedule): number {
+    return schedule.level;
+  }
+  @FieldResolver((_returns) => [String], {
+    description: `dates (yyyy-MM-dd) without departure, e.g. holidays`,
+  })
+  exceptions(@Root() schedule: WeeklySchedule): string[] {
+    return schedule.exceptions;
+  }
+  @FieldResolver((_returns) => GraphQLISODateTime, {
+    nullable: true,
+    description: `next departure`,
+  })
+  nextDeparture(@Root() schedule: WeeklySchedule): Date | null {
+    const ts = nextWeeklyDeparture(
+      schedule.weekdays,
+      schedule.departure,
+      schedule.timezone,
+      schedule.exceptions,
+      Date.now()
+    );
+    return ts === null ? null : new Date(ts);
+  }
+}
+
+@InputType()
+export abstract class UpdateWeeklyScheduleInput {
+  @Field((_type) => Int, {
+    nullable: true,
+    description: `weekly schedule id, omit to add a new schedule`,
+  })
+  id?: number;
+  @Field((_type) => ID)
+  vehicleID!: string;
+  @Field((_type) => [Int], {
+    description: `ISO weekdays (1=Monday, 7=Sunday) with a departure`,
+  })
+  weekdays!: number[];
+  @Field((_type) => String, { description: `local departure time (HH:mm)` })
+  departure!: string;
+  @Field((_type) => String, {
+    nullable: true,
+    description: `time zone of departure time (default UTC)`,
+  })
+  timezone?: string;
+  @Field((_type) => Int, {
+    description: `battery level needed at departure (%)`,
+  })
+  level!: number;
+  @Field((_type) => [String], {
+    nullable: true,
+    description: `dates (yyyy-MM-dd) without departure, e.g. holidays`,
+  })
+  exceptions?: string[];
 }
 
 /*******************************
@@ -195,6 +471,43 @@ export class VehicleTypeResolver {
       await context.db.getSchedule(vehicle.vehicle_uuid)
     );
   }
+  @FieldResolver((_returns) => Consumption, {
+    description: `consumption model from trip history`,
+  })
+  async consumption(
+    @Root() vehicle: Vehicle,
+    @Ctx() context: IContext
+  ): Promise<Consumption> {
+    const model = await context.db.getConsumptionModel(vehicle.vehicle_uuid);
+    const levelPerKm = Logic.levelPerKm(
+      model,
+      vehicle.outside_deci_temperature / 10
+    );
+    return plainToClass(Consumption, {
+      trips: model.trips,
+      levelPerKm,
+      whPerKm: model.wh_per_level && levelPerKm * model.wh_per_level,
+    });
+  }
+  @FieldResolver((_returns) => String, {
+    nullable: true,
+    description: `iCalendar feed with trips`,
+  })
+  calendarURL(@Root() vehicle: Vehicle): string | null {
+    return vehicle.calendar_url;
+  }
+  @FieldResolver((_returns) => [WeeklySchedule], {
+    description: `recurring weekly departures`,
+  })
+  async weeklySchedule(
+    @Root() vehicle: Vehicle,
+    @Ctx() context: IContext
+  ): Promise<WeeklySchedule[]> {
+    return plainToClass(
+      WeeklySchedule,
+      await context.db.getWeeklySchedule(vehicle.vehicle_uuid)
+    );
+  }
   @FieldResolver((_returns) => [VehicleLocationSettings], {
     description: `location settings`,
   })
@@ -258,6 +571,20 @@ export class VehicleTypeResolver {
   estimatedTimeLeft(@Root() vehicle: Vehicle): number | null {
     return vehicle.estimate;
   }
+  @FieldResolver((_returns) => Int, {
+    nullable: true,
+    description: `maximum charge current (A) if current control is supported`,
+  })
+  maximumCurrent(@Root() vehicle: Vehicle): number | null {
+    return vehicle.maximum_current;
+  }
+  @FieldResolver((_returns) => Int, {
+    nullable: true,
+    description: `charge current (A) allotted by location load balancing, 0 to pause charging`,
+  })
+  currentLimit(@Root() vehicle: Vehicle): number | null {
+    return vehicle.current_limit;
+  }
   @FieldResolver((_returns) => Boolean)
   isDriving(@Root() vehicle: Vehicle): boolean {
     return vehicle.driving;
@@ -270,6 +597,13 @@ export class VehicleTypeResolver {
   smartStatus(@Root() vehicle: Vehicle): string {
     return vehicle.smart_status;
   }
+  @FieldResolver((_returns) => String, {
+    nullable: true,
+    description: `agent health warning, vehicle data could be stale`,
+  })
+  healthWarning(@Root() vehicle: Vehicle): string | null {
+    return vehicle.health_warning;
+  }
   @FieldResolver((_returns) => [ChargePlan], {
     nullable: true,
     description: `charge plan`,
@@ -308,6 +642,11 @@ export abstract class UpdateVehicleInput {
   serviceID?: string;
   @Field((_type) => GraphQLJSONObject, { nullable: true })
   providerData?: any;
+  @Field((_type) => String, {
+    nullable: true,
+    description: `iCalendar feed with trips`,
+  })
+  calendarURL?: string;
 }
 
 registerEnumType(ChargeConnection, { name: "ChargeConnection" });
@@ -361,6 +700,11 @@ export abstract class UpdateVehicleDataInput {
     description: `charge added (kWh)`,
   })
   energyAdded!: number | null;
+  @Field((_type) => Int, {
+    nullable: true,
+    description: `maximum charge current (A) if current control is supported`,
+  })
+  maximumCurrent?: number | null;
 }
 
 @InputType()
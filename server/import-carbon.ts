@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+
+/**
+ * @file Utility to import carbon intensity from a CSV file
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ * @description Imports a grid carbon intensity series (gCO2/kWh) into a
+ * price list, for areas without a carbon intensity agent
+ */
+
+import fs from "fs";
+import { Command } from "commander";
+import { log, LogLevel, setLogLevel } from "@shared/utils";
+import { priceUrlPrices } from "@providers/priceurl/priceurl-agent";
+import { Logic } from "./logic";
+import { DBInterface } from "./db-interface";
+
+const program = new Command();
+program
+  .arguments("<price-list-id> <csv-file>")
+  .option("--time <column>", "column with interval start time", "time")
+  .option("--intensity <column>", "column with gCO2/kWh", "intensity")
+  .option("--timezone <zone>", "time zone for time stamps without offset")
+  .option("--step <minutes>", "minutes between values in the file", "60")
+  .action(async (priceListID: string, file: string) => {
+    const opts = program.opts();
+    setLogLevel(LogLevel.Info);
+
+    try {
+      const db = new DBInterface();
+      const logic = new Logic(db);
+
+      const intensities = priceUrlPrices(
+        {
+          area: priceListID,
+          name: priceListID,
+          url: file,
+          format: "csv",
+          time: opts.time,
+          price: opts.intensity,
+          timezone: opts.timezone,
+          step: Number(opts.step),
+          kind: "carbon",
+        },
+        fs.readFileSync(file, "utf-8")
+      );
+      for (const point of intensities) {
+        await db.updateCarbonData(
+          priceListID,
+          new Date(point.startAt),
+          point.price
+        );
+      }
+      await logic.priceListRefreshed(priceListID);
+      console.log(`${intensities.length} intervals imported`);
+      process.exit(0);
+    } catch (err) {
+      log(LogLevel.Error, err);
+      process.exit(1);
+    }
+  })
+  .parse(process.argv);
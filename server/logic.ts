@@ -7,41 +7,364 @@
 
 import { strict as assert } from "assert";
 
-import { DBInterface } from "./db-interface";
+import { DBInterface, ConsumptionModel } from "./db-interface";
 import {
   DBVehicle,
   DBCharge,
   DBChargeCurrent,
   DBTrip,
   DBConnected,
+  DBLocation,
   DBLocationStats,
   DBStatsMap,
   DBSchedule,
+  DBChargePlanHistory,
+  DBPriceList,
+  DBAgentStatus,
 } from "./db-schema";
 import {
   LogLevel,
+  LogFields,
+  Logger,
   log,
   arrayMean,
-  compareStartStopTimes,
   numericStartTime,
   numericStopTime,
   compareStartTimes,
-  capitalize,
+  nextWeeklyDeparture,
+  geoDistance,
 } from "@shared/utils";
 import {
   UpdateVehicleDataInput,
   ChargePlan,
   Schedule,
 } from "./gql/vehicle-type";
-import { SmartChargeGoal, ChargeType, ScheduleType } from "@shared/sc-types";
+import { ChargeType, ScheduleType } from "@shared/sc-types";
 import {
   MIN_STATS_PERIOD,
-  SCHEDULE_TOPUP_MARGIN,
+  METER_DATA_WINDOW,
+  MINIMUM_CHARGE_CURRENT,
+  MAINS_VOLTAGE,
+  MAINS_PHASES,
+  CALENDAR_HORIZON,
+  CALENDAR_ROAD_FACTOR,
+  DEFAULT_LEVEL_PER_KM,
+  CONSUMPTION_MIN_TRIPS,
+  PRICE_FORECAST_HISTORY,
+  PRICE_SCHEDULE_AHEAD,
+  AGENT_STALE_REPORT,
+  AGENT_STALE_POLL,
 } from "@shared/smartcharge-defines";
+import config from "@shared/smartcharge-config";
+import { apolloPubSub, SubscriptionTopic } from "./gql/subscription";
+import { metrics } from "@shared/metrics";
+import { tripLevel } from "@shared/sc-utils";
+import { parseICS, calendarTrips } from "./calendar";
+import { forecastPrices, PriceHistory } from "./price-forecast";
+import { PriceSchedule, schedulePrice } from "@shared/price-schedule";
+import {
+  planCharge,
+  chargePriority,
+  PlannerInput,
+  PlannerPrice,
+} from "./planner";
+
+// What caused a charge plan refresh, stored in the charge plan history
+export enum ChargePlanTrigger {
+  Price = "price", // price list or tariff update
+  VehicleData = "vehicle", // vehicle data update
+  Schedule = "schedule", // schedule, weekly schedule or calendar change
+  Settings = "settings", // vehicle settings change
+  ChargeCurve = "charge_curve", // charge curve calibration
+  MeterData = "meter", // power meter update
+  Location = "location", // location added
+}
+
+export interface ChargePlanOutcome {
+  history: DBChargePlanHistory;
+  end: Date; // when the charge plan was replaced (or the end of the period)
+  plannedMinutes: number; // minutes of charging planned within the period
+  chargedMinutes: number; // minutes of actual charging within the period
+  plannedLevel: number | null; // highest level planned
+  reachedLevel: number | null; // highest level reached while charging
+}
+
+// Merge overlapping intervals clamped to [from, to) and return total minutes
+function intervalMinutes(
+  intervals: { start: number; stop: number }[],
+  from: number,
+  to: number
+): number {
+  const clamped = intervals
+    .map((i) => ({
+      start: Math.max(i.start, from),
+      stop: Math.min(i.stop, to),
+    }))
+    .filter((i) => i.start < i.stop)
+    .sort((a, b) => a.start - b.start);
+  let total = 0;
+  let end = from;
+  for (const i of clamped) {
+    if (i.stop > end) {
+      total += i.stop - Math.max(i.start, end);
+      end = i.stop;
+    }
+  }
+  return Math.round(total / 60e3);
+}
+
+/**
+ * Health warning for a vehicle polled by an agent job, or null when the
+ * agent is reporting and the vehicle has been polled recently
+ */
+export function agentHealthWarning(
+  status: DBAgentStatus,
+  vehicle_uuid: string,
+  now: number
+): string | null {
+  const since = (ts: Date) => ts.toISOString();
+  if (now - status.reported.getTime() > AGENT_STALE_REPORT) {
+    return `No agent has reported since ${since(status.reported)}`;
+  }
+  if (!status.token_valid) {
+    return `Provider authorization is no longer valid`;
+  }
+  if (
+    status.polled === null ||
+    now - status.polled.getTime() > AGENT_STALE_POLL
+  ) {
+    const subject = status.subjects.find((s) => s.id === vehicle_uuid);
+    const error = (subject && subject.pollError) || status.poll_error;
+    return (
+      (status.polled === null
+        ? `Vehicle has not been polled`
+        : `Vehicle has not been polled since ${since(status.polled)}`) +
+      (error ? ` (${error})` : ``)
+    );
+  }
+  return null;
+}
+
+export type FuseVehicle = Pick<
+  DBVehicle,
+  "vehicle_uuid" | "level" | "maximum_current" | "charge_id" | "charge_plan"
+>;
+export interface FuseShare {
+  limits: Record<string, number | null>; // current limit of controlled vehicles
+  houseLoad: number | null; // power (W) used by the rest of the location
+  outsidePlan: Record<string, number>; // current reserved for charging outside of the plan
+}
+/**
+ * Share the main fuse between the connected vehicles, see balanceLocation
+ */
+export function shareMainFuse(
+  maximumCurrent: number | null, // main fuse (A), null if unlimited
+  vehicles: FuseVehicle[], // connected vehicles
+  charging: Record<number, number>, // last charge power (W) by charge id
+  gridPower: number | null, // power (W) drawn from the grid, null without meter
+  now: number
+): FuseShare {
+  const result: FuseShare = { limits: {}, houseLoad: null, outsidePlan: {} };
+  for (const v of vehicles) {
+    if (v.maximum_current !== null) {
+      result.limits[v.vehicle_uuid] = null;
+    }
+  }
+  if (!maximumCurrent) {
+    return result;
+  }
+  let available = maximumCurrent;
+
+  if (gridPower !== null) {
+    // Remove our own charging from the grid power to get the house load
+    result.houseLoad = Math.max(
+      0,
+      vehicles.reduce(
+        (a, v) => (v.charge_id !== null ? a - (charging[v.charge_id] || 0) : a),
+        gridPower
+      )
+    );
+    available -= result.houseLoad / (MAINS_VOLTAGE * MAINS_PHASES);
+  }
+
+  const active: [FuseVehicle, ChargePlan][] = [];
+  for (const v of vehicles) {
+    const entry =
+      v.maximum_current !== null &&
+      ((v.charge_plan || []) as ChargePlan[]).find(
+        (p) =>
+          p.chargeType !== ChargeType.Disable &&
+          numericStartTime(p.chargeStart) <= now &&
+          numericStopTime(p.chargeStop) > now
+      );
+    if (entry) {
+      active.push([v, entry]);
+    } else if (v.charge_id !== null) {
+      // Charging without a plan entry, e.g. a manual start, or without
+      // current control, reserve its maximum or current draw
+      const current =
+        v.maximum_current ||
+        (charging[v.charge_id] || 0) / (MAINS_VOLTAGE * MAINS_PHASES);
+      result.outsidePlan[v.vehicle_uuid] = current;
+      available -= current;
+    }
+  }
+  active.sort(
+    ([va, a], [vb, b]) =>
+      chargePriority[a.chargeType] - chargePriority[b.chargeType] ||
+      va.level - vb.level
+  );
+
+  for (const [v, entry] of active) {
+    const wanted = Math.min(
+      v.maximum_current || 0,
+      entry.chargeCurrent || Infinity
+    );
+    const current = Math.floor(Math.min(wanted, available));
+    const limit = current >= MINIMUM_CHARGE_CURRENT ? current : 0;
+    result.limits[v.vehicle_uuid] = limit;
+    available -= limit;
+  }
+  return result;
+}
+
+// Log context of a vehicle
+function vehicleLog(vehicle: DBVehicle): LogFields {
+  return {
+    vehicle_uuid: vehicle.vehicle_uuid,
+    account_uuid: vehicle.account_uuid,
+    service_uuid: vehicle.service_uuid || undefined,
+  };
+}
+
+const chargePlanDuration = metrics.histogram(
+  "smartcharge_charge_plan_refresh_duration_seconds",
+  "Vehicle charge plan refresh duration by trigger"
+);
 
 export class Logic {
-  constructor(private db: DBInterface) {}
-  public init() {}
+  private log: Logger;
+  constructor(private db: DBInterface, logger?: Logger) {
+    this.log = logger || log;
+  }
+  // Logic that logs with the fields of a request, such as its request id
+  public withLogger(logger: Logger): Logic {
+    return new Logic(this.db, logger);
+  }
+  public init() {
+    // Price list freshness, collected when metrics are scraped
+    metrics.gauge(
+      "smartcharge_price_list_last_price_timestamp_seconds",
+      "Start time of the last known price of each price list",
+      async (gauge) => {
+        gauge.reset();
+        for (const p of await this.db.pg.manyOrNone(
+          `SELECT l.price_list_uuid, l.name, MAX(d.ts) as ts FROM price_list l
+            JOIN price_data d ON (d.price_list_uuid = l.price_list_uuid)
+            GROUP BY l.price_list_uuid, l.name;`
+        )) {
+          gauge.set(
+            { price_list: p.price_list_uuid, name: p.name },
+            Math.round(p.ts.getTime() / 1e3)
+          );
+        }
+      }
+    );
+
+    // Keep manual price lists generated ahead of time
+    const generate = async () => {
+      try {
+        for (const list of await this.db.getPriceLists(undefined)) {
+          await this.generateScheduledPrices(list);
+        }
+      } catch (err) {
+        this.log(LogLevel.Error, err);
+      }
+    };
+    generate();
+    setInterval(generate, 60 * 60e3);
+
+    // Expire actions not done in time and notify subscribers
+    setInterval(async () => {
+      try {
+        for (const action of await this.db.expireActions()) {
+          this.log(
+            LogLevel.Info,
+            `Action ${action.action_id} (${action.action}) for ${action.service_uuid} expired`,
+            {
+              service_uuid: action.service_uuid,
+              provider: action.provider_name,
+            }
+          );
+          await apolloPubSub.publish(SubscriptionTopic.ActionUpdate, action);
+        }
+      } catch (err) {
+        this.log(LogLevel.Error, err);
+      }
+    }, 60e3);
+
+    // Warn about vehicles that agents stopped updating
+    setInterval(async () => {
+      try {
+        await this.refreshHealthWarnings();
+      } catch (err) {
+        this.log(LogLevel.Error, err);
+      }
+    }, 60e3);
+  }
+
+  public async refreshHealthWarnings() {
+    const now = Date.now();
+    for (const status of await this.db.getVehicleAgentStatus()) {
+      const warning = agentHealthWarning(status, status.vehicle_uuid, now);
+      if (warning !== status.health_warning) {
+        this.log(
+          warning ? LogLevel.Warning : LogLevel.Info,
+          `Vehicle ${status.vehicle_uuid} health ${warning || "restored"}`,
+          {
+            vehicle_uuid: status.vehicle_uuid,
+            account_uuid: status.account_uuid,
+            service_uuid: status.service_uuid,
+          }
+        );
+        await this.db.setVehicleHealthWarning(status.vehicle_uuid, warning);
+        await apolloPubSub.publish(SubscriptionTopic.VehicleUpdate, {
+          vehicle_uuid: status.vehicle_uuid,
+          account_uuid: status.account_uuid,
+        });
+      }
+    }
+  }
+
+  /**
+   * Replace future price data of a manual price list with prices generated
+   * from its schedule
+   */
+  public async generateScheduledPrices(
+    list: DBPriceList,
+    now: number = Date.now()
+  ) {
+    if (!list.price_schedule) return;
+    const schedule = list.price_schedule as PriceSchedule;
+    const step = list.price_interval * 60e3;
+    const from = Math.floor(now / step) * step;
+
+    await this.db.pg.none(
+      `DELETE FROM price_data WHERE price_list_uuid = $1 AND ts >= $2;`,
+      [list.price_list_uuid, new Date(from)]
+    );
+    for (let ts = from; ts < now + PRICE_SCHEDULE_AHEAD; ts += step) {
+      const price = schedulePrice(schedule, ts);
+      if (price !== null) {
+        await this.db.updatePriceData(
+          list.price_list_uuid,
+          new Date(ts),
+          price
+        );
+      }
+    }
+    await this.priceListRefreshed(list.price_list_uuid);
+  }
 
   public async updateVehicleData(
     input: UpdateVehicleDataInput,
@@ -49,7 +372,11 @@ export class Logic {
   ) {
     // First lookup old record
     const vehicle: DBVehicle = await this.db.getVehicle(undefined, input.id);
-    log(LogLevel.Trace, `vehicle: ${JSON.stringify(vehicle)}`);
+    this.log(
+      LogLevel.Trace,
+      `vehicle: ${JSON.stringify(vehicle)}`,
+      vehicleLog(vehicle)
+    );
 
     // Convert API values to database values
     const data = {
@@ -70,6 +397,10 @@ export class Logic {
       estimate: input.estimatedTimeLeft || 0, // estimated time in minutes to complete charge
       power: (input.powerUse || 0) * 1e3, // current power drain kW to W
       added: (input.energyAdded || 0) * 60e3, // added kWh to Wm (1000 * 60)
+      maximum_current:
+        input.maximumCurrent !== undefined
+          ? input.maximumCurrent
+          : vehicle.maximum_current, // in A
     };
 
     // Setup stats record
@@ -90,6 +421,7 @@ export class Logic {
       charge_energy: 0,
       charge_cost: 0,
       charge_cost_saved: 0,
+      charge_carbon: 0,
     };
 
     // Did we move?
@@ -126,6 +458,7 @@ export class Logic {
             connected: data.connected !== null,
             charging_to: data.charging_to,
             estimate: data.estimate,
+            maximum_current: data.maximum_current,
             updated: now,
           },
           vehicle.vehicle_uuid,
@@ -180,6 +513,7 @@ export class Logic {
             energy_used: 0,
             cost: 0,
             saved: 0,
+            carbon: 0,
             connected: true,
           }
         )) as DBConnected;
@@ -196,9 +530,10 @@ export class Logic {
         doPricePlan = true;
       }
 
-      log(
+      this.log(
         LogLevel.Debug,
-        `Vehicle connected (connected_id=${connection.connected_id})`
+        `Vehicle connected (connected_id=${connection.connected_id})`,
+        vehicleLog(vehicle)
       );
 
       if (data.charging_to || vehicle.charge_id) {
@@ -225,7 +560,11 @@ export class Logic {
             }
           )) as DBCharge;
           vehicle.charge_id = charge.charge_id;
-          log(LogLevel.Debug, `Started charge ${charge.charge_id}`);
+          this.log(
+            LogLevel.Debug,
+            `Started charge ${charge.charge_id}`,
+            vehicleLog(vehicle)
+          );
           await this.db.pg.none(
             `UPDATE vehicle SET charge_id = $1 WHERE vehicle_uuid = $2`,
             [vehicle.charge_id, vehicle.vehicle_uuid]
@@ -249,19 +588,23 @@ export class Logic {
             {
               let cost = 0;
               let saved = 0;
+              let carbon = 0;
               const priceLookup: {
                 price_now: number;
                 price_then: number;
+                carbon_now: number;
               } = await this.db.pg.one(
                 `WITH wouldve AS (
                   SELECT MIN(b.start_ts) as ts, SUM(a.end_ts - a.start_ts) as duration
                   FROM charge a JOIN connected b ON (a.connected_id = b.connected_id) WHERE b.connected_id = $1
               ), prices AS (
-                  SELECT ts, price FROM price_data p JOIN location l ON (l.price_list_uuid = p.price_list_uuid) WHERE location_uuid = $2
+                  SELECT ts, tariff_price(price, ts, l.tariff) as price FROM location_price_data($2) p JOIN location l ON (l.location_uuid = $2)
               )
               SELECT 
                   (SELECT price FROM prices WHERE ts < $3 ORDER BY ts DESC LIMIT 1) price_now,
-                  (SELECT price FROM prices a, wouldve b WHERE a.ts < b.ts+duration ORDER BY a.ts DESC LIMIT 1) price_then;`,
+                  (SELECT price FROM prices a, wouldve b WHERE a.ts < b.ts+duration ORDER BY a.ts DESC LIMIT 1) price_then,
+                  (SELECT intensity FROM carbon_data c JOIN location l ON (c.price_list_uuid = ANY(array_prepend(l.price_list_uuid, l.fallback_price_lists)))
+                    WHERE location_uuid = $2 AND ts < $3 AND ts >= $3::timestamptz - interval '2 hours' ORDER BY ts DESC LIMIT 1) carbon_now;`,
                 [vehicle.connected_id, vehicle.location_uuid, new Date(now)]
               );
 
@@ -279,14 +622,22 @@ export class Logic {
                 }
               }
 
+              if (priceLookup.carbon_now !== null) {
+                carbon = Math.round(
+                  (priceLookup.carbon_now * deltaPowerUsed) / 60e3
+                ); // grams per (kWh) * used in (Wm)   Wm / 60e3 => kWh
+              }
+
               connection.cost += cost;
               connection.saved += saved;
+              connection.carbon += carbon;
 
               // Update stats with charge information
               if (deltaChargeTime < statsDelta * 2) {
                 // Just a sanity check that we do not update stats with old data
                 statsData.charge_cost = cost;
                 statsData.charge_cost_saved = saved;
+                statsData.charge_carbon = carbon;
                 statsData.charged_seconds = statsDelta;
                 statsData.charge_energy = deltaPowerUsed;
               }
@@ -305,15 +656,20 @@ export class Logic {
                 update.energy_used = charge.energy_used + deltaPowerUsed;
                 update.end_added = data.added;
               }
-              log(
+              this.log(
                 LogLevel.Debug,
-                `Updating charge ${vehicle.charge_id} with ${deltaPowerUsed} Wm used in ${deltaChargeTime}s`
+                `Updating charge ${vehicle.charge_id} with ${deltaPowerUsed} Wm used in ${deltaChargeTime}s`,
+                vehicleLog(vehicle)
               );
               charge = (await this.db.pg.one(
                 `UPDATE charge SET ($1:name) = ($1:csv) WHERE charge_id=$2 RETURNING *;`,
                 [update, vehicle.charge_id]
               )) as DBCharge;
-              log(LogLevel.Trace, `charge: ${JSON.stringify(charge)}`);
+              this.log(
+                LogLevel.Trace,
+                `charge: ${JSON.stringify(charge)}`,
+                vehicleLog(vehicle)
+              );
             }
 
             // charge_curve logic
@@ -335,13 +691,14 @@ export class Logic {
                   const energyUsed = (avgPower * duration) / 60; // power (W) * time (s) = Ws / 60 = Wm
                   const energyAdded = data.added - current.start_added; // Wm
                   const avgTemp = arrayMean(current.outside_deci_temperatures); // deci-celsius
-                  log(
+                  this.log(
                     LogLevel.Debug,
                     `Calculated charge curve between ${
                       current.start_level
                     }% and ${data.level}% is ${(energyUsed / 60.0).toFixed(
                       2
-                    )}kWh in ${(duration / 60.0).toFixed(2)}m`
+                    )}kWh in ${(duration / 60.0).toFixed(2)}m`,
+                    vehicleLog(vehicle)
                   );
                   await this.db.setChargeCurve(
                     vehicle.vehicle_uuid,
@@ -372,14 +729,22 @@ export class Logic {
                   outside_temp: Math.trunc(data.outside_temp),
                 }
               );
-              log(LogLevel.Trace, `current: ${JSON.stringify(new_current)}`);
+              this.log(
+                LogLevel.Trace,
+                `current: ${JSON.stringify(new_current)}`,
+                vehicleLog(vehicle)
+              );
             }
           }
         }
 
         if (!connection || !charge || !data.charging_to) {
           // We stopped charging
-          log(LogLevel.Debug, `Ending charge ${vehicle.charge_id}`);
+          this.log(
+            LogLevel.Debug,
+            `Ending charge ${vehicle.charge_id}`,
+            vehicleLog(vehicle)
+          );
           await this.db.pg.none(
             `DELETE FROM charge_current WHERE charge_id=$1; UPDATE vehicle SET charge_id = null WHERE vehicle_uuid = $2`,
             [vehicle.charge_id, vehicle.vehicle_uuid]
@@ -401,6 +766,7 @@ export class Logic {
               energy_used: connection.energy_used,
               cost: connection.cost,
               saved: connection.saved,
+              carbon: connection.carbon,
               connected: Boolean(data.connected),
             },
             vehicle.connected_id,
@@ -410,9 +776,10 @@ export class Logic {
 
       if (!connection || !data.connected) {
         // We disconnected
-        log(
+        this.log(
           LogLevel.Debug,
-          `Vehicle no longer connected (connected_id=${vehicle.connected_id})`
+          `Vehicle no longer connected (connected_id=${vehicle.connected_id})`,
+          vehicleLog(vehicle)
         );
         await this.db.pg.none(
           `UPDATE vehicle SET connected_id = null, charge_plan = null WHERE vehicle_uuid = $1;`,
@@ -449,7 +816,11 @@ export class Logic {
           }
         );
         vehicle.trip_id = trip.trip_id;
-        log(LogLevel.Debug, `Started trip ${trip.trip_id}`);
+        this.log(
+          LogLevel.Debug,
+          `Started trip ${trip.trip_id}`,
+          vehicleLog(vehicle)
+        );
         await this.db.pg.none(
           `UPDATE vehicle SET trip_id = $1 WHERE vehicle_uuid = $2`,
           [vehicle.trip_id, vehicle.vehicle_uuid]
@@ -464,9 +835,10 @@ export class Logic {
       const distance = data.odometer - trip.start_odometer;
       const traveled = Math.round(distance - trip.distance);
       if (traveled > 0) {
-        log(
+        this.log(
           LogLevel.Debug,
-          `Updating trip ${vehicle.trip_id} with ${traveled}m driven`
+          `Updating trip ${vehicle.trip_id} with ${traveled}m driven`,
+          vehicleLog(vehicle)
         );
         // TODO lookup location id
         trip = await this.db.pg.one(
@@ -485,7 +857,7 @@ export class Logic {
         let stopTrip = false;
         if (currentLocationUUID !== null) {
           // We stopped driving at a location we know
-          log(
+          this.log(
             LogLevel.Debug,
             `Vehicle at location ${currentLocationUUID} after driving ${
               trip.distance / 1e3
@@ -494,7 +866,7 @@ export class Logic {
           stopTrip = true;
           if (trip.distance < 1e3) {
             // totally ignore trips less than 1 km
-            log(
+            this.log(
               LogLevel.Debug,
               `Removing trip ${trip.trip_id}, because it only recorded ${trip.distance} meters`
             );
@@ -503,7 +875,7 @@ export class Logic {
             ]);
           }
         } else if (data.connected) {
-          log(
+          this.log(
             LogLevel.Debug,
             `Vehicle connected after driving ${
               trip.distance / 1e3
@@ -519,7 +891,11 @@ export class Logic {
           doPricePlan = true;
         }
       }
-      log(LogLevel.Trace, `trip: ${JSON.stringify(trip)}`);
+      this.log(
+        LogLevel.Trace,
+        `trip: ${JSON.stringify(trip)}`,
+        vehicleLog(vehicle)
+      );
     }
 
     // Update statsMap
@@ -534,7 +910,21 @@ export class Logic {
 
     // Update charge plan if needed
     if (doPricePlan) {
-      await this.refreshChargePlan(vehicle.vehicle_uuid);
+      await this.refreshChargePlan(
+        vehicle.vehicle_uuid,
+        undefined,
+        ChargePlanTrigger.VehicleData
+      );
+    }
+
+    // Rebalance the location as plans come and go
+    if (data.connected && currentLocationUUID) {
+      await this.balanceLocation(currentLocationUUID, now.getTime());
+    } else if (vehicle.current_limit !== null) {
+      await this.db.pg.none(
+        `UPDATE vehicle SET current_limit = NULL WHERE vehicle_uuid = $1;`,
+        [vehicle.vehicle_uuid]
+      );
     }
   }
 
@@ -549,7 +939,8 @@ export class Logic {
               charged_seconds=state_map.charged_seconds + EXCLUDED.charged_seconds,
               charge_energy=state_map.charge_energy + EXCLUDED.charge_energy,
               charge_cost=state_map.charge_cost + EXCLUDED.charge_cost,
-              charge_cost_saved=state_map.charge_cost_saved + EXCLUDED.charge_cost_saved
+              charge_cost_saved=state_map.charge_cost_saved + EXCLUDED.charge_cost_saved,
+              charge_carbon=state_map.charge_carbon + EXCLUDED.charge_carbon
           RETURNING *;`,
       {
         vehicle_uuid: data.vehicle_uuid,
@@ -566,6 +957,7 @@ export class Logic {
         charge_energy: data.charge_energy,
         charge_cost: data.charge_cost,
         charge_cost_saved: data.charge_cost_saved,
+        charge_carbon: data.charge_carbon,
       }
     );
   }
@@ -597,7 +989,7 @@ export class Logic {
       avg21: number | null;
     } = await this.db.pg.one(
       `WITH my_price_data AS (
-          SELECT p.* FROM price_data p JOIN location l ON (l.price_list_uuid = p.price_list_uuid) WHERE location_uuid = $1
+          SELECT p.price_list_uuid, p.ts, tariff_price(p.price, p.ts, l.tariff) as price FROM location_price_data($1) p JOIN location l ON (l.location_uuid = $1)
       )
       SELECT
           (SELECT MAX(ts) FROM my_price_data) as price_data_ts,
@@ -618,6 +1010,7 @@ export class Logic {
 
     interface HistoryHour {
       hour: Date;
+      seconds: number; // length of price interval
       fraction: number;
       price: number;
       threshold: number;
@@ -640,30 +1033,33 @@ export class Logic {
         end_level: number;
         needed: number;
         hour: Date;
+        seconds: number;
         fraction: number;
         price: number;
         threshold: number;
       }[] = await this.db.pg.manyOrNone(
         `WITH my_price_data AS (
-        SELECT p.* FROM price_data p JOIN location l ON (l.price_list_uuid = p.price_list_uuid) WHERE location_uuid = $2
+        SELECT p.price_list_uuid, p.ts, tariff_price(p.price, p.ts, l.tariff) as price FROM location_price_data($2) p JOIN location l ON (l.location_uuid = $2)
+      ), my_interval AS (
+        SELECT make_interval(mins => pl.price_interval) as step FROM location l JOIN price_list pl ON (pl.price_list_uuid = l.price_list_uuid) WHERE location_uuid = $2
       ), my_connected AS (
         SELECT * FROM connected WHERE vehicle_uuid = $1 AND end_ts >= current_date - interval '3 weeks' AND connected = false AND start_ts::date >= (SELECT MIN(ts)::date FROM my_price_data)
       ), connections AS (
         SELECT *, (SELECT a.end_level-b.start_level FROM my_connected b WHERE b.connected_id > a.connected_id ORDER BY connected_id LIMIT 1) as needed
         FROM my_connected a
       ), period AS (
-        SELECT generate_series(date_trunc('hour', (SELECT MIN(start_ts) FROM connections)), current_date - interval '1 hour', '1 hour') as hour
+        SELECT generate_series(date_trunc('hour', (SELECT MIN(start_ts) FROM connections)), current_date - step, step) as hour, step FROM my_interval
       ), week_avg AS (
         SELECT day, (SELECT AVG(price::float) FROM my_price_data WHERE ts >= day - interval '7 days' AND ts < day) as avg7,
         (SELECT AVG(price::float) FROM my_price_data WHERE ts >= day - interval '21 days' AND ts < day) as avg21 FROM
         (SELECT date_trunc('day', hour) as day FROM period GROUP BY 1) as a
       ), connection_map AS (
-        SELECT connected_id,location_uuid,start_level,end_level,needed,hour,LEAST(1.0,
-          EXTRACT(epoch FROM hour+interval '1 hour'-start_ts)/3600,
-          EXTRACT(epoch FROM end_ts-hour)/3600
+        SELECT connected_id,location_uuid,start_level,end_level,needed,hour,EXTRACT(epoch FROM step) as seconds,LEAST(1.0,
+          EXTRACT(epoch FROM hour+step-start_ts)/EXTRACT(epoch FROM step),
+          EXTRACT(epoch FROM end_ts-hour)/EXTRACT(epoch FROM step)
         ) as fraction, price,price/(avg7+(avg7-avg21)/2) as threshold
         FROM period
-        JOIN connections ON (hour >= date_trunc('hour',start_ts) AND hour <= date_trunc('hour',end_ts))
+        JOIN connections ON (hour+step > start_ts AND hour <= end_ts)
         JOIN my_price_data ON (ts = hour)
         JOIN week_avg ON (day = date_trunc('day', hour))
       )
@@ -686,6 +1082,7 @@ export class Logic {
         if (h.location_uuid === location_uuid) {
           historyMap[historyMap.length - 1].hours.push({
             hour: h.hour,
+            seconds: h.seconds,
             fraction: h.fraction,
             price: h.price,
             threshold: h.threshold,
@@ -753,7 +1150,7 @@ export class Logic {
             );
             if (charge > 0) {
               const chargeTime = Math.min(
-                3600 * h.fraction,
+                h.seconds * h.fraction,
                 charge * level_charge_time
               );
               const newLevel = Math.min(
@@ -770,9 +1167,10 @@ export class Logic {
         if (lvl > minimum_charge + needavg && f < bestCost * 0.95) {
           bestCost = f;
           threshold = t;
-          log(
+          this.log(
             LogLevel.Trace,
-            `Cost simulation ${vehicle.vehicle_uuid} t=${t} => ${f}`
+            `Cost simulation ${vehicle.vehicle_uuid} t=${t} => ${f}`,
+            vehicleLog(vehicle)
           );
         }
       }
@@ -796,8 +1194,7 @@ export class Logic {
     location_uuid: string
   ): Promise<DBLocationStats | null> {
     const stats = await this.db.pg.oneOrNone(
-      `SELECT s.*, s.price_data_ts = (SELECT MAX(ts) FROM price_data p JOIN location l ON (l.price_list_uuid = p.price_list_uuid) 
-      WHERE l.location_uuid = s.location_uuid) as fresh
+      `SELECT s.*, s.price_data_ts = (SELECT MAX(ts) FROM location_price_data(s.location_uuid)) as fresh
       FROM location_stats s WHERE vehicle_uuid=$1 AND location_uuid=$2 ORDER BY stats_id DESC LIMIT 1`,
       [vehicle.vehicle_uuid, location_uuid]
     );
@@ -834,103 +1231,6 @@ export class Logic {
     return sum * 1e3;
   }*/
 
-  private static cleanupPlan(plan: ChargePlan[]): ChargePlan[] {
-    const chargePrio = {
-      [ChargeType.Disable]: 0,
-      [ChargeType.Calibrate]: 1,
-      [ChargeType.Minimum]: 2,
-      [ChargeType.Manual]: 3,
-      [ChargeType.Trip]: 4,
-      [ChargeType.Routine]: 5,
-      [ChargeType.Prefered]: 6,
-      [ChargeType.Fill]: 7,
-    };
-    plan.sort(
-      (a, b) =>
-        compareStartStopTimes(
-          a.chargeStart,
-          a.chargeStop,
-          b.chargeStart,
-          b.chargeStop
-        ) || chargePrio[a.chargeType] - chargePrio[b.chargeType]
-    );
-
-    function consolidate() {
-      for (let i = 0; i < plan.length - 1; ++i) {
-        const a = plan[i];
-        const b = plan[i + 1];
-        if (numericStartTime(b.chargeStart) <= numericStopTime(a.chargeStop)) {
-          if (
-            a.chargeType === b.chargeType ||
-            numericStopTime(b.chargeStop) <= numericStopTime(a.chargeStop)
-          ) {
-            if (
-              b.level > a.level &&
-              a.chargeStop === null &&
-              b.chargeStart !== null
-            ) {
-              // Cut off a free running charge if next charge has higher level
-              a.chargeStop = b.chargeStart;
-            } else {
-              // Merge them
-              if (
-                numericStopTime(b.chargeStop) > numericStopTime(a.chargeStop)
-              ) {
-                a.chargeStop = b.chargeStop;
-              }
-              a.level = Math.max(a.level, b.level);
-              plan.splice(i + 1, 1);
-              --i;
-            }
-          } else if (a.level >= b.level) {
-            // Push the next segment forward
-            b.chargeStart = a.chargeStop;
-          } else {
-            // Cut off the current segment
-            a.chargeStop = b.chargeStart;
-          }
-        }
-      }
-    }
-
-    // First pass to remove any overlaps
-    consolidate();
-
-    // Second pass to shift start times for continous charging
-    {
-      let shifted = false;
-      for (let i = 0; i < plan.length - 1; ++i) {
-        const a = plan[i];
-        const b = plan[i + 1];
-        const shift = Math.min(
-          // max shift between this segment end and next segment start
-          // nextStart - thisStop
-          numericStartTime(b.chargeStart) - numericStopTime(a.chargeStop),
-          // or maximum shift possible within the current hour
-          // hour - (stop - start) => start - stop + hour
-          numericStartTime(a.chargeStart) -
-            numericStopTime(a.chargeStop) +
-            3600e3
-        );
-
-        if (
-          shift > 0 &&
-          numericStopTime(a.chargeStop) + shift >=
-            numericStartTime(b.chargeStart)
-        ) {
-          a.chargeStop = b.chargeStart;
-          a.chargeStart = new Date(numericStartTime(a.chargeStart) + shift);
-          shifted = true;
-        }
-      }
-
-      if (shifted) {
-        consolidate();
-      }
-    }
-    return plan;
-  }
-
   private async setSmartStatus(vehicle: DBVehicle, status: string) {
     if (vehicle.smart_status !== status) {
       await this.db.pg.none(
@@ -1039,7 +1339,11 @@ export class Logic {
 
     if (!guess || !guess.before || !guess.charge) {
       // missing data to guess
-      log(LogLevel.Debug, `Missing data for smart charging.`);
+      this.log(
+        LogLevel.Debug,
+        `Missing data for smart charging.`,
+        vehicleLog(vehicle)
+      );
       return null;
     } else {
       const minimumLevel = Math.min(
@@ -1054,24 +1358,77 @@ export class Logic {
     }
   }
 
-  private async refreshVehicleChargePlan(vehicle: DBVehicle) {
-    log(LogLevel.Trace, `vehicle: ${JSON.stringify(vehicle)}`);
+  // Forecast prices from the end of the published prices, if the location opted in
+  private async priceForecast(
+    location: DBLocation,
+    prices: PlannerPrice[],
+    now: number
+  ): Promise<PlannerPrice[]> {
+    const hours = Number(config.PRICE_FORECAST_HOURS);
+    const confidence = Number(config.PRICE_FORECAST_CONFIDENCE);
+    if (!location.price_forecast || !(hours > 0) || !(confidence > 0)) {
+      return [];
+    }
+    const interval = prices[0].price_interval;
+    const from = prices.reduce(
+      (end, p) => Math.max(end, p.ts.getTime() + interval * 60e3),
+      0
+    );
+    const history: PriceHistory[] = await this.db.pg.manyOrNone(
+      `SELECT ts, tariff_price(price, ts, l.tariff) as price FROM location_price_data($1) p JOIN location l ON (l.location_uuid = $1)
+      WHERE ts >= $2 ORDER BY ts`,
+      [location.location_uuid, new Date(from - PRICE_FORECAST_HISTORY)]
+    );
+    // Weekday and hour seasonality follows the local time of the tariff
+    return forecastPrices(
+      history,
+      from,
+      now + hours * 60 * 60e3,
+      interval,
+      confidence,
+      (location.tariff && location.tariff.timezone) || "UTC"
+    );
+  }
+
+  private async refreshVehicleChargePlan(
+    vehicle: DBVehicle,
+    trigger: ChargePlanTrigger,
+    now: number = Date.now()
+  ) {
+    const done = chargePlanDuration.startTimer({ trigger });
+    try {
+      return await this.makeVehicleChargePlan(vehicle, trigger, now);
+    } finally {
+      done();
+    }
+  }
+  private async makeVehicleChargePlan(
+    vehicle: DBVehicle,
+    trigger: ChargePlanTrigger,
+    now: number
+  ) {
+    this.log(
+      LogLevel.Trace,
+      `vehicle: ${JSON.stringify(vehicle)}`,
+      vehicleLog(vehicle)
+    );
 
     if (vehicle.location_uuid === null && !vehicle.connected) {
       // Do not touch charge plan if not connected and not near known location
-      log(LogLevel.Trace, `Vehicle at unknown location`);
+      this.log(
+        LogLevel.Trace,
+        `Vehicle at unknown location`,
+        vehicleLog(vehicle)
+      );
       return this.setSmartStatus(vehicle, ``);
     }
 
-    const now = Date.now();
-
     // TODO: Check current vehicle.charge_plan and see if it needs to be recalculated?
 
     const locationSettings =
       (vehicle.location_uuid &&
         vehicle.location_settings[vehicle.location_uuid]) ||
       DBInterface.DefaultVehicleLocationSettings();
-    const minimum_charge = locationSettings.directLevel;
 
     // Cleanup schedule remove all entries 1 hour after the end time
     const schedule: DBSchedule[] = await this.db.pg.manyOrNone(
@@ -1090,426 +1447,416 @@ export class Logic {
     const manual = scheduleMap[ScheduleType.Manual];
     const trip = scheduleMap[ScheduleType.Trip];
 
+    // Expand weekly schedules into the first upcoming departure
+    const departure = (
+      await this.db.getWeeklySchedule(vehicle.vehicle_uuid)
+    ).reduce((next, w) => {
+      const ts = nextWeeklyDeparture(
+        w.weekdays,
+        w.departure,
+        w.timezone,
+        w.exceptions,
+        now
+      );
+      return ts !== null && (next === null || ts < next.ts)
+        ? { ts, level: w.level }
+        : next;
+    }, null as { ts: number; level: number } | null);
+
     const startLevel = vehicle.level - 1;
 
-    let chargePlan: ChargePlan[] = [];
-    let smartStatus = "";
-
-    if (manual && !manual.level) {
-      log(LogLevel.Debug, `Charging disabled until next connection`);
-      chargePlan.push({
-        chargeStart: null,
-        chargeStop: null,
-        chargeType: ChargeType.Disable,
-        level: 0,
-        comment: `charging disabled`,
-      });
-      smartStatus = `Charging disabled until next plug in`;
-    } else {
-      const priceMap: { ts: Date; price: number }[] =
-        (vehicle.location_uuid &&
-          (await this.db.pg.manyOrNone(
-            `SELECT ts, price FROM price_data p JOIN location l ON (l.price_list_uuid = p.price_list_uuid) WHERE location_uuid = $1 AND ts >= NOW() - interval '1 hour' ORDER BY price, ts`,
-            [vehicle.location_uuid]
-          ))) ||
-        [];
-      const priceAvailable: number =
-        priceMap.reduce((prev: number, current) => {
-          const d = current.ts.getTime();
-          return !prev || d > prev ? d : prev;
-        }, 0) +
-        60 * 60e3; // Assume the price is fixed for an hour
+    const location = vehicle.location_uuid
+      ? await this.db.getLocation(undefined, vehicle.location_uuid)
+      : null;
+    const prices: PlannerPrice[] =
+      (vehicle.location_uuid &&
+        (await this.db.pg.manyOrNone(
+          `SELECT ts, tariff_price(price, ts, l.tariff) as price, pl.price_interval,
+            (SELECT intensity FROM carbon_data c WHERE c.price_list_uuid = p.price_list_uuid AND c.ts <= p.ts AND c.ts > p.ts - interval '1 hour' ORDER BY c.ts DESC LIMIT 1) as intensity
+          FROM location_price_data($1) p JOIN location l ON (l.location_uuid = $1) JOIN price_list pl ON (pl.price_list_uuid = p.price_list_uuid)
+          WHERE ts >= NOW() - make_interval(mins => pl.price_interval) ORDER BY 2, ts`,
+          [vehicle.location_uuid]
+        ))) ||
+      [];
+    if (location && prices.length > 0) {
+      prices.push(...(await this.priceForecast(location, prices, now)));
+      prices.sort(
+        (a, b) => a.price - b.price || a.ts.getTime() - b.ts.getTime()
+      );
+    }
+    const chargeCurve = await this.db.getChargeCurve(
+      vehicle.vehicle_uuid,
+      vehicle.location_uuid
+    );
 
-      const chargeCurve = await this.db.getChargeCurve(
-        vehicle.vehicle_uuid,
-        vehicle.location_uuid
+    let stats: DBLocationStats | null = null;
+    let guess: { ts: number; level: number } | null = null;
+    if (!manual && vehicle.location_uuid) {
+      stats = await this.currentStats(vehicle, vehicle.location_uuid);
+      this.log(
+        LogLevel.Trace,
+        `stats: ${JSON.stringify(stats)}`,
+        vehicleLog(vehicle)
       );
-      const ChargeDuration = (from: number, to: number): number => {
-        let sum = 0;
-        for (let l = from; l < to; ++l) {
-          sum +=
-            chargeCurve[Math.max(0, Math.min(100, Math.ceil(l)))] *
-            (l < to ? 1.0 : 0.75); // remove 25% of the last % to not overshoot
-        }
-        return sum * 1e3;
-      };
-      /*
-    const RequiredStartLevel = (target: number, time: number): number => {
-      let l = target;
-      for (let timeLeft = time / 1e3; timeLeft > 0; ) {
-        const t = chargeCurve[Math.min(100, Math.ceil(l))];
-        assert(t > 0);
-        l -= t > timeLeft ? timeLeft / t : 1;
-        timeLeft -= t;
+      if (stats && startLevel < vehicle.maximum_charge) {
+        guess = await this.generateAIschedule(vehicle);
       }
-      return l;
-    };
-*/
-
-      let fillBefore: number = priceAvailable;
-
-      const GeneratePlan = (
-        chargeType: ChargeType,
-        comment: string,
-        level: number,
-        before_ts?: number,
-        maxPrice?: number
-      ): boolean => {
-        // Adjust before_ts if it's passed already
-        before_ts = (before_ts || 0) <= now ? undefined : before_ts;
-
-        // Only adjust if it's earlier than 6h before the one we alread had in mind
-        if (
-          before_ts &&
-          before_ts < priceAvailable &&
-          (fillBefore === priceAvailable || before_ts + 360 * 60e3 < fillBefore)
-        ) {
-          fillBefore = before_ts;
-        }
-
-        // Do charge goal adjustments
-        if (level > startLevel && before_ts !== undefined) {
-          // Do we need to split and do a partial charge for future target
-          if (priceAvailable && before_ts > priceAvailable) {
-            const timeNeeded = ChargeDuration(startLevel, level);
-            const startDeadline = before_ts - timeNeeded * 1.5;
-            log(
-              LogLevel.Trace,
-              `${capitalize(chargeType)} charge time ${Math.round(
-                timeNeeded / 60e3
-              )} min, deadline ${new Date(startDeadline).toISOString()}`
-            );
-            if (startDeadline > priceAvailable) {
-              log(LogLevel.Trace, `deadline beyond price data, ignore charge`);
-              return false;
-            } else {
-              before_ts = priceAvailable;
-              level = Math.floor(
-                startLevel +
-                  ((level - startLevel) * (priceAvailable - startDeadline)) /
-                    (timeNeeded * 1.5)
-              );
-              log(
-                LogLevel.Debug,
-                `${capitalize(
-                  chargeType
-                )} partial charge to ${level}% before ${new Date(
-                  before_ts
-                ).toISOString()}`
-              );
-            }
-          }
-
-          // Do we need to topup charge above maximum
-          if (level > vehicle.maximum_charge) {
-            const topupTime = ChargeDuration(
-              Math.max(startLevel, vehicle.maximum_charge),
-              level
-            );
-            const topupStart = before_ts - SCHEDULE_TOPUP_MARGIN - topupTime;
-            log(
-              LogLevel.Debug,
-              `${capitalize(chargeType)} topup charge from ${
-                vehicle.maximum_charge
-              }% to ${level}% start at ${new Date(topupStart).toISOString()}`
-            );
-            chargePlan.push({
-              chargeStart: new Date(topupStart),
-              chargeStop: null,
-              level,
-              chargeType,
-              comment: `topping up`,
-            });
-
-            // Adjust charge target to exclude topup range
-            before_ts = topupStart;
-            level = vehicle.maximum_charge;
-          }
-        }
-
-        if (level > startLevel) {
-          const timeNeeded = ChargeDuration(startLevel, level);
-          assert(timeNeeded > 0);
-
-          if (priceAvailable && before_ts !== undefined) {
-            log(
-              LogLevel.Trace,
-              `${capitalize(chargeType)} charge to ${level}% before ${new Date(
-                before_ts
-              ).toISOString()}`
-            );
+    }
 
-            // Map priceMap prices to a list of hours to charge
-            let timeLeft = timeNeeded;
-            for (const price of priceMap) {
-              if (timeLeft < 1) break; // Done
-              if (maxPrice && price.price > maxPrice) break; // Prices too high
-
-              const ts = price.ts.getTime();
-              if (ts > before_ts) continue; // price beyond our target time
-
-              // start cannot be earlier than now
-              const start = ts < now ? now : ts;
-              // end is timeLeft or a full hour
-              const end = Math.min(start + timeLeft, ts + 60 * 60e3);
-              // duration takes before_ts into account
-              const duration = Math.min(end, before_ts) - start;
-              chargePlan.push({
-                chargeStart: new Date(ts),
-                chargeStop: new Date(end),
-                level,
-                chargeType,
-                comment,
-              });
-              timeLeft -= duration;
-              log(
-                LogLevel.Trace,
-                `charge ${duration / 1e3}s ${JSON.stringify(price)} => ${
-                  timeLeft / 1e3
-                }s left`
-              );
-            }
+    let solarSurplus: number | null = null;
+    if (
+      vehicle.location_uuid &&
+      vehicle.connected &&
+      startLevel < vehicle.maximum_charge
+    ) {
+      const gridPower = await this.db.getGridPower(
+        vehicle.location_uuid,
+        METER_DATA_WINDOW
+      );
+      if (gridPower !== null) {
+        // Our own charging is part of the grid power
+        const current: { power: number | null } | null =
+          vehicle.charge_id !== null
+            ? await this.db.pg.oneOrNone(
+                `SELECT powers[array_upper(powers, 1)] as power FROM charge_current WHERE charge_id = $1;`,
+                [vehicle.charge_id]
+              )
+            : null;
+        solarSurplus = ((current && current.power) || 0) - gridPower;
+      }
+    }
 
-            smartStatus =
-              smartStatus ||
-              `${capitalize(chargeType)} charge to ${level}% scheduled`;
-          } else {
-            log(
-              LogLevel.Trace,
-              `${capitalize(chargeType)} charge directly to ${level}%`
-            );
-            chargePlan.push({
-              chargeStart: null,
-              chargeStop: new Date(Date.now() + timeNeeded),
-              chargeType,
-              level,
-              comment,
-            });
-            smartStatus =
-              smartStatus ||
-              `${capitalize(chargeType)} charge directly to ${level}%`;
-          }
+    const carbonWeight = location ? location.carbon_weight / 100 : 0;
+
+    const input: PlannerInput = {
+      now,
+      vehicle,
+      locationSettings,
+      prices,
+      chargeCurve,
+      manual,
+      trip,
+      departure,
+      stats,
+      guess,
+      solarSurplus,
+      carbonWeight,
+    };
+    this.log(
+      LogLevel.Trace,
+      `planner input: ${JSON.stringify(input)}`,
+      vehicleLog(vehicle)
+    );
+    const { chargePlan, smartStatus, aiSchedule, trace } = planCharge(input);
 
-          return true;
-        } else {
-          log(
-            LogLevel.Trace,
-            `${level} <= ${startLevel}, no ${chargeType} charge plan added for ${comment}`
-          );
-          return false;
-        }
-      };
+    if (aiSchedule !== undefined) {
+      this.updateAIschedule(
+        vehicle.vehicle_uuid,
+        aiSchedule && aiSchedule.ts,
+        aiSchedule && aiSchedule.level
+      );
+    }
+    if (smartStatus) {
+      this.setSmartStatus(vehicle, smartStatus);
+    }
+    const plan = chargePlan.length > 0 ? chargePlan : null;
+    await this.db.pg.one(
+      `UPDATE vehicle SET charge_plan = $1:json, charge_plan_trace = $3:json WHERE vehicle_uuid = $2 RETURNING *;`,
+      [plan, vehicle.vehicle_uuid, trace]
+    );
+    await this.db.addChargePlanHistory(
+      vehicle.vehicle_uuid,
+      trigger,
+      plan,
+      trace
+    );
+  }
 
-      const HandleTripCharge = () => {
-        if (trip) {
-          assert(trip.level);
-          assert(trip.schedule_ts);
-          GeneratePlan(
-            ChargeType.Trip,
-            `upcoming trip`,
-            trip.level,
-            trip.schedule_ts.getTime()
-          );
-        }
-      };
+  public async refreshChargePlan(
+    vehicleUUID: string | undefined,
+    accountUUID: string | undefined,
+    trigger: ChargePlanTrigger
+  ) {
+    if (vehicleUUID === undefined && accountUUID === undefined) {
+      throw "refreshChargePlan called with invalid arguments";
+    }
 
-      if (startLevel < minimum_charge) {
-        // Emergency charge up to minimum level
-        GeneratePlan(ChargeType.Minimum, `emergency charge`, minimum_charge);
-        smartStatus =
-          (vehicle.connected
-            ? `Direct charging to `
-            : `Connect charger to charge to `) + `${minimum_charge}%`;
+    const dblist = await this.db.getVehicles(accountUUID, vehicleUUID);
+    const locations = new Set<string>();
+    for (const v of dblist) {
+      await this.refreshVehicleChargePlan(v, trigger);
+      if (v.connected && v.location_uuid) {
+        locations.add(v.location_uuid);
       }
+    }
+    for (const location_uuid of locations) {
+      await this.balanceLocation(location_uuid);
+    }
+  }
 
-      // Manual schedule blocks everything
-      if (manual) {
-        if (!manual.schedule_ts) {
-          assert(manual.level);
-          log(LogLevel.Debug, `Manual charging directly to ${manual.level}%`);
-          chargePlan.push({
-            chargeStart: null,
-            chargeStop: null,
-            chargeType: ChargeType.Manual,
-            level: manual.level,
-            comment: `manual charge`,
-          });
-          smartStatus = smartStatus || `Manual charging to ${manual.level}%`;
-        } else {
-          assert(manual.level);
-          assert(manual.schedule_ts);
-          GeneratePlan(
-            ChargeType.Manual,
-            `manual charge`,
-            manual.level,
-            manual.schedule_ts.getTime()
-          );
-        }
-
-        // Still do trip charging!
-        HandleTripCharge();
-      } else {
-        let stats: DBLocationStats | null = null;
-        if (vehicle.location_uuid) {
-          stats = await this.currentStats(vehicle, vehicle.location_uuid);
-          log(LogLevel.Trace, `stats: ${JSON.stringify(stats)}`);
-        }
+  /**
+   * Battery % used per km, adjusted for outside temperature (celsius) when
+   * there are enough trips to trust the model
+   */
+  public static levelPerKm(
+    model: ConsumptionModel,
+    temperature: number | null
+  ): number {
+    const average =
+      model.level_per_km && model.level_per_km > 0
+        ? model.level_per_km
+        : DEFAULT_LEVEL_PER_KM;
+    if (
+      model.trips >= CONSUMPTION_MIN_TRIPS &&
+      model.slope !== null &&
+      model.intercept !== null &&
+      temperature !== null
+    ) {
+      // Do not trust extrapolation too far from the average
+      return Math.max(
+        average / 2,
+        Math.min(average * 2, model.intercept + model.slope * temperature)
+      );
+    }
+    return average;
+  }
 
-        const ai = {
-          charge: false,
-          learning: false,
-          level: null,
-          ts: null,
-        } as {
-          charge: boolean;
-          learning: boolean;
-          level: number | null;
-          ts: number | null;
-        };
-
-        if (vehicle.location_uuid) {
-          if (startLevel < vehicle.maximum_charge) {
-            // Generate an AI schedule
-            ai.charge = true;
-            const schedule = stats && (await this.generateAIschedule(vehicle));
-            if (schedule) {
-              ai.level = schedule.level;
-              ai.ts = schedule.ts;
-            } else {
-              // Disable smart charging because without threshold and averages it can not make a good decision
-              log(LogLevel.Debug, `Missing stats for smart charging.`);
-              smartStatus =
-                smartStatus || `Smart charging disabled (still learning)`;
-              ai.learning = true;
-            }
-          }
-        }
+  // Battery level needed before a trip of distance km
+  public async tripLevel(vehicle: DBVehicle, distance: number) {
+    const locationSettings =
+      (vehicle.location_uuid &&
+        vehicle.location_settings[vehicle.location_uuid]) ||
+      DBInterface.DefaultVehicleLocationSettings();
+    const levelPerKm = Logic.levelPerKm(
+      await this.db.getConsumptionModel(vehicle.vehicle_uuid),
+      vehicle.outside_deci_temperature / 10
+    );
+    return tripLevel(locationSettings.directLevel, distance, levelPerKm);
+  }
 
-        this.updateAIschedule(vehicle.vehicle_uuid, ai.ts, ai.level);
-
-        // Do we have an upcoming trip?
-        HandleTripCharge();
-
-        if (startLevel < vehicle.maximum_charge) {
-          if (ai.charge) {
-            if (ai.learning) {
-              GeneratePlan(ChargeType.Fill, `learning`, vehicle.maximum_charge);
-              fillBefore = 0; // disable low-price filling
-            } else {
-              assert(ai.level);
-              assert(ai.ts);
-              const neededCharge = ai.level - vehicle.level;
-              const before = new Date(ai.ts);
-              smartStatus =
-                smartStatus ||
-                `Predicting battery level ${ai.level}% (${
-                  neededCharge > 0 ? Math.round(neededCharge) + "%" : "no"
-                } charge) is needed before ${before.toISOString()}`;
-              log(
-                LogLevel.Debug,
-                `Current level: ${vehicle.level}, predicting ${
-                  ai.level
-                }% (${minimum_charge}+${
-                  neededCharge - minimum_charge
-                }) is needed before ${before.toISOString()}`
-              );
-              GeneratePlan(
-                ChargeType.Routine,
-                `routine charge`,
-                ai.level,
-                ai.ts
-              );
+  /**
+   * Sync trips from an iCalendar document into the vehicle schedule, the
+   * level needed is taken from an explicit tag or estimated from the round
+   * trip distance to the event location
+   */
+  public async importCalendar(
+    vehicle_uuid: string,
+    ics: string,
+    now: number = Date.now()
+  ) {
+    const vehicle: DBVehicle = await this.db.getVehicle(
+      undefined,
+      vehicle_uuid
+    );
+    const trips = calendarTrips(parseICS(ics), now, CALENDAR_HORIZON);
 
-              // locations settings charging
-              {
-                const goal =
-                  (locationSettings && locationSettings.goal) ||
-                  SmartChargeGoal.Balanced;
-                const goalLevel =
-                  goal === SmartChargeGoal.Full
-                    ? vehicle.maximum_charge
-                    : goal === SmartChargeGoal.Low
-                    ? 0
-                    : Math.min(
-                        vehicle.maximum_charge,
-                        Math.max(
-                          ai.level,
-                          parseInt(goal) ||
-                            Math.round(
-                              ai.level + (vehicle.maximum_charge - ai.level) / 2
-                            )
-                        )
-                      );
-
-                if (goalLevel > ai.level) {
-                  GeneratePlan(
-                    ChargeType.Prefered,
-                    `charge setting`,
-                    goalLevel,
-                    ai.ts
-                  );
-                }
-              }
-            }
-          }
+    const locationSettings =
+      (vehicle.location_uuid &&
+        vehicle.location_settings[vehicle.location_uuid]) ||
+      DBInterface.DefaultVehicleLocationSettings();
+    const levelPerKm = Logic.levelPerKm(
+      await this.db.getConsumptionModel(vehicle.vehicle_uuid),
+      vehicle.outside_deci_temperature / 10
+    );
 
-          // Low price fill charging
-          if (
-            fillBefore &&
-            stats &&
-            stats.weekly_avg7_price &&
-            stats.weekly_avg21_price &&
-            stats.threshold
-          ) {
-            const averagePrice =
-              stats.weekly_avg7_price +
-              (stats.weekly_avg7_price - stats.weekly_avg21_price) / 2;
-            const thresholdPrice = (averagePrice * stats.threshold) / 100;
-
-            GeneratePlan(
-              ChargeType.Fill,
-              `low price`,
-              vehicle.maximum_charge,
-              fillBefore,
-              thresholdPrice
-            );
-          }
-        }
+    const entries = trips.map((trip) => {
+      let level = trip.level;
+      if (
+        !level &&
+        trip.latitude !== null &&
+        trip.longitude !== null &&
+        vehicle.location_micro_latitude !== null &&
+        vehicle.location_micro_longitude !== null
+      ) {
+        const distance =
+          (2 *
+            CALENDAR_ROAD_FACTOR *
+            geoDistance(
+              vehicle.location_micro_latitude / 1e6,
+              vehicle.location_micro_longitude / 1e6,
+              trip.latitude,
+              trip.longitude
+            )) /
+          1e3;
+        level = tripLevel(locationSettings.directLevel, distance, levelPerKm);
+        this.log(
+          LogLevel.Debug,
+          `Calendar trip ${trip.uid} ${Math.round(
+            distance
+          )} km needs ${level}%`,
+          vehicleLog(vehicle)
+        );
       }
-    }
-
-    if (smartStatus) {
-      this.setSmartStatus(vehicle, smartStatus);
-    }
+      return {
+        uid: trip.uid,
+        ts: new Date(trip.ts),
+        level: level || vehicle.maximum_charge,
+      };
+    });
 
-    if (chargePlan.length) {
-      chargePlan = Logic.cleanupPlan(chargePlan);
-      log(LogLevel.Trace, chargePlan);
-    }
-    await this.db.pg.one(
-      `UPDATE vehicle SET charge_plan = $1:json WHERE vehicle_uuid = $2 RETURNING *;`,
-      [chargePlan.length > 0 ? chargePlan : null, vehicle.vehicle_uuid]
+    await this.db.syncCalendarSchedule(vehicle.vehicle_uuid, entries);
+    await this.refreshChargePlan(
+      vehicle.vehicle_uuid,
+      undefined,
+      ChargePlanTrigger.Schedule
     );
   }
 
-  public async refreshChargePlan(vehicleUUID?: string, accountUUID?: string) {
-    if (vehicleUUID === undefined && accountUUID === undefined) {
-      throw "refreshChargePlan called with invalid arguments";
+  public async meterDataRefreshed(location_uuid: string) {
+    const dblist = await this.db.pg.manyOrNone(
+      `SELECT * FROM vehicle WHERE location_uuid = $1 AND connected;`,
+      [location_uuid]
+    );
+    for (const v of dblist) {
+      await this.refreshVehicleChargePlan(v, ChargePlanTrigger.MeterData);
     }
+    await this.balanceLocation(location_uuid);
+  }
 
-    const dblist = await this.db.getVehicles(accountUUID, vehicleUUID);
+  /**
+   * Share the main fuse of a location between the connected vehicles that
+   * support current control. Vehicles charging outside of the plan, or
+   * without current control, keep their current and the rest is given to
+   * the vehicles that should charge right now in charge type priority order.
+   * A vehicle that can not get the minimum charge current is paused
+   * (current_limit = 0).
+   */
+  public async balanceLocation(
+    location_uuid: string,
+    now: number = Date.now()
+  ) {
+    const location: {
+      maximum_current: number | null;
+    } | null = await this.db.pg.oneOrNone(
+      `SELECT maximum_current FROM location WHERE location_uuid = $1;`,
+      [location_uuid]
+    );
+    const dblist: DBVehicle[] = await this.db.pg.manyOrNone(
+      `SELECT * FROM vehicle WHERE location_uuid = $1 AND connected;`,
+      [location_uuid]
+    );
+    // Last reported charge power (W) of ongoing charges
+    const charging: Record<number, number> = {};
+    for (const c of await this.db.pg.manyOrNone(
+      `SELECT charge_id, powers[array_upper(powers, 1)] as power FROM charge_current WHERE charge_id = ANY($1);`,
+      [dblist.filter((f) => f.charge_id !== null).map((f) => f.charge_id)]
+    )) {
+      charging[c.charge_id] = c.power || 0;
+    }
+    const maximumCurrent = location && location.maximum_current;
+    const { limits, houseLoad, outsidePlan } = shareMainFuse(
+      maximumCurrent,
+      dblist,
+      charging,
+      maximumCurrent
+        ? await this.db.getGridPower(location_uuid, METER_DATA_WINDOW)
+        : null,
+      now
+    );
+    if (houseLoad !== null) {
+      this.log(LogLevel.Trace, `House load ${Math.round(houseLoad)} W`, {
+        location_uuid,
+      });
+    }
     for (const v of dblist) {
-      await this.refreshVehicleChargePlan(v);
+      if (outsidePlan[v.vehicle_uuid] !== undefined) {
+        this.log(
+          LogLevel.Trace,
+          `Vehicle ${v.vehicle_uuid} charging outside of plan at ${Math.round(
+            outsidePlan[v.vehicle_uuid]
+          )}A`,
+          vehicleLog(v)
+        );
+      }
+    }
+
+    const controlled = dblist.filter((f) => f.maximum_current !== null);
+    for (const v of controlled) {
+      if (v.current_limit !== limits[v.vehicle_uuid]) {
+        this.log(
+          LogLevel.Debug,
+          `Vehicle ${v.vehicle_uuid} current limit ${limits[v.vehicle_uuid]}`,
+          vehicleLog(v)
+        );
+        await this.db.pg.none(
+          `UPDATE vehicle SET current_limit = $1 WHERE vehicle_uuid = $2;`,
+          [limits[v.vehicle_uuid], v.vehicle_uuid]
+        );
+      }
     }
   }
 
   public async priceListRefreshed(price_list_uuid: string) {
     const dblist = await this.db.pg.manyOrNone(
-      `SELECT v.* FROM vehicle v JOIN location l ON (l.account_uuid = v.account_uuid) WHERE l.price_list_uuid = $1;`,
+      `SELECT v.* FROM vehicle v WHERE v.account_uuid IN
+        (SELECT account_uuid FROM location WHERE price_list_uuid = $1 OR $1 = ANY(fallback_price_lists));`,
       [price_list_uuid]
     );
+    const locations = new Set<string>();
     for (const v of dblist) {
-      await this.refreshVehicleChargePlan(v);
+      await this.refreshVehicleChargePlan(v, ChargePlanTrigger.Price);
+      if (v.connected && v.location_uuid) {
+        locations.add(v.location_uuid);
+      }
+    }
+    // New plans can start or stop charging right away
+    for (const location_uuid of locations) {
+      await this.balanceLocation(location_uuid);
     }
   }
+
+  /**
+   * Compare each charge plan in the history with the charging that actually
+   * happened while it was in effect
+   */
+  public async chargePlanOutcome(
+    vehicle_uuid: string,
+    from: Date,
+    to: Date
+  ): Promise<ChargePlanOutcome[]> {
+    const [history, charges] = await Promise.all([
+      this.db.getChargePlanHistory(vehicle_uuid, from, to),
+      this.db.getCharges(vehicle_uuid, from, to),
+    ]);
+    const periodEnd = Math.min(to.getTime(), Date.now());
+
+    return history.map((h, index) => {
+      const start = Math.max(h.ts.getTime(), from.getTime());
+      const end =
+        index + 1 < history.length
+          ? history[index + 1].ts.getTime()
+          : Math.max(start, periodEnd);
+
+      const plan: ChargePlan[] = (h.charge_plan || []).filter(
+        (p: ChargePlan) => p.chargeType !== ChargeType.Disable
+      );
+      const planned = plan.map((p) => ({
+        start: p.chargeStart ? new Date(p.chargeStart).getTime() : start,
+        stop: p.chargeStop ? new Date(p.chargeStop).getTime() : end,
+      }));
+      const charged = charges.filter(
+        (c) => c.start_ts.getTime() < end && c.end_ts.getTime() >= start
+      );
+
+      return {
+        history: h,
+        end: new Date(end),
+        plannedMinutes: intervalMinutes(planned, start, end),
+        chargedMinutes: intervalMinutes(
+          charged.map((c) => ({
+            start: c.start_ts.getTime(),
+            stop: c.end_ts.getTime(),
+          })),
+          start,
+          end
+        ),
+        plannedLevel:
+          plan.length > 0 ? Math.max(...plan.map((p) => p.level)) : null,
+        reachedLevel:
+          charged.length > 0
+            ? Math.max(...charged.map((c) => c.end_level))
+            : null,
+      };
+    });
+  }
 }
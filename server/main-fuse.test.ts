@@ -0,0 +1,139 @@
+/**
+ * @file Main fuse sharing test
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import "reflect-metadata";
+import assert from "assert";
+import { test } from "@shared/test-runner";
+import { ChargeType } from "@shared/sc-types";
+import { MAINS_VOLTAGE, MAINS_PHASES } from "@shared/smartcharge-defines";
+import { ChargePlan } from "./gql/vehicle-type";
+import { FuseVehicle, shareMainFuse } from "./logic";
+
+const NOW = Date.parse("2024-01-15T12:00:00Z");
+const PHASE_POWER = MAINS_VOLTAGE * MAINS_PHASES; // W per A
+
+// Charge plan entry that is active now
+function charge(chargeType: ChargeType, chargeCurrent?: number): ChargePlan {
+  return {
+    chargeType,
+    chargeStart: new Date(NOW - 60 * 60e3),
+    chargeStop: new Date(NOW + 60 * 60e3),
+    level: 80,
+    chargeCurrent,
+    comment: chargeType,
+  };
+}
+function vehicle(
+  vehicle_uuid: string,
+  level: number,
+  maximum_current: number | null,
+  plan: ChargePlan[] | null,
+  charge_id: number | null = null
+): FuseVehicle {
+  return { vehicle_uuid, level, maximum_current, charge_id, charge_plan: plan };
+}
+
+test("leaves vehicles unlimited without a main fuse", () => {
+  const share = shareMainFuse(
+    null,
+    [vehicle("a", 50, 16, [charge(ChargeType.Trip)])],
+    {},
+    null,
+    NOW
+  );
+  assert.deepStrictEqual(share.limits, { a: null });
+});
+
+test("gives the current in charge type priority and then level order", () => {
+  const share = shareMainFuse(
+    25,
+    [
+      vehicle("fill", 10, 16, [charge(ChargeType.Fill)]),
+      vehicle("trip-high", 60, 16, [charge(ChargeType.Trip)]),
+      vehicle("trip-low", 40, 16, [charge(ChargeType.Trip)]),
+      vehicle("idle", 50, 16, []),
+      vehicle("no-control", 30, null, [charge(ChargeType.Minimum)]),
+    ],
+    {},
+    null,
+    NOW
+  );
+  assert.deepStrictEqual(share.limits, {
+    fill: 0,
+    "trip-high": 9,
+    "trip-low": 16,
+    idle: null,
+  });
+});
+
+test("pauses vehicles below the minimum charge current", () => {
+  const share = shareMainFuse(
+    21,
+    [
+      vehicle("a", 20, 16, [charge(ChargeType.Minimum)]),
+      vehicle("b", 30, 16, [charge(ChargeType.Routine)]),
+    ],
+    {},
+    null,
+    NOW
+  );
+  assert.deepStrictEqual(share.limits, { a: 16, b: 0 });
+});
+
+test("honors the planned charge current", () => {
+  const share = shareMainFuse(
+    25,
+    [
+      vehicle("a", 20, 16, [charge(ChargeType.Routine, 8)]),
+      vehicle("b", 30, 16, [charge(ChargeType.Routine)]),
+    ],
+    {},
+    null,
+    NOW
+  );
+  assert.deepStrictEqual(share.limits, { a: 8, b: 16 });
+});
+
+test("derives the house load from the grid power", () => {
+  // 10 A of grid power, 4 A of it is our own charging
+  const share = shareMainFuse(
+    25,
+    [vehicle("a", 20, 16, [charge(ChargeType.Trip)], 1)],
+    { 1: 4 * PHASE_POWER },
+    10 * PHASE_POWER,
+    NOW
+  );
+  assert.strictEqual(share.houseLoad, 6 * PHASE_POWER);
+  assert.deepStrictEqual(share.limits, { a: 16 });
+
+  const busy = shareMainFuse(
+    25,
+    [vehicle("a", 20, 16, [charge(ChargeType.Trip)], 1)],
+    { 1: 4 * PHASE_POWER },
+    20 * PHASE_POWER,
+    NOW
+  );
+  assert.deepStrictEqual(busy.limits, { a: 9 });
+});
+
+test("reserves current for charging outside of the plan", () => {
+  const share = shareMainFuse(
+    32,
+    [
+      // manual start on a vehicle with current control reserves its maximum
+      vehicle("manual", 50, 10, [], 1),
+      // no current control, reserves its current draw
+      vehicle("uncontrolled", 50, null, null, 2),
+      vehicle("planned", 20, 16, [charge(ChargeType.Trip)], 3),
+    ],
+    { 1: 2 * PHASE_POWER, 2: 12 * PHASE_POWER, 3: 0 },
+    null,
+    NOW
+  );
+  assert.deepStrictEqual(share.outsidePlan, { manual: 10, uncontrolled: 12 });
+  assert.deepStrictEqual(share.limits, { manual: null, planned: 10 });
+});
@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+
+/**
+ * @file Utility to run the charge planner on a fixture file
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ * @description A fixture is the JSON planner input (as traced by
+ * refreshVehicleChargePlan), the result is compared with a golden file. The
+ * fixtures in fixtures/plans are also checked by planner.test.ts
+ */
+
+import fs from "fs";
+import { Command } from "commander";
+import { LogLevel, setLogLevel } from "@shared/utils";
+import { ChargeCurve } from "./db-interface";
+import { DBSchedule } from "./db-schema";
+import { VehicleLocationSettings } from "./gql/vehicle-type";
+import {
+  planCharge,
+  PlannerInput,
+  PlannerPrice,
+  PlannerResult,
+} from "./planner";
+
+// JSON has no dates, time stamps are ISO strings or epoch ms
+type FixtureTime = string | number;
+interface FixtureTarget {
+  ts: FixtureTime;
+  level: number;
+}
+type FixtureSchedule = Partial<Omit<DBSchedule, "schedule_ts">> & {
+  schedule_ts: FixtureTime | null;
+  level: number | null;
+};
+
+// Planner input as JSON, everything but the clock and vehicle is optional
+export interface PlannerFixture {
+  now: FixtureTime;
+  vehicle: PlannerInput["vehicle"];
+  locationSettings: VehicleLocationSettings;
+  prices?: (Omit<PlannerPrice, "ts"> & { ts: FixtureTime })[];
+  chargeCurve?: ChargeCurve;
+  manual?: FixtureSchedule | null;
+  trip?: FixtureSchedule | null;
+  departure?: FixtureTarget | null;
+  stats?: PlannerInput["stats"];
+  guess?: FixtureTarget | null;
+  solarSurplus?: number | null;
+  carbonWeight?: number;
+}
+
+function epoch(value: FixtureTime): number {
+  return typeof value === "number" ? value : new Date(value).getTime();
+}
+export function reviveFixture(json: PlannerFixture): PlannerInput {
+  const schedule = (s: FixtureSchedule | null | undefined) =>
+    (s && {
+      schedule_id: 0,
+      vehicle_uuid: "",
+      schedule_type: "",
+      calendar_uid: null,
+      ...s,
+      schedule_ts: s.schedule_ts !== null ? new Date(s.schedule_ts) : null,
+    }) ||
+    undefined;
+  const target = (t: FixtureTarget | null | undefined) =>
+    (t && { ts: epoch(t.ts), level: t.level }) || null;
+  return {
+    now: epoch(json.now),
+    vehicle: json.vehicle,
+    locationSettings: json.locationSettings,
+    prices: (json.prices || []).map((p) => ({
+      ...p,
+      ts: new Date(p.ts),
+    })),
+    chargeCurve: json.chargeCurve || {},
+    manual: schedule(json.manual),
+    trip: schedule(json.trip),
+    departure: target(json.departure),
+    stats: json.stats || null,
+    guess: target(json.guess),
+    solarSurplus: json.solarSurplus !== undefined ? json.solarSurplus : null,
+    carbonWeight: json.carbonWeight || 0,
+  };
+}
+
+export function formatResult(result: PlannerResult): string {
+  return JSON.stringify(result, null, 2) + "\n";
+}
+
+// Planner result of a fixture file, as formatted in golden files
+export function runFixture(fixture: string): string {
+  return formatResult(
+    planCharge(reviveFixture(JSON.parse(fs.readFileSync(fixture, "utf-8"))))
+  );
+}
+
+if (require.main === module) {
+  const program = new Command();
+  program
+    .arguments("<fixture> [golden]")
+    .option("-u, --update", "write the result to the golden file")
+    .option("-t, --trace", "show planner trace logging")
+    .action((fixture: string, golden: string | undefined) => {
+      const opts = program.opts();
+      setLogLevel(opts.trace ? LogLevel.Trace : LogLevel.Warning);
+
+      const result = runFixture(fixture);
+
+      if (golden === undefined) {
+        process.stdout.write(result);
+      } else if (opts.update) {
+        fs.writeFileSync(golden, result);
+        process.stdout.write(`${golden} updated\n`);
+      } else {
+        const expected = fs.readFileSync(golden, "utf-8");
+        if (expected !== result) {
+          process.stdout.write(`${fixture} does not match ${golden}, got:\n`);
+          process.stdout.write(result);
+          process.exit(1);
+        }
+        process.stdout.write(`${fixture} ok\n`);
+      }
+    })
+    .parse(process.argv);
+}
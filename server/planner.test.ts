@@ -0,0 +1,41 @@
+/**
+ * @file Charge planner test against the plan fixtures and their golden files
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ * @description Update a golden file after an intended planner change with
+ * npm run plan:fixture -- <fixture> <golden> --update
+ */
+
+import "reflect-metadata";
+import assert from "assert";
+import fs from "fs";
+import path from "path";
+import { test } from "@shared/test-runner";
+import { runFixture } from "./plan-fixture";
+
+const FIXTURES = path.join(__dirname, "fixtures", "plans");
+
+const fixtures = fs
+  .readdirSync(FIXTURES)
+  .filter((f) => f.endsWith(".json") && !f.endsWith(".golden.json"));
+
+test("has a golden file for every plan fixture", () => {
+  assert.ok(fixtures.length > 0);
+  for (const f of fixtures) {
+    assert.ok(
+      fs.existsSync(path.join(FIXTURES, f.replace(/\.json$/, ".golden.json"))),
+      `${f} has no golden file`
+    );
+  }
+});
+
+for (const f of fixtures) {
+  test(`plans ${f.replace(/\.json$/, "")} like the golden file`, () => {
+    const golden = path.join(FIXTURES, f.replace(/\.json$/, ".golden.json"));
+    assert.strictEqual(
+      runFixture(path.join(FIXTURES, f)),
+      fs.readFileSync(golden, "utf-8")
+    );
+  });
+}
@@ -0,0 +1,930 @@
+/**
+ * @file Charge planning core for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ * @description The planner has no side effects, everything it needs is
+ * gathered by Logic.refreshVehicleChargePlan so that a plan can be reproduced
+ * from its inputs (see plan-fixture.ts)
+ */
+
+import { strict as assert } from "assert";
+
+import { ChargeCurve } from "./db-interface";
+import { DBVehicle, DBSchedule, DBLocationStats } from "./db-schema";
+import {
+  LogLevel,
+  log,
+  compareStartStopTimes,
+  numericStartTime,
+  numericStopTime,
+  capitalize,
+} from "@shared/utils";
+import { ChargePlan, VehicleLocationSettings } from "./gql/vehicle-type";
+import { SmartChargeGoal, ChargeType } from "@shared/sc-types";
+import {
+  SCHEDULE_TOPUP_MARGIN,
+  SOLAR_MINIMUM_POWER,
+  SOLAR_PLAN_WINDOW,
+  BATTERY_CARE_LEVEL,
+  BATTERY_CARE_HIGH,
+  BATTERY_CARE_PENALTY,
+  BATTERY_CARE_IDLE,
+} from "@shared/smartcharge-defines";
+
+// Lower number wins when charge plan entries overlap or compete for current
+export const chargePriority = {
+  [ChargeType.Disable]: 0,
+  [ChargeType.Calibrate]: 1,
+  [ChargeType.Minimum]: 2,
+  [ChargeType.Manual]: 3,
+  [ChargeType.Trip]: 4,
+  [ChargeType.Routine]: 5,
+  [ChargeType.Prefered]: 6,
+  [ChargeType.Fill]: 7,
+  [ChargeType.Solar]: 8,
+};
+
+export interface PlannerPrice {
+  ts: Date; // price interval start
+  price: number; // effective price (tariff applied)
+  price_interval: number; // minutes
+  forecast?: boolean; // predicted price beyond the published prices
+  intensity?: number | null; // carbon intensity (grams CO2 per kWh)
+  score?: number; // blended price and carbon intensity used for ranking
+}
+
+export interface PlannerTarget {
+  ts: number; // epoch ms
+  level: number; // battery level %
+}
+
+export interface PlannerInput {
+  now: number; // clock (epoch ms)
+  vehicle: Pick<
+    DBVehicle,
+    | "level"
+    | "maximum_charge"
+    | "maximum_current"
+    | "connected"
+    | "location_uuid"
+  >;
+  locationSettings: VehicleLocationSettings;
+  prices: PlannerPrice[]; // upcoming prices ordered by price and time
+  chargeCurve: ChargeCurve;
+  manual: DBSchedule | undefined; // first upcoming manual schedule
+  trip: DBSchedule | undefined; // first upcoming trip schedule
+  departure: PlannerTarget | null; // next weekly departure
+  stats: Pick<
+    DBLocationStats,
+    "weekly_avg7_price" | "weekly_avg21_price" | "threshold"
+  > | null;
+  guess: PlannerTarget | null; // AI guess of next disconnect and level needed
+  solarSurplus: number | null; // power (W) exported, null without power meter
+  carbonWeight: number; // 0-1, ranking weight between price (0) and carbon intensity (1)
+}
+
+export interface PlannerDecision {
+  chargeType: ChargeType;
+  comment: string;
+  level: number; // requested battery level %
+  before: number | null; // requested deadline (epoch ms)
+  maxPrice: number | null; // highest price accepted
+  accepted: boolean; // added to the charge plan
+  reason: string;
+}
+
+// Why the plan looks the way it does, stored with the charge plan
+export interface PlannerTrace {
+  now: number;
+  level: number;
+  maximumLevel: number;
+  directLevel: number;
+  goal: string;
+  connected: boolean;
+  prices: number; // number of upcoming price intervals
+  priceAvailable: number | null; // prices are known until (epoch ms)
+  forecastAvailable: number | null; // prices are forecasted until (epoch ms)
+  learning: boolean; // not enough history for smart charging
+  guess: PlannerTarget | null;
+  trip: PlannerTarget | null; // first upcoming trip
+  departure: PlannerTarget | null; // next weekly departure
+  thresholdPrice: number | null; // low price fill threshold
+  solarSurplus: number | null;
+  carbonWeight: number;
+  decisions: PlannerDecision[];
+}
+
+export interface PlannerResult {
+  chargePlan: ChargePlan[];
+  smartStatus: string;
+  aiSchedule: PlannerTarget | null | undefined; // AI schedule to store, undefined to leave as is
+  trace: PlannerTrace;
+}
+
+export function cleanupPlan(
+  plan: ChargePlan[],
+  priceInterval: number
+): ChargePlan[] {
+  plan.sort(
+    (a, b) =>
+      compareStartStopTimes(
+        a.chargeStart,
+        a.chargeStop,
+        b.chargeStart,
+        b.chargeStop
+      ) || chargePriority[a.chargeType] - chargePriority[b.chargeType]
+  );
+
+  function consolidate() {
+    for (let i = 0; i < plan.length - 1; ++i) {
+      const a = plan[i];
+      const b = plan[i + 1];
+      if (numericStartTime(b.chargeStart) <= numericStopTime(a.chargeStop)) {
+        if (
+          a.chargeType === b.chargeType ||
+          numericStopTime(b.chargeStop) <= numericStopTime(a.chargeStop)
+        ) {
+          if (
+            b.level > a.level &&
+            a.chargeStop === null &&
+            b.chargeStart !== null
+          ) {
+            // Cut off a free running charge if next charge has higher level
+            a.chargeStop = b.chargeStart;
+          } else {
+            // Merge them
+            if (numericStopTime(b.chargeStop) > numericStopTime(a.chargeStop)) {
+              a.chargeStop = b.chargeStop;
+            }
+            a.level = Math.max(a.level, b.level);
+            a.chargeCurrent =
+              a.chargeCurrent && b.chargeCurrent
+                ? Math.max(a.chargeCurrent, b.chargeCurrent)
+                : null;
+            plan.splice(i + 1, 1);
+            --i;
+          }
+        } else if (a.level >= b.level) {
+          // Push the next segment forward
+          b.chargeStart = a.chargeStop;
+        } else {
+          // Cut off the current segment
+          a.chargeStop = b.chargeStart;
+        }
+      }
+    }
+  }
+
+  // First pass to remove any overlaps
+  consolidate();
+
+  // Second pass to shift start times for continous charging
+  {
+    let shifted = false;
+    for (let i = 0; i < plan.length - 1; ++i) {
+      const a = plan[i];
+      const b = plan[i + 1];
+      const shift = Math.min(
+        // max shift between this segment end and next segment start
+        // nextStart - thisStop
+        numericStartTime(b.chargeStart) - numericStopTime(a.chargeStop),
+        // or maximum shift possible within the current price interval
+        // interval - (stop - start) => start - stop + interval
+        numericStartTime(a.chargeStart) -
+          numericStopTime(a.chargeStop) +
+          priceInterval
+      );
+
+      if (
+        shift > 0 &&
+        numericStopTime(a.chargeStop) + shift >= numericStartTime(b.chargeStart)
+      ) {
+        a.chargeStop = b.chargeStart;
+        a.chargeStart = new Date(numericStartTime(a.chargeStart) + shift);
+        shifted = true;
+      }
+    }
+
+    if (shifted) {
+      consolidate();
+    }
+  }
+  return plan;
+}
+
+/**
+ * Rank price intervals on a blend of price and carbon intensity. Intensity is
+ * scaled to the average price so that a weight of 0.5 values both equally,
+ * intervals without intensity are given the average intensity
+ */
+export function rankPrices(
+  prices: PlannerPrice[],
+  carbonWeight: number
+): PlannerPrice[] {
+  const weight = Math.max(0, Math.min(1, carbonWeight));
+  const intensities = prices
+    .map((p) => p.intensity)
+    .filter((i): i is number => typeof i === "number");
+  if (weight <= 0 || intensities.length < 1) {
+    return prices.map((p) => ({ ...p, score: p.price }));
+  }
+
+  const average = (list: number[]) =>
+    list.reduce((sum, v) => sum + v, 0) / list.length;
+  const averageIntensity = average(intensities);
+  const scale =
+    averageIntensity > 0
+      ? Math.abs(average(prices.map((p) => p.price))) / averageIntensity
+      : 0;
+  return prices
+    .map((p) => {
+      const intensity =
+        typeof p.intensity === "number" ? p.intensity : averageIntensity;
+      return {
+        ...p,
+        score: (1 - weight) * p.price + weight * scale * intensity,
+      };
+    })
+    .sort((a, b) => a.score - b.score || a.ts.getTime() - b.ts.getTime());
+}
+
+/**
+ * Plan charging for a vehicle
+ */
+export function planCharge(input: PlannerInput): PlannerResult {
+  const { now, vehicle, locationSettings, manual, trip, departure } = input;
+  const minimum_charge = locationSettings.directLevel;
+  let aiSchedule: PlannerTarget | null | undefined = undefined;
+  const trace: PlannerTrace = {
+    now,
+    level: vehicle.level,
+    maximumLevel: vehicle.maximum_charge,
+    directLevel: minimum_charge,
+    goal: locationSettings.goal,
+    connected: vehicle.connected,
+    prices: input.prices.length,
+    priceAvailable: null,
+    forecastAvailable: null,
+    learning: false,
+    guess: input.guess,
+    trip:
+      trip && trip.schedule_ts && trip.level
+        ? { ts: trip.schedule_ts.getTime(), level: trip.level }
+        : null,
+    departure,
+    thresholdPrice: null,
+    solarSurplus: input.solarSurplus,
+    carbonWeight: input.carbonWeight,
+    decisions: [],
+  };
+  const decide = (
+    chargeType: ChargeType,
+    comment: string,
+    level: number,
+    before: number | null,
+    maxPrice: number | null,
+    reason: string
+  ): PlannerDecision => {
+    const decision = {
+      chargeType,
+      comment,
+      level,
+      before,
+      maxPrice,
+      accepted: true,
+      reason,
+    };
+    trace.decisions.push(decision);
+    return decision;
+  };
+
+  const startLevel = vehicle.level - 1;
+
+  let chargePlan: ChargePlan[] = [];
+  let smartStatus = "";
+  let priceInterval = 60 * 60e3;
+
+  if (manual && !manual.level) {
+    log(LogLevel.Debug, `Charging disabled until next connection`);
+    chargePlan.push({
+      chargeStart: null,
+      chargeStop: null,
+      chargeType: ChargeType.Disable,
+      level: 0,
+      comment: `charging disabled`,
+    });
+    decide(
+      ChargeType.Disable,
+      `charging disabled`,
+      0,
+      null,
+      null,
+      `disabled until next plug in`
+    );
+    smartStatus = `Charging disabled until next plug in`;
+  } else {
+    const priceMap = rankPrices(input.prices, input.carbonWeight);
+    const rank = (p: PlannerPrice): number =>
+      p.score !== undefined ? p.score : p.price;
+    // The price is fixed for the price list interval
+    if (priceMap.length > 0) {
+      priceInterval = priceMap[0].price_interval * 60e3;
+    }
+    const priceEnd = (list: PlannerPrice[]): number =>
+      list.reduce((prev: number, current) => {
+        const d = current.ts.getTime();
+        return !prev || d > prev ? d : prev;
+      }, 0) + priceInterval;
+    // Forecasted prices extend the horizon for trips, but low price filling
+    // only trusts published prices
+    const published = priceMap.filter((p) => !p.forecast);
+    const knownAvailable: number = priceEnd(published);
+    const priceAvailable: number = priceEnd(priceMap);
+    trace.priceAvailable = published.length > 0 ? knownAvailable : null;
+    trace.forecastAvailable =
+      published.length < priceMap.length ? priceAvailable : null;
+
+    const chargeCurve = input.chargeCurve;
+    const ChargeDuration = (
+      from: number,
+      to: number,
+      current?: number | null
+    ): number => {
+      let sum = 0;
+      for (let l = from; l < to; ++l) {
+        sum +=
+          chargeCurve[Math.max(0, Math.min(100, Math.ceil(l)))] *
+          (l < to ? 1.0 : 0.75); // remove 25% of the last % to not overshoot
+      }
+      if (current && vehicle.maximum_current) {
+        // The charge curve is learned at maximum current, AC power scales with current
+        sum *= vehicle.maximum_current / current;
+      }
+      return sum * 1e3;
+    };
+    const minimumCurrent =
+      (vehicle.maximum_current &&
+        locationSettings.minimumCurrent &&
+        Math.min(locationSettings.minimumCurrent, vehicle.maximum_current)) ||
+      null;
+    /*
+  const RequiredStartLevel = (target: number, time: number): number => {
+    let l = target;
+    for (let timeLeft = time / 1e3; timeLeft > 0; ) {
+      const t = chargeCurve[Math.min(100, Math.ceil(l))];
+      assert(t > 0);
+      l -= t > timeLeft ? timeLeft / t : 1;
+      timeLeft -= t;
+    }
+    return l;
+  };
+*/
+
+    let fillBefore: number = knownAvailable;
+
+    // Battery care keeps the level low and charges above the high level late
+    const care = locationSettings.goal === SmartChargeGoal.Care;
+    const careLevel = Math.min(vehicle.maximum_charge, BATTERY_CARE_LEVEL);
+    const careHigh = Math.min(vehicle.maximum_charge, BATTERY_CARE_HIGH);
+    const holdPenalty =
+      priceMap.length > 0
+        ? (BATTERY_CARE_PENALTY *
+            priceMap.reduce((sum, p) => sum + Math.max(0, p.price), 0)) /
+          priceMap.length
+        : 0;
+
+    const GeneratePlan = (
+      chargeType: ChargeType,
+      comment: string,
+      level: number,
+      before_ts?: number,
+      maxPrice?: number,
+      holdFrom?: number // charge from this level, penalising time held before before_ts
+    ): boolean => {
+      const decision = decide(
+        chargeType,
+        comment,
+        level,
+        before_ts || null,
+        maxPrice || null,
+        ``
+      );
+      const reasons: string[] = [];
+      let extra = false; // topup or battery care entries added
+      const fromLevel =
+        holdFrom !== undefined ? Math.max(startLevel, holdFrom) : startLevel;
+
+      // Adjust before_ts if it's passed already
+      before_ts = (before_ts || 0) <= now ? undefined : before_ts;
+
+      // Only adjust if it's earlier than 6h before the one we alread had in mind
+      if (
+        before_ts &&
+        before_ts < knownAvailable &&
+        (fillBefore === knownAvailable || before_ts + 360 * 60e3 < fillBefore)
+      ) {
+        fillBefore = before_ts;
+      }
+
+      // Do charge goal adjustments
+      if (level > startLevel && before_ts !== undefined) {
+        // Do we need to split and do a partial charge for future target
+        if (priceAvailable && before_ts > priceAvailable) {
+          const timeNeeded = ChargeDuration(startLevel, level);
+          const startDeadline = before_ts - timeNeeded * 1.5;
+          log(
+            LogLevel.Trace,
+            `${capitalize(chargeType)} charge time ${Math.round(
+              timeNeeded / 60e3
+            )} min, deadline ${new Date(startDeadline).toISOString()}`
+          );
+          if (startDeadline > priceAvailable) {
+            log(LogLevel.Trace, `deadline beyond price data, ignore charge`);
+            decision.accepted = false;
+            decision.reason = `deadline is beyond known prices`;
+            return false;
+          } else {
+            before_ts = priceAvailable;
+            level = Math.floor(
+              startLevel +
+                ((level - startLevel) * (priceAvailable - startDeadline)) /
+                  (timeNeeded * 1.5)
+            );
+            reasons.push(`partial charge to ${level}% until prices are known`);
+            log(
+              LogLevel.Debug,
+              `${capitalize(
+                chargeType
+              )} partial charge to ${level}% before ${new Date(
+                before_ts
+              ).toISOString()}`
+            );
+          }
+        }
+
+        // Do we need to topup charge above maximum
+        if (level > vehicle.maximum_charge) {
+          const topupTime = ChargeDuration(
+            Math.max(startLevel, vehicle.maximum_charge),
+            level
+          );
+          const topupStart = before_ts - SCHEDULE_TOPUP_MARGIN - topupTime;
+          log(
+            LogLevel.Debug,
+            `${capitalize(chargeType)} topup charge from ${
+              vehicle.maximum_charge
+            }% to ${level}% start at ${new Date(topupStart).toISOString()}`
+          );
+          chargePlan.push({
+            chargeStart: new Date(topupStart),
+            chargeStop: null,
+            level,
+            chargeType,
+            comment: `topping up`,
+          });
+
+          extra = true;
+          reasons.push(
+            `topping up from ${vehicle.maximum_charge}% to ${level}% before departure`
+          );
+
+          // Adjust charge target to exclude topup range
+          before_ts = topupStart;
+          level = vehicle.maximum_charge;
+        }
+
+        // Battery care, plan the charge above the high level separately
+        if (care && holdFrom === undefined && level > careHigh) {
+          if (
+            GeneratePlan(
+              chargeType,
+              `${comment} (battery care)`,
+              level,
+              before_ts,
+              maxPrice,
+              careHigh
+            )
+          ) {
+            extra = true;
+          }
+          reasons.push(`battery care, charging above ${careHigh}% late`);
+          level = careHigh;
+        }
+      }
+
+      if (level > fromLevel) {
+        const timeNeeded = ChargeDuration(fromLevel, level);
+        assert(timeNeeded > 0);
+
+        if (priceAvailable && before_ts !== undefined) {
+          log(
+            LogLevel.Trace,
+            `${capitalize(chargeType)} charge to ${level}% before ${new Date(
+              before_ts
+            ).toISOString()}`
+          );
+
+          // Time we can charge in a price interval before before_ts
+          const intervalTime = (ts: number) =>
+            Math.min(ts + priceInterval, before_ts!) - Math.max(ts, now);
+
+          // Spread the charge at a lower current over the price intervals
+          // that are not more expensive than charging at maximum current
+          let chargeCurrent: number | null = null;
+          if (
+            holdFrom === undefined &&
+            minimumCurrent !== null &&
+            minimumCurrent < vehicle.maximum_current!
+          ) {
+            const candidates = priceMap.filter(
+              (p) =>
+                p.ts.getTime() <= before_ts! &&
+                (!maxPrice || p.price <= maxPrice) &&
+                intervalTime(p.ts.getTime()) > 0
+            );
+            let timeLeft = timeNeeded;
+            let highestRank: number | undefined;
+            for (const p of candidates) {
+              if (timeLeft < 1) break;
+              timeLeft -= intervalTime(p.ts.getTime());
+              highestRank = rank(p);
+            }
+            if (timeLeft < 1 && highestRank !== undefined) {
+              const available = candidates
+                .filter((p) => rank(p) <= highestRank!)
+                .reduce((sum, p) => sum + intervalTime(p.ts.getTime()), 0);
+              const current = Math.max(
+                minimumCurrent,
+                Math.ceil((vehicle.maximum_current! * timeNeeded) / available)
+              );
+              if (current < vehicle.maximum_current!) {
+                chargeCurrent = current;
+                log(
+                  LogLevel.Trace,
+                  `${capitalize(chargeType)} charge spread at ${current}A`
+                );
+              }
+            }
+          }
+
+          // Map priceMap prices to a list of price intervals to charge
+          let timeLeft = ChargeDuration(fromLevel, level, chargeCurrent);
+          let intervals = 0;
+          let forecasted = 0;
+          // Cost is the price plus a penalty for every hour held before before_ts
+          const candidates =
+            holdFrom !== undefined
+              ? priceMap
+                  .map((p) => ({
+                    p,
+                    cost:
+                      rank(p) +
+                      (holdPenalty *
+                        Math.max(
+                          0,
+                          before_ts! - (p.ts.getTime() + priceInterval)
+                        )) /
+                        (60 * 60e3),
+                  }))
+                  .sort((a, b) => a.cost - b.cost)
+                  .map((c) => c.p)
+              : priceMap;
+          for (const price of candidates) {
+            if (timeLeft < 1) break; // Done
+            if (maxPrice && price.price > maxPrice) continue; // Price too high
+
+            const ts = price.ts.getTime();
+            if (ts > before_ts) continue; // price beyond our target time
+
+            // start cannot be earlier than now
+            const start = ts < now ? now : ts;
+            // end is timeLeft or the full price interval
+            const end = Math.min(start + timeLeft, ts + priceInterval);
+            // duration takes before_ts into account
+            const duration = Math.min(end, before_ts) - start;
+            chargePlan.push({
+              chargeStart: new Date(ts),
+              chargeStop: new Date(end),
+              level,
+              chargeCurrent,
+              chargeType,
+              comment: price.forecast ? `${comment} (forecast)` : comment,
+            });
+            ++intervals;
+            if (price.forecast) ++forecasted;
+            timeLeft -= duration;
+            log(
+              LogLevel.Trace,
+              `charge ${duration / 1e3}s ${JSON.stringify(price)} => ${
+                timeLeft / 1e3
+              }s left`
+            );
+          }
+
+          if (intervals > 0) {
+            reasons.push(
+              `charging to ${level}% in ${intervals} price interval(s)` +
+                (forecasted ? ` (${forecasted} forecasted)` : ``) +
+                (chargeCurrent ? ` at ${chargeCurrent}A` : ``)
+            );
+          } else {
+            decision.accepted = extra;
+            reasons.push(
+              maxPrice
+                ? `no price interval below the threshold price`
+                : `no price interval before the deadline`
+            );
+          }
+          decision.reason = reasons.join(`, `);
+
+          smartStatus =
+            smartStatus ||
+            `${capitalize(chargeType)} charge to ${level}% scheduled`;
+        } else {
+          log(
+            LogLevel.Trace,
+            `${capitalize(chargeType)} charge directly to ${level}%`
+          );
+          chargePlan.push({
+            chargeStart: null,
+            chargeStop: new Date(now + timeNeeded),
+            chargeType,
+            level,
+            comment,
+          });
+          reasons.push(`charging directly to ${level}%`);
+          decision.reason = reasons.join(`, `);
+          smartStatus =
+            smartStatus ||
+            `${capitalize(chargeType)} charge directly to ${level}%`;
+        }
+
+        return true;
+      } else {
+        log(
+          LogLevel.Trace,
+          `${level} <= ${fromLevel}, no ${chargeType} charge plan added for ${comment}`
+        );
+        decision.accepted = extra;
+        reasons.push(`battery is already at ${vehicle.level}%`);
+        decision.reason = reasons.join(`, `);
+        return false;
+      }
+    };
+
+    const HandleTripCharge = () => {
+      if (trip) {
+        assert(trip.level);
+        assert(trip.schedule_ts);
+        GeneratePlan(
+          ChargeType.Trip,
+          `upcoming trip`,
+          trip.level,
+          trip.schedule_ts.getTime()
+        );
+      }
+      if (departure) {
+        GeneratePlan(
+          ChargeType.Trip,
+          `weekly departure`,
+          departure.level,
+          departure.ts
+        );
+      }
+    };
+
+    if (startLevel < minimum_charge) {
+      // Emergency charge up to minimum level
+      GeneratePlan(ChargeType.Minimum, `emergency charge`, minimum_charge);
+      smartStatus =
+        (vehicle.connected
+          ? `Direct charging to `
+          : `Connect charger to charge to `) + `${minimum_charge}%`;
+    }
+
+    // Manual schedule blocks everything
+    if (manual) {
+      if (!manual.schedule_ts) {
+        assert(manual.level);
+        log(LogLevel.Debug, `Manual charging directly to ${manual.level}%`);
+        chargePlan.push({
+          chargeStart: null,
+          chargeStop: null,
+          chargeType: ChargeType.Manual,
+          level: manual.level,
+          comment: `manual charge`,
+        });
+        decide(
+          ChargeType.Manual,
+          `manual charge`,
+          manual.level,
+          null,
+          null,
+          `charging directly to ${manual.level}%`
+        );
+        smartStatus = smartStatus || `Manual charging to ${manual.level}%`;
+      } else {
+        assert(manual.level);
+        assert(manual.schedule_ts);
+        GeneratePlan(
+          ChargeType.Manual,
+          `manual charge`,
+          manual.level,
+          manual.schedule_ts.getTime()
+        );
+      }
+
+      // Still do trip charging!
+      HandleTripCharge();
+    } else {
+      const stats = input.stats;
+
+      const ai = {
+        charge: false,
+        learning: false,
+        level: null,
+        ts: null,
+      } as {
+        charge: boolean;
+        learning: boolean;
+        level: number | null;
+        ts: number | null;
+      };
+
+      if (vehicle.location_uuid) {
+        if (startLevel < vehicle.maximum_charge) {
+          // Generate an AI schedule
+          ai.charge = true;
+          const schedule = stats && input.guess;
+          if (schedule) {
+            ai.level = schedule.level;
+            ai.ts = schedule.ts;
+          } else if (departure) {
+            // Only charge for the weekly departure until we have learned the routine
+            log(LogLevel.Debug, `Missing stats, using weekly schedule.`);
+            smartStatus =
+              smartStatus || `Following weekly schedule (still learning)`;
+            ai.charge = false;
+            trace.learning = true;
+          } else {
+            // Disable smart charging because without threshold and averages it can not make a good decision
+            log(LogLevel.Debug, `Missing stats for smart charging.`);
+            smartStatus =
+              smartStatus || `Smart charging disabled (still learning)`;
+            ai.learning = true;
+            trace.learning = true;
+          }
+        }
+      }
+
+      aiSchedule = ai.ts && ai.level ? { ts: ai.ts, level: ai.level } : null;
+
+      // Do we have an upcoming trip?
+      HandleTripCharge();
+
+      if (startLevel < vehicle.maximum_charge) {
+        if (ai.charge) {
+          if (ai.learning) {
+            GeneratePlan(
+              ChargeType.Fill,
+              `learning`,
+              care ? careLevel : vehicle.maximum_charge
+            );
+            fillBefore = 0; // disable low-price filling
+          } else {
+            assert(ai.level);
+            assert(ai.ts);
+            const neededCharge = ai.level - vehicle.level;
+            const before = new Date(ai.ts);
+            // No driving predicted for a while, stay at the storage level
+            const storage = care && ai.ts - now > BATTERY_CARE_IDLE;
+            smartStatus =
+              smartStatus ||
+              (storage
+                ? `Battery care, keeping ${careLevel}% until ${new Date(
+                    ai.ts - BATTERY_CARE_IDLE
+                  ).toISOString()}`
+                : `Predicting battery level ${ai.level}% (${
+                    neededCharge > 0 ? Math.round(neededCharge) + "%" : "no"
+                  } charge) is needed before ${before.toISOString()}`);
+            log(
+              LogLevel.Debug,
+              `Current level: ${vehicle.level}, predicting ${
+                ai.level
+              }% (${minimum_charge}+${
+                neededCharge - minimum_charge
+              }) is needed before ${before.toISOString()}`
+            );
+            if (storage) {
+              GeneratePlan(
+                ChargeType.Routine,
+                `battery care`,
+                careLevel,
+                ai.ts - BATTERY_CARE_IDLE
+              );
+            } else {
+              GeneratePlan(
+                ChargeType.Routine,
+                `routine charge`,
+                ai.level,
+                ai.ts
+              );
+            }
+
+            // locations settings charging
+            {
+              const goal =
+                (locationSettings && locationSettings.goal) ||
+                SmartChargeGoal.Balanced;
+              const goalLevel =
+                goal === SmartChargeGoal.Full
+                  ? vehicle.maximum_charge
+                  : goal === SmartChargeGoal.Low ||
+                    goal === SmartChargeGoal.Care
+                  ? 0
+                  : Math.min(
+                      vehicle.maximum_charge,
+                      Math.max(
+                        ai.level,
+                        parseInt(goal) ||
+                          Math.round(
+                            ai.level + (vehicle.maximum_charge - ai.level) / 2
+                          )
+                      )
+                    );
+
+              if (goalLevel > ai.level) {
+                GeneratePlan(
+                  ChargeType.Prefered,
+                  `charge setting`,
+                  goalLevel,
+                  ai.ts
+                );
+              }
+            }
+          }
+        }
+
+        // Low price fill charging
+        if (
+          fillBefore &&
+          stats &&
+          stats.weekly_avg7_price &&
+          stats.weekly_avg21_price &&
+          stats.threshold
+        ) {
+          const averagePrice =
+            stats.weekly_avg7_price +
+            (stats.weekly_avg7_price - stats.weekly_avg21_price) / 2;
+          const thresholdPrice = (averagePrice * stats.threshold) / 100;
+          trace.thresholdPrice = thresholdPrice;
+
+          GeneratePlan(
+            ChargeType.Fill,
+            `low price`,
+            care ? careLevel : vehicle.maximum_charge,
+            fillBefore,
+            thresholdPrice
+          );
+        }
+      }
+    }
+
+    // Soak up solar surplus if the location has a power meter
+    if (
+      vehicle.location_uuid &&
+      vehicle.connected &&
+      input.solarSurplus !== null &&
+      startLevel < vehicle.maximum_charge
+    ) {
+      const surplus = input.solarSurplus;
+      log(LogLevel.Trace, `Solar surplus ${Math.round(surplus)} W`);
+      if (surplus >= SOLAR_MINIMUM_POWER) {
+        chargePlan.push({
+          chargeStart: new Date(now),
+          chargeStop: new Date(now + SOLAR_PLAN_WINDOW),
+          chargeType: ChargeType.Solar,
+          level: vehicle.maximum_charge,
+          comment: `solar surplus`,
+        });
+        decide(
+          ChargeType.Solar,
+          `solar surplus`,
+          vehicle.maximum_charge,
+          null,
+          null,
+          `exporting ${Math.round(surplus)} W`
+        );
+        smartStatus =
+          smartStatus || `Solar charging to ${vehicle.maximum_charge}%`;
+      }
+    }
+  }
+
+  if (chargePlan.length) {
+    chargePlan = cleanupPlan(chargePlan, priceInterval);
+    log(LogLevel.Trace, chargePlan);
+  }
+  return { chargePlan, smartStatus, aiSchedule, trace };
+}
@@ -0,0 +1,51 @@
+/**
+ * @file Price forecast test
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ */
+
+import assert from "assert";
+import { DateTime } from "luxon";
+import { test } from "@shared/test-runner";
+import { forecastPrices, PriceHistory } from "./price-forecast";
+
+// Four weeks of hourly prices, expensive from 17 to 20 local time
+function history(zone: string, until: number): PriceHistory[] {
+  const list: PriceHistory[] = [];
+  for (let ts = until - 28 * 24 * 60 * 60e3; ts < until; ts += 60 * 60e3) {
+    const hour = DateTime.fromMillis(ts, { zone }).hour;
+    list.push({ ts: new Date(ts), price: hour >= 17 && hour < 20 ? 300 : 100 });
+  }
+  return list;
+}
+
+test("forecasts the price pattern in local time across daylight saving", () => {
+  // History in winter time, forecast in summer time
+  const zone = "Europe/Stockholm";
+  const from = Date.parse("2024-04-01T00:00:00+02:00");
+  const forecast = forecastPrices(
+    history(zone, Date.parse("2024-03-30T00:00:00+01:00")),
+    from,
+    from + 24 * 60 * 60e3,
+    60,
+    1,
+    zone
+  );
+  assert.strictEqual(forecast.length, 24);
+  assert.ok(forecast.every((p) => p.forecast && p.price_interval === 60));
+  const expensive = forecast
+    .filter((p) => p.price > 200)
+    .map((p) => DateTime.fromJSDate(p.ts, { zone }).hour);
+  assert.deepStrictEqual(expensive, [17, 18, 19]);
+});
+
+test("makes no forecast without confidence or history", () => {
+  const from = Date.parse("2024-01-15T00:00:00Z");
+  const until = from + 24 * 60 * 60e3;
+  assert.deepStrictEqual(
+    forecastPrices(history("UTC", from), from, until, 60, 0, "UTC"),
+    []
+  );
+  assert.deepStrictEqual(forecastPrices([], from, until, 60, 1, "UTC"), []);
+});
@@ -0,0 +1,82 @@
+/**
+ * @file Price forecasting for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ * @description Predicts prices past the published price horizon from the
+ * weekday and hour seasonality of historical prices, scaled to the recent
+ * price level
+ */
+
+import { DateTime } from "luxon";
+import { PlannerPrice } from "./planner";
+
+export interface PriceHistory {
+  ts: Date; // price interval start
+  price: number; // effective price (tariff applied)
+}
+
+const RECENT_LEVEL_WINDOW = 7 * 24 * 60 * 60e3; // recent price level is the average of the last week
+
+function seasonKey(ts: number, zone: string): number {
+  const local = DateTime.fromMillis(ts, { zone });
+  return local.weekday * 24 + local.hour;
+}
+
+/**
+ * Forecast price intervals from `from` until `until`. Seasonality follows
+ * the local time in `zone`. Confidence (0-1) pulls the forecast towards the
+ * recent price level, at 0 no forecast is made at all
+ */
+export function forecastPrices(
+  history: PriceHistory[],
+  from: number,
+  until: number,
+  priceInterval: number, // minutes
+  confidence: number,
+  zone: string
+): PlannerPrice[] {
+  if (history.length < 1 || confidence <= 0 || from >= until) {
+    return [];
+  }
+  if (!DateTime.local().setZone(zone).isValid) {
+    zone = "UTC";
+  }
+
+  const average = (list: number[]) =>
+    list.reduce((sum, v) => sum + v, 0) / list.length;
+
+  const overall = average(history.map((h) => h.price));
+  const recent = history
+    .filter((h) => h.ts.getTime() >= from - RECENT_LEVEL_WINDOW)
+    .map((h) => h.price);
+  const level = recent.length > 0 ? average(recent) : overall;
+
+  // Weekday and hour price profile relative to the overall average
+  const weekly: Record<number, number[]> = {};
+  const hourly: Record<number, number[]> = {};
+  for (const h of history) {
+    const key = seasonKey(h.ts.getTime(), zone);
+    (weekly[key] = weekly[key] || []).push(h.price);
+    (hourly[key % 24] = hourly[key % 24] || []).push(h.price);
+  }
+  const factor = (ts: number): number => {
+    if (overall <= 0) return 1;
+    const key = seasonKey(ts, zone);
+    const season = weekly[key] || hourly[key % 24];
+    return season ? average(season) / overall : 1;
+  };
+
+  const weight = Math.min(1, confidence);
+  const forecast: PlannerPrice[] = [];
+  for (let ts = from; ts < until; ts += priceInterval * 60e3) {
+    const predicted = level * factor(ts);
+    forecast.push({
+      ts: new Date(ts),
+      price: Math.round(level + weight * (predicted - level)),
+      price_interval: priceInterval,
+      forecast: true,
+    });
+  }
+  return forecast;
+}
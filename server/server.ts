@@ -20,7 +20,18 @@ import cors from "cors";
 import compression from "compression";
 import rateLimit from "express-rate-limit";
 import path from "path";
-import { log, LogLevel } from "@shared/utils";
+import { createHash, timingSafeEqual } from "crypto";
+import {
+  log,
+  logger,
+  LogLevel,
+  LogFormat,
+  setLogLevel,
+  setLogFormat,
+  parseLogLevel,
+} from "@shared/utils";
+import { v4 as uuidv4 } from "uuid";
+import { metrics, METRICS_CONTENT_TYPE } from "@shared/metrics";
 import gqlSchema, { IContext } from "./gql/api";
 import { DBInterface } from "./db-interface";
 import { Logic } from "./logic";
@@ -28,20 +39,68 @@ import { Command } from "commander";
 
 import config from "@shared/smartcharge-config";
 import { ApolloServer, AuthenticationError } from "apollo-server-express";
+import { FieldNode, GraphQLSchema, OperationDefinitionNode } from "graphql";
 import { DBAccount } from "./db-schema";
 
 const APP_NAME = `smartcharge-server`;
 const APP_VERSION = `1.0`;
 
+const gqlRequests = metrics.counter(
+  "smartcharge_graphql_requests_total",
+  "GraphQL requests by operation (first root field) and result"
+);
+const gqlDuration = metrics.histogram(
+  "smartcharge_graphql_request_duration_seconds",
+  "GraphQL request duration by operation (first root field)"
+);
+
+// Clients name their operations freely, label requests by the first root
+// field instead so that label values are limited to the schema
+function operationLabel(
+  schema: GraphQLSchema,
+  operation: OperationDefinitionNode | undefined
+): string {
+  if (!operation) {
+    return "other"; // not a valid request
+  }
+  const root =
+    operation.operation === "mutation"
+      ? schema.getMutationType()
+      : operation.operation === "subscription"
+      ? schema.getSubscriptionType()
+      : schema.getQueryType();
+  const field = operation.selectionSet.selections.find(
+    (s): s is FieldNode => s.kind === "Field"
+  );
+  return root && field && root.getFields()[field.name.value]
+    ? field.name.value
+    : "other";
+}
+const wsConnections = metrics.gauge(
+  "smartcharge_websocket_connections",
+  "Active WebSocket subscription connections"
+);
+
 const program = new Command();
 program
   .version(`${APP_NAME} ${APP_VERSION}`, "-v, --version")
   .option("-p, --port <port>", "port to listen to")
   .option("-i, --ip <ip>", "ip to listen to")
+  .option("--migrate-only", "upgrade the database and exit")
+  .option("--dry-run", "show pending database upgrades and exit")
   .action(async function () {
     try {
+      setLogLevel(parseLogLevel(config.LOG_LEVEL));
+      setLogFormat(
+        config.LOG_FORMAT === LogFormat.JSON ? LogFormat.JSON : LogFormat.Text
+      );
+
+      const { migrateOnly, dryRun } = program.opts();
       const db = new DBInterface();
-      await db.init();
+      await db.init({ migrateOnly, dryRun });
+      if (migrateOnly || dryRun) {
+        process.exit(0);
+      }
 
       const logic = new Logic(db);
       await logic.init();
@@ -77,6 +136,33 @@ program
         });
       }
 
+      // Prometheus metrics, only served with the bearer token
+      app.get("/metrics", async (req, res) => {
+        if (!config.METRICS_TOKEN) {
+          res.status(404).send("Metrics are disabled");
+          return;
+        }
+        // compare digests, equal length and in constant time
+        const digest = (s: string) => createHash("sha256").update(s).digest();
+        if (
+          !timingSafeEqual(
+            digest(req.get("Authorization") || ""),
+            digest(`Bearer ${config.METRICS_TOKEN}`)
+          )
+        ) {
+          res.status(401).send("Unauthorized");
+          return;
+        }
+        try {
+          const text = await metrics.render();
+          res.set("Content-Type", METRICS_CONTENT_TYPE);
+          res.send(text);
+        } catch (err) {
+          log(LogLevel.Error, err);
+          res.status(500).send("Internal Server Error");
+        }
+      });
+
       // TODO: add express-slow-down
 
       // Setup middlewares
@@ -91,12 +177,18 @@ program
         )
         .use(compression())
         .use((req, res, next) => {
-          // simple console logging
+          // request logging, tagged with a request id
+          const header = req.get("X-Request-ID");
+          const requestID =
+            header && /^[\w.-]{1,64}$/.test(header) ? header : uuidv4();
+          res.set("X-Request-ID", requestID);
+          res.locals.requestID = requestID;
+          res.locals.log = logger({ request_id: requestID });
           const s = `${req.ip} ${req.method} ${req.originalUrl}`;
           let rawBody = "";
           req.on("data", (chunk) => (rawBody += chunk));
           req.on("end", () =>
-            log(
+            res.locals.log(
               LogLevel.Trace,
               `${s} <= ${rawBody
                 .replace(/(\\n|\\r|\\t)/g, " ")
@@ -104,11 +196,15 @@ program
             )
           );
           res.on("finish", () =>
-            log(
+            res.locals.log(
               LogLevel.Debug,
               `${s} => ${res.statusCode} ${res.statusMessage}; ${
                 res.get("Content-Length") || 0
-              }b sent`
+              }b sent`,
+              {
+                account_uuid:
+                  res.locals.account && res.locals.account.account_uuid,
+              }
             )
           );
           next();
@@ -119,7 +215,11 @@ program
           try {
             res.locals.account = await authorize(req.get("Authorization"));
             if (res.locals.account) {
-              log(LogLevel.Trace, `Authorized as ${res.locals.account.name}`);
+              res.locals.log(
+                LogLevel.Trace,
+                `Authorized as ${res.locals.account.name}`,
+                { account_uuid: res.locals.account.account_uuid }
+              );
             }
           } catch (err: any) {
             assert(err.message !== undefined); // Only real errors expected
@@ -134,40 +234,84 @@ program
         playground: true,
         introspection: true,
         schema: await gqlSchema(),
+        plugins: [
+          {
+            requestDidStart() {
+              const start = Date.now();
+              return {
+                willSendResponse(requestContext) {
+                  const operation = operationLabel(
+                    requestContext.schema,
+                    requestContext.operation
+                  );
+                  gqlRequests.inc({
+                    operation,
+                    result:
+                      requestContext.errors && requestContext.errors.length > 0
+                        ? "error"
+                        : "success",
+                  });
+                  gqlDuration.observe(
+                    { operation },
+                    (Date.now() - start) / 1e3
+                  );
+                },
+              };
+            },
+          },
+        ],
         context: ({ res, connection }) => {
           if (connection) {
             assert(connection.context !== undefined);
             return connection.context;
           }
           assert(res !== undefined);
+          const accountUUID =
+            (res.locals.account && res.locals.account.account_uuid) ||
+            undefined;
+          const requestLog = logger({
+            request_id: res.locals.requestID,
+            account_uuid: accountUUID,
+          });
           return <IContext>{
             db,
-            logic,
-            accountUUID:
-              (res.locals.account && res.locals.account.account_uuid) ||
-              undefined,
+            logic: logic.withLogger(requestLog),
+            accountUUID,
             account: res.locals.account,
+            requestID: res.locals.requestID,
+            log: requestLog,
           };
         },
         subscriptions: {
           keepAlive: 20000,
           path: "/api/gql",
           onConnect: async (connectionParams: any, _webSocket, context) => {
+            wsConnections.inc();
             const account = await authorize(connectionParams.Authorization);
             log(
               LogLevel.Info,
               `WS ${context.request.connection.remoteAddress}:${
                 context.request.connection.remotePort
-              } Connected with ${JSON.stringify(connectionParams)}`
+              } Connected with ${JSON.stringify(connectionParams)}`,
+              { account_uuid: account && account.account_uuid }
             );
+            // Subscriptions log with an id of the connection
+            const requestID = uuidv4();
+            const connectionLog = logger({
+              request_id: requestID,
+              account_uuid: (account && account.account_uuid) || undefined,
+            });
             return <IContext>{
               db,
-              logic,
+              logic: logic.withLogger(connectionLog),
               accountUUID: (account && account.account_uuid) || undefined,
               account: account,
+              requestID,
+              log: connectionLog,
             };
           },
           onDisconnect: (_websocket, context) => {
+            wsConnections.dec();
             log(
               LogLevel.Info,
               `WS ${context.request.connection.remoteAddress}:${context.request.connection.remotePort} Disconnected`
@@ -0,0 +1,179 @@
+/**
+ * @file Metrics registry for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ * @description Counters, gauges and histograms rendered in the Prometheus
+ * text exposition format
+ */
+
+import { log, LogLevel } from "./utils";
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export interface MetricLabels {
+  [name: string]: string | number;
+}
+
+function labelKey(labels: MetricLabels): string {
+  return Object.keys(labels)
+    .sort()
+    .map(
+      (k) =>
+        `${k}="${String(labels[k])
+          .replace(/\\/g, "\\\\")
+          .replace(/\n/g, "\\n")
+          .replace(/"/g, '\\"')}"`
+    )
+    .join(",");
+}
+function sample(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ""} ${value}`;
+}
+
+abstract class Metric {
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    public readonly type: string
+  ) {}
+  public abstract samples(): string[];
+  public render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ].join("\n");
+  }
+}
+
+export class Counter extends Metric {
+  private values: { [key: string]: number } = {};
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+  public inc(labels: MetricLabels = {}, value: number = 1) {
+    const key = labelKey(labels);
+    this.values[key] = (this.values[key] || 0) + value;
+  }
+  public samples(): string[] {
+    return Object.entries(this.values).map(([key, value]) =>
+      sample(this.name, key, value)
+    );
+  }
+}
+
+export class Gauge extends Metric {
+  private values: { [key: string]: number } = {};
+  constructor(
+    name: string,
+    help: string,
+    public collect?: (gauge: Gauge) => Promise<void> // refresh values before rendering
+  ) {
+    super(name, help, "gauge");
+  }
+  public set(labels: MetricLabels, value: number) {
+    this.values[labelKey(labels)] = value;
+  }
+  public inc(labels: MetricLabels = {}, value: number = 1) {
+    const key = labelKey(labels);
+    this.values[key] = (this.values[key] || 0) + value;
+  }
+  public dec(labels: MetricLabels = {}, value: number = 1) {
+    this.inc(labels, -value);
+  }
+  public reset() {
+    this.values = {};
+  }
+  public samples(): string[] {
+    return Object.entries(this.values).map(([key, value]) =>
+      sample(this.name, key, value)
+    );
+  }
+}
+
+export class Histogram extends Metric {
+  private values: {
+    [key: string]: { buckets: number[]; sum: number; count: number };
+  } = {};
+  constructor(
+    name: string,
+    help: string,
+    private buckets: number[] = [0.005, 0.01, 0.05, 0.1, 0.5, 1, 5, 10] // seconds
+  ) {
+    super(name, help, "histogram");
+  }
+  public observe(labels: MetricLabels, value: number) {
+    const key = labelKey(labels);
+    const v = (this.values[key] = this.values[key] || {
+      buckets: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    });
+    this.buckets.forEach((le, i) => {
+      if (value <= le) v.buckets[i]++;
+    });
+    v.sum += value;
+    v.count++;
+  }
+  // Observe the seconds until the returned function is called
+  public startTimer(labels: MetricLabels = {}): () => void {
+    const start = Date.now();
+    return () => this.observe(labels, (Date.now() - start) / 1e3);
+  }
+  public samples(): string[] {
+    const list: string[] = [];
+    for (const [key, v] of Object.entries(this.values)) {
+      const le = (bound: string) =>
+        key ? `${key},le="${bound}"` : `le="${bound}"`;
+      this.buckets.forEach((bound, i) =>
+        list.push(
+          sample(`${this.name}_bucket`, le(String(bound)), v.buckets[i])
+        )
+      );
+      list.push(sample(`${this.name}_bucket`, le("+Inf"), v.count));
+      list.push(sample(`${this.name}_sum`, key, v.sum));
+      list.push(sample(`${this.name}_count`, key, v.count));
+    }
+    return list;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: { [name: string]: Metric } = {};
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics[metric.name] !== undefined) {
+      return this.metrics[metric.name] as T; // modules can share a metric
+    }
+    this.metrics[metric.name] = metric;
+    return metric;
+  }
+  public counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+  public gauge(
+    name: string,
+    help: string,
+    collect?: (gauge: Gauge) => Promise<void>
+  ): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+  public histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+  public async render(): Promise<string> {
+    const list = Object.values(this.metrics);
+    await Promise.all(
+      list.map(async (m) => {
+        try {
+          if (m instanceof Gauge && m.collect) await m.collect(m);
+        } catch (err) {
+          log(LogLevel.Warning, err); // render what we have
+        }
+      })
+    );
+    return list.map((m) => m.render()).join("\n") + "\n";
+  }
+}
+
+export const metrics = new MetricsRegistry();
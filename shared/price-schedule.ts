@@ -0,0 +1,90 @@
+/**
+ * @file Manual price list schedules for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ * @description Fixed and time-of-use prices for users without a spot price
+ * contract, price data is generated from the schedule ahead of time
+ */
+
+import { DateTime } from "luxon";
+
+export interface PriceSchedulePeriod {
+  price: number; // currency per kWh
+  months?: number[] | null; // months (1-12) when period applies, all if omitted
+  weekdays?: number[] | null; // ISO weekdays (1=Monday, 7=Sunday) when period applies, all if omitted
+  startHour?: number | null; // start hour (0-23)
+  endHour?: number | null; // end hour (1-24, exclusive), wraps midnight if before startHour
+}
+
+export interface PriceSchedule {
+  timezone?: string | null; // time zone for periods (default UTC)
+  price?: number | null; // fixed price when no period matches
+  periods?: PriceSchedulePeriod[] | null; // first matching period wins
+}
+
+function periodMatch(p: PriceSchedulePeriod, local: DateTime): boolean {
+  if (p.months && p.months.length > 0 && !p.months.includes(local.month)) {
+    return false;
+  }
+  if (
+    p.weekdays &&
+    p.weekdays.length > 0 &&
+    !p.weekdays.includes(local.weekday)
+  ) {
+    return false;
+  }
+  if (
+    p.startHour === undefined ||
+    p.startHour === null ||
+    p.endHour === undefined ||
+    p.endHour === null
+  ) {
+    return true;
+  }
+  return p.startHour <= p.endHour
+    ? local.hour >= p.startHour && local.hour < p.endHour
+    : local.hour >= p.startHour || local.hour < p.endHour; // wraps midnight
+}
+
+// Price (currency per kWh) at time ts, or null if the schedule has no price
+export function schedulePrice(
+  schedule: PriceSchedule,
+  ts: number
+): number | null {
+  const local = DateTime.fromMillis(ts, {
+    zone: schedule.timezone || "UTC",
+  });
+  const period = (schedule.periods || []).find((p) => periodMatch(p, local));
+  if (period) {
+    return period.price;
+  }
+  return schedule.price !== undefined ? schedule.price : null;
+}
+
+// Validation error message, or null for a valid schedule
+export function validateSchedule(schedule: PriceSchedule): string | null {
+  if (
+    schedule.timezone &&
+    !DateTime.local().setZone(schedule.timezone).isValid
+  ) {
+    return `Invalid time zone ${schedule.timezone}`;
+  }
+  for (const p of schedule.periods || []) {
+    const hasStart = p.startHour !== undefined && p.startHour !== null;
+    const hasEnd = p.endHour !== undefined && p.endHour !== null;
+    if (hasStart !== hasEnd) {
+      return "Schedule period needs both startHour and endHour";
+    }
+    if (
+      typeof p.price !== "number" ||
+      (hasStart && (p.startHour! < 0 || p.startHour! > 23)) ||
+      (hasEnd && (p.endHour! < 1 || p.endHour! > 24)) ||
+      (p.months || []).some((m) => m < 1 || m > 12) ||
+      (p.weekdays || []).some((d) => d < 1 || d > 7)
+    ) {
+      return "Invalid schedule period";
+    }
+  }
+  return null;
+}
@@ -0,0 +1,161 @@
+/**
+ * @file Public address checks for user supplied urls
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ * @description Keeps the server and agents from fetching urls that resolve
+ * to loopback, link-local or private networks (server-side request forgery)
+ */
+
+import dns from "dns";
+import net from "net";
+
+// IPv4 ranges that are not reachable on the public internet
+const PRIVATE_IPV4: [string, number][] = [
+  ["0.0.0.0", 8], // this network
+  ["10.0.0.0", 8], // private
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local
+  ["172.16.0.0", 12], // private
+  ["192.0.0.0", 24], // protocol assignments
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved and broadcast
+];
+
+function ipv4Number(address: string): number {
+  return address
+    .split(".")
+    .reduce((n, octet) => n * 256 + parseInt(octet, 10), 0);
+}
+
+function isPublicIPv4(address: string): boolean {
+  const ip = ipv4Number(address);
+  return PRIVATE_IPV4.every(([network, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(ip / size) !== Math.floor(ipv4Number(network) / size);
+  });
+}
+
+// Expand an IPv6 address into its eight 16 bit groups
+function ipv6Groups(address: string): number[] {
+  let text = address.replace(/%.*$/, ""); // zone index
+  const v4 = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4) {
+    const n = ipv4Number(v4[1]);
+    text = text.replace(
+      v4[1],
+      `${Math.floor(n / 65536).toString(16)}:${(n % 65536).toString(16)}`
+    );
+  }
+  const [head, tail] = text.split("::");
+  const parse = (s: string | undefined) =>
+    s ? s.split(":").map((g) => parseInt(g, 16)) : [];
+  const first = parse(head);
+  const last = parse(tail);
+  return tail === undefined
+    ? first
+    : [...first, ...Array(8 - first.length - last.length).fill(0), ...last];
+}
+
+function isPublicIPv6(address: string): boolean {
+  const g = ipv6Groups(address);
+  const embeddedIPv4 = () =>
+    [g[6] >> 8, g[6] & 0xff, g[7] >> 8, g[7] & 0xff].join(".");
+  if (g.slice(0, 5).every((f) => f === 0) && (g[5] === 0 || g[5] === 0xffff)) {
+    // unspecified, loopback, IPv4-compatible and IPv4-mapped
+    return g[5] === 0xffff || g[6] !== 0 ? isPublicIPv4(embeddedIPv4()) : false;
+  }
+  if (g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every((f) => !f)) {
+    return isPublicIPv4(embeddedIPv4()); // NAT64
+  }
+  return (
+    (g[0] & 0xfe00) !== 0xfc00 && // unique local
+    (g[0] & 0xffc0) !== 0xfe80 && // link-local
+    (g[0] & 0xffc0) !== 0xfec0 && // site-local
+    (g[0] & 0xff00) !== 0xff00 // multicast
+  );
+}
+
+export function isPublicAddress(address: string): boolean {
+  switch (net.isIP(address)) {
+    case 4:
+      return isPublicIPv4(address);
+    case 6:
+      return isPublicIPv6(address);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Drop-in replacement for dns.lookup that fails for non-public addresses,
+ * used as the lookup of a request the check also covers DNS rebinding
+ */
+export function publicLookup(
+  hostname: string,
+  options: dns.LookupOneOptions,
+  callback: (
+    err: NodeJS.ErrnoException | null,
+    address: string,
+    family: number
+  ) => void
+) {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 0);
+    if (
+      addresses.length < 1 ||
+      addresses.some((a) => !isPublicAddress(a.address))
+    ) {
+      return callback(
+        new Error(`${hostname} does not resolve to a public address`),
+        "",
+        0
+      );
+    }
+    if ((options as dns.LookupOptions).all) {
+      // connecting with autoSelectFamily asks for all addresses
+      (callback as any)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+/**
+ * Verify that a calendar feed url uses https (or webcal) and resolves to
+ * public addresses only, returns the https url to fetch
+ */
+export async function calendarFeedURL(feedURL: string): Promise<string> {
+  let url: URL;
+  try {
+    url = new URL(feedURL);
+  } catch {
+    throw new Error("Invalid calendar url");
+  }
+  if (url.protocol !== "https:" && url.protocol !== "webcal:") {
+    throw new Error("Calendar url must use https or webcal");
+  }
+  if (url.username || url.password) {
+    throw new Error("Calendar url must not contain credentials");
+  }
+  // webcal:// is just a hint to open the url in a calendar application
+  const fetchURL = `https://${feedURL.replace(/^[a-z]+:\/\//i, "")}`;
+
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true });
+  } catch {
+    throw new Error(`Unable to resolve ${hostname}`);
+  }
+  if (
+    addresses.length < 1 ||
+    addresses.some((a) => !isPublicAddress(a.address))
+  ) {
+    throw new Error(`${hostname} does not resolve to a public address`);
+  }
+  return fetchURL;
+}
@@ -7,6 +7,7 @@
 
 import * as https from "https";
 import * as http from "http";
+import * as net from "net";
 import * as https_proxy_agent from "https-proxy-agent";
 
 import { mergeURL } from "./utils";
@@ -18,6 +19,7 @@ export interface Options {
   headers?: http.OutgoingHttpHeaders;
   proxy?: string;
   timeout?: number;
+  lookup?: net.LookupFunction; // custom DNS resolution
 }
 
 export interface RestClientResponse {
@@ -70,7 +72,8 @@ export class RestClient {
     method: string,
     relativeURL: string,
     data: any,
-    bearerToken?: string
+    bearerToken?: string,
+    raw?: boolean
   ): Promise<RestClientResponse> {
     const url = mergeURL(this.options.baseURL, relativeURL);
     const secure = /^https:/.test(url);
@@ -81,10 +84,13 @@ export class RestClient {
       timeout: this.options.timeout,
       headers: {
         ...this.options.headers,
-        Accept: "application/json",
+        Accept: raw ? "*/*" : "application/json",
         "Content-Type": "application/json",
       },
     };
+    if (this.options.lookup) {
+      opt.lookup = this.options.lookup;
+    }
     if (opt.headers["User-Agent"] === undefined) {
       opt.headers["User-Agent"] = DEFAULT_AGENT;
     }
@@ -111,7 +117,7 @@ export class RestClient {
         res.on("end", () => {
           if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
             try {
-              const data = JSON.parse(body);
+              const data = raw ? body : JSON.parse(body);
               resolve({
                 status: res.statusCode || 200,
                 headers: res.headers,
@@ -142,6 +148,9 @@ export class RestClient {
   public async get(url: string, bearerToken?: string) {
     return (await this.request("GET", url, undefined, bearerToken)).data;
   }
+  public async getText(url: string, bearerToken?: string): Promise<string> {
+    return (await this.request("GET", url, undefined, bearerToken, true)).data;
+  }
   public async post(url: string, data?: any, bearerToken?: string) {
     return (await this.request("POST", url, data, bearerToken)).data;
   }
@@ -23,7 +23,13 @@ import {
   GQLAccount,
   GQLLocation,
   GQLUpdateLocationInput,
+  GQLUpdateMeterDataInput,
   GQLUpdatePriceInput,
+  GQLUpdateCarbonIntensityInput,
+  GQLPriceScheduleInput,
+  GQLAgencyLease,
+  GQLAgentStatusInput,
+  GQLUpdatePriceListInput,
   GQLVehicle,
   GQLUpdateVehicleInput,
   GQLUpdateVehicleDataInput,
@@ -33,6 +39,10 @@ import {
   GQLScheduleType,
   GQLPriceList,
   GQLSchedule,
+  GQLWeeklySchedule,
+  GQLCalendarFeed,
+  GQLUpdateWeeklyScheduleInput,
+  GQLChargePlanExplanation,
 } from "./sc-schema";
 import { API_PATH } from "./smartcharge-defines";
 
@@ -44,8 +54,15 @@ import { API_PATH } from "./smartcharge-defines";
 
 export type UpdateLocationParams = Pick<GQLUpdateLocationInput, "id"> &
   Partial<GQLUpdateLocationInput>;
+export type UpdateWeeklyScheduleParams = Omit<
+  GQLUpdateWeeklyScheduleInput,
+  "id" | "timezone" | "exceptions"
+> &
+  Partial<GQLUpdateWeeklyScheduleInput>;
 export type UpdateVehicleParams = Pick<GQLUpdateVehicleInput, "id"> &
   Partial<GQLUpdateVehicleInput>;
+export type UpdatePriceListParams = Pick<GQLUpdatePriceListInput, "id"> &
+  Partial<GQLUpdatePriceListInput>;
 export type GQLLocationFragment = Pick<
   GQLLocation,
   | "id"
@@ -56,6 +73,10 @@ export type GQLLocationFragment = Pick<
   | "serviceID"
   | "providerData"
   | "priceListID"
+  | "priceListIDs"
+  | "maximumCurrent"
+  | "carbonWeight"
+  | "priceForecast"
 >;
 export const locationFragment = `
 id
@@ -69,6 +90,20 @@ geoFenceRadius
 serviceID
 providerData
 priceListID
+priceListIDs
+maximumCurrent
+carbonWeight
+priceForecast
+`;
+export const weeklyScheduleFragment = `
+id
+vehicleID
+weekdays
+departure
+timezone
+level
+exceptions
+nextDeparture
 `;
 export const vehicleFragment = `
 id
@@ -82,6 +117,10 @@ schedule {
   type
   level
   time
+  calendarUID
+}
+weeklySchedule {
+  ${weeklyScheduleFragment}
 }
 providerData
 geoLocation {
@@ -93,6 +132,7 @@ locationSettings {
   locationID
   directLevel
   goal
+  minimumCurrent
 }
 batteryLevel
 odometer
@@ -102,14 +142,19 @@ climateControl
 isConnected
 chargingTo
 estimatedTimeLeft
+maximumCurrent
+currentLimit
+calendarURL
 isDriving
 status
 smartStatus
+healthWarning
 chargePlan {
   chargeType
   chargeStart
   chargeStop
   level
+  chargeCurrent
   comment
 }
 updated`;
@@ -278,6 +323,34 @@ export class SCClient extends ApolloClient<any> {
     });
     return result.data.updateLocation;
   }
+  public async getGridPower(locationUUID: string): Promise<number | null> {
+    const query = gql`
+      query GetGridPower($id: String!) {
+        location(id: $id) {
+          gridPower
+        }
+      }
+    `;
+    const result = await this.query({
+      query,
+      variables: { id: locationUUID },
+    });
+    return result.data.location.gridPower;
+  }
+  public async updateMeterData(
+    input: GQLUpdateMeterDataInput
+  ): Promise<boolean> {
+    const mutation = gql`
+      mutation UpdateMeterData($input: UpdateMeterDataInput!) {
+        _updateMeterData(input: $input)
+      }
+    `;
+    const result = await this.mutate({
+      mutation: mutation,
+      variables: { input },
+    });
+    return result.data._updateMeterData;
+  }
   public async updatePrice(input: GQLUpdatePriceInput): Promise<boolean> {
     const mutation = gql`
       mutation UpdatePrices($input: UpdatePriceInput!) {
@@ -290,6 +363,20 @@ export class SCClient extends ApolloClient<any> {
     });
     return result.data._updatePrice;
   }
+  public async updateCarbonIntensity(
+    input: GQLUpdateCarbonIntensityInput
+  ): Promise<boolean> {
+    const mutation = gql`
+      mutation UpdateCarbonIntensity($input: UpdateCarbonIntensityInput!) {
+        _updateCarbonIntensity(input: $input)
+      }
+    `;
+    const result = await this.mutate({
+      mutation: mutation,
+      variables: { input },
+    });
+    return result.data._updateCarbonIntensity;
+  }
 
   public async getVehicle(vehicleUUID: string): Promise<GQLVehicle> {
     // TODO: should be more flexible, returning just the fields you want into an <any> response instead
@@ -314,6 +401,48 @@ export class SCClient extends ApolloClient<any> {
     const result = await this.query({ query });
     return result.data.vehicleLimit;
   }
+  public async getChargePlanExplanation(
+    vehicleUUID: string
+  ): Promise<GQLChargePlanExplanation | null> {
+    const query = gql`
+      query ChargePlanExplanation($id: ID!) {
+        chargePlanExplanation(vehicleID: $id) {
+          updated
+          level
+          maximumLevel
+          directLevel
+          goal
+          connected
+          prices
+          priceAvailable
+          forecastAvailable
+          learning
+          predictedLevel
+          predictedDisconnect
+          tripLevel
+          tripDeparture
+          departureLevel
+          departureTime
+          thresholdPrice
+          solarSurplus
+          decisions {
+            chargeType
+            comment
+            level
+            before
+            maxPrice
+            accepted
+            reason
+          }
+        }
+      }
+    `;
+    const result = await this.query({
+      query,
+      variables: { id: vehicleUUID },
+    });
+    return result.data.chargePlanExplanation;
+  }
   public async updateVehicle(input: UpdateVehicleParams): Promise<boolean> {
     const mutation = gql`
       mutation UpdateVehicle($input: UpdateVehicleInput!) {
@@ -377,6 +506,71 @@ export class SCClient extends ApolloClient<any> {
     return result.data._serviceProviders;
   }
 
+  public async registerAgency(name: string, accept: string[]): Promise<string> {
+    const mutation = gql`
+      mutation RegisterAgency($name: String!, $accept: [String!]!) {
+        _registerAgency(name: $name, accept: $accept)
+      }
+    `;
+    const result = await this.mutate({
+      mutation,
+      variables: { name, accept },
+    });
+    return result.data._registerAgency;
+  }
+  public async agencyHeartbeat(
+    agencyID: string
+  ): Promise<GQLAgencyLease | null> {
+    const mutation = gql`
+      mutation AgencyHeartbeat($agencyID: ID!) {
+        _agencyHeartbeat(agencyID: $agencyID) {
+          services {
+            ownerID
+            providerName
+            serviceID
+            serviceData
+          }
+          globals
+        }
+      }
+    `;
+    const result = await this.mutate({
+      mutation,
+      variables: { agencyID },
+    });
+    return result.data._agencyHeartbeat;
+  }
+  public async releaseAgency(agencyID: string): Promise<boolean> {
+    const mutation = gql`
+      mutation ReleaseAgency($agencyID: ID!) {
+        _releaseAgency(agencyID: $agencyID)
+      }
+    `;
+    const result = await this.mutate({
+      mutation,
+      variables: { agencyID },
+    });
+    return result.data._releaseAgency;
+  }
+  public async updateAgentStatus(
+    agency: string,
+    input: GQLAgentStatusInput[]
+  ): Promise<boolean> {
+    const mutation = gql`
+      mutation UpdateAgentStatus(
+        $agency: String!
+        $input: [AgentStatusInput!]!
+      ) {
+        _updateAgentStatus(agency: $agency, input: $input)
+      }
+    `;
+    const result = await this.mutate({
+      mutation,
+      variables: { agency, input },
+    });
+    return result.data._updateAgentStatus;
+  }
+
   public async providerQuery(name: string, input: any): Promise<any> {
     const query = gql`
       query ProviderQuery($name: String!, $input: JSONObject!) {
@@ -419,7 +613,15 @@ export class SCClient extends ApolloClient<any> {
           serviceID: $serviceID
           action: $action
           data: $data
-        )
+        ) {
+          actionID
+          serviceID
+          providerName
+          action
+          data
+          status
+          retries
+        }
       }
     `;
 
@@ -446,6 +648,30 @@ export class SCClient extends ApolloClient<any> {
     );
   }
 
+  public async getPendingActions(
+    providerName: string,
+    serviceID: string | undefined
+  ): Promise<GQLAction[]> {
+    const query = gql`
+      query PendingActions($providerName: String!, $serviceID: ID) {
+        _pendingActions(providerName: $providerName, serviceID: $serviceID) {
+          actionID
+          serviceID
+          providerName
+          action
+          data
+          status
+          retries
+        }
+      }
+    `;
+    const result = await this.query({
+      query,
+      variables: { providerName, serviceID },
+    });
+    return result.data._pendingActions;
+  }
+
   public subscribeActions(
     providerName: string | undefined,
     serviceID: string | undefined,
@@ -459,6 +685,8 @@ export class SCClient extends ApolloClient<any> {
           providerName
           action
           data
+          status
+          retries
         }
       }
     `;
@@ -547,7 +775,8 @@ export class SCClient extends ApolloClient<any> {
     vehicleID: string,
     type: GQLScheduleType,
     level: number | null,
-    time: Date | null
+    time: Date | null,
+    distance?: number | null
   ): Promise<GQLSchedule[]> {
     const mutation = gql`
       mutation UpdateSchedule(
@@ -556,6 +785,7 @@ export class SCClient extends ApolloClient<any> {
         $type: ScheduleType!
         $time: DateTime
         $level: Int
+        $distance: Float
       ) {
         updateSchedule(
           id: $id
@@ -563,6 +793,7 @@ export class SCClient extends ApolloClient<any> {
           type: $type
           time: $time
           level: $level
+          distance: $distance
         ) {
           id
           vehicleID
@@ -574,11 +805,90 @@ export class SCClient extends ApolloClient<any> {
     `;
     const result = await this.mutate({
       mutation: mutation,
-      variables: { id, vehicleID, type, time, level },
+      variables: { id, vehicleID, type, time, level, distance },
     });
     return result.data.updateSchedule;
   }
 
+  public async removeWeeklySchedule(
+    id: number,
+    vehicleID: string
+  ): Promise<void> {
+    const mutation = gql`
+      mutation RemoveWeeklySchedule($id: Int!, $vehicleID: ID!) {
+        removeWeeklySchedule(id: $id, vehicleID: $vehicleID)
+      }
+    `;
+    await this.mutate({
+      mutation: mutation,
+      variables: { id, vehicleID },
+    });
+  }
+  public async updateWeeklySchedule(
+    input: UpdateWeeklyScheduleParams
+  ): Promise<GQLWeeklySchedule[]> {
+    const mutation = gql`
+      mutation UpdateWeeklySchedule($input: UpdateWeeklyScheduleInput!) {
+        updateWeeklySchedule(input: $input) { ${weeklyScheduleFragment} }
+      }
+    `;
+    const result = await this.mutate({
+      mutation: mutation,
+      variables: { input },
+    });
+    return result.data.updateWeeklySchedule;
+  }
+
+  public async importCalendar(
+    vehicleID: string,
+    ics: string
+  ): Promise<GQLSchedule[]> {
+    const mutation = gql`
+      mutation ImportCalendar($vehicleID: ID!, $ics: String!) {
+        importCalendar(vehicleID: $vehicleID, ics: $ics) {
+          id
+          vehicleID
+          type
+          time
+          level
+          calendarUID
+        }
+      }
+    `;
+    const result = await this.mutate({
+      mutation: mutation,
+      variables: { vehicleID, ics },
+    });
+    return result.data.importCalendar;
+  }
+  public async getCalendarFeeds(): Promise<GQLCalendarFeed[]> {
+    const query = gql`
+      query CalendarFeeds {
+        _calendarFeeds {
+          vehicleID
+          url
+        }
+      }
+    `;
+    const result = await this.query({ query });
+    return result.data._calendarFeeds;
+  }
+  public async serviceImportCalendar(
+    vehicleID: string,
+    ics: string
+  ): Promise<boolean> {
+    const mutation = gql`
+      mutation ServiceImportCalendar($vehicleID: ID!, $ics: String!) {
+        _importCalendar(vehicleID: $vehicleID, ics: $ics)
+      }
+    `;
+    const result = await this.mutate({
+      mutation: mutation,
+      variables: { vehicleID, ics },
+    });
+    return result.data._importCalendar;
+  }
+
   public async getPriceList(listUUID: string): Promise<GQLPriceList> {
     const query = gql`
       query GetPriceList($id: String!) {
@@ -587,6 +897,7 @@ export class SCClient extends ApolloClient<any> {
           ownerID
           name
           isPublic
+          interval
         }
       }
     `;
@@ -604,6 +915,7 @@ export class SCClient extends ApolloClient<any> {
           ownerID
           name
           isPublic
+          interval
         }
       }
     `;
@@ -614,15 +926,27 @@ export class SCClient extends ApolloClient<any> {
   public async newPriceList(
     name: string,
     isPublic?: boolean,
-    id?: string
+    id?: string,
+    interval?: number
   ): Promise<GQLPriceList> {
     const mutation = gql`
-      mutation NewPriceList($name: String!, $isPublic: Boolean, $id: ID) {
-        newPriceList(name: $name, isPublic: $isPublic, id: $id) {
+      mutation NewPriceList(
+        $name: String!
+        $isPublic: Boolean
+        $id: ID
+        $interval: Int
+      ) {
+        newPriceList(
+          name: $name
+          isPublic: $isPublic
+          id: $id
+          interval: $interval
+        ) {
           id
           ownerID
           name
           isPublic
+          interval
         }
       }
     `;
@@ -632,8 +956,61 @@ export class SCClient extends ApolloClient<any> {
         name,
         isPublic,
         id,
+        interval,
       },
     });
     return result.data.newPriceList;
   }
+  public async updatePriceList(
+    input: UpdatePriceListParams
+  ): Promise<GQLPriceList> {
+    const mutation = gql`
+      mutation UpdatePriceList($input: UpdatePriceListInput!) {
+        updatePriceList(input: $input) {
+          id
+          ownerID
+          name
+          isPublic
+          interval
+        }
+      }
+    `;
+    const result = await this.mutate({
+      mutation,
+      variables: { input },
+    });
+    return result.data.updatePriceList;
+  }
+  public async updatePriceSchedule(
+    id: string,
+    schedule: GQLPriceScheduleInput | null
+  ): Promise<GQLPriceList> {
+    const mutation = gql`
+      mutation UpdatePriceSchedule($id: ID!, $schedule: PriceScheduleInput) {
+        updatePriceSchedule(id: $id, schedule: $schedule) {
+          id
+          ownerID
+          name
+          isPublic
+          interval
+          schedule {
+            timezone
+            price
+            periods {
+              price
+              months
+              weekdays
+              startHour
+              endHour
+            }
+          }
+        }
+      }
+    `;
+    const result = await this.mutate({
+      mutation,
+      variables: { id, schedule },
+    });
+    return result.data.updatePriceSchedule;
+  }
 }
@@ -19,10 +19,36 @@ export interface GQLQuery {
   locations: Array<GQLLocation>;
   location: GQLLocation;
   providerQuery: GQLJSONObject;
+  
+  /**
+   * Actions performed on a vehicle, newest first
+   */
+  actions: Array<GQLAction>;
+  
+  /**
+   * Health of the agent jobs polling your services
+   */
+  agentStatus: Array<GQLAgentStatus>;
   _serviceProviders: Array<GQLServiceProvider>;
+  
+  /**
+   * Actions not yet done, replayed by agents when subscribing
+   */
+  _pendingActions: Array<GQLAction>;
+  _calendarFeeds: Array<GQLCalendarFeed>;
   chartData: GQLChartData;
   vehicles: Array<GQLVehicle>;
   vehicle: GQLVehicle;
+  
+  /**
+   * decisions behind the current charge plan
+   */
+  chargePlanExplanation: GQLChargePlanExplanation | null;
+  
+  /**
+   * charge plans made in a period compared with actual charging
+   */
+  chargePlanHistory: Array<GQLChargePlanHistory>;
   vehicleLimit: number | null;
   test: GQLResolverTest;
 }
@@ -38,6 +64,62 @@ export interface GQLPriceList {
   ownerID: string;
   name: string;
   isPublic: boolean;
+  
+  /**
+   * Minutes between price points
+   */
+  interval: number;
+  
+  /**
+   * Manual price schedule generating the prices
+   */
+  schedule: GQLPriceSchedule | null;
+}
+
+export interface GQLPriceSchedule {
+  
+  /**
+   * Time zone for periods (default UTC)
+   */
+  timezone: string | null;
+  
+  /**
+   * Fixed price in currency per kWh when no period matches
+   */
+  price: number | null;
+  
+  /**
+   * Time-of-use and seasonal periods, the first matching period wins
+   */
+  periods: Array<GQLPriceSchedulePeriod> | null;
+}
+
+export interface GQLPriceSchedulePeriod {
+  
+  /**
+   * Price in currency per kWh
+   */
+  price: number;
+  
+  /**
+   * Months (1-12) when period applies, all if omitted
+   */
+  months: Array<number> | null;
+  
+  /**
+   * ISO weekdays (1=Monday, 7=Sunday) when period applies, all if omitted
+   */
+  weekdays: Array<number> | null;
+  
+  /**
+   * Start hour (0-23) of time-of-use window
+   */
+  startHour: number | null;
+  
+  /**
+   * End hour (1-24, exclusive) of time-of-use window, wraps midnight if before startHour
+   */
+  endHour: number | null;
 }
 
 export interface GQLLocation {
@@ -54,6 +136,33 @@ export interface GQLLocation {
   providerData: GQLJSONObject | null;
   priceListID: string | null;
   priceList: GQLPriceList | null;
+  
+  /**
+   * Price lists in priority order, fallback lists fill gaps in the primary list
+   */
+  priceListIDs: Array<string>;
+  priceLists: Array<GQLPriceList>;
+  tariff: GQLTariff | null;
+  
+  /**
+   * Main fuse rating (A) shared by all vehicles charging at the location
+   */
+  maximumCurrent: number | null;
+  
+  /**
+   * Charge planning weight between cost (0) and carbon intensity (100)
+   */
+  carbonWeight: number;
+  
+  /**
+   * Plan with forecasted prices beyond the published prices
+   */
+  priceForecast: boolean;
+  
+  /**
+   * Average power at grid connection (W), positive import and negative export
+   */
+  gridPower: number | null;
 }
 
 export interface GQLGeoLocation {
@@ -66,6 +175,136 @@ export interface GQLGeoLocation {
  */
 export type GQLJSONObject = any;
 
+export interface GQLTariff {
+  
+  /**
+   * Time zone for time-of-use charges (default UTC)
+   */
+  timezone: string | null;
+  
+  /**
+   * Fixed fees in currency per kWh
+   */
+  fixedFee: number | null;
+  
+  /**
+   * Energy tax in currency per kWh
+   */
+  energyTax: number | null;
+  
+  /**
+   * Network charges, every matching charge is added
+   */
+  network: Array<GQLTariffCharge> | null;
+  
+  /**
+   * VAT in percent, applied on top of everything
+   */
+  vat: number | null;
+}
+
+export interface GQLTariffCharge {
+  
+  /**
+   * Charge in currency per kWh
+   */
+  price: number;
+  
+  /**
+   * Months (1-12) when charge applies, all if omitted
+   */
+  months: Array<number> | null;
+  
+  /**
+   * ISO weekdays (1=Monday, 7=Sunday) when charge applies, all if omitted
+   */
+  weekdays: Array<number> | null;
+  
+  /**
+   * Start hour (0-23) of time-of-use window
+   */
+  startHour: number | null;
+  
+  /**
+   * End hour (1-24, exclusive) of time-of-use window, wraps midnight if before startHour
+   */
+  endHour: number | null;
+}
+
+export interface GQLAction {
+  actionID: number;
+  serviceID: string;
+  providerName: string;
+  action: string;
+  data: GQLJSONObject;
+  status: GQLActionStatus;
+  
+  /**
+   * Attempts made by the agent without a result
+   */
+  retries: number;
+  created: GQLDateTime;
+  updated: GQLDateTime;
+  expires: GQLDateTime;
+}
+
+export enum GQLActionStatus {
+  Queued = 'Queued',
+  Dispatched = 'Dispatched',
+  Succeeded = 'Succeeded',
+  Failed = 'Failed',
+  Expired = 'Expired'
+}
+
+/**
+ * The javascript `Date` as string. Type represents date and time as the ISO Date string.
+ */
+export type GQLDateTime = string;
+
+export interface GQLAgentStatus {
+  serviceID: string;
+  providerName: string;
+  
+  /**
+   * Agency running the job
+   */
+  agency: string;
+  
+  /**
+   * Time of the last health report
+   */
+  reported: GQLDateTime;
+  polled: GQLDateTime | null;
+  pollError: string | null;
+  interval: number;
+  queue: number;
+  tokenValid: boolean;
+  subjects: Array<GQLAgentSubjectStatus>;
+  
+  /**
+   * Health warning if the job is stale
+   */
+  warning: string | null;
+}
+
+export interface GQLAgentSubjectStatus {
+  
+  /**
+   * Vehicle id
+   */
+  id: string;
+  
+  /**
+   * Provider specific poll state
+   */
+  pollState: string | null;
+  
+  /**
+   * Last provider error
+   */
+  pollError: string | null;
+}
+
 export interface GQLServiceProvider {
   ownerID: string;
   providerName: string;
@@ -73,6 +312,11 @@ export interface GQLServiceProvider {
   serviceData: GQLJSONObject;
 }
 
+export interface GQLCalendarFeed {
+  vehicleID: string;
+  url: string;
+}
+
 export interface GQLChartData {
   vehicleID: string;
   batteryLevel: number;
@@ -81,30 +325,41 @@ export interface GQLChartData {
   maximumLevel: number;
   locationID: string | null;
   thresholdPrice: number | null;
-  prices: Array<GQLPriceData> | null;
+  prices: Array<GQLChartPriceData> | null;
+  
+  /**
+   * Minutes between price points
+   */
+  priceInterval: number | null;
   chargePlan: Array<GQLChargePlan> | null;
   stateMap: Array<GQLStateMap>;
   eventList: Array<GQLEventList>;
 }
 
-export interface GQLPriceData {
+export interface GQLChartPriceData {
+  startAt: GQLDateTime;
   
   /**
-   * Price tariff start time
+   * Effective price including location tariff
    */
-  startAt: GQLDateTime;
+  price: number;
   
   /**
-   * Price in currency per kWh (5 decimal precision)
+   * Spot price from the price list
    */
-  price: number;
+  spotPrice: number;
+  
+  /**
+   * Price list the price came from
+   */
+  priceListID: string;
+  
+  /**
+   * Name of the price list the price came from
+   */
+  source: string;
 }
 
-/**
- * The javascript `Date` as string. Type represents date and time as the ISO Date string.
- */
-export type GQLDateTime = string;
-
 export interface GQLChargePlan {
   chargeType: GQLChargeType;
   
@@ -118,6 +373,11 @@ export interface GQLChargePlan {
    */
   chargeStop: GQLDateTime | null;
   level: number;
+  
+  /**
+   * charge current (A) or null for maximum
+   */
+  chargeCurrent: number | null;
   comment: string;
 }
 
@@ -129,7 +389,8 @@ export enum GQLChargeType {
   Trip = 'Trip',
   Routine = 'Routine',
   Prefered = 'Prefered',
-  Fill = 'Fill'
+  Fill = 'Fill',
+  Solar = 'Solar'
 }
 
 export interface GQLStateMap {
@@ -143,6 +404,11 @@ export interface GQLStateMap {
   chargedEnergy: number;
   chargeCost: number;
   chargeCostSaved: number;
+  
+  /**
+   * Carbon emissions of charged energy (gCO2)
+   */
+  chargeCarbon: number;
 }
 
 export interface GQLEventList {
@@ -186,6 +452,21 @@ export interface GQLVehicle {
    */
   schedule: Array<GQLSchedule>;
   
+  /**
+   * consumption model from trip history
+   */
+  consumption: GQLConsumption;
+  
+  /**
+   * iCalendar feed with trips
+   */
+  calendarURL: string | null;
+  
+  /**
+   * recurring weekly departures
+   */
+  weeklySchedule: Array<GQLWeeklySchedule>;
+  
   /**
    * location settings
    */
@@ -230,10 +511,25 @@ export interface GQLVehicle {
    * estimated time to complete charge (minutes)
    */
   estimatedTimeLeft: number | null;
+  
+  /**
+   * maximum charge current (A) if current control is supported
+   */
+  maximumCurrent: number | null;
+  
+  /**
+   * charge current (A) allotted by location load balancing, 0 to pause charging
+   */
+  currentLimit: number | null;
   isDriving: boolean;
   status: string;
   smartStatus: string;
   
+  /**
+   * agent health warning, vehicle data could be stale
+   */
+  healthWarning: string | null;
+  
   /**
    * charge plan
    */
@@ -247,6 +543,11 @@ export interface GQLSchedule {
   type: GQLScheduleType;
   level: number | null;
   time: GQLDateTime | null;
+  
+  /**
+   * event uid if imported from a calendar
+   */
+  calendarUID: string | null;
 }
 
 export enum GQLScheduleType {
@@ -257,84 +558,507 @@ export enum GQLScheduleType {
   Trip = 'Trip'
 }
 
-export interface GQLVehicleLocationSetting {
+export interface GQLConsumption {
   
   /**
-   * location id
+   * trips in the consumption model
    */
-  locationID: string;
+  trips: number;
   
   /**
-   * Minimum battery level to reach directly (%)
+   * battery level used per km at current outside temperature (%)
    */
-  directLevel: number;
-  goal: string;
-}
-
-export interface GQLResolverTest {
-  isFieldResolverWorking: boolean;
-}
-
-export interface GQLMutation {
-  loginWithPassword: GQLAccount;
-  loginWithIDToken: GQLAccount;
-  newPriceList: GQLPriceList;
-  updatePriceList: GQLPriceList;
-  updateLocation: GQLLocation;
-  removeLocation: boolean;
-  providerMutate: GQLJSONObject;
-  performAction: GQLJSONObject;
-  _updateVehicleData: boolean;
-  _vehicleDebug: boolean;
-  _chargeCalibration: number | null;
-  _updatePrice: boolean;
-  removeVehicle: boolean;
-  updateVehicle: GQLVehicle;
-  removeSchedule: boolean;
-  updateSchedule: Array<GQLSchedule>;
-}
-
-export interface GQLUpdatePriceListInput {
-  id: string;
-  name: string;
-  isPublic: boolean;
-}
-
-export interface GQLUpdateLocationInput {
-  id: string;
-  name: string | null;
-  geoLocation: GQLGeoLocationInput | null;
+  levelPerKm: number;
   
   /**
-   * Radius in meters
+   * energy used per km at current outside temperature (Wh)
    */
-  geoFenceRadius: number | null;
-  priceListID: string | null;
-  serviceID: string | null;
-  providerData: GQLJSONObject | null;
-}
-
-export interface GQLGeoLocationInput {
-  latitude: number;
-  longitude: number;
+  whPerKm: number | null;
 }
 
-export interface GQLUpdateVehicleDataInput {
-  id: string;
-  geoLocation: GQLGeoLocationInput;
+export interface GQLWeeklySchedule {
+  id: number;
+  vehicleID: string;
   
   /**
-   * battery level (%)
+   * ISO weekdays (1=Monday, 7=Sunday) with a departure
    */
-  batteryLevel: number;
+  weekdays: Array<number>;
   
   /**
-   * odometer (meters)
+   * local departure time (HH:mm)
    */
-  odometer: number;
+  departure: string;
+  timezone: string;
   
   /**
-   * outside temperature (celcius)
+   * battery level needed at departure (%)
+   */
+  level: number;
+  
+  /**
+   * dates (yyyy-MM-dd) without departure, e.g. holidays
+   */
+  exceptions: Array<string>;
+  
+  /**
+   * next departure
+   */
+  nextDeparture: GQLDateTime | null;
+}
+
+export interface GQLVehicleLocationSetting {
+  
+  /**
+   * location id
+   */
+  locationID: string;
+  
+  /**
+   * Minimum battery level to reach directly (%)
+   */
+  directLevel: number;
+  goal: string;
+  
+  /**
+   * Lowest charge current (A) when spreading a charge over cheap hours, or null to always charge at maximum current
+   */
+  minimumCurrent: number | null;
+}
+
+export interface GQLChargePlanExplanation {
+  
+  /**
+   * time the charge plan was refreshed
+   */
+  updated: GQLDateTime;
+  
+  /**
+   * battery level (%)
+   */
+  level: number;
+  
+  /**
+   * maximum normal charge level (%)
+   */
+  maximumLevel: number;
+  
+  /**
+   * level to reach directly (%)
+   */
+  directLevel: number;
+  goal: string;
+  connected: boolean;
+  
+  /**
+   * upcoming price intervals
+   */
+  prices: number;
+  
+  /**
+   * prices are known until
+   */
+  priceAvailable: GQLDateTime | null;
+  
+  /**
+   * prices are forecasted until
+   */
+  forecastAvailable: GQLDateTime | null;
+  
+  /**
+   * not enough history for smart charging
+   */
+  learning: boolean;
+  
+  /**
+   * predicted level needed before disconnect (%)
+   */
+  predictedLevel: number | null;
+  
+  /**
+   * predicted disconnect time
+   */
+  predictedDisconnect: GQLDateTime | null;
+  
+  /**
+   * level needed for the next trip (%)
+   */
+  tripLevel: number | null;
+  
+  /**
+   * next trip departure
+   */
+  tripDeparture: GQLDateTime | null;
+  
+  /**
+   * level needed for the next weekly departure (%)
+   */
+  departureLevel: number | null;
+  
+  /**
+   * next weekly departure
+   */
+  departureTime: GQLDateTime | null;
+  
+  /**
+   * low price fill threshold (per kWh)
+   */
+  thresholdPrice: number | null;
+  
+  /**
+   * exported solar power (W) or null without power meter
+   */
+  solarSurplus: number | null;
+  decisions: Array<GQLChargePlanDecision>;
+}
+
+export interface GQLChargePlanDecision {
+  chargeType: GQLChargeType;
+  comment: string;
+  
+  /**
+   * requested battery level (%)
+   */
+  level: number;
+  
+  /**
+   * requested deadline or null for none
+   */
+  before: GQLDateTime | null;
+  
+  /**
+   * highest price accepted (per kWh)
+   */
+  maxPrice: number | null;
+  
+  /**
+   * added to the charge plan
+   */
+  accepted: boolean;
+  reason: string;
+}
+
+export interface GQLChargePlanHistory {
+  
+  /**
+   * time the charge plan was made
+   */
+  start: GQLDateTime;
+  
+  /**
+   * time the charge plan was replaced (or end of period)
+   */
+  end: GQLDateTime;
+  
+  /**
+   * what caused the charge plan refresh
+   */
+  trigger: string;
+  chargePlan: Array<GQLChargePlan> | null;
+  
+  /**
+   * minutes of charging planned
+   */
+  plannedMinutes: number;
+  
+  /**
+   * minutes of actual charging
+   */
+  chargedMinutes: number;
+  
+  /**
+   * highest level planned (%)
+   */
+  plannedLevel: number | null;
+  
+  /**
+   * highest level reached while charging (%)
+   */
+  reachedLevel: number | null;
+}
+
+export interface GQLResolverTest {
+  isFieldResolverWorking: boolean;
+}
+
+export interface GQLMutation {
+  loginWithPassword: GQLAccount;
+  loginWithIDToken: GQLAccount;
+  newPriceList: GQLPriceList;
+  updatePriceList: GQLPriceList;
+  updatePriceSchedule: GQLPriceList;
+  updateLocation: GQLLocation;
+  removeLocation: boolean;
+  providerMutate: GQLJSONObject;
+  performAction: GQLAction;
+  
+  /**
+   * Change the server log level at runtime, returns the previous level
+   */
+  _setLogLevel: GQLLogLevel;
+  _registerAgency: string;
+  
+  /**
+   * Renew and rebalance the job leases of an agency, null if the agency expired
+   */
+  _agencyHeartbeat: GQLAgencyLease | null;
+  _releaseAgency: boolean;
+  _updateAgentStatus: boolean;
+  _updateVehicleData: boolean;
+  _vehicleDebug: boolean;
+  _chargeCalibration: number | null;
+  _updatePrice: boolean;
+  _updateCarbonIntensity: boolean;
+  _updateMeterData: boolean;
+  _importCalendar: boolean;
+  removeVehicle: boolean;
+  updateVehicle: GQLVehicle;
+  removeSchedule: boolean;
+  updateSchedule: Array<GQLSchedule>;
+  removeWeeklySchedule: boolean;
+  updateWeeklySchedule: Array<GQLWeeklySchedule>;
+  importCalendar: Array<GQLSchedule>;
+}
+
+export interface GQLUpdatePriceListInput {
+  id: string;
+  name: string | null;
+  isPublic: boolean | null;
+  
+  /**
+   * Minutes between price points
+   */
+  interval: number | null;
+}
+
+export interface GQLPriceScheduleInput {
+  
+  /**
+   * Time zone for periods (default UTC)
+   */
+  timezone: string | null;
+  
+  /**
+   * Fixed price in currency per kWh when no period matches
+   */
+  price: number | null;
+  
+  /**
+   * Time-of-use and seasonal periods, the first matching period wins
+   */
+  periods: Array<GQLPriceSchedulePeriodInput> | null;
+}
+
+export interface GQLPriceSchedulePeriodInput {
+  
+  /**
+   * Price in currency per kWh
+   */
+  price: number;
+  
+  /**
+   * Months (1-12) when period applies, all if omitted
+   */
+  months: Array<number> | null;
+  
+  /**
+   * ISO weekdays (1=Monday, 7=Sunday) when period applies, all if omitted
+   */
+  weekdays: Array<number> | null;
+  
+  /**
+   * Start hour (0-23) of time-of-use window
+   */
+  startHour: number | null;
+  
+  /**
+   * End hour (1-24, exclusive) of time-of-use window, wraps midnight if before startHour
+   */
+  endHour: number | null;
+}
+
+export interface GQLUpdateLocationInput {
+  id: string;
+  name: string | null;
+  geoLocation: GQLGeoLocationInput | null;
+  
+  /**
+   * Radius in meters
+   */
+  geoFenceRadius: number | null;
+  priceListID: string | null;
+  
+  /**
+   * Price lists in priority order, replaces priceListID
+   */
+  priceListIDs: Array<string> | null;
+  serviceID: string | null;
+  providerData: GQLJSONObject | null;
+  tariff: GQLTariffInput | null;
+  
+  /**
+   * Main fuse rating (A) shared by all vehicles charging at the location
+   */
+  maximumCurrent: number | null;
+  
+  /**
+   * Charge planning weight between cost (0) and carbon intensity (100)
+   */
+  carbonWeight: number | null;
+  
+  /**
+   * Plan with forecasted prices beyond the published prices
+   */
+  priceForecast: boolean | null;
+}
+
+export interface GQLGeoLocationInput {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GQLTariffInput {
+  
+  /**
+   * Time zone for time-of-use charges (default UTC)
+   */
+  timezone: string | null;
+  
+  /**
+   * Fixed fees in currency per kWh
+   */
+  fixedFee: number | null;
+  
+  /**
+   * Energy tax in currency per kWh
+   */
+  energyTax: number | null;
+  
+  /**
+   * Network charges, every matching charge is added
+   */
+  network: Array<GQLTariffChargeInput> | null;
+  
+  /**
+   * VAT in percent, applied on top of everything
+   */
+  vat: number | null;
+}
+
+export interface GQLTariffChargeInput {
+  
+  /**
+   * Charge in currency per kWh
+   */
+  price: number;
+  
+  /**
+   * Months (1-12) when charge applies, all if omitted
+   */
+  months: Array<number> | null;
+  
+  /**
+   * ISO weekdays (1=Monday, 7=Sunday) when charge applies, all if omitted
+   */
+  weekdays: Array<number> | null;
+  
+  /**
+   * Start hour (0-23) of time-of-use window
+   */
+  startHour: number | null;
+  
+  /**
+   * End hour (1-24, exclusive) of time-of-use window, wraps midnight if before startHour
+   */
+  endHour: number | null;
+}
+
+export enum GQLLogLevel {
+  Silent = 'Silent',
+  Error = 'Error',
+  Warning = 'Warning',
+  Info = 'Info',
+  Debug = 'Debug',
+  Trace = 'Trace'
+}
+
+export interface GQLAgencyLease {
+  
+  /**
+   * Service jobs leased by the agency
+   */
+  services: Array<GQLServiceProvider>;
+  
+  /**
+   * Provider agents with global work leased by the agency
+   */
+  globals: Array<string>;
+}
+
+export interface GQLAgentStatusInput {
+  serviceID: string;
+  
+  /**
+   * Last successful poll
+   */
+  polled: GQLDateTime | null;
+  
+  /**
+   * Error of the last failed poll
+   */
+  pollError: string | null;
+  
+  /**
+   * Seconds between polls
+   */
+  interval: number;
+  
+  /**
+   * Number of queued actions
+   */
+  queue: number;
+  
+  /**
+   * Is the provider authorization valid
+   */
+  tokenValid: boolean;
+  subjects: Array<GQLAgentSubjectStatusInput>;
+}
+
+export interface GQLAgentSubjectStatusInput {
+  
+  /**
+   * Vehicle id
+   */
+  id: string;
+  
+  /**
+   * Provider specific poll state
+   */
+  pollState: string | null;
+  
+  /**
+   * Last provider error
+   */
+  pollError: string | null;
+}
+
+export interface GQLUpdateVehicleDataInput {
+  id: string;
+  geoLocation: GQLGeoLocationInput;
+  
+  /**
+   * battery level (%)
+   */
+  batteryLevel: number;
+  
+  /**
+   * odometer (meters)
+   */
+  odometer: number;
+  
+  /**
+   * outside temperature (celcius)
    */
   outsideTemperature: number | null;
   
@@ -373,6 +1097,11 @@ export interface GQLUpdateVehicleDataInput {
    * charge added (kWh)
    */
   energyAdded: number | null;
+  
+  /**
+   * maximum charge current (A) if current control is supported
+   */
+  maximumCurrent: number | null;
 }
 
 export enum GQLChargeConnection {
@@ -400,33 +1129,109 @@ export interface GQLPriceDataInput {
   startAt: GQLDateTime;
   
   /**
-   * Price in currency per kWh (5 decimal precision)
+   * Price in currency per kWh (5 decimal precision)
+   */
+  price: number;
+}
+
+export interface GQLUpdateCarbonIntensityInput {
+  priceListID: string;
+  intensities: Array<GQLCarbonIntensityDataInput>;
+}
+
+export interface GQLCarbonIntensityDataInput {
+  
+  /**
+   * Interval start time
+   */
+  startAt: GQLDateTime;
+  
+  /**
+   * Grid carbon intensity in gCO2/kWh
+   */
+  intensity: number;
+}
+
+export interface GQLUpdateMeterDataInput {
+  locationID: string;
+  
+  /**
+   * Power at grid connection (W), positive import and negative export
+   */
+  gridPower: number;
+  
+  /**
+   * Time of meter reading (default now)
+   */
+  measuredAt: GQLDateTime | null;
+}
+
+export interface GQLUpdateVehicleInput {
+  id: string;
+  name: string | null;
+  maximumLevel: number | null;
+  locationSettings: Array<GQLVehicleLocationSettingInput> | null;
+  status: string | null;
+  serviceID: string | null;
+  providerData: GQLJSONObject | null;
+  
+  /**
+   * iCalendar feed with trips
+   */
+  calendarURL: string | null;
+}
+
+export interface GQLVehicleLocationSettingInput {
+  
+  /**
+   * location id
+   */
+  locationID: string;
+  
+  /**
+   * Minimum battery level to reach directly (%)
+   */
+  directLevel: number;
+  goal: string;
+  
+  /**
+   * Lowest charge current (A) when spreading a charge over cheap hours, or null to always charge at maximum current
+   */
+  minimumCurrent: number | null;
+}
+
+export interface GQLUpdateWeeklyScheduleInput {
+  
+  /**
+   * weekly schedule id, omit to add a new schedule
+   */
+  id: number | null;
+  vehicleID: string;
+  
+  /**
+   * ISO weekdays (1=Monday, 7=Sunday) with a departure
+   */
+  weekdays: Array<number>;
+  
+  /**
+   * local departure time (HH:mm)
+   */
+  departure: string;
+  
+  /**
+   * time zone of departure time (default UTC)
    */
-  price: number;
-}
-
-export interface GQLUpdateVehicleInput {
-  id: string;
-  name: string | null;
-  maximumLevel: number | null;
-  locationSettings: Array<GQLVehicleLocationSettingInput> | null;
-  status: string | null;
-  serviceID: string | null;
-  providerData: GQLJSONObject | null;
-}
-
-export interface GQLVehicleLocationSettingInput {
+  timezone: string | null;
   
   /**
-   * location id
+   * battery level needed at departure (%)
    */
-  locationID: string;
+  level: number;
   
   /**
-   * Minimum battery level to reach directly (%)
+   * dates (yyyy-MM-dd) without departure, e.g. holidays
    */
-  directLevel: number;
-  goal: string;
+  exceptions: Array<string> | null;
 }
 
 export interface GQLSubscription {
@@ -435,14 +1240,6 @@ export interface GQLSubscription {
   vehicleSubscription: GQLVehicle;
 }
 
-export interface GQLAction {
-  actionID: number;
-  serviceID: string;
-  providerName: string;
-  action: string;
-  data: GQLJSONObject;
-}
-
 /*********************************
  *                               *
  *         TYPE RESOLVERS        *
@@ -457,23 +1254,36 @@ export interface GQLResolver {
   Query?: GQLQueryTypeResolver;
   Account?: GQLAccountTypeResolver;
   PriceList?: GQLPriceListTypeResolver;
+  PriceSchedule?: GQLPriceScheduleTypeResolver;
+  PriceSchedulePeriod?: GQLPriceSchedulePeriodTypeResolver;
   Location?: GQLLocationTypeResolver;
   GeoLocation?: GQLGeoLocationTypeResolver;
   JSONObject?: GraphQLScalarType;
+  Tariff?: GQLTariffTypeResolver;
+  TariffCharge?: GQLTariffChargeTypeResolver;
+  Action?: GQLActionTypeResolver;
+  DateTime?: GraphQLScalarType;
+  AgentStatus?: GQLAgentStatusTypeResolver;
+  AgentSubjectStatus?: GQLAgentSubjectStatusTypeResolver;
   ServiceProvider?: GQLServiceProviderTypeResolver;
+  CalendarFeed?: GQLCalendarFeedTypeResolver;
   ChartData?: GQLChartDataTypeResolver;
-  PriceData?: GQLPriceDataTypeResolver;
-  DateTime?: GraphQLScalarType;
+  ChartPriceData?: GQLChartPriceDataTypeResolver;
   ChargePlan?: GQLChargePlanTypeResolver;
   StateMap?: GQLStateMapTypeResolver;
   EventList?: GQLEventListTypeResolver;
   Vehicle?: GQLVehicleTypeResolver;
   Schedule?: GQLScheduleTypeResolver;
+  Consumption?: GQLConsumptionTypeResolver;
+  WeeklySchedule?: GQLWeeklyScheduleTypeResolver;
   VehicleLocationSetting?: GQLVehicleLocationSettingTypeResolver;
+  ChargePlanExplanation?: GQLChargePlanExplanationTypeResolver;
+  ChargePlanDecision?: GQLChargePlanDecisionTypeResolver;
+  ChargePlanHistory?: GQLChargePlanHistoryTypeResolver;
   ResolverTest?: GQLResolverTestTypeResolver;
   Mutation?: GQLMutationTypeResolver;
+  AgencyLease?: GQLAgencyLeaseTypeResolver;
   Subscription?: GQLSubscriptionTypeResolver;
-  Action?: GQLActionTypeResolver;
 }
 export interface GQLQueryTypeResolver<TParent = undefined> {
   account?: QueryToAccountResolver<TParent>;
@@ -482,10 +1292,16 @@ export interface GQLQueryTypeResolver<TParent = undefined> {
   locations?: QueryToLocationsResolver<TParent>;
   location?: QueryToLocationResolver<TParent>;
   providerQuery?: QueryToProviderQueryResolver<TParent>;
+  actions?: QueryToActionsResolver<TParent>;
+  agentStatus?: QueryToAgentStatusResolver<TParent>;
   _serviceProviders?: QueryTo_serviceProvidersResolver<TParent>;
+  _pendingActions?: QueryTo_pendingActionsResolver<TParent>;
+  _calendarFeeds?: QueryTo_calendarFeedsResolver<TParent>;
   chartData?: QueryToChartDataResolver<TParent>;
   vehicles?: QueryToVehiclesResolver<TParent>;
   vehicle?: QueryToVehicleResolver<TParent>;
+  chargePlanExplanation?: QueryToChargePlanExplanationResolver<TParent>;
+  chargePlanHistory?: QueryToChargePlanHistoryResolver<TParent>;
   vehicleLimit?: QueryToVehicleLimitResolver<TParent>;
   test?: QueryToTestResolver<TParent>;
 }
@@ -524,6 +1340,21 @@ export interface QueryToProviderQueryResolver<TParent = undefined, TResult = GQL
   (parent: TParent, args: QueryToProviderQueryArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface QueryToActionsArgs {
+  limit?: number;
+  vehicleID: string;
+}
+export interface QueryToActionsResolver<TParent = undefined, TResult = Array<GQLAction>> {
+  (parent: TParent, args: QueryToActionsArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface QueryToAgentStatusArgs {
+  serviceID?: string;
+}
+export interface QueryToAgentStatusResolver<TParent = undefined, TResult = Array<GQLAgentStatus>> {
+  (parent: TParent, args: QueryToAgentStatusArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface QueryTo_serviceProvidersArgs {
   accept: Array<string>;
 }
@@ -531,6 +1362,18 @@ export interface QueryTo_serviceProvidersResolver<TParent = undefined, TResult =
   (parent: TParent, args: QueryTo_serviceProvidersArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface QueryTo_pendingActionsArgs {
+  serviceID?: string;
+  providerName: string;
+}
+export interface QueryTo_pendingActionsResolver<TParent = undefined, TResult = Array<GQLAction>> {
+  (parent: TParent, args: QueryTo_pendingActionsArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface QueryTo_calendarFeedsResolver<TParent = undefined, TResult = Array<GQLCalendarFeed>> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface QueryToChartDataArgs {
   locationID?: string;
   period?: number;
@@ -552,6 +1395,22 @@ export interface QueryToVehicleResolver<TParent = undefined, TResult = GQLVehicl
   (parent: TParent, args: QueryToVehicleArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface QueryToChargePlanExplanationArgs {
+  vehicleID: string;
+}
+export interface QueryToChargePlanExplanationResolver<TParent = undefined, TResult = GQLChargePlanExplanation | null> {
+  (parent: TParent, args: QueryToChargePlanExplanationArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface QueryToChargePlanHistoryArgs {
+  to?: GQLDateTime;
+  from: GQLDateTime;
+  vehicleID: string;
+}
+export interface QueryToChargePlanHistoryResolver<TParent = undefined, TResult = Array<GQLChargePlanHistory>> {
+  (parent: TParent, args: QueryToChargePlanHistoryArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface QueryToVehicleLimitResolver<TParent = undefined, TResult = number | null> {
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
@@ -583,6 +1442,8 @@ export interface GQLPriceListTypeResolver<TParent = GQLPriceList> {
   ownerID?: PriceListToOwnerIDResolver<TParent>;
   name?: PriceListToNameResolver<TParent>;
   isPublic?: PriceListToIsPublicResolver<TParent>;
+  interval?: PriceListToIntervalResolver<TParent>;
+  schedule?: PriceListToScheduleResolver<TParent>;
 }
 
 export interface PriceListToIdResolver<TParent = GQLPriceList, TResult = string> {
@@ -601,6 +1462,60 @@ export interface PriceListToIsPublicResolver<TParent = GQLPriceList, TResult = b
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface PriceListToIntervalResolver<TParent = GQLPriceList, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface PriceListToScheduleResolver<TParent = GQLPriceList, TResult = GQLPriceSchedule | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface GQLPriceScheduleTypeResolver<TParent = GQLPriceSchedule> {
+  timezone?: PriceScheduleToTimezoneResolver<TParent>;
+  price?: PriceScheduleToPriceResolver<TParent>;
+  periods?: PriceScheduleToPeriodsResolver<TParent>;
+}
+
+export interface PriceScheduleToTimezoneResolver<TParent = GQLPriceSchedule, TResult = string | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface PriceScheduleToPriceResolver<TParent = GQLPriceSchedule, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface PriceScheduleToPeriodsResolver<TParent = GQLPriceSchedule, TResult = Array<GQLPriceSchedulePeriod> | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface GQLPriceSchedulePeriodTypeResolver<TParent = GQLPriceSchedulePeriod> {
+  price?: PriceSchedulePeriodToPriceResolver<TParent>;
+  months?: PriceSchedulePeriodToMonthsResolver<TParent>;
+  weekdays?: PriceSchedulePeriodToWeekdaysResolver<TParent>;
+  startHour?: PriceSchedulePeriodToStartHourResolver<TParent>;
+  endHour?: PriceSchedulePeriodToEndHourResolver<TParent>;
+}
+
+export interface PriceSchedulePeriodToPriceResolver<TParent = GQLPriceSchedulePeriod, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface PriceSchedulePeriodToMonthsResolver<TParent = GQLPriceSchedulePeriod, TResult = Array<number> | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface PriceSchedulePeriodToWeekdaysResolver<TParent = GQLPriceSchedulePeriod, TResult = Array<number> | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface PriceSchedulePeriodToStartHourResolver<TParent = GQLPriceSchedulePeriod, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface PriceSchedulePeriodToEndHourResolver<TParent = GQLPriceSchedulePeriod, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface GQLLocationTypeResolver<TParent = GQLLocation> {
   id?: LocationToIdResolver<TParent>;
   ownerID?: LocationToOwnerIDResolver<TParent>;
@@ -611,6 +1526,13 @@ export interface GQLLocationTypeResolver<TParent = GQLLocation> {
   providerData?: LocationToProviderDataResolver<TParent>;
   priceListID?: LocationToPriceListIDResolver<TParent>;
   priceList?: LocationToPriceListResolver<TParent>;
+  priceListIDs?: LocationToPriceListIDsResolver<TParent>;
+  priceLists?: LocationToPriceListsResolver<TParent>;
+  tariff?: LocationToTariffResolver<TParent>;
+  maximumCurrent?: LocationToMaximumCurrentResolver<TParent>;
+  carbonWeight?: LocationToCarbonWeightResolver<TParent>;
+  priceForecast?: LocationToPriceForecastResolver<TParent>;
+  gridPower?: LocationToGridPowerResolver<TParent>;
 }
 
 export interface LocationToIdResolver<TParent = GQLLocation, TResult = string> {
@@ -649,6 +1571,34 @@ export interface LocationToPriceListResolver<TParent = GQLLocation, TResult = GQ
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface LocationToPriceListIDsResolver<TParent = GQLLocation, TResult = Array<string>> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface LocationToPriceListsResolver<TParent = GQLLocation, TResult = Array<GQLPriceList>> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface LocationToTariffResolver<TParent = GQLLocation, TResult = GQLTariff | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface LocationToMaximumCurrentResolver<TParent = GQLLocation, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface LocationToCarbonWeightResolver<TParent = GQLLocation, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface LocationToPriceForecastResolver<TParent = GQLLocation, TResult = boolean> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface LocationToGridPowerResolver<TParent = GQLLocation, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface GQLGeoLocationTypeResolver<TParent = GQLGeoLocation> {
   latitude?: GeoLocationToLatitudeResolver<TParent>;
   longitude?: GeoLocationToLongitudeResolver<TParent>;
@@ -662,6 +1612,191 @@ export interface GeoLocationToLongitudeResolver<TParent = GQLGeoLocation, TResul
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface GQLTariffTypeResolver<TParent = GQLTariff> {
+  timezone?: TariffToTimezoneResolver<TParent>;
+  fixedFee?: TariffToFixedFeeResolver<TParent>;
+  energyTax?: TariffToEnergyTaxResolver<TParent>;
+  network?: TariffToNetworkResolver<TParent>;
+  vat?: TariffToVatResolver<TParent>;
+}
+
+export interface TariffToTimezoneResolver<TParent = GQLTariff, TResult = string | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface TariffToFixedFeeResolver<TParent = GQLTariff, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface TariffToEnergyTaxResolver<TParent = GQLTariff, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface TariffToNetworkResolver<TParent = GQLTariff, TResult = Array<GQLTariffCharge> | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface TariffToVatResolver<TParent = GQLTariff, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface GQLTariffChargeTypeResolver<TParent = GQLTariffCharge> {
+  price?: TariffChargeToPriceResolver<TParent>;
+  months?: TariffChargeToMonthsResolver<TParent>;
+  weekdays?: TariffChargeToWeekdaysResolver<TParent>;
+  startHour?: TariffChargeToStartHourResolver<TParent>;
+  endHour?: TariffChargeToEndHourResolver<TParent>;
+}
+
+export interface TariffChargeToPriceResolver<TParent = GQLTariffCharge, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface TariffChargeToMonthsResolver<TParent = GQLTariffCharge, TResult = Array<number> | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface TariffChargeToWeekdaysResolver<TParent = GQLTariffCharge, TResult = Array<number> | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface TariffChargeToStartHourResolver<TParent = GQLTariffCharge, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface TariffChargeToEndHourResolver<TParent = GQLTariffCharge, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface GQLActionTypeResolver<TParent = GQLAction> {
+  actionID?: ActionToActionIDResolver<TParent>;
+  serviceID?: ActionToServiceIDResolver<TParent>;
+  providerName?: ActionToProviderNameResolver<TParent>;
+  action?: ActionToActionResolver<TParent>;
+  data?: ActionToDataResolver<TParent>;
+  status?: ActionToStatusResolver<TParent>;
+  retries?: ActionToRetriesResolver<TParent>;
+  created?: ActionToCreatedResolver<TParent>;
+  updated?: ActionToUpdatedResolver<TParent>;
+  expires?: ActionToExpiresResolver<TParent>;
+}
+
+export interface ActionToActionIDResolver<TParent = GQLAction, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ActionToServiceIDResolver<TParent = GQLAction, TResult = string> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ActionToProviderNameResolver<TParent = GQLAction, TResult = string> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ActionToActionResolver<TParent = GQLAction, TResult = string> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ActionToDataResolver<TParent = GQLAction, TResult = GQLJSONObject> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ActionToStatusResolver<TParent = GQLAction, TResult = GQLActionStatus> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ActionToRetriesResolver<TParent = GQLAction, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ActionToCreatedResolver<TParent = GQLAction, TResult = GQLDateTime> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ActionToUpdatedResolver<TParent = GQLAction, TResult = GQLDateTime> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ActionToExpiresResolver<TParent = GQLAction, TResult = GQLDateTime> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface GQLAgentStatusTypeResolver<TParent = GQLAgentStatus> {
+  serviceID?: AgentStatusToServiceIDResolver<TParent>;
+  providerName?: AgentStatusToProviderNameResolver<TParent>;
+  agency?: AgentStatusToAgencyResolver<TParent>;
+  reported?: AgentStatusToReportedResolver<TParent>;
+  polled?: AgentStatusToPolledResolver<TParent>;
+  pollError?: AgentStatusToPollErrorResolver<TParent>;
+  interval?: AgentStatusToIntervalResolver<TParent>;
+  queue?: AgentStatusToQueueResolver<TParent>;
+  tokenValid?: AgentStatusToTokenValidResolver<TParent>;
+  subjects?: AgentStatusToSubjectsResolver<TParent>;
+  warning?: AgentStatusToWarningResolver<TParent>;
+}
+
+export interface AgentStatusToServiceIDResolver<TParent = GQLAgentStatus, TResult = string> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface AgentStatusToProviderNameResolver<TParent = GQLAgentStatus, TResult = string> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface AgentStatusToAgencyResolver<TParent = GQLAgentStatus, TResult = string> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface AgentStatusToReportedResolver<TParent = GQLAgentStatus, TResult = GQLDateTime> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface AgentStatusToPolledResolver<TParent = GQLAgentStatus, TResult = GQLDateTime | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface AgentStatusToPollErrorResolver<TParent = GQLAgentStatus, TResult = string | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface AgentStatusToIntervalResolver<TParent = GQLAgentStatus, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface AgentStatusToQueueResolver<TParent = GQLAgentStatus, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface AgentStatusToTokenValidResolver<TParent = GQLAgentStatus, TResult = boolean> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface AgentStatusToSubjectsResolver<TParent = GQLAgentStatus, TResult = Array<GQLAgentSubjectStatus>> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface AgentStatusToWarningResolver<TParent = GQLAgentStatus, TResult = string | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface GQLAgentSubjectStatusTypeResolver<TParent = GQLAgentSubjectStatus> {
+  id?: AgentSubjectStatusToIdResolver<TParent>;
+  pollState?: AgentSubjectStatusToPollStateResolver<TParent>;
+  pollError?: AgentSubjectStatusToPollErrorResolver<TParent>;
+}
+
+export interface AgentSubjectStatusToIdResolver<TParent = GQLAgentSubjectStatus, TResult = string> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface AgentSubjectStatusToPollStateResolver<TParent = GQLAgentSubjectStatus, TResult = string | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface AgentSubjectStatusToPollErrorResolver<TParent = GQLAgentSubjectStatus, TResult = string | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface GQLServiceProviderTypeResolver<TParent = GQLServiceProvider> {
   ownerID?: ServiceProviderToOwnerIDResolver<TParent>;
   providerName?: ServiceProviderToProviderNameResolver<TParent>;
@@ -685,6 +1820,19 @@ export interface ServiceProviderToServiceDataResolver<TParent = GQLServiceProvid
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface GQLCalendarFeedTypeResolver<TParent = GQLCalendarFeed> {
+  vehicleID?: CalendarFeedToVehicleIDResolver<TParent>;
+  url?: CalendarFeedToUrlResolver<TParent>;
+}
+
+export interface CalendarFeedToVehicleIDResolver<TParent = GQLCalendarFeed, TResult = string> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface CalendarFeedToUrlResolver<TParent = GQLCalendarFeed, TResult = string> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface GQLChartDataTypeResolver<TParent = GQLChartData> {
   vehicleID?: ChartDataToVehicleIDResolver<TParent>;
   batteryLevel?: ChartDataToBatteryLevelResolver<TParent>;
@@ -694,6 +1842,7 @@ export interface GQLChartDataTypeResolver<TParent = GQLChartData> {
   locationID?: ChartDataToLocationIDResolver<TParent>;
   thresholdPrice?: ChartDataToThresholdPriceResolver<TParent>;
   prices?: ChartDataToPricesResolver<TParent>;
+  priceInterval?: ChartDataToPriceIntervalResolver<TParent>;
   chargePlan?: ChartDataToChargePlanResolver<TParent>;
   stateMap?: ChartDataToStateMapResolver<TParent>;
   eventList?: ChartDataToEventListResolver<TParent>;
@@ -727,7 +1876,11 @@ export interface ChartDataToThresholdPriceResolver<TParent = GQLChartData, TResu
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
-export interface ChartDataToPricesResolver<TParent = GQLChartData, TResult = Array<GQLPriceData> | null> {
+export interface ChartDataToPricesResolver<TParent = GQLChartData, TResult = Array<GQLChartPriceData> | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChartDataToPriceIntervalResolver<TParent = GQLChartData, TResult = number | null> {
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
@@ -739,20 +1892,35 @@ export interface ChartDataToStateMapResolver<TParent = GQLChartData, TResult = A
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
-export interface ChartDataToEventListResolver<TParent = GQLChartData, TResult = Array<GQLEventList>> {
+export interface ChartDataToEventListResolver<TParent = GQLChartData, TResult = Array<GQLEventList>> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface GQLChartPriceDataTypeResolver<TParent = GQLChartPriceData> {
+  startAt?: ChartPriceDataToStartAtResolver<TParent>;
+  price?: ChartPriceDataToPriceResolver<TParent>;
+  spotPrice?: ChartPriceDataToSpotPriceResolver<TParent>;
+  priceListID?: ChartPriceDataToPriceListIDResolver<TParent>;
+  source?: ChartPriceDataToSourceResolver<TParent>;
+}
+
+export interface ChartPriceDataToStartAtResolver<TParent = GQLChartPriceData, TResult = GQLDateTime> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChartPriceDataToPriceResolver<TParent = GQLChartPriceData, TResult = number> {
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
-export interface GQLPriceDataTypeResolver<TParent = GQLPriceData> {
-  startAt?: PriceDataToStartAtResolver<TParent>;
-  price?: PriceDataToPriceResolver<TParent>;
+export interface ChartPriceDataToSpotPriceResolver<TParent = GQLChartPriceData, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
-export interface PriceDataToStartAtResolver<TParent = GQLPriceData, TResult = GQLDateTime> {
+export interface ChartPriceDataToPriceListIDResolver<TParent = GQLChartPriceData, TResult = string> {
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
-export interface PriceDataToPriceResolver<TParent = GQLPriceData, TResult = number> {
+export interface ChartPriceDataToSourceResolver<TParent = GQLChartPriceData, TResult = string> {
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
@@ -761,6 +1929,7 @@ export interface GQLChargePlanTypeResolver<TParent = GQLChargePlan> {
   chargeStart?: ChargePlanToChargeStartResolver<TParent>;
   chargeStop?: ChargePlanToChargeStopResolver<TParent>;
   level?: ChargePlanToLevelResolver<TParent>;
+  chargeCurrent?: ChargePlanToChargeCurrentResolver<TParent>;
   comment?: ChargePlanToCommentResolver<TParent>;
 }
 
@@ -780,6 +1949,10 @@ export interface ChargePlanToLevelResolver<TParent = GQLChargePlan, TResult = nu
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface ChargePlanToChargeCurrentResolver<TParent = GQLChargePlan, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface ChargePlanToCommentResolver<TParent = GQLChargePlan, TResult = string> {
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
@@ -795,6 +1968,7 @@ export interface GQLStateMapTypeResolver<TParent = GQLStateMap> {
   chargedEnergy?: StateMapToChargedEnergyResolver<TParent>;
   chargeCost?: StateMapToChargeCostResolver<TParent>;
   chargeCostSaved?: StateMapToChargeCostSavedResolver<TParent>;
+  chargeCarbon?: StateMapToChargeCarbonResolver<TParent>;
 }
 
 export interface StateMapToStartResolver<TParent = GQLStateMap, TResult = GQLDateTime> {
@@ -837,6 +2011,10 @@ export interface StateMapToChargeCostSavedResolver<TParent = GQLStateMap, TResul
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface StateMapToChargeCarbonResolver<TParent = GQLStateMap, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface GQLEventListTypeResolver<TParent = GQLEventList> {
   eventType?: EventListToEventTypeResolver<TParent>;
   start?: EventListToStartResolver<TParent>;
@@ -871,6 +2049,9 @@ export interface GQLVehicleTypeResolver<TParent = GQLVehicle> {
   locationID?: VehicleToLocationIDResolver<TParent>;
   location?: VehicleToLocationResolver<TParent>;
   schedule?: VehicleToScheduleResolver<TParent>;
+  consumption?: VehicleToConsumptionResolver<TParent>;
+  calendarURL?: VehicleToCalendarURLResolver<TParent>;
+  weeklySchedule?: VehicleToWeeklyScheduleResolver<TParent>;
   locationSettings?: VehicleToLocationSettingsResolver<TParent>;
   batteryLevel?: VehicleToBatteryLevelResolver<TParent>;
   odometer?: VehicleToOdometerResolver<TParent>;
@@ -880,9 +2061,12 @@ export interface GQLVehicleTypeResolver<TParent = GQLVehicle> {
   isConnected?: VehicleToIsConnectedResolver<TParent>;
   chargingTo?: VehicleToChargingToResolver<TParent>;
   estimatedTimeLeft?: VehicleToEstimatedTimeLeftResolver<TParent>;
+  maximumCurrent?: VehicleToMaximumCurrentResolver<TParent>;
+  currentLimit?: VehicleToCurrentLimitResolver<TParent>;
   isDriving?: VehicleToIsDrivingResolver<TParent>;
   status?: VehicleToStatusResolver<TParent>;
   smartStatus?: VehicleToSmartStatusResolver<TParent>;
+  healthWarning?: VehicleToHealthWarningResolver<TParent>;
   chargePlan?: VehicleToChargePlanResolver<TParent>;
   updated?: VehicleToUpdatedResolver<TParent>;
 }
@@ -927,6 +2111,18 @@ export interface VehicleToScheduleResolver<TParent = GQLVehicle, TResult = Array
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface VehicleToConsumptionResolver<TParent = GQLVehicle, TResult = GQLConsumption> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface VehicleToCalendarURLResolver<TParent = GQLVehicle, TResult = string | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface VehicleToWeeklyScheduleResolver<TParent = GQLVehicle, TResult = Array<GQLWeeklySchedule>> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface VehicleToLocationSettingsResolver<TParent = GQLVehicle, TResult = Array<GQLVehicleLocationSetting>> {
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
@@ -963,6 +2159,14 @@ export interface VehicleToEstimatedTimeLeftResolver<TParent = GQLVehicle, TResul
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface VehicleToMaximumCurrentResolver<TParent = GQLVehicle, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface VehicleToCurrentLimitResolver<TParent = GQLVehicle, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface VehicleToIsDrivingResolver<TParent = GQLVehicle, TResult = boolean> {
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
@@ -975,6 +2179,10 @@ export interface VehicleToSmartStatusResolver<TParent = GQLVehicle, TResult = st
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface VehicleToHealthWarningResolver<TParent = GQLVehicle, TResult = string | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface VehicleToChargePlanResolver<TParent = GQLVehicle, TResult = Array<GQLChargePlan> | null> {
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
@@ -989,6 +2197,7 @@ export interface GQLScheduleTypeResolver<TParent = GQLSchedule> {
   type?: ScheduleToTypeResolver<TParent>;
   level?: ScheduleToLevelResolver<TParent>;
   time?: ScheduleToTimeResolver<TParent>;
+  calendarUID?: ScheduleToCalendarUIDResolver<TParent>;
 }
 
 export interface ScheduleToIdResolver<TParent = GQLSchedule, TResult = number> {
@@ -1011,10 +2220,76 @@ export interface ScheduleToTimeResolver<TParent = GQLSchedule, TResult = GQLDate
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface ScheduleToCalendarUIDResolver<TParent = GQLSchedule, TResult = string | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface GQLConsumptionTypeResolver<TParent = GQLConsumption> {
+  trips?: ConsumptionToTripsResolver<TParent>;
+  levelPerKm?: ConsumptionToLevelPerKmResolver<TParent>;
+  whPerKm?: ConsumptionToWhPerKmResolver<TParent>;
+}
+
+export interface ConsumptionToTripsResolver<TParent = GQLConsumption, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ConsumptionToLevelPerKmResolver<TParent = GQLConsumption, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ConsumptionToWhPerKmResolver<TParent = GQLConsumption, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface GQLWeeklyScheduleTypeResolver<TParent = GQLWeeklySchedule> {
+  id?: WeeklyScheduleToIdResolver<TParent>;
+  vehicleID?: WeeklyScheduleToVehicleIDResolver<TParent>;
+  weekdays?: WeeklyScheduleToWeekdaysResolver<TParent>;
+  departure?: WeeklyScheduleToDepartureResolver<TParent>;
+  timezone?: WeeklyScheduleToTimezoneResolver<TParent>;
+  level?: WeeklyScheduleToLevelResolver<TParent>;
+  exceptions?: WeeklyScheduleToExceptionsResolver<TParent>;
+  nextDeparture?: WeeklyScheduleToNextDepartureResolver<TParent>;
+}
+
+export interface WeeklyScheduleToIdResolver<TParent = GQLWeeklySchedule, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface WeeklyScheduleToVehicleIDResolver<TParent = GQLWeeklySchedule, TResult = string> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface WeeklyScheduleToWeekdaysResolver<TParent = GQLWeeklySchedule, TResult = Array<number>> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface WeeklyScheduleToDepartureResolver<TParent = GQLWeeklySchedule, TResult = string> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface WeeklyScheduleToTimezoneResolver<TParent = GQLWeeklySchedule, TResult = string> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface WeeklyScheduleToLevelResolver<TParent = GQLWeeklySchedule, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface WeeklyScheduleToExceptionsResolver<TParent = GQLWeeklySchedule, TResult = Array<string>> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface WeeklyScheduleToNextDepartureResolver<TParent = GQLWeeklySchedule, TResult = GQLDateTime | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface GQLVehicleLocationSettingTypeResolver<TParent = GQLVehicleLocationSetting> {
   locationID?: VehicleLocationSettingToLocationIDResolver<TParent>;
   directLevel?: VehicleLocationSettingToDirectLevelResolver<TParent>;
   goal?: VehicleLocationSettingToGoalResolver<TParent>;
+  minimumCurrent?: VehicleLocationSettingToMinimumCurrentResolver<TParent>;
 }
 
 export interface VehicleLocationSettingToLocationIDResolver<TParent = GQLVehicleLocationSetting, TResult = string> {
@@ -1029,6 +2304,189 @@ export interface VehicleLocationSettingToGoalResolver<TParent = GQLVehicleLocati
   (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface VehicleLocationSettingToMinimumCurrentResolver<TParent = GQLVehicleLocationSetting, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface GQLChargePlanExplanationTypeResolver<TParent = GQLChargePlanExplanation> {
+  updated?: ChargePlanExplanationToUpdatedResolver<TParent>;
+  level?: ChargePlanExplanationToLevelResolver<TParent>;
+  maximumLevel?: ChargePlanExplanationToMaximumLevelResolver<TParent>;
+  directLevel?: ChargePlanExplanationToDirectLevelResolver<TParent>;
+  goal?: ChargePlanExplanationToGoalResolver<TParent>;
+  connected?: ChargePlanExplanationToConnectedResolver<TParent>;
+  prices?: ChargePlanExplanationToPricesResolver<TParent>;
+  priceAvailable?: ChargePlanExplanationToPriceAvailableResolver<TParent>;
+  forecastAvailable?: ChargePlanExplanationToForecastAvailableResolver<TParent>;
+  learning?: ChargePlanExplanationToLearningResolver<TParent>;
+  predictedLevel?: ChargePlanExplanationToPredictedLevelResolver<TParent>;
+  predictedDisconnect?: ChargePlanExplanationToPredictedDisconnectResolver<TParent>;
+  tripLevel?: ChargePlanExplanationToTripLevelResolver<TParent>;
+  tripDeparture?: ChargePlanExplanationToTripDepartureResolver<TParent>;
+  departureLevel?: ChargePlanExplanationToDepartureLevelResolver<TParent>;
+  departureTime?: ChargePlanExplanationToDepartureTimeResolver<TParent>;
+  thresholdPrice?: ChargePlanExplanationToThresholdPriceResolver<TParent>;
+  solarSurplus?: ChargePlanExplanationToSolarSurplusResolver<TParent>;
+  decisions?: ChargePlanExplanationToDecisionsResolver<TParent>;
+}
+
+export interface ChargePlanExplanationToUpdatedResolver<TParent = GQLChargePlanExplanation, TResult = GQLDateTime> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToLevelResolver<TParent = GQLChargePlanExplanation, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToMaximumLevelResolver<TParent = GQLChargePlanExplanation, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToDirectLevelResolver<TParent = GQLChargePlanExplanation, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToGoalResolver<TParent = GQLChargePlanExplanation, TResult = string> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToConnectedResolver<TParent = GQLChargePlanExplanation, TResult = boolean> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToPricesResolver<TParent = GQLChargePlanExplanation, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToPriceAvailableResolver<TParent = GQLChargePlanExplanation, TResult = GQLDateTime | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToForecastAvailableResolver<TParent = GQLChargePlanExplanation, TResult = GQLDateTime | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToLearningResolver<TParent = GQLChargePlanExplanation, TResult = boolean> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToPredictedLevelResolver<TParent = GQLChargePlanExplanation, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToPredictedDisconnectResolver<TParent = GQLChargePlanExplanation, TResult = GQLDateTime | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToTripLevelResolver<TParent = GQLChargePlanExplanation, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToTripDepartureResolver<TParent = GQLChargePlanExplanation, TResult = GQLDateTime | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToDepartureLevelResolver<TParent = GQLChargePlanExplanation, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToDepartureTimeResolver<TParent = GQLChargePlanExplanation, TResult = GQLDateTime | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToThresholdPriceResolver<TParent = GQLChargePlanExplanation, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToSolarSurplusResolver<TParent = GQLChargePlanExplanation, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanExplanationToDecisionsResolver<TParent = GQLChargePlanExplanation, TResult = Array<GQLChargePlanDecision>> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface GQLChargePlanDecisionTypeResolver<TParent = GQLChargePlanDecision> {
+  chargeType?: ChargePlanDecisionToChargeTypeResolver<TParent>;
+  comment?: ChargePlanDecisionToCommentResolver<TParent>;
+  level?: ChargePlanDecisionToLevelResolver<TParent>;
+  before?: ChargePlanDecisionToBeforeResolver<TParent>;
+  maxPrice?: ChargePlanDecisionToMaxPriceResolver<TParent>;
+  accepted?: ChargePlanDecisionToAcceptedResolver<TParent>;
+  reason?: ChargePlanDecisionToReasonResolver<TParent>;
+}
+
+export interface ChargePlanDecisionToChargeTypeResolver<TParent = GQLChargePlanDecision, TResult = GQLChargeType> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanDecisionToCommentResolver<TParent = GQLChargePlanDecision, TResult = string> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanDecisionToLevelResolver<TParent = GQLChargePlanDecision, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanDecisionToBeforeResolver<TParent = GQLChargePlanDecision, TResult = GQLDateTime | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanDecisionToMaxPriceResolver<TParent = GQLChargePlanDecision, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanDecisionToAcceptedResolver<TParent = GQLChargePlanDecision, TResult = boolean> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanDecisionToReasonResolver<TParent = GQLChargePlanDecision, TResult = string> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface GQLChargePlanHistoryTypeResolver<TParent = GQLChargePlanHistory> {
+  start?: ChargePlanHistoryToStartResolver<TParent>;
+  end?: ChargePlanHistoryToEndResolver<TParent>;
+  trigger?: ChargePlanHistoryToTriggerResolver<TParent>;
+  chargePlan?: ChargePlanHistoryToChargePlanResolver<TParent>;
+  plannedMinutes?: ChargePlanHistoryToPlannedMinutesResolver<TParent>;
+  chargedMinutes?: ChargePlanHistoryToChargedMinutesResolver<TParent>;
+  plannedLevel?: ChargePlanHistoryToPlannedLevelResolver<TParent>;
+  reachedLevel?: ChargePlanHistoryToReachedLevelResolver<TParent>;
+}
+
+export interface ChargePlanHistoryToStartResolver<TParent = GQLChargePlanHistory, TResult = GQLDateTime> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanHistoryToEndResolver<TParent = GQLChargePlanHistory, TResult = GQLDateTime> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanHistoryToTriggerResolver<TParent = GQLChargePlanHistory, TResult = string> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanHistoryToChargePlanResolver<TParent = GQLChargePlanHistory, TResult = Array<GQLChargePlan> | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanHistoryToPlannedMinutesResolver<TParent = GQLChargePlanHistory, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanHistoryToChargedMinutesResolver<TParent = GQLChargePlanHistory, TResult = number> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanHistoryToPlannedLevelResolver<TParent = GQLChargePlanHistory, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface ChargePlanHistoryToReachedLevelResolver<TParent = GQLChargePlanHistory, TResult = number | null> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface GQLResolverTestTypeResolver<TParent = GQLResolverTest> {
   isFieldResolverWorking?: ResolverTestToIsFieldResolverWorkingResolver<TParent>;
 }
@@ -1042,18 +2500,30 @@ export interface GQLMutationTypeResolver<TParent = undefined> {
   loginWithIDToken?: MutationToLoginWithIDTokenResolver<TParent>;
   newPriceList?: MutationToNewPriceListResolver<TParent>;
   updatePriceList?: MutationToUpdatePriceListResolver<TParent>;
+  updatePriceSchedule?: MutationToUpdatePriceScheduleResolver<TParent>;
   updateLocation?: MutationToUpdateLocationResolver<TParent>;
   removeLocation?: MutationToRemoveLocationResolver<TParent>;
   providerMutate?: MutationToProviderMutateResolver<TParent>;
   performAction?: MutationToPerformActionResolver<TParent>;
+  _setLogLevel?: MutationTo_setLogLevelResolver<TParent>;
+  _registerAgency?: MutationTo_registerAgencyResolver<TParent>;
+  _agencyHeartbeat?: MutationTo_agencyHeartbeatResolver<TParent>;
+  _releaseAgency?: MutationTo_releaseAgencyResolver<TParent>;
+  _updateAgentStatus?: MutationTo_updateAgentStatusResolver<TParent>;
   _updateVehicleData?: MutationTo_updateVehicleDataResolver<TParent>;
   _vehicleDebug?: MutationTo_vehicleDebugResolver<TParent>;
   _chargeCalibration?: MutationTo_chargeCalibrationResolver<TParent>;
   _updatePrice?: MutationTo_updatePriceResolver<TParent>;
+  _updateCarbonIntensity?: MutationTo_updateCarbonIntensityResolver<TParent>;
+  _updateMeterData?: MutationTo_updateMeterDataResolver<TParent>;
+  _importCalendar?: MutationTo_importCalendarResolver<TParent>;
   removeVehicle?: MutationToRemoveVehicleResolver<TParent>;
   updateVehicle?: MutationToUpdateVehicleResolver<TParent>;
   removeSchedule?: MutationToRemoveScheduleResolver<TParent>;
   updateSchedule?: MutationToUpdateScheduleResolver<TParent>;
+  removeWeeklySchedule?: MutationToRemoveWeeklyScheduleResolver<TParent>;
+  updateWeeklySchedule?: MutationToUpdateWeeklyScheduleResolver<TParent>;
+  importCalendar?: MutationToImportCalendarResolver<TParent>;
 }
 
 export interface MutationToLoginWithPasswordArgs {
@@ -1071,6 +2541,7 @@ export interface MutationToLoginWithIDTokenResolver<TParent = undefined, TResult
 }
 
 export interface MutationToNewPriceListArgs {
+  interval?: number;
   id?: string;
   isPublic?: boolean;
   name: string;
@@ -1086,6 +2557,14 @@ export interface MutationToUpdatePriceListResolver<TParent = undefined, TResult
   (parent: TParent, args: MutationToUpdatePriceListArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface MutationToUpdatePriceScheduleArgs {
+  schedule?: GQLPriceScheduleInput;
+  id: string;
+}
+export interface MutationToUpdatePriceScheduleResolver<TParent = undefined, TResult = GQLPriceList> {
+  (parent: TParent, args: MutationToUpdatePriceScheduleArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface MutationToUpdateLocationArgs {
   input: GQLUpdateLocationInput;
 }
@@ -1115,10 +2594,47 @@ export interface MutationToPerformActionArgs {
   serviceID: string;
   actionID?: number;
 }
-export interface MutationToPerformActionResolver<TParent = undefined, TResult = GQLJSONObject> {
+export interface MutationToPerformActionResolver<TParent = undefined, TResult = GQLAction> {
   (parent: TParent, args: MutationToPerformActionArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface MutationTo_setLogLevelArgs {
+  level: GQLLogLevel;
+}
+export interface MutationTo_setLogLevelResolver<TParent = undefined, TResult = GQLLogLevel> {
+  (parent: TParent, args: MutationTo_setLogLevelArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface MutationTo_registerAgencyArgs {
+  accept: Array<string>;
+  name: string;
+}
+export interface MutationTo_registerAgencyResolver<TParent = undefined, TResult = string> {
+  (parent: TParent, args: MutationTo_registerAgencyArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface MutationTo_agencyHeartbeatArgs {
+  agencyID: string;
+}
+export interface MutationTo_agencyHeartbeatResolver<TParent = undefined, TResult = GQLAgencyLease | null> {
+  (parent: TParent, args: MutationTo_agencyHeartbeatArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface MutationTo_releaseAgencyArgs {
+  agencyID: string;
+}
+export interface MutationTo_releaseAgencyResolver<TParent = undefined, TResult = boolean> {
+  (parent: TParent, args: MutationTo_releaseAgencyArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface MutationTo_updateAgentStatusArgs {
+  input: Array<GQLAgentStatusInput>;
+  agency: string;
+}
+export interface MutationTo_updateAgentStatusResolver<TParent = undefined, TResult = boolean> {
+  (parent: TParent, args: MutationTo_updateAgentStatusArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface MutationTo_updateVehicleDataArgs {
   input: GQLUpdateVehicleDataInput;
 }
@@ -1150,6 +2666,28 @@ export interface MutationTo_updatePriceResolver<TParent = undefined, TResult = b
   (parent: TParent, args: MutationTo_updatePriceArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface MutationTo_updateCarbonIntensityArgs {
+  input: GQLUpdateCarbonIntensityInput;
+}
+export interface MutationTo_updateCarbonIntensityResolver<TParent = undefined, TResult = boolean> {
+  (parent: TParent, args: MutationTo_updateCarbonIntensityArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface MutationTo_updateMeterDataArgs {
+  input: GQLUpdateMeterDataInput;
+}
+export interface MutationTo_updateMeterDataResolver<TParent = undefined, TResult = boolean> {
+  (parent: TParent, args: MutationTo_updateMeterDataArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface MutationTo_importCalendarArgs {
+  ics: string;
+  vehicleID: string;
+}
+export interface MutationTo_importCalendarResolver<TParent = undefined, TResult = boolean> {
+  (parent: TParent, args: MutationTo_importCalendarArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface MutationToRemoveVehicleArgs {
   confirm: string;
   id: string;
@@ -1174,6 +2712,7 @@ export interface MutationToRemoveScheduleResolver<TParent = undefined, TResult =
 }
 
 export interface MutationToUpdateScheduleArgs {
+  distance?: number;
   time?: GQLDateTime;
   level?: number;
   type: GQLScheduleType;
@@ -1184,6 +2723,42 @@ export interface MutationToUpdateScheduleResolver<TParent = undefined, TResult =
   (parent: TParent, args: MutationToUpdateScheduleArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
 }
 
+export interface MutationToRemoveWeeklyScheduleArgs {
+  vehicleID: string;
+  id: number;
+}
+export interface MutationToRemoveWeeklyScheduleResolver<TParent = undefined, TResult = boolean> {
+  (parent: TParent, args: MutationToRemoveWeeklyScheduleArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface MutationToUpdateWeeklyScheduleArgs {
+  input: GQLUpdateWeeklyScheduleInput;
+}
+export interface MutationToUpdateWeeklyScheduleResolver<TParent = undefined, TResult = Array<GQLWeeklySchedule>> {
+  (parent: TParent, args: MutationToUpdateWeeklyScheduleArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface MutationToImportCalendarArgs {
+  ics: string;
+  vehicleID: string;
+}
+export interface MutationToImportCalendarResolver<TParent = undefined, TResult = Array<GQLSchedule>> {
+  (parent: TParent, args: MutationToImportCalendarArgs, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface GQLAgencyLeaseTypeResolver<TParent = GQLAgencyLease> {
+  services?: AgencyLeaseToServicesResolver<TParent>;
+  globals?: AgencyLeaseToGlobalsResolver<TParent>;
+}
+
+export interface AgencyLeaseToServicesResolver<TParent = GQLAgencyLease, TResult = Array<GQLServiceProvider>> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
+export interface AgencyLeaseToGlobalsResolver<TParent = GQLAgencyLease, TResult = Array<string>> {
+  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
+}
+
 export interface GQLSubscriptionTypeResolver<TParent = undefined> {
   pingSubscription?: SubscriptionToPingSubscriptionResolver<TParent>;
   actionSubscription?: SubscriptionToActionSubscriptionResolver<TParent>;
@@ -1211,31 +2786,3 @@ export interface SubscriptionToVehicleSubscriptionResolver<TParent = undefined,
   resolve?: (parent: TParent, args: SubscriptionToVehicleSubscriptionArgs, context: any, info: GraphQLResolveInfo) => TResult | Promise<TResult>;
   subscribe: (parent: TParent, args: SubscriptionToVehicleSubscriptionArgs, context: any, info: GraphQLResolveInfo) => AsyncIterator<TResult> | Promise<AsyncIterator<TResult>>;
 }
-
-export interface GQLActionTypeResolver<TParent = GQLAction> {
-  actionID?: ActionToActionIDResolver<TParent>;
-  serviceID?: ActionToServiceIDResolver<TParent>;
-  providerName?: ActionToProviderNameResolver<TParent>;
-  action?: ActionToActionResolver<TParent>;
-  data?: ActionToDataResolver<TParent>;
-}
-
-export interface ActionToActionIDResolver<TParent = GQLAction, TResult = number> {
-  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
-}
-
-export interface ActionToServiceIDResolver<TParent = GQLAction, TResult = string> {
-  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
-}
-
-export interface ActionToProviderNameResolver<TParent = GQLAction, TResult = string> {
-  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
-}
-
-export interface ActionToActionResolver<TParent = GQLAction, TResult = string> {
-  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
-}
-
-export interface ActionToDataResolver<TParent = GQLAction, TResult = GQLJSONObject> {
-  (parent: TParent, args: {}, context: any, info: GraphQLResolveInfo): TResult | Promise<TResult>;
-}
@@ -12,10 +12,19 @@ export enum EventType {
   Trip = "trip",
 }
 
+export enum ActionStatus {
+  Queued = "queued",
+  Dispatched = "dispatched",
+  Succeeded = "succeeded",
+  Failed = "failed",
+  Expired = "expired",
+}
+
 export enum SmartChargeGoal {
   Low = "low",
   Balanced = "balanced",
   Full = "full",
+  Care = "care",
 }
 
 export enum ChargeType {
@@ -27,6 +36,7 @@ export enum ChargeType {
   Routine = "routine",
   Prefered = "prefered",
   Fill = "fill",
+  Solar = "solar",
 }
 
 export enum ChargeConnection {
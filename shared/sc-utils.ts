@@ -11,7 +11,7 @@ import {
   GQLVehicle,
 } from "./sc-schema";
 import { compareStartTimes } from "./utils";
-import { DEFAULT_DIRECTLEVEL } from "./smartcharge-defines";
+import { DEFAULT_DIRECTLEVEL, TRIP_SAFETY_MARGIN } from "./smartcharge-defines";
 import { SmartChargeGoal } from "./sc-types";
 
 export function scheduleMap(
@@ -33,6 +33,7 @@ export function DefaultVehicleLocationSettings(
     locationID: location_uuid,
     directLevel: DEFAULT_DIRECTLEVEL,
     goal: SmartChargeGoal.Balanced,
+    minimumCurrent: null,
   };
 }
 
@@ -47,3 +48,15 @@ export function getVehicleLocationSettings(
     DefaultVehicleLocationSettings(findID)
   );
 }
+
+// Battery level needed before a trip of distance km, keeping directLevel as reserve
+export function tripLevel(
+  directLevel: number,
+  distance: number,
+  levelPerKm: number
+): number {
+  return Math.min(
+    100,
+    Math.ceil(directLevel + distance * levelPerKm * (1 + TRIP_SAFETY_MARGIN))
+  );
+}
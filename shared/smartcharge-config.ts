@@ -22,6 +22,11 @@ const config = {
   GLOBAL_INFO_MESSAGE: undefined,
   GLOBAL_WARNING_MESSAGE: undefined,
   GLOBAL_ERROR_MESSAGE: undefined,
+  PRICE_FORECAST_HOURS: 96, // forecast prices this far ahead for locations that opt in, 0 to disable
+  PRICE_FORECAST_CONFIDENCE: 0.5, // 0-1, how much the planner trusts forecasted prices
+  METRICS_TOKEN: "", // bearer token required to read /metrics, disabled if empty
+  LOG_LEVEL: "trace", // silent, error, warning, info, debug or trace
+  LOG_FORMAT: "text", // text or json (one JSON object per line)
 };
 
 if (process && process.env) {
@@ -19,3 +19,26 @@ export const DEFAULT_DIRECTLEVEL = 15; // Default direct level if no setting for
 
 export const SCHEDULE_TOPUP_MARGIN = 20 * 60e3; // 20 minutes before departure time
 export const MIN_STATS_PERIOD = 1 * 60e3; // 1 minute
+
+export const METER_DATA_WINDOW = 5 * 60e3; // average grid power over 5 minutes
+export const SOLAR_MINIMUM_POWER = 1400; // Minimum solar surplus (W) to start charging
+export const SOLAR_PLAN_WINDOW = 5 * 60e3; // solar charge plan entries are valid for 5 minutes
+export const MINIMUM_CHARGE_CURRENT = 6; // Lowest charge current (A) allowed by IEC 61851
+export const MAINS_VOLTAGE = 230; // Phase voltage used to convert house load into current
+export const MAINS_PHASES = 3; // House load is assumed to be spread over three phases
+export const CALENDAR_HORIZON = 14 * 24 * 60 * 60e3; // import calendar trips two weeks ahead
+export const CALENDAR_ROAD_FACTOR = 1.3; // road distance compared to straight line distance
+export const DEFAULT_LEVEL_PER_KM = 0.2; // battery % used per km until trips have been recorded
+export const CONSUMPTION_MIN_TRIPS = 10; // trips needed before temperature is taken into account
+export const TRIP_SAFETY_MARGIN = 0.15; // extra charge (15%) added to the estimated trip usage
+export const PRICE_FORECAST_HISTORY = 4 * 7 * 24 * 60 * 60e3; // price history used for forecasting (4 weeks)
+export const BATTERY_CARE_LEVEL = 55; // battery care storage level (%)
+export const BATTERY_CARE_HIGH = 80; // battery care charges above this level (%) just before departure
+export const BATTERY_CARE_PENALTY = 0.05; // cost of holding a high level, part of the average price per hour
+export const BATTERY_CARE_IDLE = 36 * 60 * 60e3; // stay at storage level when no departure is predicted within 36 hours
+export const PRICE_SCHEDULE_AHEAD = 7 * 24 * 60 * 60e3; // manual price lists are generated a week ahead
+export const AGENCY_HEARTBEAT = 60e3; // agencies renew their job leases every minute
+export const AGENCY_LEASE_TIMEOUT = 3 * 60e3; // jobs of an agency are taken over after 3 minutes without heartbeat
+export const ACTION_TIMEOUT = 10 * 60e3; // actions not done within 10 minutes expire
+export const AGENT_STALE_REPORT = 10 * 60e3; // vehicles get a warning when no agent has reported health for 10 minutes
+export const AGENT_STALE_POLL = 60 * 60e3; // vehicles get a warning when not successfully polled for an hour
@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+
+/**
+ * @file Minimal test runner for smartcharge.dev project
+ * @author Fredrik Lidström
+ * @copyright 2020 Fredrik Lidström
+ * @license MIT (MIT)
+ * @description Runs all *.test.js files found in the given (babel build)
+ * directories, test files register their cases with test()
+ */
+
+import assert from "assert";
+import fs from "fs";
+import path from "path";
+import { LogLevel, parseLogLevel, setLogLevel } from "./utils";
+
+interface TestCase {
+  name: string;
+  fn: () => Promise<void> | void;
+}
+let cases: TestCase[] = [];
+
+export function test(name: string, fn: () => Promise<void> | void) {
+  cases.push({ name, fn });
+}
+
+// Numbers (or arrays of numbers) equal within floating point precision
+export function assertClose(
+  actual: number | number[],
+  expected: number | number[],
+  epsilon: number = 1e-9
+) {
+  const a = Array.isArray(actual) ? actual : [actual];
+  const e = Array.isArray(expected) ? expected : [expected];
+  assert.strictEqual(a.length, e.length, `expected ${e.length} values`);
+  a.forEach((v, i) =>
+    assert.ok(Math.abs(v - e[i]) <= epsilon, `expected ${e}, got ${a}`)
+  );
+}
+
+function findTests(dir: string): string[] {
+  const list: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== "node_modules") list.push(...findTests(file));
+    } else if (entry.name.endsWith(".test.js")) {
+      list.push(file);
+    }
+  }
+  return list.sort();
+}
+
+async function run(dirs: string[]): Promise<number> {
+  let failed = 0;
+  for (const file of dirs.flatMap((d) => findTests(d))) {
+    cases = [];
+    require(path.resolve(file));
+    for (const c of cases) {
+      try {
+        await c.fn();
+        process.stdout.write(`ok ${file} ${c.name}\n`);
+      } catch (err: any) {
+        failed++;
+        process.stdout.write(
+          `FAILED ${file} ${c.name}\n${(err && err.stack) || err}\n`
+        );
+      }
+    }
+  }
+  return failed;
+}
+
+if (require.main === module) {
+  // Code under test is quiet unless LOG_LEVEL is set
+  setLogLevel(
+    process.env.LOG_LEVEL
+      ? parseLogLevel(process.env.LOG_LEVEL)
+      : LogLevel.Silent
+  );
+  run(process.argv.slice(2)).then((failed) => {
+    process.stdout.write(
+      failed > 0 ? `${failed} test(s) failed\n` : `All tests passed\n`
+    );
+    process.exit(failed > 0 ? 1 : 0);
+  });
+}
@@ -20,10 +20,43 @@ export let LOGLEVEL = LogLevel.Trace;
 export function setLogLevel(level: LogLevel) {
   LOGLEVEL = level;
 }
+// Log level from its name (case insensitive) or number
+export function parseLogLevel(name: string): LogLevel {
+  const level = isNaN(Number(name))
+    ? (LogLevel as any)[
+        Object.keys(LogLevel).find(
+          (k) => k.toLowerCase() === name.toLowerCase()
+        ) || ""
+      ]
+    : Number(name);
+  if (LogLevel[level] === undefined) {
+    throw new Error(`Unknown log level ${name}`);
+  }
+  return level;
+}
+
+export enum LogFormat {
+  Text = "text",
+  JSON = "json", // one JSON object per line
+}
+export let LOGFORMAT = LogFormat.Text;
+export function setLogFormat(format: LogFormat) {
+  LOGFORMAT = format;
+}
+
+// Structured context added to log entries
+export interface LogFields {
+  vehicle_uuid?: string;
+  service_uuid?: string;
+  account_uuid?: string;
+  provider?: string;
+  request_id?: string;
+  [field: string]: any;
+}
 
-export function log(level: LogLevel, data: any) {
+export function log(level: LogLevel, data: any, fields?: LogFields) {
   if (level <= LOGLEVEL) {
-    const s = logFormat(level, data);
+    const s = logFormat(level, data, fields);
     switch (level) {
       case LogLevel.Error:
       case LogLevel.Warning:
@@ -39,14 +72,43 @@ export function log(level: LogLevel, data: any) {
     }
   }
 }
-export function logFormat(level: LogLevel, data: any): string {
-  return `${new Date().toISOString()} ${logSymbol[level]} ${
+export function logFormat(
+  level: LogLevel,
+  data: any,
+  fields?: LogFields
+): string {
+  const message =
     data instanceof Error
       ? (data as Error).message
       : typeof data === "object"
       ? JSON.stringify(data)
-      : data
-  }`;
+      : data;
+  const context = Object.entries(fields || {}).filter(
+    ([_k, v]) => v !== undefined && v !== null
+  );
+  if (LOGFORMAT === LogFormat.JSON) {
+    // fields first, so they can never replace the standard keys
+    return JSON.stringify({
+      ...Object.fromEntries(context),
+      time: new Date().toISOString(),
+      level: LogLevel[level].toLowerCase(),
+      message,
+      ...(data instanceof Error && data.stack ? { stack: data.stack } : {}),
+    });
+  }
+  return `${new Date().toISOString()} ${logSymbol[level]} ${message}${context
+    .map(([k, v]) => ` ${k}=${v}`)
+    .join("")}`;
+}
+/**
+ * Logger with fields added to every entry, e.g.
+ *   const vlog = logger({ vehicle_uuid });
+ *   vlog(LogLevel.Info, `Started charge`);
+ */
+export type Logger = (level: LogLevel, data: any, fields?: LogFields) => void;
+export function logger(fields: LogFields): Logger {
+  return (level: LogLevel, data: any, more?: LogFields) =>
+    log(level, data, more ? { ...fields, ...more } : fields);
 }
 
 export function arrayMean(list: number[]) {
@@ -275,6 +337,27 @@ export function relativeTime(when: Date): { date: string; time: string } {
   return { date: datestr, time: thenLocal.toFormat("HH:mm") };
 }
 
+// Next departure of a weekly schedule after now, skipping exception dates
+export function nextWeeklyDeparture(
+  weekdays: number[],
+  departure: string, // local time (HH:mm)
+  timezone: string,
+  exceptions: string[], // dates (yyyy-MM-dd)
+  now: number
+): number | null {
+  const [hour, minute] = departure.split(":").map((f) => parseInt(f));
+  const today = DateTime.fromMillis(now, { zone: timezone }).startOf("day");
+  // look a few months ahead to get past long holiday exceptions
+  for (let day = 0; day < 100; ++day) {
+    const date = today.plus({ days: day });
+    if (!weekdays.includes(date.weekday)) continue;
+    if (exceptions.includes(date.toISODate())) continue;
+    const ts = date.set({ hour, minute }).toMillis();
+    if (ts > now) return ts;
+  }
+  return null;
+}
+
 export function capitalize(s: string): string {
   if (typeof s !== "string") return "";
   return s.charAt(0).toUpperCase() + s.slice(1);